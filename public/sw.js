@@ -0,0 +1,107 @@
+// Keeps the app shell and saved map tiles available without a connection.
+// Restroom data is not handled here: the repository falls back to the
+// regions saved in IndexedDB (see src/data/repository/offline.ts).
+
+const SHELL_CACHE = "reststop-shell-v1";
+const ASSET_CACHE = "reststop-assets-v1";
+// Filled by the offline region download in src/data/offline/tiles.ts
+const TILE_CACHE = "reststop-tiles";
+
+const SHELL_URLS = ["/", "/manifest.webmanifest", "/icon.svg", "/favicon.ico"];
+
+// The app registers this worker with its tile URL template (VITE_TILE_URL or
+// the OSM default) in ?tiles=, e.g. "/tiles/{z}/{x}/{y}.png" for a
+// self-hosted proxy. Tiles are matched on that, whatever their origin.
+const DEFAULT_TILE_URL = "https://tile.openstreetmap.org/{z}/{x}/{y}.png";
+
+const absoluteTemplate = (template) => {
+  if (template.startsWith("//")) return `${self.location.protocol}${template}`;
+  if (template.startsWith("/")) return `${self.location.origin}${template}`;
+  return template;
+};
+
+const tileUrlPattern = (template) => {
+  const source = absoluteTemplate(template)
+    .replace(/[.*+?^$()|[\]\\]/g, "\\$&")
+    .replace(/\{[xyz]\}/g, "\\d+")
+    .replace("{r}", "(@2x)?");
+  return new RegExp(`^${source}$`);
+};
+
+const TILE_URL = tileUrlPattern(new URL(self.location.href).searchParams.get("tiles") || DEFAULT_TILE_URL);
+
+self.addEventListener("install", (event) => {
+  event.waitUntil(
+    caches.open(SHELL_CACHE)
+      .then((cache) => cache.addAll(SHELL_URLS))
+      .then(() => self.skipWaiting())
+  );
+});
+
+self.addEventListener("activate", (event) => {
+  const current = [SHELL_CACHE, ASSET_CACHE, TILE_CACHE];
+  event.waitUntil(
+    caches.keys()
+      .then((keys) => Promise.all(
+        keys
+          .filter((key) => key.startsWith("reststop-") && !current.includes(key))
+          .map((key) => caches.delete(key))
+      ))
+      .then(() => self.clients.claim())
+  );
+});
+
+// Every route is rendered by the single page, so any navigation can be
+// answered with the cached index.html
+const handleNavigation = async (request) => {
+  try {
+    const response = await fetch(request);
+    if (response.ok) {
+      const cache = await caches.open(SHELL_CACHE);
+      await cache.put("/", response.clone());
+    }
+    return response;
+  } catch (error) {
+    const cached = await caches.match("/");
+    if (cached) return cached;
+    throw error;
+  }
+};
+
+// Only tiles from saved regions are cached; anything else comes from the
+// network (and the browser's HTTP cache)
+const handleTile = async (request) => {
+  const cache = await caches.open(TILE_CACHE);
+  return (await cache.match(request.url)) || fetch(request);
+};
+
+// Build output has content hashes in its file names, so a cached copy
+// never goes stale
+const handleAsset = async (request) => {
+  const cache = await caches.open(ASSET_CACHE);
+  const cached = await cache.match(request);
+  if (cached) return cached;
+
+  const response = await fetch(request);
+  if (response.ok) {
+    await cache.put(request, response.clone());
+  }
+  return response;
+};
+
+self.addEventListener("fetch", (event) => {
+  const { request } = event;
+  if (request.method !== "GET") return;
+
+  const url = new URL(request.url);
+
+  if (request.mode === "navigate") {
+    event.respondWith(handleNavigation(request));
+  } else if (TILE_URL.test(url.href)) {
+    event.respondWith(handleTile(request));
+  } else if (url.origin === self.location.origin && url.pathname.startsWith("/assets/")) {
+    event.respondWith(handleAsset(request));
+  } else if (url.origin === self.location.origin && SHELL_URLS.includes(url.pathname)) {
+    event.respondWith(caches.match(request).then((cached) => cached || fetch(request)));
+  }
+});
@@ -1,180 +1,338 @@
 
-import { useState } from "react";
+import { useCallback, useEffect, useMemo, useState } from "react";
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Textarea } from "@/components/ui/textarea";
 import { Checkbox } from "@/components/ui/checkbox";
 import { Label } from "@/components/ui/label";
+import { Slider } from "@/components/ui/slider";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import {
+  Form,
+  FormControl,
+  FormDescription,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from "@/components/ui/form";
 import { toast } from "@/hooks/use-toast";
-import { addRestroom } from "@/data/userRestrooms";
+import { useAddRestroom } from "@/hooks/use-restrooms";
+import { useLanguage } from "@/hooks/use-language";
+import { isStorageFull } from "@/data/repository";
+import { getSubmissionStatus, hasModerators } from "@/data/moderation";
 import { Restroom } from "@/types";
 import { defaultLocation } from "@/data/restrooms";
+import { formatWeeklyHours } from "@/data/openingHours";
+import { getGeocoder } from "@/data/geocoder";
+import { LocationPicker } from "@/components/LocationPicker";
+import { AmenityPicker } from "@/components/restroom-form/AmenityPicker";
+import { OpeningHoursEditor } from "@/components/restroom-form/OpeningHoursEditor";
+import {
+  AddRestroomFormValues,
+  businessTypeOptions,
+  createAddRestroomSchema,
+  defaultAddRestroomValues,
+  toWeeklyHours,
+} from "@/components/restroom-form/schema";
+import { Search } from "lucide-react";
 
 interface AddRestroomFormProps {
-  onRestroomAdded: (newRestrooms: Restroom[]) => void;
+  onRestroomAdded: (restroom: Restroom) => void;
   onCancel: () => void;
 }
 
 export function AddRestroomForm({ onRestroomAdded, onCancel }: AddRestroomFormProps) {
-  const [name, setName] = useState("");
-  const [description, setDescription] = useState("");
-  const [address, setAddress] = useState("");
-  const [accessibility, setAccessibility] = useState(false);
-  const [babyChanging, setBabyChanging] = useState(false);
-  const [genderNeutral, setGenderNeutral] = useState(false);
-  const [businessType, setBusinessType] = useState<
-    "gas_station" | "cafe" | "restaurant" | "hotel" | "public" | "other"
-  >("public");
-
-  const handleSubmit = (e: React.FormEvent) => {
-    e.preventDefault();
-    
-    // Validate form
-    if (!name.trim() || !address.trim()) {
-      toast({
-        title: "Error",
-        description: "Please provide a name and address for the restroom.",
-        variant: "destructive",
-      });
-      return;
+  const { t } = useLanguage();
+  const schema = useMemo(() => createAddRestroomSchema(t), [t]);
+  const form = useForm<AddRestroomFormValues>({
+    resolver: zodResolver(schema),
+    defaultValues: defaultAddRestroomValues(defaultLocation),
+  });
+  const [nearbyPlace, setNearbyPlace] = useState<string | null>(null);
+  const [isLocating, setIsLocating] = useState(false);
+  const addRestroom = useAddRestroom();
+
+  const position = form.watch("position");
+  const address = form.watch("address");
+
+  // Look up which locality the pin is in whenever it moves
+  useEffect(() => {
+    let cancelled = false;
+
+    getGeocoder()
+      .reverse(position.lat, position.lng)
+      .then(result => {
+        if (!cancelled) setNearbyPlace(result?.label ?? null);
+      })
+      .catch(error => console.error("Error looking up location:", error));
+
+    return () => {
+      cancelled = true;
+    };
+  }, [position.lat, position.lng]);
+
+  const handlePositionChange = useCallback((value: { lat: number; lng: number }) => {
+    form.setValue("position", value, { shouldDirty: true });
+  }, [form]);
+
+  // Move the pin to the typed address
+  const handleLocateAddress = async () => {
+    if (!address.trim()) return;
+
+    setIsLocating(true);
+    try {
+      const [bestMatch] = await getGeocoder().search(address);
+      if (bestMatch) {
+        handlePositionChange({ lat: bestMatch.lat, lng: bestMatch.lng });
+        toast({
+          title: t("form.locationFound"),
+          description: t("form.pinMoved", { place: bestMatch.label }),
+        });
+      } else {
+        toast({
+          title: t("form.addressNotFound"),
+          description: t("form.placePinManually"),
+          variant: "destructive",
+        });
+      }
+    } catch (error) {
+      console.error("Error geocoding address:", error);
+    } finally {
+      setIsLocating(false);
     }
+  };
+
+  const handleSubmit = async (values: AddRestroomFormValues) => {
+    const hours = toWeeklyHours(values);
 
     // Create new restroom object
     const newRestroom: Restroom = {
       id: `user-${Date.now()}`,
-      name,
-      description,
+      name: values.name,
+      description: values.description,
       location: {
-        lat: defaultLocation.lat + (Math.random() * 0.01 - 0.005), // Random location near default
-        lng: defaultLocation.lng + (Math.random() * 0.01 - 0.005), // Random location near default
-        address,
+        lat: values.position.lat,
+        lng: values.position.lng,
+        address: values.address,
         city: "Coimbatore",
         state: "Tamil Nadu"
       },
-      amenities: ["toilet", "sink"],
+      amenities: values.amenities,
       cleanliness: {
-        score: 85, // Default good score for user-added restrooms
+        // The contributor's 1-5 rating on the app's 100-point scale
+        score: values.cleanlinessRating * 20,
         lastUpdated: new Date().toISOString(),
         reports: 1
       },
-      accessibility,
-      babyChanging,
-      genderNeutral,
+      accessibility: values.accessibility,
+      babyChanging: values.babyChanging,
+      genderNeutral: values.genderNeutral,
       reviews: [],
+      status: getSubmissionStatus(hasModerators()),
       businessInfo: {
-        type: businessType,
+        type: values.businessType,
         partnerStatus: "none",
-        openHours: "9:00 AM - 9:00 PM"
+        openHours: formatWeeklyHours(hours),
+        hours
       }
     };
 
-    // Add to user restrooms
-    const updatedRestrooms = addRestroom(newRestroom);
-    
-    // Notify parent component
-    onRestroomAdded(updatedRestrooms);
-    
-    // Show success message
-    toast({
-      title: "Restroom Added",
-      description: "Your restroom has been added successfully!",
-    });
+    try {
+      // Save through the restroom repository
+      const savedRestroom = await addRestroom.mutateAsync(newRestroom);
+
+      // Notify parent component
+      onRestroomAdded(savedRestroom);
+
+      // Show success message
+      toast({
+        title: t("form.added"),
+        description: savedRestroom.status === "pending" ? t("form.addedPending") : t("form.addedApproved"),
+      });
+    } catch (error) {
+      console.error("Error adding restroom:", error);
+      toast({
+        title: t("form.error"),
+        description: isStorageFull(error) ? t("form.storageFull") : t("form.saveFailed"),
+        variant: "destructive",
+      });
+    }
   };
 
   return (
     <Card>
       <CardHeader>
-        <CardTitle>Add New Restroom</CardTitle>
+        <CardTitle>{t("form.title")}</CardTitle>
       </CardHeader>
       <CardContent>
-        <form onSubmit={handleSubmit} className="space-y-4">
-          <div className="space-y-2">
-            <Label htmlFor="name">Restroom Name *</Label>
-            <Input
-              id="name"
-              value={name}
-              onChange={(e) => setName(e.target.value)}
-              placeholder="e.g. Coffee Corner Restroom"
-              required
+        <Form {...form}>
+          <form onSubmit={form.handleSubmit(handleSubmit)} className="space-y-4">
+            <FormField
+              control={form.control}
+              name="name"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>{t("form.name")}</FormLabel>
+                  <FormControl>
+                    <Input placeholder={t("form.namePlaceholder")} {...field} />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
             />
-          </div>
-          
-          <div className="space-y-2">
-            <Label htmlFor="description">Description</Label>
-            <Textarea
-              id="description"
-              value={description}
-              onChange={(e) => setDescription(e.target.value)}
-              placeholder="Provide a brief description of the restroom"
+
+            <FormField
+              control={form.control}
+              name="description"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>{t("form.description")}</FormLabel>
+                  <FormControl>
+                    <Textarea placeholder={t("form.descriptionPlaceholder")} {...field} />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
             />
-          </div>
-          
-          <div className="space-y-2">
-            <Label htmlFor="address">Address *</Label>
-            <Input
-              id="address"
-              value={address}
-              onChange={(e) => setAddress(e.target.value)}
-              placeholder="e.g. 123 RS Puram Main Road"
-              required
+
+            <FormField
+              control={form.control}
+              name="address"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>{t("form.address")}</FormLabel>
+                  <div className="flex gap-2">
+                    <FormControl>
+                      <Input placeholder={t("form.addressPlaceholder")} {...field} />
+                    </FormControl>
+                    <Button
+                      type="button"
+                      variant="outline"
+                      onClick={handleLocateAddress}
+                      disabled={!address.trim() || isLocating}
+                    >
+                      <Search className="h-4 w-4 mr-1" />
+                      {isLocating ? t("form.locating") : t("form.locate")}
+                    </Button>
+                  </div>
+                  <FormMessage />
+                </FormItem>
+              )}
             />
-          </div>
-          
-          <div className="space-y-2">
-            <Label htmlFor="businessType">Type</Label>
-            <Select value={businessType} onValueChange={(value: any) => setBusinessType(value)}>
-              <SelectTrigger>
-                <SelectValue placeholder="Select type" />
-              </SelectTrigger>
-              <SelectContent>
-                <SelectItem value="public">Public</SelectItem>
-                <SelectItem value="cafe">Cafe</SelectItem>
-                <SelectItem value="restaurant">Restaurant</SelectItem>
-                <SelectItem value="hotel">Hotel</SelectItem>
-                <SelectItem value="gas_station">Gas Station</SelectItem>
-                <SelectItem value="other">Other</SelectItem>
-              </SelectContent>
-            </Select>
-          </div>
-          
-          <div className="space-y-4">
-            <div className="flex items-center gap-2">
-              <Checkbox
-                id="accessibility"
-                checked={accessibility}
-                onCheckedChange={(checked) => setAccessibility(!!checked)}
-              />
-              <Label htmlFor="accessibility">Accessible</Label>
+
+            <div className="space-y-2">
+              <Label>{t("form.location")}</Label>
+              <LocationPicker value={{ lat: position.lat, lng: position.lng }} onChange={handlePositionChange} />
+              {nearbyPlace && (
+                <p className="text-sm text-muted-foreground">{t("form.pinNear", { place: nearbyPlace })}</p>
+              )}
             </div>
-            
-            <div className="flex items-center gap-2">
-              <Checkbox
-                id="babyChanging"
-                checked={babyChanging}
-                onCheckedChange={(checked) => setBabyChanging(!!checked)}
-              />
-              <Label htmlFor="babyChanging">Baby Changing Station</Label>
+
+            <FormField
+              control={form.control}
+              name="businessType"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>{t("form.type")}</FormLabel>
+                  <Select value={field.value} onValueChange={field.onChange}>
+                    <FormControl>
+                      <SelectTrigger>
+                        <SelectValue placeholder={t("form.typePlaceholder")} />
+                      </SelectTrigger>
+                    </FormControl>
+                    <SelectContent>
+                      {businessTypeOptions.map(option => (
+                        <SelectItem key={option.value} value={option.value}>
+                          {t(option.label)}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            <div className="space-y-4">
+              {([
+                ["accessibility", "restroom.accessible"],
+                ["babyChanging", "form.babyChanging"],
+                ["genderNeutral", "restroom.genderNeutral"],
+              ] as const).map(([name, label]) => (
+                <FormField
+                  key={name}
+                  control={form.control}
+                  name={name}
+                  render={({ field }) => (
+                    <FormItem className="flex items-center gap-2 space-y-0">
+                      <FormControl>
+                        <Checkbox
+                          checked={field.value}
+                          onCheckedChange={(checked) => field.onChange(!!checked)}
+                        />
+                      </FormControl>
+                      <FormLabel>{t(label)}</FormLabel>
+                    </FormItem>
+                  )}
+                />
+              ))}
+            </div>
+
+            <FormField
+              control={form.control}
+              name="amenities"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>{t("amenities.title")}</FormLabel>
+                  <AmenityPicker value={field.value} onChange={field.onChange} />
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            <div className="space-y-2">
+              <Label>{t("form.openingHours")}</Label>
+              <OpeningHoursEditor control={form.control} />
             </div>
-            
-            <div className="flex items-center gap-2">
-              <Checkbox
-                id="genderNeutral"
-                checked={genderNeutral}
-                onCheckedChange={(checked) => setGenderNeutral(!!checked)}
-              />
-              <Label htmlFor="genderNeutral">Gender Neutral</Label>
+
+            <FormField
+              control={form.control}
+              name="cleanlinessRating"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>{t("form.cleanliness")}</FormLabel>
+                  <div className="flex items-center gap-2">
+                    <FormControl>
+                      <Slider
+                        min={1}
+                        max={5}
+                        step={1}
+                        value={[field.value]}
+                        onValueChange={(values) => field.onChange(values[0])}
+                      />
+                    </FormControl>
+                    <span className="font-medium w-8">{field.value}/5</span>
+                  </div>
+                  <FormDescription>{t("form.cleanlinessHint")}</FormDescription>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            <div className="flex gap-2 justify-end pt-4">
+              <Button variant="outline" type="button" onClick={onCancel}>
+                {t("common.cancel")}
+              </Button>
+              <Button type="submit" disabled={addRestroom.isPending}>
+                {addRestroom.isPending ? t("form.submitting") : t("form.submit")}
+              </Button>
             </div>
-          </div>
-          
-          <div className="flex gap-2 justify-end pt-4">
-            <Button variant="outline" type="button" onClick={onCancel}>
-              Cancel
-            </Button>
-            <Button type="submit">Add Restroom</Button>
-          </div>
-        </form>
+          </form>
+        </Form>
       </CardContent>
     </Card>
   );
@@ -3,68 +3,93 @@ import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { ScrollArea } from "@/components/ui/scroll-area";
 import { Card, CardContent } from "@/components/ui/card";
-import { MessageSquare, Send, X, Mic, MicOff } from "lucide-react";
+import { MessageSquare, Send, X, Mic, MicOff, Loader2, Car, Volume2, VolumeX } from "lucide-react";
 import { ChatMessage } from "@/types";
-import { getAllRestrooms, getRestroomsByLocation, getCleanlinessTier, defaultLocation } from "@/data/restrooms";
-import { getNearbyRestrooms, getUserRestrooms } from "@/data/userRestrooms";
+import { defaultLocation } from "@/data/restrooms";
+import { ConversationState, getAssistant, initialConversation } from "@/data/assistant";
+import { findWakePhrase } from "@/data/nlu";
+import { useRestrooms } from "@/hooks/use-restrooms";
+import { useReportCleanliness } from "@/hooks/use-feedback";
+import { useLanguage } from "@/hooks/use-language";
+import { useSpeechRecognition, useSpeechSynthesis } from "@/hooks/use-speech";
 import { toast } from "sonner";
 import { Map as MapIcon } from "lucide-react"; // Add map icon for navigation button
 
-// Define SpeechRecognition interface for TypeScript
-interface SpeechRecognitionEvent extends Event {
-  results: SpeechRecognitionResultList;
-}
-
-interface SpeechRecognitionResult {
-  transcript: string;
-  confidence: number;
-}
-
-interface SpeechRecognitionInterface extends EventTarget {
-  continuous: boolean;
-  interimResults: boolean;
-  lang: string;
-  start: () => void;
-  stop: () => void;
-  abort: () => void;
-  onresult: ((event: SpeechRecognitionEvent) => void) | null;
-  onerror: ((event: Event) => void) | null;
-  onend: ((event: Event) => void) | null;
-}
-
-// Add global declarations for browser compatibility
-declare global {
-  interface Window {
-    SpeechRecognition?: new () => SpeechRecognitionInterface;
-    webkitSpeechRecognition?: new () => SpeechRecognitionInterface;
-  }
-}
+const SPEAK_REPLIES_KEY = "reststop-speak-replies";
 
 interface ChatbotProps {
-  onFindNearbyRestrooms: (query: string) => void;
+  // Shows a set of restrooms on the map, optionally selecting one of them
+  onShowRestrooms: (restroomIds: string[], focusId?: string) => void;
 }
 
-export function Chatbot({ onFindNearbyRestrooms }: ChatbotProps) {
+export function Chatbot({ onShowRestrooms }: ChatbotProps) {
+  const { data: allRestrooms = [] } = useRestrooms();
+  const reportCleanliness = useReportCleanliness();
+  const { language, option, t } = useLanguage();
   const [isOpen, setIsOpen] = useState(false);
   const [message, setMessage] = useState("");
-  const [messages, setMessages] = useState<ChatMessage[]>([
-    {
-      id: "welcome",
-      content: "Hello! I'm your RestStop assistant for Coimbatore district. I can help you find restrooms across the entire district, including areas like Vadavalli, Saibaba Colony, Ganapathy and many more locations. How can I help you today?",
-      sender: "bot",
-      timestamp: new Date().toISOString(),
-    },
-  ]);
-  const [isListening, setIsListening] = useState(false);
+  const [messages, setMessages] = useState<ChatMessage[]>([]);
+  // Built on render so it follows the language switcher
+  const welcomeMessage: ChatMessage = {
+    id: "welcome",
+    content: t("chat.welcome"),
+    sender: "bot",
+    timestamp: "",
+  };
+  // True while the assistant works on an answer; one question at a time so
+  // each reply builds on the conversation state of the one before
+  const [isThinking, setIsThinking] = useState(false);
   const scrollAreaRef = useRef<HTMLDivElement>(null);
   const [currentLocation, setCurrentLocation] = useState(defaultLocation);
   const [hasLocationPermission, setHasLocationPermission] = useState(false);
-  const [showMapFromBot, setShowMapFromBot] = useState(false);
-  const [pendingMapQuery, setPendingMapQuery] = useState<string | null>(null);
-  
-  // Speech recognition setup
-  const recognitionRef = useRef<SpeechRecognitionInterface | null>(null);
-  
+  // Last area, filters and results, so follow-ups like "the second one" work
+  const conversationRef = useRef<ConversationState>(initialConversation);
+
+  const [speakReplies, setSpeakReplies] = useState(() => localStorage.getItem(SPEAK_REPLIES_KEY) !== "off");
+  // Driving mode: listens all the time for the wake phrase, and right after
+  // each spoken reply for a follow-up, so the phone never has to be touched
+  const [handsFree, setHandsFree] = useState(false);
+  // Whether the next thing heard in hands-free mode has to start with the wake phrase
+  const listenModeRef = useRef<"wake" | "command">("wake");
+  const awaitingCommandRef = useRef(false);
+  const [restartAttempt, setRestartAttempt] = useState(0);
+
+  // Speech recognition calls the latest handlers, so sending goes through a ref
+  const sendMessageRef = useRef<(inputMessage: string) => void>(() => {});
+  const translateRef = useRef(t);
+  translateRef.current = t;
+  const { isSpeaking, speak, cancel: cancelSpeech } = useSpeechSynthesis(option.locale);
+  const {
+    isSupported: isRecognitionSupported,
+    isListening,
+    start: startListening,
+    stop: stopListening,
+    abort: abortListening,
+  } = useSpeechRecognition({
+    // Tamil speech comes back in Tamil script, which the assistant understands
+    locale: option.locale,
+    continuous: handsFree,
+    onResult: (transcript) => {
+      if (handsFree && listenModeRef.current === "wake") {
+        const command = findWakePhrase(transcript);
+        if (command === undefined) return;
+        if (!command) {
+          listenModeRef.current = "command";
+          toast.info(t("chat.listeningToast"));
+          return;
+        }
+        transcript = command;
+      }
+      listenModeRef.current = "wake";
+      sendMessageRef.current(transcript);
+    },
+    onError: (error) => {
+      // Restarting would only fail again, so hands-free mode ends here
+      setHandsFree(false);
+      toast.error(t(error === "not-allowed" || error === "service-not-allowed" ? "chat.micBlocked" : "chat.voiceError"));
+    },
+  });
+
   useEffect(() => {
     // Get user's location
     if (navigator.geolocation) {
@@ -78,57 +103,39 @@ export function Chatbot({ onFindNearbyRestrooms }: ChatbotProps) {
         },
         (error) => {
           console.error("Error getting location:", error);
-          toast.error("Location access denied. Some features may be limited.");
+          toast.error(translateRef.current("chat.locationDenied"));
         }
       );
     }
-    
-    // Initialize speech recognition
-    if ('SpeechRecognition' in window || 'webkitSpeechRecognition' in window) {
-      const SpeechRecognitionConstructor = window.SpeechRecognition || window.webkitSpeechRecognition;
-      if (SpeechRecognitionConstructor) {
-        recognitionRef.current = new SpeechRecognitionConstructor();
-        recognitionRef.current.continuous = false;
-        recognitionRef.current.interimResults = false;
-        recognitionRef.current.lang = 'en-US';
-        
-        recognitionRef.current.onresult = (event: any) => {
-          const transcript = event.results[0][0].transcript;
-          setMessage(transcript);
-          // Auto send voice message
-          setTimeout(() => {
-            handleSendMessage(transcript);
-            setIsListening(false);
-          }, 500);
-        };
-        
-        recognitionRef.current.onerror = (event) => {
-          console.error('Speech recognition error', event);
-          setIsListening(false);
-          toast.error("Voice recognition error. Please try again.");
-        };
-        
-        recognitionRef.current.onend = () => {
-          setIsListening(false);
-        };
-      }
-    }
-    
-    return () => {
-      if (recognitionRef.current) {
-        recognitionRef.current.abort();
-      }
-    };
   }, []);
-  
+
+  // Hands-free mode keeps the microphone open, except while the assistant
+  // is thinking or talking so it doesn't hear itself
+  useEffect(() => {
+    if (!handsFree) return;
+    if (isThinking || isSpeaking) {
+      abortListening();
+      return;
+    }
+    if (isListening) return;
+
+    listenModeRef.current = awaitingCommandRef.current ? "command" : "wake";
+    awaitingCommandRef.current = false;
+    if (!startListening()) {
+      // The previous session is still winding down
+      const timer = setTimeout(() => setRestartAttempt(attempt => attempt + 1), 1000);
+      return () => clearTimeout(timer);
+    }
+  }, [handsFree, isThinking, isSpeaking, isListening, startListening, abortListening, restartAttempt]);
+
   useEffect(() => {
     if (scrollAreaRef.current) {
       scrollAreaRef.current.scrollTop = scrollAreaRef.current.scrollHeight;
     }
-  }, [messages]);
+  }, [messages, isThinking]);
 
   const handleSendMessage = (inputMessage: string = message) => {
-    if (!inputMessage.trim()) return;
+    if (!inputMessage.trim() || isThinking) return;
     
     const userMessage: ChatMessage = {
       id: `user-${Date.now()}`,
@@ -143,318 +150,175 @@ export function Chatbot({ onFindNearbyRestrooms }: ChatbotProps) {
     // Process the query based on our dataset
     processUserQuery(inputMessage);
   };
+  sendMessageRef.current = handleSendMessage;
 
-  // Helper for bot responses to append navigation
-  const appendNavigateToMapButton = (response: string, query: string) => {
-    return {
-      type: "bot",
-      content: response,
-      navigateQuery: query
-    } as any; // Add a special property to be rendered as navigation option.
-  };
-
-  // MARKER: Replace previous usage of botResponse for restroom and area queries to now include a "Navigate" button
   const processUserQuery = async (query: string) => {
-    // Normalize the query for better matching
-    const normalizedQuery = query.toLowerCase();
-    let botResponse: string | undefined = undefined;
-    let addNavigate = false;
-    let navigateQuery: string = "";
-
-    // Get all available restrooms
-    const allRestrooms = [...getAllRestrooms(), ...getUserRestrooms()];
-    let nearbyRestrooms: any[] = [];
-    
-    if (hasLocationPermission) {
-      nearbyRestrooms = [
-        ...getRestroomsByLocation(currentLocation.lat, currentLocation.lng, 2),
-        ...getNearbyRestrooms(currentLocation.lat, currentLocation.lng, 2)
-      ];
+    setIsThinking(true);
+    let turn;
+    try {
+      turn = await getAssistant().reply(query, conversationRef.current, {
+        restrooms: allRestrooms,
+        location: hasLocationPermission ? currentLocation : undefined,
+        language,
+      });
+    } catch (error) {
+      console.error("Error answering chat message:", error);
+      toast.error(t("chat.replyFailed"));
+      return;
+    } finally {
+      setIsThinking(false);
     }
-    
-    // When the user asks about any restroom or a specific area, offer navigation
-    if (
-      normalizedQuery.includes("vadavalli") ||
-      normalizedQuery.includes("fuel station vadavalli")
-    ) {
-      const vadavalliRestrooms = allRestrooms.filter(r => 
-        r.name.toLowerCase().includes("vadavalli") || 
-        (r.location.address && r.location.address.toLowerCase().includes("vadavalli"))
-      );
-      if (vadavalliRestrooms.length > 0) {
-        const topRated = vadavalliRestrooms.sort((a, b) => b.cleanliness.score - a.cleanliness.score)[0];
-        botResponse = `I found ${vadavalliRestrooms.length} restrooms in Vadavalli area of Coimbatore. The top rated is ${topRated.name} with a cleanliness score of ${topRated.cleanliness.score}/100.`;
-        addNavigate = true;
-        navigateQuery = "vadavalli";
-      } else {
-        botResponse = "I couldn't find specific restrooms in Vadavalli in our database. Would you like me to show all restrooms across Coimbatore district instead?";
-      }
-    } else if (
-      normalizedQuery.includes("saibaba colony") ||
-      normalizedQuery.includes("fuel station saibaba")
-    ) {
-      const saibabaRestrooms = allRestrooms.filter(r => 
-        r.name.toLowerCase().includes("saibaba") || 
-        (r.location.address && r.location.address.toLowerCase().includes("saibaba"))
-      );
-      if (saibabaRestrooms.length > 0) {
-        const firstResult = saibabaRestrooms[0];
-        const cleanlinessRating = getCleanlinessTier(firstResult.cleanliness.score);
-        botResponse = `I found a ${cleanlinessRating === 'high' ? "highly rated" : cleanlinessRating === 'medium' ? "moderately rated" : "lower rated"} restroom at ${firstResult.name} in Saibaba Colony, Coimbatore. Note that this location has been reported as ${firstResult.cleanliness.score < 70 ? "not very clean" : "clean"}.`;
-        addNavigate = true;
-        navigateQuery = "saibaba colony";
-      } else {
-        botResponse = "I don't have specific information about restrooms in Saibaba Colony yet. Would you like to see other options across Coimbatore district?";
-      }
-    } else if (normalizedQuery.includes("ganapathy") || normalizedQuery.includes("fuel station ganapathy")) {
-      const ganapathyRestrooms = allRestrooms.filter(r => 
-        r.name.toLowerCase().includes("ganapathy") || 
-        (r.location.address && r.location.address.toLowerCase().includes("ganapathy"))
-      );
-      if (ganapathyRestrooms.length > 0) {
-        botResponse = `I found a highly-rated restroom at ${ganapathyRestrooms[0].name} in Ganapathy, Coimbatore with excellent cleanliness ratings.`;
-        addNavigate = true;
-        navigateQuery = "ganapathy";
-      } else {
-        botResponse = "I don't have specific information about restrooms in Ganapathy yet. Would you like to see other options in Coimbatore district?";
-      }
-    } else if (normalizedQuery.includes("coimbatore") || normalizedQuery.includes("district")) {
-      if (nearbyRestrooms.length > 0) {
-        botResponse = `I found ${nearbyRestrooms.length} restrooms in Coimbatore district near your current location.`;
-        addNavigate = true;
-        navigateQuery = "coimbatore";
-      } else {
-        const totalRestrooms = allRestrooms.length;
-        botResponse = `Our database has information on ${totalRestrooms} restrooms across Coimbatore district. Could you specify a particular area or let me access your location to find the nearest ones?`;
-      }
-    } else if (
-      normalizedQuery.includes("restroom") || 
-      normalizedQuery.includes("bathroom") || 
-      normalizedQuery.includes("toilet")
-    ) {
-      if (nearbyRestrooms.length > 0) {
-        const count = nearbyRestrooms.length;
-        const closest = nearbyRestrooms[0];
-        const cleanlinessRating = getCleanlinessTier(closest.cleanliness.score);
-        const cleanlinessText = cleanlinessRating === 'high' ? "highly rated" : 
-                                cleanlinessRating === 'medium' ? "moderately rated" : "lower rated";
-        botResponse = `I found ${count} restrooms near you in Coimbatore district. The closest is ${closest.name}, which is ${cleanlinessText} for cleanliness.`;
-        addNavigate = true;
-        navigateQuery = query;
-      } else if (!hasLocationPermission) {
-        botResponse = "I'd like to find restrooms near you in Coimbatore district, but I need permission to access your location. Please enable location services and try again.";
-      } else {
-        botResponse = "I couldn't find any restrooms in your immediate vicinity in Coimbatore district. Would you like me to expand the search radius?";
-      }
-    } else if (
-      normalizedQuery.includes("clean") || normalizedQuery.includes("hygienic")
-    ) {
-      const cleanRestrooms = allRestrooms.filter(r => r.cleanliness.score >= 85);
-      if (hasLocationPermission && cleanRestrooms.length > 0) {
-        const nearbyCleanRestrooms = cleanRestrooms.filter(r => {
-          const distance = Math.sqrt(
-            Math.pow(r.location.lat - currentLocation.lat, 2) + 
-            Math.pow(r.location.lng - currentLocation.lng, 2)
-          ) * 111; // rough conversion to km
-          return distance <= 3;
-        });
-        if (nearbyCleanRestrooms.length > 0) {
-          botResponse = `I found ${nearbyCleanRestrooms.length} highly-rated clean restrooms near you in Coimbatore district. The top rated is ${nearbyCleanRestrooms[0].name} with a cleanliness score of ${nearbyCleanRestrooms[0].cleanliness.score}/100.`;
-          addNavigate = true;
-          navigateQuery = "clean restrooms";
-        } else {
-          botResponse = "I couldn't find any highly-rated clean restrooms in your immediate vicinity in Coimbatore district. Would you like me to expand the search radius?";
+    const { reply, state } = turn;
+    conversationRef.current = state;
+
+    if (reply.report) {
+      const { restroom, status } = reply.report;
+      reportCleanliness.mutate(
+        { id: `report-${Date.now()}`, restroomId: restroom.id, status, date: new Date().toISOString() },
+        {
+          onError: (error) => {
+            console.error("Error reporting cleanliness:", error);
+            toast.error(t("chat.reportFailed", { name: restroom.name }));
+          },
         }
-      } else {
-        botResponse = "I can help you find clean restrooms in Coimbatore district, but I need your location to provide the best results. Please enable location services.";
-      }
-    } else if (
-      normalizedQuery.includes("fuel") ||
-      normalizedQuery.includes("petrol") ||
-      normalizedQuery.includes("gas station")
-    ) {
-      const fuelStationRestrooms = allRestrooms.filter(r => 
-        r.businessInfo.type === "gas_station" || 
-        r.name.toLowerCase().includes("fuel")
       );
-      if (fuelStationRestrooms.length > 0) {
-        const cleanFuelStations = fuelStationRestrooms.filter(r => r.cleanliness.score >= 80);
-        if (cleanFuelStations.length > 0) {
-          botResponse = `I found ${cleanFuelStations.length} clean restrooms at fuel stations across Coimbatore district. The best ones are at ${cleanFuelStations[0].name} and ${cleanFuelStations.length > 1 ? cleanFuelStations[1].name : "other locations"}.`;
-          addNavigate = true;
-          navigateQuery = "fuel station";
-        } else {
-          botResponse = `I found ${fuelStationRestrooms.length} restrooms at fuel stations in Coimbatore district, but their cleanliness ratings vary. The highest rated is at ${fuelStationRestrooms.sort((a, b) => b.cleanliness.score - a.cleanliness.score)[0].name}.`;
-          addNavigate = true;
-          navigateQuery = "fuel station";
-        }
-      } else {
-        botResponse = "I don't have specific information about fuel station restrooms in our database yet. Would you like to see other restroom options in Coimbatore district?";
-      }
-    } else if (
-      normalizedQuery.includes("accessible") || normalizedQuery.includes("disability")
-    ) {
-      const accessibleRestrooms = allRestrooms.filter(r => r.accessibility);
-      if (hasLocationPermission && accessibleRestrooms.length > 0) {
-        const nearbyAccessible = accessibleRestrooms.filter(r => {
-          const distance = Math.sqrt(
-            Math.pow(r.location.lat - currentLocation.lat, 2) + 
-            Math.pow(r.location.lng - currentLocation.lng, 2)
-          ) * 111;
-          return distance <= 3;
-        });
-        if (nearbyAccessible.length > 0) {
-          botResponse = `I found ${nearbyAccessible.length} accessible restrooms near you in Coimbatore district.`;
-          addNavigate = true;
-          navigateQuery = "accessible";
-        } else {
-          botResponse = "I couldn't find any accessible restrooms in your immediate vicinity in Coimbatore district. Would you like me to expand the search radius?";
-        }
-      } else {
-        botResponse = "I can help you find accessible restrooms in Coimbatore district, but I need your location to provide the best results. Please enable location services.";
-      }
-    } else if (
-      normalizedQuery.includes("baby") || normalizedQuery.includes("changing")
-    ) {
-      const babyChangingRestrooms = allRestrooms.filter(r => r.babyChanging);
-      if (hasLocationPermission && babyChangingRestrooms.length > 0) {
-        const nearbyBabyChanging = babyChangingRestrooms.filter(r => {
-          const distance = Math.sqrt(
-            Math.pow(r.location.lat - currentLocation.lat, 2) + 
-            Math.pow(r.location.lng - currentLocation.lng, 2)
-          ) * 111;
-          return distance <= 3;
-        });
-        if (nearbyBabyChanging.length > 0) {
-          botResponse = `I found ${nearbyBabyChanging.length} restrooms with baby changing facilities near you in Coimbatore district.`;
-          addNavigate = true;
-          navigateQuery = "baby changing";
-        } else {
-          botResponse = "I couldn't find any restrooms with baby changing facilities in your immediate vicinity in Coimbatore district. Would you like me to expand the search radius?";
-        }
-      } else {
-        botResponse = "I can help you find restrooms with baby changing facilities in Coimbatore district, but I need your location to provide the best results.";
-      }
-    } else if (
-      normalizedQuery.includes("gender") || normalizedQuery.includes("neutral")
-    ) {
-      const genderNeutralRestrooms = allRestrooms.filter(r => r.genderNeutral);
-      if (hasLocationPermission && genderNeutralRestrooms.length > 0) {
-        const nearbyGenderNeutral = genderNeutralRestrooms.filter(r => {
-          const distance = Math.sqrt(
-            Math.pow(r.location.lat - currentLocation.lat, 2) + 
-            Math.pow(r.location.lng - currentLocation.lng, 2)
-          ) * 111;
-          return distance <= 3;
-        });
-        if (nearbyGenderNeutral.length > 0) {
-          botResponse = `I found ${nearbyGenderNeutral.length} gender-neutral restrooms near you in Coimbatore district.`;
-          addNavigate = true;
-          navigateQuery = "gender neutral";
-        } else {
-          botResponse = "I couldn't find any gender-neutral restrooms in your immediate vicinity in Coimbatore district. Would you like me to expand the search radius?";
-        }
-      } else {
-        botResponse = "I can help you find gender-neutral restrooms in Coimbatore district, but I need your location to provide the best results.";
-      }
-    } else if (normalizedQuery.includes("help")) {
-      botResponse = "You can ask me to find restrooms anywhere in Coimbatore district, including specific areas like Vadavalli, Saibaba Colony, or Ganapathy. I can provide information about cleanliness ratings, accessibility, baby changing facilities, or gender-neutral options. I can also help you find restrooms at fuel stations. What would you like to know?";
-    } else if (normalizedQuery.includes("location") || normalizedQuery.includes("where am i")) {
-      if (hasLocationPermission) {
-        botResponse = `You're currently located at approximately latitude ${currentLocation.lat.toFixed(4)} and longitude ${currentLocation.lng.toFixed(4)}. This appears to be in the Coimbatore district area. I can help find restrooms near this location.`;
-      } else {
-        botResponse = "I don't currently have access to your location. Please enable location services so I can provide better assistance in finding restrooms in Coimbatore district.";
-      }
-    } else if (normalizedQuery.includes("areas") || normalizedQuery.includes("locations") || normalizedQuery.includes("places")) {
-      botResponse = "I have information about restrooms in various areas of Coimbatore district including Vadavalli, Saibaba Colony, Ganapathy, Podanur, Saravanampatti, Thudiyalur, Sulur, and many other locations. Which area are you interested in?";
-    } else {
-      botResponse = "I'm here to help you find and locate restrooms across the entire Coimbatore district. You can ask about specific areas like Vadavalli, Saibaba Colony, or Ganapathy, or ask about nearby restrooms, clean facilities, accessible options, baby changing stations, or gender-neutral bathrooms. How can I assist you today?";
     }
 
-    // Update messages with or without navigation
-    setTimeout(() => {
-      if (botResponse && addNavigate) {
-        setMessages(prev => [
-          ...prev,
-          {
-            id: `bot-${Date.now()}`,
-            content: botResponse,
-            sender: "bot",
-            timestamp: new Date().toISOString(),
-            navigateQuery // custom property for rendering button
-          } as ChatMessage
-        ]);
-      } else {
-        const botMessage: ChatMessage = {
-          id: `bot-${Date.now()}`,
-          content: botResponse || "",
-          sender: "bot",
-          timestamp: new Date().toISOString(),
-        };
-        setMessages(prev => [...prev, botMessage]);
-      }
+    // The map follows the conversation: the last results, with the restroom in focus selected
+    const { results, focus } = state;
+    const shown = reply.restrooms.length === 0 ? [] : focus && !results.includes(focus) ? [focus] : results;
+    const restroomIds = shown.length > 0 ? shown.map(restroom => restroom.id) : undefined;
+    const focusId = restroomIds && focus?.id;
 
-      // Text to speech
-      if (botResponse && 'speechSynthesis' in window) {
-        const utterance = new SpeechSynthesisUtterance(botResponse);
-        window.speechSynthesis.speak(utterance);
-      }
-    }, 1000);
+    const botMessage: ChatMessage = {
+      id: `bot-${Date.now()}`,
+      content: reply.text,
+      sender: "bot",
+      timestamp: new Date().toISOString(),
+      restroomIds,
+      focusId,
+    };
+    setMessages(prev => [...prev, botMessage]);
+    if (restroomIds) {
+      onShowRestrooms(restroomIds, focusId);
+    }
+
+    // Spoken replies keep to the summary; hands-free mode then listens for a follow-up
+    if (speakReplies || handsFree) {
+      speak(reply.speech ?? reply.text);
+    }
+    awaitingCommandRef.current = handsFree;
   };
 
-  // New handler for the "Navigate to Map" button
-  const handleNavigateToMap = (query: string) => {
-    onFindNearbyRestrooms(query);
+  const handleNavigateToMap = (msg: ChatMessage) => {
+    onShowRestrooms(msg.restroomIds ?? [], msg.focusId);
     setIsOpen(false); // Minimize chat
   };
 
   const toggleListening = () => {
     if (isListening) {
-      if (recognitionRef.current) {
-        recognitionRef.current.abort();
-      }
-      setIsListening(false);
+      abortListening();
+      return;
+    }
+    if (!isRecognitionSupported()) {
+      toast.error(t("chat.voiceUnsupported"));
+      return;
+    }
+    cancelSpeech();
+    if (startListening()) {
+      toast.info(t("chat.listeningToast"));
     } else {
-      if (!recognitionRef.current) {
-        toast.error("Speech recognition is not supported in your browser.");
-        return;
-      }
-      
-      try {
-        recognitionRef.current.start();
-        setIsListening(true);
-        toast.info("Listening... Speak now.");
-      } catch (error) {
-        console.error("Speech recognition error:", error);
-        toast.error("Could not start speech recognition. Please try again.");
-        setIsListening(false);
-      }
+      toast.error(t("chat.voiceStartFailed"));
     }
   };
 
+  // Push-to-talk in hands-free mode: hold the mic button, speak without the
+  // wake phrase and let go
+  const startTalking = () => {
+    cancelSpeech();
+    if (isListening) {
+      listenModeRef.current = "command";
+    } else {
+      awaitingCommandRef.current = true;
+    }
+  };
+
+  const stopTalking = () => {
+    if (isListening && listenModeRef.current === "command") {
+      stopListening();
+    }
+  };
+
+  const toggleHandsFree = () => {
+    if (handsFree) {
+      setHandsFree(false);
+      abortListening();
+      toast.info(t("chat.handsFreeOff"));
+      return;
+    }
+    if (!isRecognitionSupported()) {
+      toast.error(t("chat.voiceUnsupported"));
+      return;
+    }
+    abortListening();
+    setHandsFree(true);
+    toast.info(t("chat.handsFreeOn"));
+  };
+
+  const toggleSpeakReplies = () => {
+    if (speakReplies) {
+      cancelSpeech();
+    }
+    localStorage.setItem(SPEAK_REPLIES_KEY, speakReplies ? "off" : "on");
+    setSpeakReplies(!speakReplies);
+  };
+
   return (
     <>
       {!isOpen && (
         <Button 
-          className="fixed bottom-4 right-4 rounded-full w-14 h-14 p-0 shadow-lg"
+          className={`fixed bottom-4 right-4 rounded-full w-14 h-14 p-0 shadow-lg ${handsFree ? "ring-4 ring-primary/40" : ""}`}
           onClick={() => setIsOpen(true)}
         >
-          <MessageSquare size={24} />
+          {handsFree ? <Car size={24} /> : <MessageSquare size={24} />}
         </Button>
       )}
       
       {isOpen && (
         <Card className="fixed bottom-4 right-4 w-80 md:w-96 h-96 shadow-xl flex flex-col animate-fade-in">
           <div className="flex items-center justify-between bg-primary text-white p-3 rounded-t-lg">
-            <div className="font-semibold">RestStop Assistant - Coimbatore District</div>
-            <Button variant="ghost" size="icon" onClick={() => setIsOpen(false)} className="text-white hover:bg-primary/80">
-              <X size={18} />
-            </Button>
+            <div className="font-semibold">{t("chat.title")}</div>
+            <div className="flex items-center">
+              <Button
+                variant="ghost"
+                size="icon"
+                onClick={toggleSpeakReplies}
+                className="text-white hover:bg-primary/80"
+                aria-label={t(speakReplies ? "chat.muteReplies" : "chat.speakReplies")}
+                title={t(speakReplies ? "chat.muteReplies" : "chat.speakReplies")}
+              >
+                {speakReplies ? <Volume2 size={18} /> : <VolumeX size={18} />}
+              </Button>
+              <Button
+                variant="ghost"
+                size="icon"
+                onClick={toggleHandsFree}
+                className={`text-white hover:bg-primary/80 ${handsFree ? "bg-primary-foreground/20" : ""}`}
+                aria-label={t("chat.handsFree")}
+                aria-pressed={handsFree}
+                title={t("chat.handsFree")}
+              >
+                <Car size={18} />
+              </Button>
+              <Button variant="ghost" size="icon" onClick={() => setIsOpen(false)} className="text-white hover:bg-primary/80">
+                <X size={18} />
+              </Button>
+            </div>
           </div>
           
           <ScrollArea className="flex-1 p-3" ref={scrollAreaRef}>
             <div className="space-y-3">
-              {messages.map((msg) => (
+              {[welcomeMessage, ...messages].map((msg) => (
                 <div 
                   key={msg.id} 
                   className={`flex ${msg.sender === "user" ? "justify-end" : "justify-start"}`}
@@ -467,23 +331,30 @@ export function Chatbot({ onFindNearbyRestrooms }: ChatbotProps) {
                     }`}
                   >
                     {msg.content}
-                    {/* Show "Navigate to Map" if navigateQuery is defined */}
-                    {msg.navigateQuery && (
+                    {msg.restroomIds && (
                       <div className="mt-2 flex justify-end">
                         <Button 
                           size="sm"
                           variant="outline"
                           className="flex items-center gap-1 shadow"
-                          onClick={() => handleNavigateToMap(msg.navigateQuery as string)}
+                          onClick={() => handleNavigateToMap(msg)}
                         >
                           <MapIcon size={16} className="mr-1" />
-                          Navigate to Map
+                          {t("chat.showOnMap")}
                         </Button>
                       </div>
                     )}
                   </div>
                 </div>
               ))}
+              {isThinking && (
+                <div className="flex justify-start">
+                  <div className="flex items-center gap-2 rounded-lg p-3 bg-muted text-muted-foreground">
+                    <Loader2 size={16} className="animate-spin" />
+                    {t("chat.thinking")}
+                  </div>
+                </div>
+              )}
             </div>
           </ScrollArea>
           
@@ -496,17 +367,19 @@ export function Chatbot({ onFindNearbyRestrooms }: ChatbotProps) {
               className="flex items-center gap-2"
             >
               <Input
-                placeholder={isListening ? "Listening..." : "Type your message..."}
+                placeholder={t(handsFree ? "chat.handsFreeHint" : isListening ? "chat.listening" : "chat.placeholder")}
                 value={message}
                 onChange={(e) => setMessage(e.target.value)}
                 className={`flex-1 ${isListening ? 'border-primary' : ''}`}
-                disabled={isListening}
+                disabled={isListening && !handsFree}
               />
               <Button 
                 type="button" 
                 size="icon" 
                 variant={isListening ? "destructive" : "ghost"}
-                onClick={toggleListening}
+                {...(handsFree
+                  ? { onPointerDown: startTalking, onPointerUp: stopTalking, onPointerLeave: stopTalking }
+                  : { onClick: toggleListening })}
                 className={isListening ? "animate-pulse" : ""}
               >
                 {isListening ? (
@@ -515,7 +388,7 @@ export function Chatbot({ onFindNearbyRestrooms }: ChatbotProps) {
                   <Mic size={18} />
                 )}
               </Button>
-              <Button type="submit" size="icon" disabled={isListening}>
+              <Button type="submit" size="icon" disabled={(isListening && !handsFree) || isThinking}>
                 <Send size={18} />
               </Button>
             </form>
@@ -2,8 +2,20 @@
 import { useState } from "react";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
-import { Search, MapPin, Bell, UserCircle, Sun, Moon, Star, Store, ArrowLeft } from "lucide-react";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuLabel,
+  DropdownMenuRadioGroup,
+  DropdownMenuRadioItem,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import { Search, MapPin, Bell, UserCircle, Sun, Moon, Star, Store, ArrowLeft, CloudDownload, WifiOff, Languages } from "lucide-react";
 import { useTheme } from "@/hooks/use-theme";
+import { useLanguage } from "@/hooks/use-language";
+import { Language, languages } from "@/data/i18n";
+import { useOnlineStatus } from "@/hooks/use-online-status";
+import { OfflineRegionsDialog } from "@/components/offline/OfflineRegionsDialog";
 import { Link, useNavigate, useLocation } from "react-router-dom";
 
 interface HeaderProps {
@@ -12,7 +24,10 @@ interface HeaderProps {
 
 export function Header({ onSearch }: HeaderProps) {
   const [searchQuery, setSearchQuery] = useState("");
+  const [offlineDialogOpen, setOfflineDialogOpen] = useState(false);
+  const isOnline = useOnlineStatus();
   const { theme, setTheme } = useTheme();
+  const { language, setLanguage, t } = useLanguage();
   const navigate = useNavigate();
   const location = useLocation();
   const isHome = location.pathname === "/";
@@ -60,22 +75,52 @@ export function Header({ onSearch }: HeaderProps) {
             <Search className="absolute left-2.5 top-2.5 h-4 w-4 text-muted-foreground" />
             <Input
               type="search"
-              placeholder="Search for restrooms nearby..."
+              placeholder={t("header.searchPlaceholder")}
               className="w-full pl-8 rounded-full bg-muted"
               value={searchQuery}
               onChange={(e) => setSearchQuery(e.target.value)}
             />
           </div>
-          <Button type="submit" className="ml-2">Search</Button>
+          <Button type="submit" className="ml-2">{t("header.search")}</Button>
         </form>
         
         <div className="flex items-center gap-4">
+          <Button
+            variant="ghost"
+            size="icon"
+            onClick={() => setOfflineDialogOpen(true)}
+            className="rounded-full"
+            aria-label={t(isOnline ? "header.offlineMaps" : "header.offlineMapsOffline")}
+          >
+            {isOnline ? (
+              <CloudDownload className="h-5 w-5" />
+            ) : (
+              <WifiOff className="h-5 w-5 text-reststop-warning" />
+            )}
+          </Button>
+          <DropdownMenu>
+            <DropdownMenuTrigger asChild>
+              <Button variant="ghost" size="icon" className="rounded-full" aria-label={t("header.language")}>
+                <Languages className="h-5 w-5" />
+              </Button>
+            </DropdownMenuTrigger>
+            <DropdownMenuContent align="end">
+              <DropdownMenuLabel>{t("header.language")}</DropdownMenuLabel>
+              <DropdownMenuRadioGroup value={language} onValueChange={(value) => setLanguage(value as Language)}>
+                {languages.map(option => (
+                  <DropdownMenuRadioItem key={option.code} value={option.code} lang={option.code}>
+                    {option.label}
+                  </DropdownMenuRadioItem>
+                ))}
+              </DropdownMenuRadioGroup>
+            </DropdownMenuContent>
+          </DropdownMenu>
           <Button
             variant="ghost"
             size="icon"
             onClick={() => setTheme(theme === "dark" ? "light" : "dark")}
             className="rounded-full"
-            aria-label="Toggle theme"
+            aria-label={t("header.toggleTheme")}
           >
             {theme === "dark" ? (
               <Sun className="h-5 w-5" />
@@ -109,15 +154,17 @@ export function Header({ onSearch }: HeaderProps) {
             <Search className="absolute left-2.5 top-2.5 h-4 w-4 text-muted-foreground" />
             <Input
               type="search"
-              placeholder="Search restrooms..."
+              placeholder={t("header.searchPlaceholderShort")}
               className="w-full pl-8 rounded-full bg-muted"
               value={searchQuery}
               onChange={(e) => setSearchQuery(e.target.value)}
             />
           </div>
-          <Button type="submit">Search</Button>
+          <Button type="submit">{t("header.search")}</Button>
         </form>
       </div>
+
+      <OfflineRegionsDialog open={offlineDialogOpen} onOpenChange={setOfflineDialogOpen} />
     </header>
   );
 }
@@ -0,0 +1,38 @@
+import { useEffect, useMemo, useState } from "react";
+import { Language, createTranslator, detectLanguage, getLanguageOption, languages } from "@/data/i18n";
+import { LanguageContext } from "@/hooks/use-language";
+
+interface LanguageProviderProps {
+  children: React.ReactNode;
+  storageKey?: string;
+}
+
+const isLanguage = (value: string | null): value is Language =>
+  languages.some(option => option.code === value);
+
+export function LanguageProvider({ children, storageKey = "reststop-language" }: LanguageProviderProps) {
+  const [language, setLanguage] = useState<Language>(() => {
+    const stored = localStorage.getItem(storageKey);
+    return isLanguage(stored) ? stored : detectLanguage();
+  });
+
+  // Screen readers and speech pick up the page language
+  useEffect(() => {
+    document.documentElement.lang = language;
+  }, [language]);
+
+  const value = useMemo(
+    () => ({
+      language,
+      option: getLanguageOption(language),
+      setLanguage: (language: Language) => {
+        localStorage.setItem(storageKey, language);
+        setLanguage(language);
+      },
+      t: createTranslator(language),
+    }),
+    [language, storageKey]
+  );
+
+  return <LanguageContext.Provider value={value}>{children}</LanguageContext.Provider>;
+}
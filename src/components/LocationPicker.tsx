@@ -0,0 +1,119 @@
+import { useEffect, useMemo, useRef } from "react";
+import { MapContainer, TileLayer, Marker, useMap, useMapEvents } from "react-leaflet";
+import { Marker as LeafletMarker } from "leaflet";
+import { LocateFixed } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { toast } from "sonner";
+import { useTheme } from "@/hooks/use-theme";
+import { useLanguage } from "@/hooks/use-language";
+import { createPinIcon } from "@/components/map/markerIcons";
+import { TILE_ATTRIBUTION, TILE_URL_TEMPLATE } from "@/data/offline";
+import "leaflet/dist/leaflet.css";
+
+interface LatLngValue {
+  lat: number;
+  lng: number;
+}
+
+interface LocationPickerProps {
+  value: LatLngValue;
+  onChange: (value: LatLngValue) => void;
+}
+
+// Violet so the pin being placed stands apart from restroom tiers
+const PIN_COLOR = '#8b5cf6';
+
+// Move the pin wherever the user clicks on the map
+function ClickToPlace({ onChange }: { onChange: (value: LatLngValue) => void }) {
+  useMapEvents({
+    click: (event) => {
+      onChange({ lat: event.latlng.lat, lng: event.latlng.lng });
+    },
+  });
+  return null;
+}
+
+// Keep the pin in view when it is moved from outside the map (address lookup, GPS)
+function FollowPin({ value }: { value: LatLngValue }) {
+  const map = useMap();
+
+  useEffect(() => {
+    if (!map.getBounds().contains([value.lat, value.lng])) {
+      map.setView([value.lat, value.lng]);
+    }
+  }, [value.lat, value.lng, map]);
+
+  return null;
+}
+
+export function LocationPicker({ value, onChange }: LocationPickerProps) {
+  const markerRef = useRef<LeafletMarker>(null);
+  const { resolvedTheme } = useTheme();
+  const { t } = useLanguage();
+
+  const eventHandlers = useMemo(() => ({
+    dragend: () => {
+      const marker = markerRef.current;
+      if (marker) {
+        const position = marker.getLatLng();
+        onChange({ lat: position.lat, lng: position.lng });
+      }
+    },
+  }), [onChange]);
+
+  const handleUseCurrentPosition = () => {
+    if (!navigator.geolocation) {
+      toast.error(t("detail.noGeolocation"));
+      return;
+    }
+
+    navigator.geolocation.getCurrentPosition(
+      (position) => {
+        onChange({
+          lat: position.coords.latitude,
+          lng: position.coords.longitude
+        });
+      },
+      (error) => {
+        console.error("Error getting location:", error);
+        toast.error(t("form.locationFailed"));
+      },
+      { enableHighAccuracy: true }
+    );
+  };
+
+  return (
+    <div className="space-y-2">
+      <div className="h-64 rounded-md overflow-hidden border">
+        <MapContainer
+          center={[value.lat, value.lng]}
+          zoom={15}
+          style={{ height: "100%", width: "100%" }}
+        >
+          <TileLayer
+            url={TILE_URL_TEMPLATE}
+            attribution={TILE_ATTRIBUTION}
+          />
+          <ClickToPlace onChange={onChange} />
+          <FollowPin value={value} />
+          <Marker
+            position={[value.lat, value.lng]}
+            icon={createPinIcon(PIN_COLOR, resolvedTheme)}
+            draggable
+            ref={markerRef}
+            eventHandlers={eventHandlers}
+          />
+        </MapContainer>
+      </div>
+      <div className="flex items-center justify-between gap-2">
+        <p className="text-xs text-muted-foreground">
+          {t("form.pinHint")} ({value.lat.toFixed(5)}, {value.lng.toFixed(5)})
+        </p>
+        <Button type="button" variant="outline" size="sm" onClick={handleUseCurrentPosition}>
+          <LocateFixed className="h-4 w-4 mr-1" />
+          {t("form.useMyPosition")}
+        </Button>
+      </div>
+    </div>
+  );
+}
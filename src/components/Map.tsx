@@ -1,273 +1,207 @@
 
-import { useEffect, useState } from "react";
-import { MapContainer, TileLayer, Marker, Popup, useMap, Polyline } from "react-leaflet";
-import { Icon, LatLng } from "leaflet";
-import { Toilet, Star, Route, Navigation } from "lucide-react";
+import { useEffect, useRef, useState } from "react";
+import { MapContainer, TileLayer, Marker, Popup, useMap, useMapEvents, Polyline } from "react-leaflet";
+import { latLngBounds } from "leaflet";
+import { Toilet, Star, Route, Navigation, Sparkles } from "lucide-react";
 import { Restroom } from "@/types";
-import { getCleanlinessTier } from "@/data/restrooms";
-import { Button } from "@/components/ui/button";
 import { toast } from "sonner";
+import { RestroomMarkers } from "@/components/map/RestroomMarkers";
+import { createUserLocationIcon } from "@/components/map/markerIcons";
+import { useTheme } from "@/hooks/use-theme";
+import { useLanguage } from "@/hooks/use-language";
+import { LatLng } from "@/data/geo";
+import { Route as TravelRoute, TravelMode, formatTravelTime, isStraightLineRoute } from "@/data/routing";
+import { formatDistance } from "@/data/ranking";
+import { TILE_ATTRIBUTION, TILE_URL_TEMPLATE } from "@/data/offline";
+import { TripStop } from "@/data/trip";
+import { MapView } from "@/data/mapUrlState";
 import "leaflet/dist/leaflet.css";
 
 interface MapProps {
-  restrooms: Restroom[];
+  // Which of the restrooms loaded for the viewport get a marker
+  filter: (restroom: Restroom) => boolean;
   currentLocation: { lat: number; lng: number };
   selectedId?: string;
+  travelMode: TravelMode;
+  route?: TravelRoute; // directions or a planned trip
+  routeKey?: string;   // changes when a different route is shown, to reframe the map
+  nextCleanStop?: { stop: TripStop; distance: number };
+  userPosition?: LatLng;
+  view?: MapView;      // center and zoom from the URL
+  onViewChange?: (view: MapView) => void;
   onSelectRestroom: (id: string) => void;
 }
 
-// Custom marker icon (keep existing code for createRestroomIcon function)
-const createRestroomIcon = (cleanlinessTier: 'high' | 'medium' | 'low') => {
-  const color = cleanlinessTier === 'high' ? '#27ae60' : 
-                cleanlinessTier === 'medium' ? '#f39c12' : 
-                '#e74c3c';
-  
-  return new Icon({
-    iconUrl: `https://raw.githubusercontent.com/pointhi/leaflet-color-markers/master/img/marker-icon-2x-${
-      cleanlinessTier === 'high' ? 'green' : 
-      cleanlinessTier === 'medium' ? 'orange' : 
-      'red'
-    }.png`,
-    shadowUrl: 'https://cdnjs.cloudflare.com/ajax/libs/leaflet/1.7.1/images/marker-shadow.png',
-    iconSize: [25, 41],
-    iconAnchor: [12, 41],
-    popupAnchor: [1, -34],
-    shadowSize: [41, 41]
+// Keeps the map and the `view` prop in step both ways: panning reports the
+// new view, and a changed prop (back button, pasted link) moves the map
+function ViewSync({ view, onViewChange }: { view?: MapView; onViewChange?: (view: MapView) => void }) {
+  const map = useMapEvents({
+    moveend: () => {
+      const center = map.getCenter();
+      onViewChange?.({ center: { lat: center.lat, lng: center.lng }, zoom: map.getZoom() });
+    },
   });
-};
+  const lat = view?.center.lat;
+  const lng = view?.center.lng;
+  const zoom = view?.zoom;
+
+  useEffect(() => {
+    if (lat === undefined || lng === undefined || zoom === undefined) return;
 
-// Component to update the map view and handle routing
+    // The URL rounds coordinates, so only move for a real difference
+    const current = map.getCenter();
+    const moved = Math.abs(current.lat - lat) > 1e-4 || Math.abs(current.lng - lng) > 1e-4;
+    if (moved || map.getZoom() !== zoom) {
+      map.setView([lat, lng], zoom);
+    }
+  }, [lat, lng, zoom, map]);
+
+  return null;
+}
+
+// Component to update the map view and draw the active route
 function MapUpdater({ 
   center, 
-  selectedRestroom,
-  userLocation 
+  route,
+  routeKey,
+  travelMode
 }: { 
-  center: [number, number]; 
-  selectedRestroom?: Restroom;
-  userLocation?: GeolocationPosition;
+  center?: [number, number]; 
+  route?: TravelRoute;
+  routeKey?: string;
+  travelMode: TravelMode;
 }) {
   const map = useMap();
-  const [routePath, setRoutePath] = useState<[number, number][]>([]);
-  const [routeDetails, setRouteDetails] = useState<{ distance: string; duration: string } | null>(null);
+  const { t } = useLanguage();
+  const fittedRouteFor = useRef<string>();
+  const [centerLat, centerLng] = center ?? [];
   
   useEffect(() => {
-    map.setView(center);
-  }, [center, map]);
+    if (centerLat === undefined || centerLng === undefined) return;
+    map.setView([centerLat, centerLng]);
+  }, [centerLat, centerLng, map]);
 
   useEffect(() => {
-    if (selectedRestroom && userLocation) {
-      // Calculate and display route using OSRM (Open Source Routing Machine)
-      const fetchRoute = async () => {
-        try {
-          const startLat = userLocation.coords.latitude;
-          const startLng = userLocation.coords.longitude;
-          const endLat = selectedRestroom.location.lat;
-          const endLng = selectedRestroom.location.lng;
-
-          console.log(`Calculating route from [${startLat}, ${startLng}] to [${endLat}, ${endLng}]`);
-          
-          // Use OSRM public API for routing (no API key required)
-          const response = await fetch(
-            `https://router.project-osrm.org/route/v1/driving/${startLng},${startLat};${endLng},${endLat}?overview=full&geometries=geojson`
-          );
-          
-          const data = await response.json();
-          
-          if (data.routes && data.routes.length > 0) {
-            // Extract the coordinates from the response
-            const coordinates = data.routes[0].geometry.coordinates.map(
-              (coord: [number, number]) => [coord[1], coord[0]] as [number, number]
-            );
-            
-            setRoutePath(coordinates);
-            
-            // Calculate and display route details
-            const distanceInKm = (data.routes[0].distance / 1000).toFixed(1);
-            const durationInMin = Math.round(data.routes[0].duration / 60);
-            
-            setRouteDetails({
-              distance: `${distanceInKm} km`,
-              duration: `${durationInMin} min`
-            });
+    if (!route) return;
 
-            // Fit map bounds to show the entire route
-            if (coordinates.length > 0) {
-              const bounds = coordinates.reduce((bounds: any, coord: [number, number]) => {
-                return bounds.extend(coord);
-              }, new LatLng(coordinates[0][0], coordinates[0][1]).toBounds(500));
-              
-              map.fitBounds(bounds, { padding: [50, 50] });
-            }
-            
-            toast.success("Route calculated successfully!");
-          } else {
-            console.error('No routes found:', data);
-            toast.error("Could not calculate route between locations");
-          }
-        } catch (error) {
-          console.error('Error fetching route:', error);
-          toast.error("Could not calculate route. Please try again.");
-        }
-      };
+    // Frame the whole route once; re-routes while walking shouldn't yank
+    // the map away from where the user is looking
+    if (fittedRouteFor.current === routeKey) return;
+    fittedRouteFor.current = routeKey;
 
-      fetchRoute();
-    } else {
-      // Clear route when no restroom is selected
-      setRoutePath([]);
-      setRouteDetails(null);
+    if (route.path.length > 0) {
+      map.fitBounds(latLngBounds(route.path), { padding: [50, 50] });
     }
-  }, [selectedRestroom, userLocation, map]);
+
+    toast.success(t("map.routeCalculated"));
+  }, [route, routeKey, map, t]);
+
+  if (!route) return null;
 
   return (
     <>
-      {routePath.length > 0 && (
-        <Polyline 
-          positions={routePath}
-          color="#0077ff"
-          weight={4}
-          opacity={0.8}
-        />
-      )}
-      {routeDetails && (
-        <div className="absolute bottom-4 left-4 bg-white dark:bg-gray-800 p-3 rounded-lg shadow-lg z-[1000]">
-          <div className="flex items-center gap-2">
-            <Route className="text-primary" size={16} />
-            <div className="text-sm">
-              <strong>{routeDetails.distance}</strong>
-              <span className="mx-1">•</span>
-              <span>{routeDetails.duration} by car</span>
-            </div>
+      <Polyline 
+        positions={route.path}
+        color="#0077ff"
+        weight={4}
+        opacity={0.8}
+        dashArray={isStraightLineRoute(route) ? "6 8" : undefined}
+      />
+      <div className="absolute bottom-4 left-4 bg-white dark:bg-gray-800 p-3 rounded-lg shadow-lg z-[1000]">
+        <div className="flex items-center gap-2">
+          <Route className="text-primary" size={16} />
+          <div className="text-sm">
+            <strong>{formatDistance(route.distance)}</strong>
+            <span className="mx-1">•</span>
+            <span>
+              {route.estimated
+                ? t("travel.about", { time: formatTravelTime(route.duration, travelMode, t) })
+                : formatTravelTime(route.duration, travelMode, t)}
+            </span>
           </div>
         </div>
-      )}
+      </div>
     </>
   );
 }
 
-export function Map({ restrooms, currentLocation, selectedId, onSelectRestroom }: MapProps) {
+export function Map({
+  filter,
+  currentLocation,
+  selectedId,
+  travelMode,
+  route,
+  routeKey,
+  nextCleanStop,
+  userPosition,
+  view,
+  onViewChange,
+  onSelectRestroom
+}: MapProps) {
   const [activeId, setActiveId] = useState<string | undefined>(selectedId);
-  const [userLocation, setUserLocation] = useState<GeolocationPosition>();
+  // A map opened from a link keeps its view instead of jumping to the user
+  const [openedWithView] = useState(!!view);
+  const { resolvedTheme } = useTheme();
+  const { t } = useLanguage();
   
   useEffect(() => {
     setActiveId(selectedId);
-    
-    // Request user location when a restroom is selected
-    if (selectedId && !userLocation) {
-      if (navigator.geolocation) {
-        navigator.geolocation.getCurrentPosition(
-          (position) => {
-            setUserLocation(position);
-            toast.success("Location access granted. Calculating route...");
-          },
-          (error) => {
-            console.error('Error getting location:', error);
-            toast.error("Location access required to see directions. Please enable location services.");
-          }
-        );
-      }
-    }
-  }, [selectedId, userLocation]);
+  }, [selectedId]);
 
-  // When user explicitly changes the selected restroom, try to get their location again
   const handleSelectRestroom = (id: string) => {
     setActiveId(id);
     onSelectRestroom(id);
-    
-    // If we don't have the user's location yet, try to get it
-    if (!userLocation && navigator.geolocation) {
-      navigator.geolocation.getCurrentPosition(
-        (position) => {
-          setUserLocation(position);
-          toast.success("Location access granted. Calculating route...");
-        },
-        (error) => {
-          console.error('Error getting location:', error);
-          toast.error("Location access required to see directions. Please enable location services.");
-        }
-      );
-    }
   };
 
-  const selectedRestroom = restrooms.find(r => r.id === selectedId);
-
   return (
     <div className="map-container h-[calc(100vh-12rem)] md:h-[calc(100vh-4rem)]">
       <MapContainer
-        center={[currentLocation.lat, currentLocation.lng]}
-        zoom={14}
+        center={view ? [view.center.lat, view.center.lng] : [currentLocation.lat, currentLocation.lng]}
+        zoom={view?.zoom ?? 14}
         style={{ height: "100%", width: "100%" }}
       >
         <TileLayer
-          url="https://{s}.tile.openstreetmap.org/{z}/{x}/{y}.png"
-          attribution='&copy; <a href="https://www.openstreetmap.org/copyright">OpenStreetMap</a> contributors'
+          url={TILE_URL_TEMPLATE}
+          attribution={TILE_ATTRIBUTION}
         />
         
+        <ViewSync view={view} onViewChange={onViewChange} />
+
         <MapUpdater 
-          center={[currentLocation.lat, currentLocation.lng]} 
-          selectedRestroom={selectedRestroom}
-          userLocation={userLocation}
+          center={openedWithView ? undefined : [currentLocation.lat, currentLocation.lng]} 
+          route={route}
+          routeKey={routeKey}
+          travelMode={travelMode}
         />
         
+        {nextCleanStop && (
+          <div className="absolute top-4 right-4 bg-white dark:bg-gray-800 p-3 rounded-lg shadow-lg z-[1000] max-w-[16rem]">
+            <div className="flex items-center gap-2 text-sm">
+              <Sparkles className="text-reststop-primary shrink-0" size={16} />
+              <span>
+                <strong>{t("map.nextCleanStop", { distance: formatDistance(nextCleanStop.distance) })}</strong>
+                <span className="block text-xs text-muted-foreground truncate">{nextCleanStop.stop.restroom.name}</span>
+              </span>
+            </div>
+          </div>
+        )}
+
         {/* User location marker */}
-        {userLocation && (
+        {userPosition && (
           <Marker
-            position={[userLocation.coords.latitude, userLocation.coords.longitude]}
-            icon={new Icon({
-              iconUrl: 'https://raw.githubusercontent.com/pointhi/leaflet-color-markers/master/img/marker-icon-2x-blue.png',
-              shadowUrl: 'https://cdnjs.cloudflare.com/ajax/libs/leaflet/1.7.1/images/marker-shadow.png',
-              iconSize: [25, 41],
-              iconAnchor: [12, 41],
-              popupAnchor: [1, -34],
-              shadowSize: [41, 41]
-            })}
+            position={[userPosition.lat, userPosition.lng]}
+            icon={createUserLocationIcon(resolvedTheme)}
           >
-            <Popup>Your Location</Popup>
+            <Popup>{t("map.yourLocation")}</Popup>
           </Marker>
         )}
 
-        {/* Restroom markers */}
-        {restrooms.map(restroom => {
-          const cleanlinessTier = getCleanlinessTier(restroom.cleanliness.score);
-          const isActive = activeId === restroom.id;
-          
-          return (
-            <Marker
-              key={restroom.id}
-              position={[restroom.location.lat, restroom.location.lng]}
-              icon={createRestroomIcon(cleanlinessTier)}
-              eventHandlers={{
-                click: () => {
-                  handleSelectRestroom(restroom.id);
-                },
-              }}
-            >
-              <Popup>
-                <div className="p-1">
-                  <h3 className="font-semibold text-lg">{restroom.name}</h3>
-                  <div className="flex items-center gap-1 text-sm">
-                    <span className={`cleanliness-${cleanlinessTier} font-medium`}>
-                      {restroom.cleanliness.score}/100
-                    </span>
-                    <span className="text-muted-foreground">
-                      ({restroom.cleanliness.reports} reports)
-                    </span>
-                  </div>
-                  <div className="mt-2">
-                    <Button 
-                      size="sm" 
-                      onClick={(e) => {
-                        e.stopPropagation();
-                        handleSelectRestroom(restroom.id);
-                      }}
-                    >
-                      View Details
-                    </Button>
-                  </div>
-                </div>
-              </Popup>
-            </Marker>
-          );
-        })}
+        {/* Restroom markers, loaded for the visible area and clustered */}
+        <RestroomMarkers
+          filter={filter}
+          activeId={activeId}
+          onSelectRestroom={handleSelectRestroom}
+        />
       </MapContainer>
     </div>
   );
@@ -4,23 +4,41 @@ import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle }
 import { Badge } from "@/components/ui/badge";
 import { Toilet, Clock, Accessibility, Baby, Users, Star, Coffee, Utensils, Hotel, Cake } from "lucide-react";
 import { Button } from "@/components/ui/button";
+import { OpenStatusBadge } from "@/components/restroom/OpenStatusBadge";
+import { PendingBadge } from "@/components/restroom/PendingBadge";
+import { formatDistance } from "@/data/ranking";
+import { TravelMode, formatTravelTime } from "@/data/routing";
+import { TravelModeIcon } from "@/components/TravelModeToggle";
+import { useLanguage } from "@/hooks/use-language";
 
 interface RestroomCardProps {
   restroom: Restroom;
   onClick: () => void;
   isSelected?: boolean;
   isRecommended?: boolean;
+  distance?: number; // kilometers from the user
+  travelMinutes?: number;
+  travelMode?: TravelMode;
 }
 
-export function RestroomCard({ restroom, onClick, isSelected = false, isRecommended = false }: RestroomCardProps) {
+export function RestroomCard({
+  restroom,
+  onClick,
+  isSelected = false,
+  isRecommended = false,
+  distance,
+  travelMinutes,
+  travelMode = "walking"
+}: RestroomCardProps) {
+  const { t } = useLanguage();
   const cleanlinessTier = getCleanlinessTier(restroom.cleanliness.score);
   const lastUpdatedDate = new Date(restroom.cleanliness.lastUpdated);
   const minutesAgo = Math.floor((Date.now() - lastUpdatedDate.getTime()) / 60000);
   const hoursAgo = Math.floor(minutesAgo / 60);
   
-  const timeAgo = hoursAgo >= 1 
-    ? `${hoursAgo} hour${hoursAgo > 1 ? 's' : ''} ago` 
-    : `${minutesAgo} minute${minutesAgo !== 1 ? 's' : ''} ago`;
+  const updated = hoursAgo >= 1
+    ? hoursAgo === 1 ? t("card.updatedHourAgo") : t("card.updatedHoursAgo", { count: hoursAgo })
+    : minutesAgo === 1 ? t("card.updatedMinuteAgo") : t("card.updatedMinutesAgo", { count: minutesAgo });
 
   // Function to get the appropriate business icon
   const getBusinessIcon = () => {
@@ -53,12 +71,12 @@ export function RestroomCard({ restroom, onClick, isSelected = false, isRecommen
           <div className="flex items-center gap-2">
             <CardTitle>{restroom.name}</CardTitle>
             {businessIcon && isPartner && (
-              <div className="flex items-center" aria-label="Partnership Venue">
+              <div className="flex items-center" aria-label={t("card.partnerVenue")}>
                 {businessIcon}
               </div>
             )}
             {isRecommended && (
-              <Star size={16} className="fill-yellow-400 text-yellow-400" aria-label="Recommended for you" />
+              <Star size={16} className="fill-yellow-400 text-yellow-400" aria-label={t("card.recommended")} />
             )}
           </div>
           <Badge variant={
@@ -70,38 +88,51 @@ export function RestroomCard({ restroom, onClick, isSelected = false, isRecommen
           </Badge>
         </div>
         <CardDescription className="line-clamp-1">
-          {restroom.location.address || "Address not available"}
+          {restroom.location.address || t("card.addressUnavailable")}
         </CardDescription>
       </CardHeader>
       <CardContent className="pb-2">
         <div className="flex flex-wrap gap-2 mb-2">
+          <PendingBadge status={restroom.status} />
+          <OpenStatusBadge restroom={restroom} />
           {restroom.accessibility && (
             <Badge variant="outline" className="flex items-center gap-1">
               <Accessibility size={12} />
-              <span>Accessible</span>
+              <span>{t("restroom.accessible")}</span>
             </Badge>
           )}
           {restroom.babyChanging && (
             <Badge variant="outline" className="flex items-center gap-1">
               <Baby size={12} />
-              <span>Baby Changing</span>
+              <span>{t("restroom.babyChanging")}</span>
             </Badge>
           )}
           {restroom.genderNeutral && (
             <Badge variant="outline" className="flex items-center gap-1">
               <Users size={12} />
-              <span>Gender Neutral</span>
+              <span>{t("restroom.genderNeutral")}</span>
             </Badge>
           )}
         </div>
-        <div className="flex items-center text-xs text-muted-foreground">
-          <Clock size={14} className="mr-1" />
-          <span>Updated {timeAgo}</span>
+        <div className="flex items-center justify-between text-xs text-muted-foreground">
+          <div className="flex items-center">
+            <Clock size={14} className="mr-1" />
+            <span>{updated}</span>
+          </div>
+          {distance !== undefined && (
+            <div className="flex items-center font-medium text-foreground">
+              <TravelModeIcon mode={travelMode} className="h-3.5 w-3.5 mr-1" />
+              <span>
+                {formatDistance(distance)}
+                {travelMinutes !== undefined && ` · ${formatTravelTime(travelMinutes, travelMode, t)}`}
+              </span>
+            </div>
+          )}
         </div>
       </CardContent>
       <CardFooter className="pt-0">
         <Button variant="outline" size="sm" className="w-full" onClick={onClick}>
-          View Details
+          {t("card.viewDetails")}
         </Button>
       </CardFooter>
     </Card>
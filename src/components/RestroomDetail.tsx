@@ -1,27 +1,64 @@
 
-import { useState, useEffect } from "react";
-import { Restroom } from "@/types";
+import { CleanlinessStatus, Restroom } from "@/types";
+import { TravelMode } from "@/data/routing";
+import { Directions } from "@/hooks/use-directions";
+import { TravelModeToggle } from "@/components/TravelModeToggle";
+import { DirectionsPanel } from "@/components/directions/DirectionsPanel";
 import { Button } from "@/components/ui/button";
-import { ArrowLeft, MapPin, Route } from "lucide-react";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import { useReportCleanliness } from "@/hooks/use-feedback";
+import { useLanguage } from "@/hooks/use-language";
+import { MessageKey } from "@/data/i18n";
+import { ArrowLeft, MapPin } from "lucide-react";
 import { toast } from "sonner";
 import { LocationSection } from "@/components/restroom/LocationSection";
 import { CleanlinessSection } from "@/components/restroom/CleanlinessSection";
 import { AmenitiesSection } from "@/components/restroom/AmenitiesSection";
 import { ReviewsSection } from "@/components/restroom/ReviewsSection";
+import { PhotosSection } from "@/components/restroom/PhotosSection";
+import { PendingBadge } from "@/components/restroom/PendingBadge";
 
 interface RestroomDetailProps {
   restroom: Restroom;
   onBack: () => void;
   onShowOnMap?: () => void;
+  travelMode: TravelMode;
+  onTravelModeChange: (mode: TravelMode) => void;
+  directions: Directions;
 }
 
-export function RestroomDetail({ restroom, onBack, onShowOnMap }: RestroomDetailProps) {
-  const [distance, setDistance] = useState<string | null>(null);
-  const [duration, setDuration] = useState<string | null>(null);
-  const [calculating, setCalculating] = useState(false);
+const cleanlinessOptions: { status: CleanlinessStatus; label: MessageKey }[] = [
+  { status: "clean", label: "detail.reportClean" },
+  { status: "needs_attention", label: "detail.reportNeedsAttention" },
+  { status: "dirty", label: "detail.reportDirty" },
+];
+
+// Google Maps has no two-wheeler mode on the web; driving is the closest
+const googleTravelModes: Record<TravelMode, string> = {
+  walking: "walking",
+  two_wheeler: "driving",
+  driving: "driving",
+};
+
+export function RestroomDetail({
+  restroom,
+  onBack,
+  onShowOnMap,
+  travelMode,
+  onTravelModeChange,
+  directions
+}: RestroomDetailProps) {
+  const calculating = directions.isRouting;
+  const reportCleanliness = useReportCleanliness();
+  const { option, t } = useLanguage();
 
   const formatDate = (date: Date) => {
-    return date.toLocaleString('en-US', {
+    return date.toLocaleString(option.locale, {
       weekday: 'short',
       month: 'short', 
       day: 'numeric',
@@ -30,64 +67,38 @@ export function RestroomDetail({ restroom, onBack, onShowOnMap }: RestroomDetail
     });
   };
 
-  const handleReportCleanliness = () => {
-    toast("Report Submitted", {
-      description: "Thank you for reporting the cleanliness status.",
-    });
+  const handleReportCleanliness = (status: CleanlinessStatus) => {
+    reportCleanliness.mutate(
+      { id: `report-${Date.now()}`, restroomId: restroom.id, status, date: new Date().toISOString() },
+      {
+        onSuccess: (delivery) => {
+          toast(t("detail.reportSubmitted"), {
+            description: t(delivery === "queued" && !navigator.onLine ? "detail.reportQueued" : "detail.reportThanks"),
+          });
+        },
+        onError: (error) => {
+          console.error("Error reporting cleanliness:", error);
+          toast.error(t("detail.reportFailed"));
+        },
+      }
+    );
   };
 
-  const calculateRoute = async () => {
+  const handleGetDirections = () => {
     if (!navigator.geolocation) {
-      toast.error("Geolocation is not supported by your browser");
+      toast.error(t("detail.noGeolocation"));
       return;
     }
 
-    setCalculating(true);
-    
-    try {
-      const position = await new Promise<GeolocationPosition>((resolve, reject) => {
-        navigator.geolocation.getCurrentPosition(resolve, reject);
-      });
-
-      const startLat = position.coords.latitude;
-      const startLng = position.coords.longitude;
-      const endLat = restroom.location.lat;
-      const endLng = restroom.location.lng;
-      
-      // Use OSRM for route calculation
-      const response = await fetch(
-        `https://router.project-osrm.org/route/v1/driving/${startLng},${startLat};${endLng},${endLat}?overview=full`
-      );
-      
-      const data = await response.json();
-      
-      if (data.routes && data.routes.length > 0) {
-        const distanceInKm = (data.routes[0].distance / 1000).toFixed(1);
-        const durationInMin = Math.round(data.routes[0].duration / 60);
-        
-        setDistance(`${distanceInKm} km`);
-        setDuration(`${durationInMin} min`);
-      } else {
-        throw new Error("No route found");
-      }
-    } catch (error) {
-      console.error('Error calculating route:', error);
-      toast.error("Could not calculate route. Please try again.");
-    } finally {
-      setCalculating(false);
-    }
-  };
-
-  const handleGetDirections = () => {
-    // Calculate route first
-    calculateRoute();
+    // Start live directions; the route follows the user's position
+    directions.start();
     
     // Show on map if available
     if (onShowOnMap) {
       onShowOnMap();
     } else {
       // Fallback to opening in Google Maps if map view isn't available
-      const mapsUrl = `https://www.google.com/maps/dir/?api=1&destination=${restroom.location.lat},${restroom.location.lng}&travelmode=driving`;
+      const mapsUrl = `https://www.google.com/maps/dir/?api=1&destination=${restroom.location.lat},${restroom.location.lng}&travelmode=${googleTravelModes[travelMode]}`;
       window.open(mapsUrl, '_blank');
     }
   };
@@ -99,6 +110,7 @@ export function RestroomDetail({ restroom, onBack, onShowOnMap }: RestroomDetail
           <ArrowLeft size={20} />
         </Button>
         <h2 className="text-xl font-semibold flex-1">{restroom.name}</h2>
+        <PendingBadge status={restroom.status} />
         {onShowOnMap && (
           <Button
             variant="outline"
@@ -107,40 +119,47 @@ export function RestroomDetail({ restroom, onBack, onShowOnMap }: RestroomDetail
             onClick={onShowOnMap}
           >
             <MapPin size={16} />
-            Show on Map
+            {t("detail.showOnMap")}
           </Button>
         )}
       </div>
 
-      {(distance || duration) && (
-        <div className="bg-muted/50 rounded-lg p-3 mb-4 flex items-center gap-2">
-          <Route className="text-primary" size={20} />
-          <div>
-            <p className="text-sm font-medium">
-              Distance: {distance}
-              {duration && <span className="mx-1">•</span>}
-              {duration && `${duration} by car`}
-            </p>
-          </div>
-        </div>
-      )}
+      <div className="flex items-center justify-between gap-2 mb-4">
+        <span className="text-sm text-muted-foreground">{t("detail.gettingThere")}</span>
+        <TravelModeToggle value={travelMode} onChange={onTravelModeChange} />
+      </div>
 
       <div className="flex flex-col gap-4 flex-1 overflow-y-auto pb-4">
+        {directions.isActive && (
+          <DirectionsPanel directions={directions} destinationName={restroom.name} travelMode={travelMode} />
+        )}
         <LocationSection restroom={restroom} />
         <CleanlinessSection restroom={restroom} formatDate={formatDate} />
         <AmenitiesSection restroom={restroom} />
+        <PhotosSection restroom={restroom} />
         <ReviewsSection restroom={restroom} />
       </div>
       
       <div className="mt-auto pt-4">
         <div className="grid grid-cols-2 gap-2">
-          <Button onClick={handleReportCleanliness}>Report Cleanliness</Button>
+          <DropdownMenu>
+            <DropdownMenuTrigger asChild>
+              <Button disabled={reportCleanliness.isPending}>{t("detail.reportCleanliness")}</Button>
+            </DropdownMenuTrigger>
+            <DropdownMenuContent align="start">
+              {cleanlinessOptions.map(choice => (
+                <DropdownMenuItem key={choice.status} onSelect={() => handleReportCleanliness(choice.status)}>
+                  {t(choice.label)}
+                </DropdownMenuItem>
+              ))}
+            </DropdownMenuContent>
+          </DropdownMenu>
           <Button 
             variant="secondary" 
             onClick={handleGetDirections}
             disabled={calculating}
           >
-            {calculating ? 'Calculating...' : 'Get Directions'}
+            {t(calculating ? "detail.calculating" : "detail.getDirections")}
           </Button>
         </div>
       </div>
@@ -7,6 +7,7 @@ import { Slider } from "@/components/ui/slider";
 import { Button } from "@/components/ui/button";
 import { Restroom } from "@/types";
 import { getRecommendedRestrooms } from "@/data/userRestrooms";
+import { useLanguage } from "@/hooks/use-language";
 import { RestroomCard } from "./RestroomCard";
 import { Route } from "lucide-react";
 
@@ -19,6 +20,7 @@ export function RestroomRecommendations({
   restrooms,
   onSelectRestroom
 }: RestroomRecommendationsProps) {
+  const { t } = useLanguage();
   const [accessibility, setAccessibility] = useState(false);
   const [babyChanging, setBabyChanging] = useState(false);
   const [genderNeutral, setGenderNeutral] = useState(false);
@@ -56,7 +58,7 @@ export function RestroomRecommendations({
   return (
     <Card>
       <CardHeader>
-        <CardTitle>Get Personalized Recommendations</CardTitle>
+        <CardTitle>{t("recommendations.title")}</CardTitle>
       </CardHeader>
       <CardContent>
         <div className="space-y-4">
@@ -67,7 +69,7 @@ export function RestroomRecommendations({
                 checked={accessibility}
                 onCheckedChange={(checked) => setAccessibility(!!checked)}
               />
-              <Label htmlFor="rec-accessibility">Must be accessible</Label>
+              <Label htmlFor="rec-accessibility">{t("recommendations.accessible")}</Label>
             </div>
             
             <div className="flex items-center gap-2">
@@ -76,7 +78,7 @@ export function RestroomRecommendations({
                 checked={babyChanging}
                 onCheckedChange={(checked) => setBabyChanging(!!checked)}
               />
-              <Label htmlFor="rec-babyChanging">Must have baby changing station</Label>
+              <Label htmlFor="rec-babyChanging">{t("recommendations.babyChanging")}</Label>
             </div>
             
             <div className="flex items-center gap-2">
@@ -85,7 +87,7 @@ export function RestroomRecommendations({
                 checked={genderNeutral}
                 onCheckedChange={(checked) => setGenderNeutral(!!checked)}
               />
-              <Label htmlFor="rec-genderNeutral">Must be gender neutral</Label>
+              <Label htmlFor="rec-genderNeutral">{t("recommendations.genderNeutral")}</Label>
             </div>
             
             <div className="flex items-center gap-2">
@@ -95,14 +97,14 @@ export function RestroomRecommendations({
                 onCheckedChange={(checked) => setPreferFuelStations(!!checked)}
               />
               <Label htmlFor="rec-fuelStations" className="flex items-center gap-1">
-                <span>Prefer fuel stations</span>
+                <span>{t("recommendations.preferFuelStations")}</span>
               </Label>
             </div>
           </div>
           
           <div className="space-y-2">
             <Label htmlFor="cleanlinessScore">
-              Minimum Cleanliness Score: {minCleanliness}
+              {t("recommendations.minCleanliness", { score: minCleanliness })}
             </Label>
             <Slider
               id="cleanlinessScore"
@@ -115,16 +117,16 @@ export function RestroomRecommendations({
           </div>
           
           <Button className="w-full" onClick={handleGetRecommendations}>
-            Get Recommendations
+            {t("recommendations.get")}
           </Button>
         </div>
         
         {hasRecommendations && (
           <div className="mt-6 space-y-4">
-            <h3 className="font-semibold">Recommended Restrooms</h3>
+            <h3 className="font-semibold">{t("recommendations.results")}</h3>
             {recommendedRestrooms.length === 0 ? (
               <p className="text-sm text-muted-foreground">
-                No restrooms match your preferences. Try adjusting your filters.
+                {t("recommendations.empty")}
               </p>
             ) : (
               <div className="space-y-2">
@@ -0,0 +1,42 @@
+import { Bike, Car, Footprints } from "lucide-react";
+import { ToggleGroup, ToggleGroupItem } from "@/components/ui/toggle-group";
+import { TravelMode, travelModes } from "@/data/routing";
+import { useLanguage } from "@/hooks/use-language";
+
+interface TravelModeToggleProps {
+  value: TravelMode;
+  onChange: (mode: TravelMode) => void;
+}
+
+const modeIcons: Record<TravelMode, typeof Footprints> = {
+  walking: Footprints,
+  two_wheeler: Bike,
+  driving: Car,
+};
+
+export function TravelModeIcon({ mode, className }: { mode: TravelMode; className?: string }) {
+  const Icon = modeIcons[mode];
+  return <Icon className={className} />;
+}
+
+export function TravelModeToggle({ value, onChange }: TravelModeToggleProps) {
+  const { t } = useLanguage();
+
+  return (
+    <ToggleGroup
+      type="single"
+      size="sm"
+      variant="outline"
+      value={value}
+      // Radix clears the value when the active item is clicked again; keep it
+      onValueChange={(mode: TravelMode | "") => mode && onChange(mode)}
+      aria-label={t("travel.mode")}
+    >
+      {travelModes.map(mode => (
+        <ToggleGroupItem key={mode.id} value={mode.id} aria-label={t(mode.label)} title={t(mode.label)}>
+          <TravelModeIcon mode={mode.id} className="h-4 w-4" />
+        </ToggleGroupItem>
+      ))}
+    </ToggleGroup>
+  );
+}
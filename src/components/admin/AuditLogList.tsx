@@ -0,0 +1,60 @@
+import { ScrollText } from "lucide-react";
+import { Badge } from "@/components/ui/badge";
+import { Card } from "@/components/ui/card";
+import { AuditEntry, ModerationAction, ModerationChanges } from "@/data/moderation";
+import { useLanguage } from "@/hooks/use-language";
+import { actionLabels, fieldLabels, kindLabels } from "./labels";
+
+const actionVariants: Record<ModerationAction, "secondary" | "destructive" | "outline"> = {
+  approve: "secondary",
+  reject: "destructive",
+  edit: "outline",
+};
+
+// Only the fields an edit actually changed
+const changedFields = (before: ModerationChanges = {}, after: ModerationChanges = {}) =>
+  (Object.keys(after) as (keyof ModerationChanges)[]).filter(field => (before[field] ?? "") !== (after[field] ?? ""));
+
+interface AuditLogListProps {
+  entries: AuditEntry[];
+}
+
+export function AuditLogList({ entries }: AuditLogListProps) {
+  const { option, t } = useLanguage();
+
+  if (entries.length === 0) {
+    return (
+      <div className="text-center py-12">
+        <ScrollText className="mx-auto h-12 w-12 text-muted-foreground mb-4" />
+        <h3 className="font-medium text-lg">{t("admin.logEmpty")}</h3>
+        <p className="text-muted-foreground">{t("admin.logEmptyHint")}</p>
+      </div>
+    );
+  }
+
+  return (
+    <Card className="divide-y">
+      {entries.map(entry => (
+        <div key={entry.id} className="p-4 space-y-1">
+          <div className="flex items-center gap-2 flex-wrap">
+            <Badge variant={actionVariants[entry.action]}>{t(actionLabels[entry.action])}</Badge>
+            <span className="text-xs text-muted-foreground">{t(kindLabels[entry.kind])}</span>
+            <span className="text-xs text-muted-foreground ml-auto">
+              {entry.moderator} · {new Date(entry.date).toLocaleString(option.locale)}
+            </span>
+          </div>
+          <p className="text-sm font-medium">{entry.label}</p>
+          {entry.reason && <p className="text-sm text-muted-foreground">{t("admin.reason", { reason: entry.reason })}</p>}
+          {changedFields(entry.before, entry.after).map(field => (
+            <p key={field} className="text-xs">
+              <span className="font-medium">{t(fieldLabels[field])}: </span>
+              <span className="line-through text-muted-foreground">{entry.before?.[field] || t("admin.emptyValue")}</span>
+              {" → "}
+              <span>{entry.after?.[field] || t("admin.emptyValue")}</span>
+            </p>
+          ))}
+        </div>
+      ))}
+    </Card>
+  );
+}
@@ -0,0 +1,142 @@
+import { useEffect, useState } from "react";
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { MessageKey } from "@/data/i18n";
+import { ModerationAction, ModerationChanges, ModerationItem } from "@/data/moderation";
+import { useLanguage } from "@/hooks/use-language";
+import { fieldLabels } from "./labels";
+
+interface ModerationDialogProps {
+  item: ModerationItem | null;
+  action: ModerationAction;
+  isSaving: boolean;
+  onOpenChange: (open: boolean) => void;
+  onConfirm: (reason: string, changes?: ModerationChanges) => void;
+}
+
+const titles: Record<ModerationAction, MessageKey> = {
+  approve: "admin.approveTitle",
+  reject: "admin.rejectTitle",
+  edit: "admin.editTitle",
+};
+
+// The fields an edit starts from
+const editableFields = (item: ModerationItem): ModerationChanges =>
+  item.kind === "review"
+    ? { comment: item.review.comment ?? "" }
+    : {
+        name: item.restroom.name,
+        description: item.restroom.description ?? "",
+        address: item.restroom.location.address ?? "",
+      };
+
+// Asks for the reason behind a decision, and for the changes of an edit
+export function ModerationDialog({ item, action, isSaving, onOpenChange, onConfirm }: ModerationDialogProps) {
+  const [reason, setReason] = useState("");
+  const [changes, setChanges] = useState<ModerationChanges>({});
+  const { t } = useLanguage();
+
+  // Start every decision from a blank reason and the submission as it is
+  useEffect(() => {
+    if (!item) return;
+    setReason("");
+    setChanges(editableFields(item));
+  }, [item, action]);
+
+  const reasonRequired = action !== "approve";
+  const canConfirm = !isSaving && (!reasonRequired || reason.trim().length > 0);
+
+  const setField = (field: keyof ModerationChanges) => (value: string) =>
+    setChanges(current => ({ ...current, [field]: value }));
+
+  return (
+    <Dialog open={!!item} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[480px]">
+        <DialogHeader>
+          <DialogTitle>{t(titles[action])}</DialogTitle>
+          <DialogDescription>
+            {reasonRequired
+              ? t("admin.reasonRequiredHint")
+              : t("admin.reasonOptionalHint")}
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="grid gap-4 py-2">
+          {action === "edit" && item?.kind === "review" && (
+            <div className="grid gap-2">
+              <Label htmlFor="moderation-comment">{t(fieldLabels.comment)}</Label>
+              <Textarea
+                id="moderation-comment"
+                value={changes.comment ?? ""}
+                onChange={(e) => setField("comment")(e.target.value)}
+              />
+            </div>
+          )}
+          {action === "edit" && item?.kind === "restroom" && (
+            <>
+              <div className="grid gap-2">
+                <Label htmlFor="moderation-name">{t(fieldLabels.name)}</Label>
+                <Input
+                  id="moderation-name"
+                  value={changes.name ?? ""}
+                  onChange={(e) => setField("name")(e.target.value)}
+                />
+              </div>
+              <div className="grid gap-2">
+                <Label htmlFor="moderation-address">{t(fieldLabels.address)}</Label>
+                <Input
+                  id="moderation-address"
+                  value={changes.address ?? ""}
+                  onChange={(e) => setField("address")(e.target.value)}
+                />
+              </div>
+              <div className="grid gap-2">
+                <Label htmlFor="moderation-description">{t(fieldLabels.description)}</Label>
+                <Textarea
+                  id="moderation-description"
+                  value={changes.description ?? ""}
+                  onChange={(e) => setField("description")(e.target.value)}
+                />
+              </div>
+            </>
+          )}
+
+          <div className="grid gap-2">
+            <Label htmlFor="moderation-reason">{t("admin.reasonLabel")}{reasonRequired ? " *" : ""}</Label>
+            <Textarea
+              id="moderation-reason"
+              placeholder={
+                action === "reject" ? t("admin.rejectPlaceholder") : t("admin.editPlaceholder")
+              }
+              value={reason}
+              onChange={(e) => setReason(e.target.value)}
+            />
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            {t("common.cancel")}
+          </Button>
+          <Button
+            variant={action === "reject" ? "destructive" : "default"}
+            disabled={!canConfirm}
+            onClick={() => onConfirm(reason, action === "edit" ? changes : undefined)}
+          >
+            {isSaving ? t("admin.saving") : t(titles[action])}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,135 @@
+import { useState } from "react";
+import { Check, Pencil, Star, X } from "lucide-react";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle } from "@/components/ui/card";
+import { PhotoLightbox } from "@/components/reviews/PhotoLightbox";
+import { getAmenityLabel } from "@/data/amenities";
+import { translateLabel } from "@/data/i18n";
+import { ModerationAction, ModerationItem } from "@/data/moderation";
+import { useLanguage } from "@/hooks/use-language";
+import { flagLabels, kindLabels, reportReasonLabels } from "./labels";
+
+interface ModerationItemCardProps {
+  item: ModerationItem;
+  disabled?: boolean;
+  onDecide: (item: ModerationItem, action: ModerationAction) => void;
+}
+
+const formatDateTime = (date: string, locale: string) =>
+  new Date(date).toLocaleString(locale, { month: "short", day: "numeric", hour: "numeric", minute: "2-digit" });
+
+function SubmissionContent({ item }: { item: ModerationItem }) {
+  const [photoOpen, setPhotoOpen] = useState<number | null>(null);
+  const { language, t } = useLanguage();
+
+  switch (item.kind) {
+    case "review":
+      return (
+        <div className="space-y-1">
+          <div className="flex items-center gap-1">
+            {[...Array(5)].map((_, i) => (
+              <Star
+                key={i}
+                size={14}
+                className={i < item.review.rating ? "fill-yellow-400 text-yellow-400" : "text-gray-300"}
+              />
+            ))}
+            <span className="text-sm ml-1">{t("admin.cleanlinessOutOf5", { score: item.review.cleanliness })}</span>
+          </div>
+          <p className="text-sm whitespace-pre-wrap">
+            {item.review.comment || <span className="text-muted-foreground">{t("admin.noComment")}</span>}
+          </p>
+        </div>
+      );
+
+    case "photo":
+      return (
+        <>
+          <button
+            type="button"
+            className="block w-40 h-40 overflow-hidden rounded-md bg-muted focus:outline-none focus:ring-2 focus:ring-ring"
+            onClick={() => setPhotoOpen(0)}
+          >
+            <img src={item.photo.thumbnailUrl} alt="" className="h-full w-full object-cover" />
+          </button>
+          <PhotoLightbox
+            photos={[item.photo]}
+            index={photoOpen}
+            onIndexChange={setPhotoOpen}
+            title={item.restroom.name}
+          />
+        </>
+      );
+
+    case "restroom":
+      return (
+        <div className="space-y-1 text-sm">
+          <p>{item.restroom.location.address || t("admin.noAddress")}</p>
+          {item.restroom.description && <p className="text-muted-foreground">{item.restroom.description}</p>}
+          <p className="text-xs text-muted-foreground">
+            {item.restroom.location.lat.toFixed(5)}, {item.restroom.location.lng.toFixed(5)}
+            {item.restroom.amenities.length > 0 &&
+              ` · ${item.restroom.amenities.map(id => translateLabel(language, id, getAmenityLabel(id))).join(", ")}`}
+          </p>
+        </div>
+      );
+  }
+}
+
+export function ModerationItemCard({ item, disabled, onDecide }: ModerationItemCardProps) {
+  const submitter = item.kind === "restroom" ? undefined : item.review.userName;
+  const risk = item.kind === "restroom" ? undefined : item.review.risk;
+  // Photos follow their review, so only the review item shows its reports
+  const reports = item.kind === "review" ? item.review.reports ?? [] : [];
+  const { option, t } = useLanguage();
+
+  return (
+    <Card>
+      <CardHeader className="pb-2">
+        <div className="flex items-center justify-between gap-2">
+          <CardTitle className="text-base">{item.restroom.name}</CardTitle>
+          <div className="flex items-center gap-1">
+            {risk?.held && <Badge variant="destructive">{t("admin.held")}</Badge>}
+            {reports.length > 0 && <Badge variant="destructive">{t("reviews.reported")}</Badge>}
+            <Badge variant="outline">{t(kindLabels[item.kind])}</Badge>
+          </div>
+        </div>
+        <CardDescription>
+          {submitter ? `${submitter} · ` : ""}
+          {formatDateTime(item.submittedAt, option.locale)}
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="pb-2">
+        <SubmissionContent item={item} />
+        {risk && (
+          <p className={`text-xs mt-2 ${risk.held ? "text-destructive" : "text-muted-foreground"}`}>
+            {t("admin.risk", { percent: Math.round(risk.score * 100) })}
+            {risk.flags.length > 0 && ` · ${risk.flags.map(flag => t(flagLabels[flag])).join(", ")}`}
+          </p>
+        )}
+        {reports.length > 0 && (
+          <p className="text-xs mt-1 text-destructive">
+            {t("admin.reports", { reasons: reports.map(reason => t(reportReasonLabels[reason])).join(", ") })}
+          </p>
+        )}
+      </CardContent>
+      <CardFooter className="gap-2">
+        <Button size="sm" disabled={disabled} onClick={() => onDecide(item, "approve")}>
+          <Check size={16} className="mr-1" />
+          {t("admin.approve")}
+        </Button>
+        {item.kind !== "photo" && (
+          <Button size="sm" variant="outline" disabled={disabled} onClick={() => onDecide(item, "edit")}>
+            <Pencil size={16} className="mr-1" />
+            {t("admin.edit")}
+          </Button>
+        )}
+        <Button size="sm" variant="destructive" disabled={disabled} onClick={() => onDecide(item, "reject")}>
+          <X size={16} className="mr-1" />
+          {t("admin.reject")}
+        </Button>
+      </CardFooter>
+    </Card>
+  );
+}
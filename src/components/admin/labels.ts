@@ -0,0 +1,40 @@
+import { ReviewReportReason, RiskFlag } from "@/types";
+import { MessageKey } from "@/data/i18n";
+import { ModerationAction, ModerationChanges, ModerationItemKind } from "@/data/moderation";
+
+export const kindLabels: Record<ModerationItemKind, MessageKey> = {
+  review: "admin.kindReview",
+  photo: "admin.kindPhoto",
+  restroom: "admin.kindRestroom",
+};
+
+export const flagLabels: Record<RiskFlag, MessageKey> = {
+  profanity: "admin.flagProfanity",
+  link: "admin.flagLink",
+  phone: "admin.flagPhone",
+  duplicate: "admin.flagDuplicate",
+  too_fast: "admin.flagTooFast",
+  rating_bomb: "admin.flagRatingBomb",
+  spam: "admin.flagSpam",
+};
+
+export const reportReasonLabels: Record<ReviewReportReason, MessageKey> = {
+  spam: "reviews.reasonSpam",
+  offensive: "reviews.reasonOffensive",
+  irrelevant: "reviews.reasonIrrelevant",
+  fake: "reviews.reasonFake",
+  other: "reviews.reasonOther",
+};
+
+export const actionLabels: Record<ModerationAction, MessageKey> = {
+  approve: "admin.actionApproved",
+  reject: "admin.actionRejected",
+  edit: "admin.actionEdited",
+};
+
+export const fieldLabels: Record<keyof ModerationChanges, MessageKey> = {
+  comment: "admin.fieldComment",
+  name: "admin.fieldName",
+  description: "admin.fieldDescription",
+  address: "admin.fieldAddress",
+};
@@ -0,0 +1,132 @@
+import {
+  ArrowUp,
+  ArrowUpLeft,
+  ArrowUpRight,
+  CornerLeftDown,
+  CornerRightDown,
+  CornerUpLeft,
+  CornerUpRight,
+  Flag,
+  Loader2,
+  Navigation,
+  RotateCw,
+  Undo2,
+  X,
+} from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { ManeuverKind, TravelMode, estimateDuration, formatTravelTime } from "@/data/routing";
+import { formatDistance } from "@/data/ranking";
+import { Directions } from "@/hooks/use-directions";
+import { useLanguage } from "@/hooks/use-language";
+
+interface DirectionsPanelProps {
+  directions: Directions;
+  destinationName: string;
+  travelMode: TravelMode;
+}
+
+const maneuverIcons: Record<ManeuverKind, typeof ArrowUp> = {
+  depart: Navigation,
+  arrive: Flag,
+  straight: ArrowUp,
+  slight_left: ArrowUpLeft,
+  left: CornerUpLeft,
+  sharp_left: CornerLeftDown,
+  slight_right: ArrowUpRight,
+  right: CornerUpRight,
+  sharp_right: CornerRightDown,
+  uturn: Undo2,
+  roundabout: RotateCw,
+};
+
+export function DirectionsPanel({ directions, destinationName, travelMode }: DirectionsPanelProps) {
+  const { route, progress, isRouting, noRoute, routeFailed, locationError, stop } = directions;
+  const { t } = useLanguage();
+
+  const renderStatus = () => {
+    if (locationError) {
+      return t("directions.needLocation");
+    }
+    if (noRoute) return t("directions.noRoute");
+    if (routeFailed) return t("directions.failed");
+    if (isRouting) {
+      return (
+        <span className="flex items-center gap-2">
+          <Loader2 className="h-4 w-4 animate-spin" />
+          {route ? t("directions.rerouting") : t("directions.finding")}
+        </span>
+      );
+    }
+    return null;
+  };
+
+  const remaining = progress?.remainingDistance ?? route?.distance;
+  let remainingMinutes: number | undefined;
+  if (route && remaining !== undefined) {
+    // Scale the engine's estimate by how much of the route is left
+    remainingMinutes = route.distance > 0
+      ? Math.max(1, Math.round(route.duration * remaining / route.distance))
+      : estimateDuration(remaining, travelMode);
+  }
+  const status = renderStatus();
+  const remainingTime = remainingMinutes !== undefined ? formatTravelTime(remainingMinutes, travelMode, t) : undefined;
+
+  return (
+    <div className="bg-white dark:bg-reststop-dark rounded-lg shadow p-4 space-y-3">
+      <div className="flex items-start justify-between gap-2">
+        <div>
+          <h3 className="font-semibold">{t("directions.title", { name: destinationName })}</h3>
+          {remaining !== undefined && remainingTime !== undefined && (
+            <p className="text-sm text-muted-foreground">
+              {t("directions.remaining", {
+                distance: formatDistance(remaining),
+                time: route?.estimated ? t("travel.about", { time: remainingTime }) : remainingTime,
+              })}
+            </p>
+          )}
+        </div>
+        <Button variant="ghost" size="icon" onClick={stop} aria-label={t("directions.end")}>
+          <X className="h-4 w-4" />
+        </Button>
+      </div>
+
+      {status && <p className="text-sm text-muted-foreground">{status}</p>}
+
+      {progress?.arrived && (
+        <p className="text-sm font-medium text-reststop-primary">{t("directions.arrived", { name: destinationName })}</p>
+      )}
+
+      {route && (
+        <div className="max-h-64 overflow-y-auto">
+          <ol className="space-y-1 pr-1">
+            {route.steps.map((step, index) => {
+              const Icon = maneuverIcons[step.maneuver];
+              const isCurrent = progress?.stepIndex === index;
+              const isDone = progress !== undefined && index < progress.stepIndex;
+
+              return (
+                <li
+                  key={index}
+                  className={`flex items-start gap-3 rounded-md p-2 text-sm ${
+                    isCurrent ? "bg-muted font-medium" : isDone ? "opacity-50" : ""
+                  }`}
+                  aria-current={isCurrent ? "step" : undefined}
+                >
+                  <Icon className="h-4 w-4 mt-0.5 shrink-0 text-primary" />
+                  <div className="flex-1">
+                    <div>{t(step.message.key, step.message.params)}</div>
+                    {isCurrent && progress ? (
+                      <div className="text-xs text-muted-foreground">{t("directions.inDistance", { distance: formatDistance(progress.distanceToStep) })}</div>
+                    ) : step.distance > 0 && (
+                      <div className="text-xs text-muted-foreground">{formatDistance(step.distance)}</div>
+                    )}
+                  </div>
+                </li>
+              );
+            })}
+          </ol>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,158 @@
+import { useCallback, useEffect, useMemo, useState } from "react";
+import { Marker, Popup, Tooltip, useMap, useMapEvents } from "react-leaflet";
+import { latLngBounds } from "leaflet";
+import { Restroom } from "@/types";
+import { Bounds, clusterByGrid } from "@/data/geo";
+import { getCleanlinessTier } from "@/data/restrooms";
+import { useRestroomsInBounds } from "@/hooks/use-restrooms";
+import { useTheme } from "@/hooks/use-theme";
+import { useLanguage } from "@/hooks/use-language";
+import { Button } from "@/components/ui/button";
+import { createClusterIcon, createRestroomIcon, getRestroomMarkerOptions } from "./markerIcons";
+
+interface RestroomMarkersProps {
+  // Whether a restroom in the viewport is shown (search and filters)
+  filter: (restroom: Restroom) => boolean;
+  activeId?: string;
+  onSelectRestroom: (id: string) => void;
+}
+
+// Markers closer than this many pixels are merged into a cluster
+const CLUSTER_CELL_SIZE = 60;
+// From this zoom level on every restroom gets its own marker
+const DISABLE_CLUSTERING_AT_ZOOM = 17;
+// Load a margin around the visible area so short pans need no refetch
+const VIEWPORT_PADDING = 0.25;
+
+export function RestroomMarkers({ filter, activeId, onSelectRestroom }: RestroomMarkersProps) {
+  const map = useMap();
+  const { resolvedTheme } = useTheme();
+  const { t } = useLanguage();
+  const [viewport, setViewport] = useState<{ bounds: Bounds; zoom: number } | null>(null);
+
+  const readViewport = useCallback(() => {
+    const bounds = map.getBounds().pad(VIEWPORT_PADDING);
+    setViewport({
+      bounds: {
+        south: bounds.getSouth(),
+        west: bounds.getWest(),
+        north: bounds.getNorth(),
+        east: bounds.getEast(),
+      },
+      zoom: map.getZoom(),
+    });
+  }, [map]);
+
+  useEffect(() => {
+    readViewport();
+  }, [readViewport]);
+
+  // Fires after both pans and zooms
+  useMapEvents({ moveend: readViewport });
+
+  const { data: viewportRestrooms } = useRestroomsInBounds(viewport?.bounds ?? null);
+
+  const clusters = useMemo(() => {
+    if (!viewport || !viewportRestrooms) return [];
+
+    const visible = viewportRestrooms.filter(filter);
+
+    // The selected restroom always keeps its own marker
+    const active = visible.filter(restroom => restroom.id === activeId);
+    const others = visible.filter(restroom => restroom.id !== activeId);
+
+    const singles = (items: Restroom[]) =>
+      items.map(restroom => ({ items: [restroom], center: restroom.location }));
+
+    if (viewport.zoom >= DISABLE_CLUSTERING_AT_ZOOM) {
+      return singles(visible);
+    }
+
+    return [
+      ...singles(active),
+      ...clusterByGrid(
+        others,
+        restroom => restroom.location,
+        position => map.project([position.lat, position.lng], viewport.zoom),
+        CLUSTER_CELL_SIZE
+      ),
+    ];
+  }, [viewport, viewportRestrooms, filter, activeId, map]);
+
+  const zoomIntoCluster = (items: Restroom[]) => {
+    const bounds = latLngBounds(items.map(restroom => [restroom.location.lat, restroom.location.lng]));
+    // Restrooms sharing one spot can't be separated by fitting bounds
+    if (bounds.getNorthEast().equals(bounds.getSouthWest())) {
+      map.setView(bounds.getCenter(), Math.min(map.getZoom() + 2, map.getMaxZoom()));
+    } else {
+      map.fitBounds(bounds, { padding: [40, 40] });
+    }
+  };
+
+  return (
+    <>
+      {clusters.map(cluster => {
+        if (cluster.items.length > 1) {
+          const counts = { high: 0, medium: 0, low: 0 };
+          cluster.items.forEach(restroom => {
+            counts[getCleanlinessTier(restroom.cleanliness.score)]++;
+          });
+
+          return (
+            <Marker
+              key={`cluster-${cluster.items.map(restroom => restroom.id).join("-")}`}
+              position={[cluster.center.lat, cluster.center.lng]}
+              icon={createClusterIcon(counts, resolvedTheme)}
+              eventHandlers={{ click: () => zoomIntoCluster(cluster.items) }}
+            >
+              <Tooltip direction="top">
+                {t("map.cluster", { count: cluster.items.length, ...counts })}
+              </Tooltip>
+            </Marker>
+          );
+        }
+
+        const restroom = cluster.items[0];
+        const cleanlinessTier = getCleanlinessTier(restroom.cleanliness.score);
+
+        return (
+          <Marker
+            key={restroom.id}
+            position={[restroom.location.lat, restroom.location.lng]}
+            icon={createRestroomIcon(getRestroomMarkerOptions(restroom, resolvedTheme))}
+            eventHandlers={{
+              click: () => {
+                onSelectRestroom(restroom.id);
+              },
+            }}
+          >
+            <Popup>
+              <div className="p-1">
+                <h3 className="font-semibold text-lg">{restroom.name}</h3>
+                <div className="flex items-center gap-1 text-sm">
+                  <span className={`cleanliness-${cleanlinessTier} font-medium`}>
+                    {restroom.cleanliness.score}/100
+                  </span>
+                  <span className="text-muted-foreground">
+                    {t("map.reports", { count: restroom.cleanliness.reports })}
+                  </span>
+                </div>
+                <div className="mt-2">
+                  <Button 
+                    size="sm" 
+                    onClick={(e) => {
+                      e.stopPropagation();
+                      onSelectRestroom(restroom.id);
+                    }}
+                  >
+                    {t("card.viewDetails")}
+                  </Button>
+                </div>
+              </div>
+            </Popup>
+          </Marker>
+        );
+      })}
+    </>
+  );
+}
@@ -0,0 +1,186 @@
+import { DivIcon } from "leaflet";
+import { BusinessType, Restroom } from "@/types";
+import { getCleanlinessTier } from "@/data/restrooms";
+
+// Markers are drawn as inline SVG so the map works offline and without
+// access to third-party image hosts
+
+type CleanlinessTier = 'high' | 'medium' | 'low';
+export type MarkerTheme = 'light' | 'dark';
+
+export const tierColors: Record<CleanlinessTier, string> = {
+  high: '#27ae60',
+  medium: '#f39c12',
+  low: '#e74c3c',
+};
+
+interface MarkerPalette {
+  face: string;    // disc behind the glyph
+  glyph: string;
+  outline: string; // pin border, separates it from the tiles
+  shadow: string;
+}
+
+const palettes: Record<MarkerTheme, MarkerPalette> = {
+  light: { face: '#ffffff', glyph: '#1f2937', outline: '#ffffff', shadow: 'rgba(0,0,0,0.35)' },
+  dark: { face: '#1e293b', glyph: '#f1f5f9', outline: '#0f172a', shadow: 'rgba(0,0,0,0.7)' },
+};
+
+const partnerColors = {
+  premium: '#f5b301',
+  standard: '#94a3b8',
+};
+
+const accessibleColor = '#2563eb';
+const userLocationColor = '#3b82f6';
+
+// Lucide icon outlines (24x24 viewBox, stroked)
+const glyphs: Record<BusinessType, string> = {
+  gas_station: '<line x1="3" x2="15" y1="22" y2="22"/><line x1="4" x2="14" y1="9" y2="9"/><path d="M14 22V4a2 2 0 0 0-2-2H6a2 2 0 0 0-2 2v18"/><path d="M14 13h2a2 2 0 0 1 2 2v2a2 2 0 0 0 2 2a2 2 0 0 0 2-2V9.83a2 2 0 0 0-.59-1.42L18 5"/>',
+  cafe: '<path d="M10 2v2"/><path d="M14 2v2"/><path d="M16 8a1 1 0 0 1 1 1v8a4 4 0 0 1-4 4H7a4 4 0 0 1-4-4V9a1 1 0 0 1 1-1h14a4 4 0 1 1 0 8h-1"/><path d="M6 2v2"/>',
+  restaurant: '<path d="M3 2v7c0 1.1.9 2 2 2h4a2 2 0 0 0 2-2V2"/><path d="M7 2v20"/><path d="M21 15V2a5 5 0 0 0-5 5v6c0 1.1.9 2 2 2h3Zm0 0v7"/>',
+  hotel: '<path d="M2 20v-8a2 2 0 0 1 2-2h16a2 2 0 0 1 2 2v8"/><path d="M4 10V6a2 2 0 0 1 2-2h12a2 2 0 0 1 2 2v4"/><path d="M12 4v6"/><path d="M2 18h20"/>',
+  bakery: '<path d="m4.6 13.11 5.79-3.21c1.89-1.05 4.79 1.78 3.71 3.71l-3.22 5.81C8.8 23.16.79 15.23 4.6 13.11Z"/><path d="m10.5 9.5-1-2.29C9.2 6.48 8.8 6 8 6H4.5C2.79 6 2 6.5 2 8.5a7.71 7.71 0 0 0 2 4.83"/><path d="M8 6c0-1.55.24-4-2-4-2 0-2.5 2.17-2.5 4"/><path d="m14.5 13.5 2.29 1c.73.3 1.21.7 1.21 1.5v3.5c0 1.71-.5 2.5-2.5 2.5a7.71 7.71 0 0 1-4.83-2"/><path d="M18 16c1.55 0 4-.24 4 2 0 2-2.17 2.5-4 2.5"/>',
+  public: '<path d="M7 12h13a1 1 0 0 1 1 1 5 5 0 0 1-5 5h-.598a.5.5 0 0 0-.424.765l1.544 2.47a.5.5 0 0 1-.424.765H5.402a.5.5 0 0 1-.424-.765L7 18"/><path d="M8 18a5 5 0 0 1-5-5V4a2 2 0 0 1 2-2h8a2 2 0 0 1 2 2v8"/>',
+  other: '<path d="M7 12h13a1 1 0 0 1 1 1 5 5 0 0 1-5 5h-.598a.5.5 0 0 0-.424.765l1.544 2.47a.5.5 0 0 1-.424.765H5.402a.5.5 0 0 1-.424-.765L7 18"/><path d="M8 18a5 5 0 0 1-5-5V4a2 2 0 0 1 2-2h8a2 2 0 0 1 2 2v8"/>',
+};
+
+const accessibilityGlyph = '<circle cx="16" cy="4" r="1"/><path d="m18 19 1-7-6 1"/><path d="m5 8 3-3 5.5 3-2.36 3.5"/><path d="M4.24 14.5a5 5 0 0 0 6.88 6"/><path d="M13.76 17.5a5 5 0 0 0-6.88-6"/>';
+const starPath = 'M11.525 2.295a.53.53 0 0 1 .95 0l2.31 4.679a2.123 2.123 0 0 0 1.595 1.16l5.166.756a.53.53 0 0 1 .294.904l-3.736 3.638a2.123 2.123 0 0 0-.611 1.878l.882 5.14a.53.53 0 0 1-.771.56l-4.618-2.428a2.122 2.122 0 0 0-1.973 0L6.396 21.01a.53.53 0 0 1-.77-.56l.881-5.139a2.122 2.122 0 0 0-.611-1.879L2.16 9.795a.53.53 0 0 1 .294-.906l5.165-.755a2.122 2.122 0 0 0 1.597-1.16z';
+
+const PIN_WIDTH = 32;
+const PIN_HEIGHT = 42;
+const PIN_PATH = 'M16 41C16 41 2 25.5 2 15a14 14 0 0 1 28 0c0 10.5-14 26-14 26z';
+
+// Teardrop pin with a disc in the head; `content` is drawn inside the disc
+const pinSvg = (color: string, palette: MarkerPalette, content: string) => `
+  <svg width="${PIN_WIDTH}" height="${PIN_HEIGHT}" viewBox="0 0 ${PIN_WIDTH} ${PIN_HEIGHT}" style="filter:drop-shadow(0 1px 2px ${palette.shadow});overflow:visible">
+    <path d="${PIN_PATH}" fill="${color}" stroke="${palette.outline}" stroke-width="2"/>
+    <circle cx="16" cy="15" r="10" fill="${palette.face}"/>
+    ${content}
+  </svg>`;
+
+const glyphSvg = (glyph: string, color: string) =>
+  `<svg x="9" y="8" width="14" height="14" viewBox="0 0 24 24" fill="none" stroke="${color}" stroke-width="2.25" stroke-linecap="round" stroke-linejoin="round">${glyph}</svg>`;
+
+// Small round badge overlapping a corner of the pin head
+const badge = (side: 'left' | 'right', background: string, palette: MarkerPalette, content: string) => `
+  <span style="position:absolute;top:-4px;${side}:-6px;width:16px;height:16px;border-radius:50%;background:${background};border:1.5px solid ${palette.outline};display:flex;align-items:center;justify-content:center;">
+    ${content}
+  </span>`;
+
+export interface RestroomMarkerOptions {
+  tier: CleanlinessTier;
+  businessType: BusinessType;
+  accessible: boolean;
+  partnerStatus: 'premium' | 'standard' | 'none';
+  theme: MarkerTheme;
+}
+
+export const getRestroomMarkerOptions = (restroom: Restroom, theme: MarkerTheme): RestroomMarkerOptions => ({
+  tier: getCleanlinessTier(restroom.cleanliness.score),
+  businessType: restroom.businessInfo?.type ?? 'other',
+  accessible: restroom.accessibility,
+  partnerStatus: restroom.businessInfo?.partnerStatus ?? 'none',
+  theme,
+});
+
+// Leaflet icons are plain objects, so identical markers can share one
+const iconCache = new Map<string, DivIcon>();
+
+const cached = (key: string, create: () => DivIcon) => {
+  let icon = iconCache.get(key);
+  if (!icon) {
+    icon = create();
+    iconCache.set(key, icon);
+  }
+  return icon;
+};
+
+// Pin colored by cleanliness tier with the business type inside, a blue
+// wheelchair badge for accessible restrooms and a star for partners
+export const createRestroomIcon = (options: RestroomMarkerOptions) => {
+  const { tier, businessType, accessible, partnerStatus, theme } = options;
+  const key = ['restroom', tier, businessType, accessible, partnerStatus, theme].join(':');
+
+  return cached(key, () => {
+    const palette = palettes[theme];
+    const glyph = glyphs[businessType] ?? glyphs.other;
+
+    const accessibleBadge = accessible
+      ? badge('left', accessibleColor, palette,
+          `<svg width="11" height="11" viewBox="0 0 24 24" fill="none" stroke="#ffffff" stroke-width="2.5" stroke-linecap="round" stroke-linejoin="round">${accessibilityGlyph}</svg>`)
+      : '';
+    const partnerBadge = partnerStatus !== 'none'
+      ? badge('right', partnerColors[partnerStatus], palette,
+          `<svg width="10" height="10" viewBox="0 0 24 24" fill="#ffffff"><path d="${starPath}"/></svg>`)
+      : '';
+
+    return new DivIcon({
+      className: '',
+      html: `
+        <div style="position:relative;width:${PIN_WIDTH}px;height:${PIN_HEIGHT}px;">
+          ${pinSvg(tierColors[tier], palette, glyphSvg(glyph, palette.glyph))}
+          ${accessibleBadge}
+          ${partnerBadge}
+        </div>`,
+      iconSize: [PIN_WIDTH, PIN_HEIGHT],
+      iconAnchor: [PIN_WIDTH / 2, PIN_HEIGHT - 1],
+      popupAnchor: [0, -PIN_HEIGHT + 4],
+      tooltipAnchor: [PIN_WIDTH / 2, -PIN_HEIGHT / 2],
+    });
+  });
+};
+
+// Plain pin used when placing a new restroom
+export const createPinIcon = (color: string, theme: MarkerTheme) =>
+  cached(['pin', color, theme].join(':'), () => {
+    const palette = palettes[theme];
+    return new DivIcon({
+      className: '',
+      html: pinSvg(color, palette, `<circle cx="16" cy="15" r="4" fill="${color}"/>`),
+      iconSize: [PIN_WIDTH, PIN_HEIGHT],
+      iconAnchor: [PIN_WIDTH / 2, PIN_HEIGHT - 1],
+      popupAnchor: [0, -PIN_HEIGHT + 4],
+    });
+  });
+
+// Blue dot with a soft halo, like most navigation apps
+export const createUserLocationIcon = (theme: MarkerTheme) =>
+  cached(['user', theme].join(':'), () => {
+    const palette = palettes[theme];
+    return new DivIcon({
+      className: '',
+      html: `
+        <div style="width:24px;height:24px;border-radius:50%;background:${userLocationColor}33;display:flex;align-items:center;justify-content:center;">
+          <div style="width:14px;height:14px;border-radius:50%;background:${userLocationColor};border:2px solid ${palette.outline};box-shadow:0 1px 3px ${palette.shadow};"></div>
+        </div>`,
+      iconSize: [24, 24],
+      iconAnchor: [12, 12],
+      popupAnchor: [0, -12],
+    });
+  });
+
+// Cluster bubble whose ring shows the share of each cleanliness tier, so a
+// cluster of mostly dirty restrooms is recognisable before zooming in
+export const createClusterIcon = (counts: Record<CleanlinessTier, number>, theme: MarkerTheme) => {
+  const palette = palettes[theme];
+  const total = counts.high + counts.medium + counts.low;
+  const highEnd = (counts.high / total) * 360;
+  const mediumEnd = highEnd + (counts.medium / total) * 360;
+  const size = total < 10 ? 36 : total < 50 ? 44 : 52;
+
+  const ring = `conic-gradient(${tierColors.high} 0deg ${highEnd}deg, ${tierColors.medium} ${highEnd}deg ${mediumEnd}deg, ${tierColors.low} ${mediumEnd}deg 360deg)`;
+
+  return new DivIcon({
+    className: "",
+    html: `
+      <div style="width:${size}px;height:${size}px;border-radius:50%;background:${ring};display:flex;align-items:center;justify-content:center;box-shadow:0 1px 4px ${palette.shadow};">
+        <div style="width:${size - 10}px;height:${size - 10}px;border-radius:50%;background:${palette.face};color:${palette.glyph};display:flex;align-items:center;justify-content:center;font:600 13px/1 sans-serif;">
+          ${total}
+        </div>
+      </div>`,
+    iconSize: [size, size],
+    iconAnchor: [size / 2, size / 2],
+  });
+};
@@ -0,0 +1,194 @@
+import { useRef, useState } from "react";
+import { Locale, formatDistanceToNow } from "date-fns";
+import { enUS, ta } from "date-fns/locale";
+import { CheckCircle2, CloudDownload, Loader2, Trash2, WifiOff } from "lucide-react";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Progress } from "@/components/ui/progress";
+import {
+  MAX_TILES_PER_REGION,
+  OfflineRegionPreset,
+  TILE_DOWNLOADS_ENABLED,
+  countRegionTiles,
+  offlineRegionPresets,
+} from "@/data/offline";
+import { useDeleteOfflineRegion, useDownloadOfflineRegion, useOfflineRegions } from "@/hooks/use-offline-regions";
+import { useQueuedFeedback } from "@/hooks/use-feedback";
+import { useOnlineStatus } from "@/hooks/use-online-status";
+import { useLanguage } from "@/hooks/use-language";
+import { Language } from "@/data/i18n";
+import { toast } from "sonner";
+
+interface OfflineRegionsDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+// Rough size of a 256px OSM tile, for the download estimate
+const AVERAGE_TILE_KB = 15;
+
+const dateLocales: Record<Language, Locale> = { en: enUS, ta };
+
+export function OfflineRegionsDialog({ open, onOpenChange }: OfflineRegionsDialogProps) {
+  const isOnline = useOnlineStatus();
+  const { language, t } = useLanguage();
+  const { data: regions = [] } = useOfflineRegions();
+  const { data: queuedFeedback = [] } = useQueuedFeedback();
+  const downloadRegion = useDownloadOfflineRegion();
+  const deleteRegion = useDeleteOfflineRegion();
+  const [downloadingId, setDownloadingId] = useState<string>();
+  const [progress, setProgress] = useState(0);
+  const abortRef = useRef<AbortController | null>(null);
+
+  const handleDownload = (preset: OfflineRegionPreset) => {
+    const controller = new AbortController();
+    abortRef.current = controller;
+    setDownloadingId(preset.id);
+    setProgress(0);
+
+    downloadRegion.mutate(
+      {
+        preset,
+        onProgress: (done, total) => setProgress(Math.round((done / total) * 100)),
+        signal: controller.signal,
+      },
+      {
+        onSuccess: (region) => {
+          toast.success(t("offline.saved", { name: region.name }), {
+            description: t("offline.savedDetails", { restrooms: region.restrooms.length, tiles: region.tileCount }),
+          });
+        },
+        onError: (error) => {
+          if (controller.signal.aborted) return;
+          console.error("Error downloading offline region:", error);
+          toast.error(t("offline.saveFailed", { name: preset.name }), {
+            description: t("offline.saveFailedHint"),
+          });
+        },
+        onSettled: () => {
+          setDownloadingId(undefined);
+          abortRef.current = null;
+        },
+      }
+    );
+  };
+
+  const handleDelete = (preset: OfflineRegionPreset) => {
+    deleteRegion.mutate(preset.id, {
+      onError: (error) => {
+        console.error("Error removing offline region:", error);
+        toast.error(t("offline.removeFailed", { name: preset.name }));
+      },
+    });
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[480px]">
+        <DialogHeader>
+          <DialogTitle>{t("header.offlineMaps")}</DialogTitle>
+          <DialogDescription>{t("offline.description")}</DialogDescription>
+        </DialogHeader>
+
+        {!TILE_DOWNLOADS_ENABLED && (
+          <p className="rounded-md bg-muted/50 p-2 text-sm">
+            {t("offline.noTileServer")}
+          </p>
+        )}
+
+        {!isOnline && (
+          <p className="flex items-center gap-2 rounded-md bg-muted/50 p-2 text-sm">
+            <WifiOff className="h-4 w-4 shrink-0" />
+            {t("offline.youreOffline")}
+          </p>
+        )}
+
+        <ul className="space-y-3">
+          {offlineRegionPresets.map(preset => {
+            const saved = regions.find(region => region.id === preset.id);
+            const tileCount = countRegionTiles(preset);
+            const isDownloading = downloadingId === preset.id;
+
+            return (
+              <li key={preset.id} className="rounded-md border p-3 space-y-2">
+                <div className="flex items-start justify-between gap-2">
+                  <div>
+                    <p className="font-medium flex items-center gap-1">
+                      {saved && <CheckCircle2 className="h-4 w-4 text-reststop-clean" />}
+                      {preset.name}
+                    </p>
+                    <p className="text-xs text-muted-foreground">{preset.description}</p>
+                  </div>
+                  {saved ? (
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      onClick={() => handleDelete(preset)}
+                      disabled={deleteRegion.isPending}
+                      aria-label={t("offline.remove", { name: preset.name })}
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  ) : TILE_DOWNLOADS_ENABLED && (
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      onClick={() => handleDownload(preset)}
+                      disabled={!isOnline || !!downloadingId || tileCount > MAX_TILES_PER_REGION}
+                    >
+                      {isDownloading ? (
+                        <Loader2 className="h-4 w-4 animate-spin" />
+                      ) : (
+                        <>
+                          <CloudDownload className="h-4 w-4 mr-1" />
+                          {t("offline.save")}
+                        </>
+                      )}
+                    </Button>
+                  )}
+                </div>
+
+                {isDownloading ? (
+                  <div className="flex items-center gap-2">
+                    <Progress value={progress} className="h-2" />
+                    <Button variant="ghost" size="sm" onClick={() => abortRef.current?.abort()}>
+                      {t("common.cancel")}
+                    </Button>
+                  </div>
+                ) : (
+                  <p className="text-xs text-muted-foreground">
+                    {saved
+                      ? t("offline.regionSaved", {
+                          count: saved.restrooms.length,
+                          time: formatDistanceToNow(new Date(saved.downloadedAt), {
+                            addSuffix: true,
+                            locale: dateLocales[language],
+                          }),
+                        })
+                      : TILE_DOWNLOADS_ENABLED
+                        ? t("offline.size", { size: Math.ceil((tileCount * AVERAGE_TILE_KB) / 1024) })
+                        : t("offline.notSaved")}
+                  </p>
+                )}
+              </li>
+            );
+          })}
+        </ul>
+
+        {queuedFeedback.length > 0 && (
+          <p className="text-sm text-muted-foreground">
+            {queuedFeedback.length === 1
+              ? t("offline.queuedOne")
+              : t("offline.queued", { count: queuedFeedback.length })}
+          </p>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,48 @@
+import { Checkbox } from "@/components/ui/checkbox";
+import { Label } from "@/components/ui/label";
+import { amenities, amenityCategories } from "@/data/amenities";
+import { MessageKey, translateLabel } from "@/data/i18n";
+import { useLanguage } from "@/hooks/use-language";
+
+interface AmenityPickerProps {
+  value: string[];
+  onChange: (value: string[]) => void;
+}
+
+const categoryLabels: Record<keyof typeof amenityCategories, MessageKey> = {
+  basics: "amenities.basics",
+  hygiene: "amenities.hygiene",
+  comfort: "amenities.comfort",
+};
+
+export function AmenityPicker({ value, onChange }: AmenityPickerProps) {
+  const { language, t } = useLanguage();
+
+  const toggleAmenity = (id: string, checked: boolean) => {
+    onChange(checked ? [...value, id] : value.filter(amenity => amenity !== id));
+  };
+
+  return (
+    <div className="grid gap-4 sm:grid-cols-3">
+      {(Object.keys(amenityCategories) as (keyof typeof amenityCategories)[]).map(category => (
+        <div key={category} className="space-y-2">
+          <div className="text-sm font-medium text-muted-foreground">{t(categoryLabels[category])}</div>
+          {amenities
+            .filter(amenity => amenity.category === category)
+            .map(amenity => (
+              <div key={amenity.id} className="flex items-center gap-2">
+                <Checkbox
+                  id={`amenity-${amenity.id}`}
+                  checked={value.includes(amenity.id)}
+                  onCheckedChange={(checked) => toggleAmenity(amenity.id, !!checked)}
+                />
+                <Label htmlFor={`amenity-${amenity.id}`} className="font-normal">
+                  {translateLabel(language, amenity.id, amenity.label)}
+                </Label>
+              </div>
+            ))}
+        </div>
+      ))}
+    </div>
+  );
+}
@@ -0,0 +1,98 @@
+import { Control, useWatch } from "react-hook-form";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Input } from "@/components/ui/input";
+import { Switch } from "@/components/ui/switch";
+import { Label } from "@/components/ui/label";
+import { FormControl, FormField, FormItem, FormMessage } from "@/components/ui/form";
+import { weekdays } from "@/data/openingHours";
+import { MessageKey } from "@/data/i18n";
+import { useLanguage } from "@/hooks/use-language";
+import { Weekday } from "@/types";
+import { AddRestroomFormValues } from "./schema";
+
+interface OpeningHoursEditorProps {
+  control: Control<AddRestroomFormValues>;
+}
+
+const weekdayNames: Record<Weekday, MessageKey> = {
+  mon: "weekday.mon",
+  tue: "weekday.tue",
+  wed: "weekday.wed",
+  thu: "weekday.thu",
+  fri: "weekday.fri",
+  sat: "weekday.sat",
+  sun: "weekday.sun",
+};
+
+export function OpeningHoursEditor({ control }: OpeningHoursEditorProps) {
+  const { t } = useLanguage();
+  const open24Hours = useWatch({ control, name: "open24Hours" });
+  const hours = useWatch({ control, name: "hours" });
+
+  return (
+    <div className="space-y-3">
+      <FormField
+        control={control}
+        name="open24Hours"
+        render={({ field }) => (
+          <FormItem className="flex items-center gap-2 space-y-0">
+            <FormControl>
+              <Switch id="open24Hours" checked={field.value} onCheckedChange={field.onChange} />
+            </FormControl>
+            <Label htmlFor="open24Hours">{t("form.open24")}</Label>
+          </FormItem>
+        )}
+      />
+
+      {!open24Hours && (
+        <div className="space-y-2">
+          {weekdays.map(day => (
+            <div key={day} className="grid grid-cols-[4.5rem_5.5rem_1fr_1fr] items-start gap-2">
+              <span className="text-sm font-medium pt-2">{t(weekdayNames[day])}</span>
+              <FormField
+                control={control}
+                name={`hours.${day}.closed`}
+                render={({ field }) => (
+                  <FormItem className="flex items-center gap-2 space-y-0 pt-2">
+                    <FormControl>
+                      <Checkbox
+                        id={`closed-${day}`}
+                        checked={field.value}
+                        onCheckedChange={(checked) => field.onChange(!!checked)}
+                      />
+                    </FormControl>
+                    <Label htmlFor={`closed-${day}`} className="font-normal">{t("status.closed")}</Label>
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={control}
+                name={`hours.${day}.open`}
+                render={({ field }) => (
+                  <FormItem>
+                    <FormControl>
+                      <Input type="time" aria-label={t("form.openingTime", { day: t(weekdayNames[day]) })} {...field} disabled={hours[day].closed} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={control}
+                name={`hours.${day}.close`}
+                render={({ field }) => (
+                  <FormItem>
+                    <FormControl>
+                      <Input type="time" aria-label={t("form.closingTime", { day: t(weekdayNames[day]) })} {...field} disabled={hours[day].closed} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
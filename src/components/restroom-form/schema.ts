@@ -0,0 +1,100 @@
+import { z } from "zod";
+import { BusinessType, WeeklyHours } from "@/types";
+import { createWeeklyHours, weekdays } from "@/data/openingHours";
+import { MessageKey, Translator } from "@/data/i18n";
+
+export const businessTypeOptions: { value: BusinessType; label: MessageKey }[] = [
+  { value: "public", label: "form.typePublic" },
+  { value: "cafe", label: "form.typeCafe" },
+  { value: "restaurant", label: "form.typeRestaurant" },
+  { value: "bakery", label: "form.typeBakery" },
+  { value: "hotel", label: "form.typeHotel" },
+  { value: "gas_station", label: "form.typeGasStation" },
+  { value: "other", label: "form.typeOther" },
+];
+
+const createDayHoursSchema = (t: Translator) => {
+  const timeSchema = z.string().regex(/^([01]\d|2[0-3]):[0-5]\d$/, t("form.timeFormat"));
+
+  return z
+    .object({
+      closed: z.boolean(),
+      open: timeSchema,
+      close: timeSchema,
+    })
+    .refine(day => day.closed || day.open !== day.close, {
+      message: t("form.timesMustDiffer"),
+      path: ["close"],
+    });
+};
+
+// Validation messages are in the form's language, so the schema is built per translator
+export const createAddRestroomSchema = (t: Translator) => {
+  const dayHoursSchema = createDayHoursSchema(t);
+
+  return z.object({
+    name: z.string().trim().min(1, t("form.nameRequired")),
+    description: z.string().trim().max(500, t("form.descriptionTooLong")),
+    address: z.string().trim().min(1, t("form.addressRequired")),
+    position: z.object({
+      lat: z.number().min(-90).max(90),
+      lng: z.number().min(-180).max(180),
+    }),
+    businessType: z.enum(["gas_station", "cafe", "restaurant", "hotel", "bakery", "public", "other"]),
+    accessibility: z.boolean(),
+    babyChanging: z.boolean(),
+    genderNeutral: z.boolean(),
+    amenities: z.array(z.string()).min(1, t("form.amenitiesRequired")),
+    open24Hours: z.boolean(),
+    hours: z.object({
+      mon: dayHoursSchema,
+      tue: dayHoursSchema,
+      wed: dayHoursSchema,
+      thu: dayHoursSchema,
+      fri: dayHoursSchema,
+      sat: dayHoursSchema,
+      sun: dayHoursSchema,
+    }),
+    cleanlinessRating: z.number().int().min(1).max(5),
+  });
+};
+
+export type AddRestroomFormValues = z.infer<ReturnType<typeof createAddRestroomSchema>>;
+export type DayHoursValues = AddRestroomFormValues["hours"]["mon"];
+
+const defaultDayHours: DayHoursValues = { closed: false, open: "09:00", close: "21:00" };
+
+export const defaultAddRestroomValues = (position: { lat: number; lng: number }): AddRestroomFormValues => ({
+  name: "",
+  description: "",
+  address: "",
+  position,
+  businessType: "public",
+  accessibility: false,
+  babyChanging: false,
+  genderNeutral: false,
+  amenities: ["toilet", "sink"],
+  open24Hours: false,
+  hours: {
+    mon: { ...defaultDayHours },
+    tue: { ...defaultDayHours },
+    wed: { ...defaultDayHours },
+    thu: { ...defaultDayHours },
+    fri: { ...defaultDayHours },
+    sat: { ...defaultDayHours },
+    sun: { ...defaultDayHours },
+  },
+  cleanlinessRating: 4,
+});
+
+export const toWeeklyHours = (values: AddRestroomFormValues): WeeklyHours => {
+  if (values.open24Hours) {
+    return createWeeklyHours([{ open: "00:00", close: "24:00" }]);
+  }
+
+  return weekdays.reduce((hours, day) => {
+    const dayHours = values.hours[day];
+    hours[day] = dayHours.closed ? [] : [{ open: dayHours.open, close: dayHours.close }];
+    return hours;
+  }, {} as WeeklyHours);
+};
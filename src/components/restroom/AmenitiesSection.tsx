@@ -2,37 +2,42 @@
 import { Restroom } from "@/types";
 import { Badge } from "@/components/ui/badge";
 import { Accessibility, Baby, Users } from "lucide-react";
+import { getAmenityLabel } from "@/data/amenities";
+import { translateLabel } from "@/data/i18n";
+import { useLanguage } from "@/hooks/use-language";
 
 interface AmenitiesSectionProps {
   restroom: Restroom;
 }
 
 export function AmenitiesSection({ restroom }: AmenitiesSectionProps) {
+  const { language, t } = useLanguage();
+
   return (
     <div className="bg-white dark:bg-reststop-dark rounded-lg shadow p-4">
-      <h3 className="font-medium mb-3">Amenities</h3>
+      <h3 className="font-medium mb-3">{t("amenities.title")}</h3>
       <div className="flex flex-wrap gap-2 mb-2">
         {restroom.accessibility && (
           <Badge className="flex items-center gap-1">
             <Accessibility size={14} />
-            <span>Accessible</span>
+            <span>{t("restroom.accessible")}</span>
           </Badge>
         )}
         {restroom.babyChanging && (
           <Badge className="flex items-center gap-1">
             <Baby size={14} />
-            <span>Baby Changing</span>
+            <span>{t("restroom.babyChanging")}</span>
           </Badge>
         )}
         {restroom.genderNeutral && (
           <Badge className="flex items-center gap-1">
             <Users size={14} />
-            <span>Gender Neutral</span>
+            <span>{t("restroom.genderNeutral")}</span>
           </Badge>
         )}
         {restroom.amenities.map((amenity, index) => (
           <Badge key={index} variant="outline">
-            {amenity.replace('_', ' ')}
+            {translateLabel(language, amenity, getAmenityLabel(amenity))}
           </Badge>
         ))}
       </div>
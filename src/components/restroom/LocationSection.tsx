@@ -1,13 +1,28 @@
 
-import { Restroom } from "@/types";
+import { BusinessType, Restroom } from "@/types";
 import { Badge } from "@/components/ui/badge";
 import { MapPin, Clock8, Sparkles, Building, Coffee, Utensils, Hotel, Cake } from "lucide-react";
+import { OpenStatusBadge } from "@/components/restroom/OpenStatusBadge";
+import { MessageKey } from "@/data/i18n";
+import { useLanguage } from "@/hooks/use-language";
+
+const businessLabels: Record<BusinessType, MessageKey> = {
+  gas_station: "business.gasStation",
+  cafe: "business.cafe",
+  restaurant: "business.restaurant",
+  hotel: "business.hotel",
+  bakery: "business.bakery",
+  public: "business.public",
+  other: "business.other",
+};
 
 interface LocationSectionProps {
   restroom: Restroom;
 }
 
 export function LocationSection({ restroom }: LocationSectionProps) {
+  const { t } = useLanguage();
+
   // Function to get the appropriate business icon
   const getBusinessIcon = () => {
     if (!restroom.businessInfo) return null;
@@ -33,7 +48,7 @@ export function LocationSection({ restroom }: LocationSectionProps) {
           <div className="flex items-start gap-2">
             <MapPin className="text-reststop-primary mt-1" size={18} />
             <div>
-              <div className="font-medium">{restroom.location.address || 'No address available'}</div>
+              <div className="font-medium">{restroom.location.address || t("card.addressUnavailable")}</div>
               {restroom.location.city && (
                 <div className="text-sm text-muted-foreground">
                   {restroom.location.city}, {restroom.location.state}
@@ -46,7 +61,7 @@ export function LocationSection({ restroom }: LocationSectionProps) {
         {restroom.businessInfo && (
           <Badge className="flex items-center gap-1">
             {getBusinessIcon()}
-            {restroom.businessInfo.type.replace('_', ' ')}
+            {t(businessLabels[restroom.businessInfo.type])}
           </Badge>
         )}
       </div>
@@ -56,16 +71,19 @@ export function LocationSection({ restroom }: LocationSectionProps) {
           <Sparkles size={14} className="text-yellow-500" />
           <span className="text-sm font-medium">
             {restroom.businessInfo?.partnerStatus === 'premium' 
-              ? 'Premium Partner' 
-              : 'Standard Partner'}
+              ? t("location.premiumPartner")
+              : t("location.standardPartner")}
           </span>
         </div>
       )}
       
       {restroom.businessInfo?.openHours && (
-        <div className="flex items-center gap-1 mt-2 text-sm">
-          <Clock8 size={14} className="text-muted-foreground" />
-          <span>{restroom.businessInfo.openHours}</span>
+        <div className="flex flex-wrap items-center gap-2 mt-2 text-sm">
+          <div className="flex items-center gap-1">
+            <Clock8 size={14} className="text-muted-foreground" />
+            <span>{restroom.businessInfo.openHours}</span>
+          </div>
+          <OpenStatusBadge restroom={restroom} />
         </div>
       )}
     </div>
@@ -0,0 +1,58 @@
+import { useEffect, useState } from "react";
+import { Restroom } from "@/types";
+import { Badge } from "@/components/ui/badge";
+import { Clock } from "lucide-react";
+import { formatStatusTime, getOpenStatus, minutesUntil } from "@/data/openingHours";
+import { useLanguage } from "@/hooks/use-language";
+
+interface OpenStatusBadgeProps {
+  restroom: Restroom;
+}
+
+// Opening and closing warnings switch to minutes inside this window
+const SOON_MINUTES = 60;
+
+export function OpenStatusBadge({ restroom }: OpenStatusBadgeProps) {
+  const { t } = useLanguage();
+  const [now, setNow] = useState(() => new Date());
+
+  // Keep "closes in N min" current
+  useEffect(() => {
+    const interval = setInterval(() => setNow(new Date()), 60000);
+    return () => clearInterval(interval);
+  }, []);
+
+  const status = getOpenStatus(restroom, now);
+  if (!status) return null;
+
+  let label: string;
+  let variant: "secondary" | "outline" | "destructive" = "secondary";
+
+  if (status.isOpen) {
+    if (!status.closesAt) {
+      label = t("status.open24");
+    } else if (minutesUntil(status.closesAt, now) <= SOON_MINUTES) {
+      label = t("status.closesIn", { minutes: minutesUntil(status.closesAt, now) });
+      variant = "destructive";
+    } else {
+      label = t("status.openUntil", { time: formatStatusTime(status.closesAt, now) });
+    }
+  } else {
+    variant = "outline";
+    if (!status.opensAt) {
+      label = t("status.closed");
+    } else if (minutesUntil(status.opensAt, now) <= SOON_MINUTES) {
+      label = t("status.opensIn", { minutes: minutesUntil(status.opensAt, now) });
+    } else {
+      label = t("status.closedOpens", { time: formatStatusTime(status.opensAt, now) });
+    }
+  }
+
+  return (
+    <Badge variant={variant} className="flex items-center gap-1 w-fit">
+      <Clock size={12} />
+      <span>{label}</span>
+      {status.holiday && <span className="opacity-80">{t("status.holidayHours", { holiday: status.holiday })}</span>}
+    </Badge>
+  );
+}
@@ -0,0 +1,21 @@
+import { ModerationStatus } from "@/types";
+import { Badge } from "@/components/ui/badge";
+import { Hourglass } from "lucide-react";
+import { useLanguage } from "@/hooks/use-language";
+
+interface PendingBadgeProps {
+  status?: ModerationStatus;
+}
+
+// Marks a submission that still waits for a moderator
+export function PendingBadge({ status }: PendingBadgeProps) {
+  const { t } = useLanguage();
+  if (status !== "pending") return null;
+
+  return (
+    <Badge variant="outline" className="flex items-center gap-1 w-fit" title={t("moderation.pendingHint")}>
+      <Hourglass size={12} />
+      <span>{t("moderation.pending")}</span>
+    </Badge>
+  );
+}
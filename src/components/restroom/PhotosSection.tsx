@@ -0,0 +1,53 @@
+import { useState } from "react";
+import { Restroom } from "@/types";
+import { getRestroomPhotos } from "@/data/reviews";
+import { PhotoLightbox } from "@/components/reviews/PhotoLightbox";
+import { useLanguage } from "@/hooks/use-language";
+
+// Thumbnails shown before the rest collapse into "+N"
+const VISIBLE_PHOTOS = 8;
+
+interface PhotosSectionProps {
+  restroom: Restroom;
+}
+
+export function PhotosSection({ restroom }: PhotosSectionProps) {
+  const { t } = useLanguage();
+  const [openIndex, setOpenIndex] = useState<number | null>(null);
+  const photos = getRestroomPhotos(restroom);
+
+  if (photos.length === 0) return null;
+
+  const visible = photos.slice(0, VISIBLE_PHOTOS);
+  const hidden = photos.length - visible.length;
+
+  return (
+    <div className="bg-white dark:bg-reststop-dark rounded-lg shadow p-4">
+      <h3 className="font-medium mb-3">{t("photos.title", { count: photos.length })}</h3>
+      <div className="grid grid-cols-4 gap-2">
+        {visible.map((photo, index) => (
+          <button
+            key={`${photo.thumbnailUrl}-${index}`}
+            type="button"
+            className="relative aspect-square overflow-hidden rounded-md bg-muted focus:outline-none focus:ring-2 focus:ring-ring"
+            onClick={() => setOpenIndex(index)}
+          >
+            <img
+              src={photo.thumbnailUrl}
+              alt={t("photos.alt", { index: index + 1, name: restroom.name })}
+              loading="lazy"
+              className="h-full w-full object-cover"
+            />
+            {hidden > 0 && index === visible.length - 1 && (
+              <span className="absolute inset-0 flex items-center justify-center bg-black/50 text-white font-medium">
+                +{hidden}
+              </span>
+            )}
+          </button>
+        ))}
+      </div>
+
+      <PhotoLightbox photos={photos} index={openIndex} onIndexChange={setOpenIndex} title={restroom.name} />
+    </div>
+  );
+}
@@ -1,34 +1,94 @@
 
-import { useState } from "react";
+import { useMemo, useState } from "react";
 import { Restroom } from "@/types";
+import { ReviewSort, getAverageRating, getListedReviews, sortReviews } from "@/data/reviews";
+import { getReviewerReputations } from "@/data/reputation";
+import { getHelpfulCount } from "@/data/feedback";
+import { isApproved } from "@/data/moderation";
+import { MessageKey } from "@/data/i18n";
+import { Star } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { ScrollArea } from "@/components/ui/scroll-area";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { ReviewItem } from "@/components/reviews/ReviewItem";
 import { ReviewDialog } from "@/components/reviews/ReviewDialog";
+import { useReviewVotes } from "@/hooks/use-feedback";
+import { useRestrooms } from "@/hooks/use-restrooms";
+import { useLanguage } from "@/hooks/use-language";
+
+const sortOptions: { sort: ReviewSort; label: MessageKey }[] = [
+  { sort: "newest", label: "reviews.sortNewest" },
+  { sort: "helpful", label: "reviews.sortHelpful" },
+  { sort: "lowest_cleanliness", label: "reviews.sortLowestCleanliness" },
+  { sort: "with_photos", label: "reviews.sortWithPhotos" },
+];
 
 interface ReviewsSectionProps {
   restroom: Restroom;
 }
 
 export function ReviewsSection({ restroom }: ReviewsSectionProps) {
+  const { t } = useLanguage();
   const [reviewDialogOpen, setReviewDialogOpen] = useState(false);
+  const [sort, setSort] = useState<ReviewSort>("newest");
+  const { data: votes } = useReviewVotes();
+  const { data: restrooms } = useRestrooms();
+  const averageRating = getAverageRating(restroom);
+  const reviewCount = restroom.reviews.filter(isApproved).length;
+  const reviews = sortReviews(getListedReviews(restroom), sort, review => getHelpfulCount(review, votes));
+
+  // Reviewers are known by all their reviews, not just the ones here
+  const reputations = useMemo(() => getReviewerReputations(restrooms ?? [restroom]), [restrooms, restroom]);
   
   return (
     <div className="bg-white dark:bg-reststop-dark rounded-lg shadow p-4">
       <div className="flex items-center justify-between mb-3">
-        <h3 className="font-medium">Reviews</h3>
-        <Button variant="outline" size="sm" onClick={() => setReviewDialogOpen(true)}>Add Review</Button>
+        <div>
+          <h3 className="font-medium">{t("reviews.title")}</h3>
+          {averageRating !== undefined && (
+            <div className="flex items-center gap-1 text-sm text-muted-foreground">
+              <Star size={14} className="fill-yellow-400 text-yellow-400" />
+              <span>
+                {t(reviewCount === 1 ? "reviews.averageOne" : "reviews.average", {
+                  rating: averageRating.toFixed(1),
+                  count: reviewCount,
+                })}
+              </span>
+            </div>
+          )}
+        </div>
+        <Button variant="outline" size="sm" onClick={() => setReviewDialogOpen(true)}>{t("reviews.add")}</Button>
       </div>
+
+      {reviews.length > 1 && (
+        <Select value={sort} onValueChange={(value) => setSort(value as ReviewSort)}>
+          <SelectTrigger className="h-8 w-48 mb-3 text-sm" aria-label={t("reviews.sort")}>
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {sortOptions.map(option => (
+              <SelectItem key={option.sort} value={option.sort}>
+                {t(option.label)}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      )}
       
       <ScrollArea className="h-60">
-        {restroom.reviews.length === 0 ? (
+        {reviews.length === 0 ? (
           <div className="text-center text-muted-foreground py-4">
-            No reviews yet
+            {t("reviews.empty")}
           </div>
         ) : (
           <div className="space-y-3">
-            {restroom.reviews.map((review) => (
-              <ReviewItem key={review.id} review={review} />
+            {reviews.map((review) => (
+              <ReviewItem
+                key={review.id}
+                review={review}
+                restroomId={restroom.id}
+                reputation={reputations.get(review.userId)}
+              />
             ))}
           </div>
         )}
@@ -37,6 +97,7 @@ export function ReviewsSection({ restroom }: ReviewsSectionProps) {
       <ReviewDialog 
         open={reviewDialogOpen} 
         onOpenChange={setReviewDialogOpen} 
+        restroomId={restroom.id}
         restroomName={restroom.name} 
       />
     </div>
@@ -0,0 +1,69 @@
+import { ReviewPhoto } from "@/types";
+import { ChevronLeft, ChevronRight } from "lucide-react";
+import { Dialog, DialogContent, DialogDescription, DialogTitle } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { useLanguage } from "@/hooks/use-language";
+
+interface PhotoLightboxProps {
+  photos: ReviewPhoto[];
+  // The photo shown; null keeps the lightbox closed
+  index: number | null;
+  onIndexChange: (index: number | null) => void;
+  title: string;
+}
+
+// Full-size photos one at a time, with arrow buttons and arrow keys to browse
+export function PhotoLightbox({ photos, index, onIndexChange, title }: PhotoLightboxProps) {
+  const { t } = useLanguage();
+  const photo = index !== null ? photos[index] : undefined;
+  const count = photos.length;
+
+  const show = (next: number) => onIndexChange((next + count) % count);
+
+  return (
+    <Dialog open={!!photo} onOpenChange={(open) => !open && onIndexChange(null)}>
+      <DialogContent
+        className="max-w-3xl p-2 sm:p-4"
+        onKeyDown={(e) => {
+          if (index === null || count < 2) return;
+          if (e.key === "ArrowLeft") show(index - 1);
+          if (e.key === "ArrowRight") show(index + 1);
+        }}
+      >
+        <DialogTitle className="pr-8 text-base">{title}</DialogTitle>
+        <DialogDescription>{t("photos.counter", { index: (index ?? 0) + 1, count })}</DialogDescription>
+        {photo && (
+          <div className="relative flex items-center justify-center bg-black/90 rounded-md">
+            <img
+              src={photo.url}
+              alt={t("photos.alt", { index: (index ?? 0) + 1, name: title })}
+              className="max-h-[70vh] w-auto object-contain"
+            />
+            {count > 1 && (
+              <>
+                <Button
+                  variant="secondary"
+                  size="icon"
+                  className="absolute left-2 rounded-full opacity-80"
+                  onClick={() => show((index ?? 0) - 1)}
+                  aria-label={t("photos.previous")}
+                >
+                  <ChevronLeft size={20} />
+                </Button>
+                <Button
+                  variant="secondary"
+                  size="icon"
+                  className="absolute right-2 rounded-full opacity-80"
+                  onClick={() => show((index ?? 0) + 1)}
+                  aria-label={t("photos.next")}
+                >
+                  <ChevronRight size={20} />
+                </Button>
+              </>
+            )}
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
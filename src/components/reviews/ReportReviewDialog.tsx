@@ -0,0 +1,78 @@
+import { useState } from "react";
+import { toast } from "sonner";
+import { ReviewReportReason } from "@/types";
+import { MessageKey } from "@/data/i18n";
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Label } from "@/components/ui/label";
+import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group";
+import { useReportReview } from "@/hooks/use-feedback";
+import { useLanguage } from "@/hooks/use-language";
+
+const reasons: { reason: ReviewReportReason; label: MessageKey }[] = [
+  { reason: "spam", label: "reviews.reasonSpam" },
+  { reason: "offensive", label: "reviews.reasonOffensive" },
+  { reason: "irrelevant", label: "reviews.reasonIrrelevant" },
+  { reason: "fake", label: "reviews.reasonFake" },
+  { reason: "other", label: "reviews.reasonOther" },
+];
+
+interface ReportReviewDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  restroomId: string;
+  reviewId: string;
+}
+
+export function ReportReviewDialog({ open, onOpenChange, restroomId, reviewId }: ReportReviewDialogProps) {
+  const { t } = useLanguage();
+  const reportReview = useReportReview();
+  const [reason, setReason] = useState<ReviewReportReason>("spam");
+
+  const sendReport = () => {
+    reportReview.mutate(
+      { id: `review-report-${Date.now()}`, restroomId, reviewId, reason, date: new Date().toISOString() },
+      {
+        onSuccess: () => {
+          toast(t("reviews.reportSent"));
+          onOpenChange(false);
+        },
+        onError: (error) => {
+          console.error("Error reporting review:", error);
+          toast.error(t("reviews.sendFailed"));
+        },
+      }
+    );
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[400px]">
+        <DialogHeader>
+          <DialogTitle>{t("reviews.reportTitle")}</DialogTitle>
+          <DialogDescription>{t("reviews.reportDescription")}</DialogDescription>
+        </DialogHeader>
+        <RadioGroup value={reason} onValueChange={(value) => setReason(value as ReviewReportReason)}>
+          {reasons.map(option => (
+            <div key={option.reason} className="flex items-center gap-2">
+              <RadioGroupItem value={option.reason} id={`report-${reviewId}-${option.reason}`} />
+              <Label htmlFor={`report-${reviewId}-${option.reason}`}>{t(option.label)}</Label>
+            </div>
+          ))}
+        </RadioGroup>
+        <DialogFooter>
+          <Button onClick={sendReport} disabled={reportReview.isPending}>
+            {t("reviews.reportSend")}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
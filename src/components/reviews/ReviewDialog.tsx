@@ -1,6 +1,10 @@
-import { useState } from "react";
+import { useEffect, useMemo, useState } from "react";
+import { Review } from "@/types";
+import { ProcessedPhoto } from "@/data/photos";
+import { getReviewerId } from "@/data/reviewer";
+import { isStorageFull } from "@/data/repository";
 import { toast } from "@/hooks/use-toast";
-import { Image } from "lucide-react";
+import { Image, Loader2, X } from "lucide-react";
 import {
   Dialog,
   DialogContent,
@@ -14,61 +18,158 @@ import { Textarea } from "@/components/ui/textarea";
 import { Slider } from "@/components/ui/slider";
 import { Input } from "@/components/ui/input";
 import { Button } from "@/components/ui/button";
+import { useSubmitReview } from "@/hooks/use-feedback";
+import { useLanguage } from "@/hooks/use-language";
+import { useProcessPhotos, useSavePhotos } from "@/hooks/use-photos";
+
+// Enough to show the place without turning a review into an album
+const MAX_PHOTOS = 6;
 
 interface ReviewDialogProps {
   open: boolean;
   onOpenChange: (open: boolean) => void;
+  restroomId: string;
   restroomName: string;
 }
 
-export function ReviewDialog({ open, onOpenChange, restroomName }: ReviewDialogProps) {
+export function ReviewDialog({ open, onOpenChange, restroomId, restroomName }: ReviewDialogProps) {
   const [reviewRating, setReviewRating] = useState(5);
   const [reviewCleanliness, setReviewCleanliness] = useState(5);
   const [reviewComment, setReviewComment] = useState("");
-  const [reviewImages, setReviewImages] = useState<FileList | null>(null);
-  
-  const handleReviewSubmit = () => {
-    if (!reviewImages || reviewImages.length === 0) {
+  const [reviewPhotos, setReviewPhotos] = useState<ProcessedPhoto[]>([]);
+  const submitReview = useSubmitReview();
+  const processPhotos = useProcessPhotos();
+  const savePhotos = useSavePhotos();
+  const { t } = useLanguage();
+
+  // Thumbnails as object URLs, freed when the selection changes or the dialog goes away
+  const previews = useMemo(() => reviewPhotos.map(photo => URL.createObjectURL(photo.thumbnail)), [reviewPhotos]);
+  useEffect(() => () => previews.forEach(url => URL.revokeObjectURL(url)), [previews]);
+
+  const handleImagesSelected = (files: FileList | null) => {
+    const room = MAX_PHOTOS - reviewPhotos.length;
+    const picked = Array.from(files ?? []).slice(0, Math.max(0, room));
+    if (files && files.length > room) {
       toast({
-        title: "Image Required",
-        description: "Please upload at least one image with your review",
+        title: t("reviewForm.tooManyImages"),
+        description: t("reviewForm.tooManyImagesDescription", { max: MAX_PHOTOS }),
+      });
+    }
+    if (picked.length === 0) return;
+
+    processPhotos.mutate(picked, {
+      onSuccess: (processed) => setReviewPhotos(current => [...current, ...processed]),
+      onError: (error) => {
+        console.error("Error processing images:", error);
+        toast({
+          title: t("reviewForm.imageNotAdded"),
+          description: t("reviewForm.imageNotAddedDescription"),
+          variant: "destructive"
+        });
+      },
+    });
+  };
+
+  const removePhoto = (index: number) => {
+    setReviewPhotos(current => current.filter((_, i) => i !== index));
+  };
+
+  const resetForm = () => {
+    setReviewRating(5);
+    setReviewCleanliness(5);
+    setReviewComment("");
+    setReviewPhotos([]);
+  };
+
+  const handleReviewSubmit = async () => {
+    if (reviewPhotos.length === 0) {
+      toast({
+        title: t("reviewForm.imageRequired"),
+        description: t("reviewForm.imageRequiredDescription"),
         variant: "destructive"
       });
       return;
     }
 
-    toast({
-      title: "Review Submitted",
-      description: "Thank you for your review and uploaded images!",
-    });
+    let photos: Review["photos"];
+    try {
+      photos = await savePhotos.mutateAsync(reviewPhotos);
+    } catch (error) {
+      console.error("Error saving images:", error);
+      toast({
+        title: t("reviewForm.notSubmitted"),
+        description: t("reviewForm.uploadFailed"),
+        variant: "destructive"
+      });
+      return;
+    }
+
+    const review: Review = {
+      id: `review-${Date.now()}`,
+      userId: getReviewerId(),
+      userName: "You",
+      rating: reviewRating,
+      comment: reviewComment.trim() || undefined,
+      date: new Date().toISOString(),
+      cleanliness: reviewCleanliness,
+      photos,
+      // The moderation status is set on submission, from the spam and abuse check
+    };
+
+    submitReview.mutate(
+      { restroomId, review },
+      {
+        onSuccess: ({ delivery, review }) => {
+          toast({
+            title: t("reviewForm.submitted"),
+            description: delivery === "queued" && !navigator.onLine
+              ? t("reviewForm.submittedOffline")
+              : review.risk?.held
+                ? t("reviewForm.submittedHeld")
+                : review.status === "pending"
+                  ? t("reviewForm.submittedPending")
+                  : t("reviewForm.submittedApproved"),
+          });
+        },
+        onError: (error) => {
+          console.error("Error submitting review:", error);
+          toast({
+            title: t("reviewForm.notSubmitted"),
+            description: isStorageFull(error)
+              ? t("reviewForm.storageFull")
+              : t("reviewForm.failed"),
+            variant: "destructive"
+          });
+        },
+      }
+    );
     
     // Remind user to review again after some time
     setTimeout(() => {
       toast({
-        title: "Review Reminder",
-        description: `How was your experience at ${restroomName}? Consider leaving another review!`,
+        title: t("reviewForm.reminder"),
+        description: t("reviewForm.reminderDescription", { name: restroomName }),
       });
     }, 1000 * 60 * 60 * 24); // 24 hours later
     
     onOpenChange(false);
-    setReviewRating(5);
-    setReviewCleanliness(5);
-    setReviewComment("");
-    setReviewImages(null);
+    resetForm();
   };
 
+  const isBusy = processPhotos.isPending || savePhotos.isPending;
+
   return (
     <Dialog open={open} onOpenChange={onOpenChange}>
       <DialogContent className="sm:max-w-[425px]">
         <DialogHeader>
-          <DialogTitle>Add Review</DialogTitle>
+          <DialogTitle>{t("reviews.add")}</DialogTitle>
           <DialogDescription>
-            Share your experience at {restroomName}. Upload images to help others.
+            {t("reviewForm.description", { name: restroomName })}
           </DialogDescription>
         </DialogHeader>
         <div className="grid gap-4 py-4">
           <div className="grid gap-2">
-            <Label htmlFor="rating">Overall Rating</Label>
+            <Label htmlFor="rating">{t("reviewForm.rating")}</Label>
             <div className="flex items-center gap-2">
               <Slider
                 id="rating"
@@ -82,7 +183,7 @@ export function ReviewDialog({ open, onOpenChange, restroomName }: ReviewDialogP
             </div>
           </div>
           <div className="grid gap-2">
-            <Label htmlFor="cleanliness">Cleanliness Rating</Label>
+            <Label htmlFor="cleanliness">{t("reviewForm.cleanliness")}</Label>
             <div className="flex items-center gap-2">
               <Slider
                 id="cleanliness"
@@ -96,44 +197,68 @@ export function ReviewDialog({ open, onOpenChange, restroomName }: ReviewDialogP
             </div>
           </div>
           <div className="grid gap-2">
-            <Label htmlFor="comment">Your Comments</Label>
+            <Label htmlFor="comment">{t("reviewForm.comment")}</Label>
             <Textarea
               id="comment"
               value={reviewComment}
               onChange={(e) => setReviewComment(e.target.value)}
-              placeholder="Share your experience..."
+              placeholder={t("reviewForm.commentPlaceholder")}
             />
           </div>
           <div className="grid gap-2">
-            <Label htmlFor="images">Upload Images (Optional)</Label>
+            <Label htmlFor="images">{t("reviewForm.images")}</Label>
             <div className="flex flex-col gap-2">
               <div className="flex items-center justify-center w-full border-2 border-dashed border-gray-300 rounded-md h-32 cursor-pointer hover:bg-gray-50 dark:hover:bg-gray-800 transition-colors">
                 <label htmlFor="images" className="cursor-pointer flex flex-col items-center justify-center">
                   <Image size={24} className="text-gray-400" />
-                  <p className="text-sm text-gray-500 mt-2">Click to upload images</p>
+                  <p className="text-sm text-gray-500 mt-2">{t("reviewForm.imagesHint")}</p>
                   <Input 
                     id="images" 
                     type="file" 
                     multiple 
                     accept="image/*" 
                     className="hidden" 
-                    onChange={(e) => setReviewImages(e.target.files)}
+                    onChange={(e) => {
+                      handleImagesSelected(e.target.files);
+                      // Picking the same file again should still fire a change
+                      e.target.value = "";
+                    }}
                   />
                 </label>
               </div>
-              {reviewImages && reviewImages.length > 0 && (
-                <p className="text-sm text-muted-foreground">
-                  {reviewImages.length} image{reviewImages.length !== 1 ? 's' : ''} selected
+              {processPhotos.isPending && (
+                <p className="text-sm text-muted-foreground flex items-center gap-2">
+                  <Loader2 size={14} className="animate-spin" />
+                  {t("reviewForm.preparing")}
                 </p>
               )}
+              {previews.length > 0 && (
+                <div className="flex flex-wrap gap-2">
+                  {previews.map((preview, index) => (
+                    <div key={preview} className="relative w-16 h-16">
+                      <img src={preview} alt={t("reviewForm.selectedImage", { index: index + 1 })} className="w-16 h-16 rounded-md object-cover" />
+                      <button
+                        type="button"
+                        className="absolute -top-1 -right-1 rounded-full bg-background border p-0.5"
+                        onClick={() => removePhoto(index)}
+                        aria-label={t("reviewForm.removeImage", { index: index + 1 })}
+                      >
+                        <X size={12} />
+                      </button>
+                    </div>
+                  ))}
+                </div>
+              )}
             </div>
           </div>
         </div>
         <DialogFooter>
           <Button type="button" variant="outline" onClick={() => onOpenChange(false)}>
-            Cancel
+            {t("common.cancel")}
+          </Button>
+          <Button type="button" onClick={handleReviewSubmit} disabled={isBusy}>
+            {savePhotos.isPending ? t("reviewForm.uploading") : t("reviewForm.submit")}
           </Button>
-          <Button type="button" onClick={handleReviewSubmit}>Submit Review</Button>
         </DialogFooter>
       </DialogContent>
     </Dialog>
@@ -1,13 +1,43 @@
-
+import { useState } from "react";
+import { toast } from "sonner";
 import { Review } from "@/types";
-import { Star } from "lucide-react";
+import { getReviewPhotos } from "@/data/reviews";
+import { getHelpfulCount } from "@/data/feedback";
+import { ReputationLevel, ReviewerReputation } from "@/data/reputation";
+import { MessageKey } from "@/data/i18n";
+import { isApproved } from "@/data/moderation";
+import { Award, Flag, Star, ThumbsUp } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { PhotoLightbox } from "@/components/reviews/PhotoLightbox";
+import { ReportReviewDialog } from "@/components/reviews/ReportReviewDialog";
+import { PendingBadge } from "@/components/restroom/PendingBadge";
+import { useReviewVotes, useVoteHelpful } from "@/hooks/use-feedback";
+import { useLanguage } from "@/hooks/use-language";
+
+const reputationLabels: Record<ReputationLevel, MessageKey> = {
+  new: "reputation.new",
+  regular: "reputation.regular",
+  trusted: "reputation.trusted",
+  top: "reputation.top",
+};
 
 interface ReviewItemProps {
   review: Review;
+  restroomId: string;
+  reputation?: ReviewerReputation;
 }
 
-export function ReviewItem({ review }: ReviewItemProps) {
+export function ReviewItem({ review, restroomId, reputation }: ReviewItemProps) {
+  const { t } = useLanguage();
   const reviewDate = new Date(review.date);
+  const photos = getReviewPhotos(review);
+  const [openPhoto, setOpenPhoto] = useState<number | null>(null);
+  const [reportOpen, setReportOpen] = useState(false);
+  const { data: votes } = useReviewVotes();
+  const voteHelpful = useVoteHelpful();
+
+  const votedHelpful = votes?.helpful[review.id] !== undefined;
+  const reported = votes?.reported.includes(review.id) ?? false;
   
   const formatDate = (date: Date) => {
     return date.toLocaleDateString('en-US', {
@@ -15,13 +45,37 @@ export function ReviewItem({ review }: ReviewItemProps) {
       day: 'numeric',
     });
   };
+
+  const markHelpful = () => {
+    voteHelpful.mutate(
+      { restroomId, review },
+      {
+        onError: (error) => {
+          console.error("Error voting on review:", error);
+          toast.error(t("reviews.sendFailed"));
+        },
+      }
+    );
+  };
   
   return (
     <div className="pb-3">
       <div className="flex items-center justify-between">
-        <div className="font-medium">{review.userName}</div>
+        <div className="flex items-center gap-2">
+          <div className="font-medium">{review.userName}</div>
+          <PendingBadge status={review.status} />
+        </div>
         <div className="text-sm text-muted-foreground">{formatDate(reviewDate)}</div>
       </div>
+      {reputation && (
+        <div
+          className="flex items-center gap-1 text-xs text-muted-foreground"
+          title={t("reputation.stats", { reviews: reputation.reviews, helpful: reputation.helpfulVotes })}
+        >
+          <Award size={12} className={reputation.level === "new" ? "" : "text-reststop-primary"} />
+          <span>{t(reputationLabels[reputation.level])}</span>
+        </div>
+      )}
       <div className="flex items-center gap-1 mt-1">
         {[...Array(5)].map((_, i) => (
           <Star 
@@ -37,6 +91,56 @@ export function ReviewItem({ review }: ReviewItemProps) {
       {review.comment && (
         <div className="text-sm mt-1">{review.comment}</div>
       )}
+      {photos.length > 0 && (
+        <div className="flex gap-2 mt-2 overflow-x-auto">
+          {photos.map((photo, index) => (
+            <button
+              key={`${photo.thumbnailUrl}-${index}`}
+              type="button"
+              className={`shrink-0 w-16 h-16 overflow-hidden rounded-md bg-muted focus:outline-none focus:ring-2 focus:ring-ring ${
+                photo.status === "pending" ? "opacity-60" : ""
+              }`}
+              onClick={() => setOpenPhoto(index)}
+            >
+              <img src={photo.thumbnailUrl} alt="" loading="lazy" className="h-full w-full object-cover" />
+            </button>
+          ))}
+          <PhotoLightbox photos={photos} index={openPhoto} onIndexChange={setOpenPhoto} title={review.userName} />
+        </div>
+      )}
+      {/* Votes and reports are for published reviews */}
+      {isApproved(review) && (
+        <div className="flex items-center gap-1 mt-1 -ml-2">
+          <Button
+            variant="ghost"
+            size="sm"
+            className={`h-7 px-2 text-xs ${votedHelpful ? "text-reststop-primary" : "text-muted-foreground"}`}
+            disabled={votedHelpful || voteHelpful.isPending}
+            onClick={markHelpful}
+            aria-pressed={votedHelpful}
+            title={votedHelpful ? t("reviews.votedHelpful") : undefined}
+          >
+            <ThumbsUp size={14} className={`mr-1 ${votedHelpful ? "fill-current" : ""}`} />
+            {t("reviews.helpful", { count: getHelpfulCount(review, votes) })}
+          </Button>
+          <Button
+            variant="ghost"
+            size="sm"
+            className="h-7 px-2 text-xs text-muted-foreground"
+            disabled={reported}
+            onClick={() => setReportOpen(true)}
+          >
+            <Flag size={14} className="mr-1" />
+            {t(reported ? "reviews.reported" : "reviews.report")}
+          </Button>
+          <ReportReviewDialog
+            open={reportOpen}
+            onOpenChange={setReportOpen}
+            restroomId={restroomId}
+            reviewId={review.id}
+          />
+        </div>
+      )}
     </div>
   );
 }
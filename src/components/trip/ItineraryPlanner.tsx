@@ -0,0 +1,228 @@
+import { useMemo, useState } from "react";
+import { format } from "date-fns";
+import { CalendarClock, Download, Share2, Sparkles, TriangleAlert } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Slider } from "@/components/ui/slider";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { ItineraryOptions, planItinerary } from "@/data/itinerary";
+import { toGpx } from "@/data/gpx";
+import { createTripLink } from "@/data/tripLink";
+import { formatDistance } from "@/data/ranking";
+import { TravelMode } from "@/data/routing";
+import { TripEndpoints } from "@/data/trip";
+import { Trip } from "@/hooks/use-trip";
+import { useLanguage } from "@/hooks/use-language";
+import { MessageKey } from "@/data/i18n";
+import { toast } from "sonner";
+
+interface ItineraryPlannerProps {
+  trip: Trip;
+  endpoints: TripEndpoints;
+  travelMode: TravelMode;
+  corridorKm: number;
+  // Settings from a shared link; the itinerary is planned straight away
+  initialOptions?: ItineraryOptions;
+  onSelectRestroom: (id: string) => void;
+}
+
+const intervalChoices: { value: string; label: MessageKey }[] = [
+  { value: "30-minutes", label: "itinerary.every30Minutes" },
+  { value: "45-minutes", label: "itinerary.every45Minutes" },
+  { value: "60-minutes", label: "itinerary.everyHour" },
+  { value: "90-minutes", label: "itinerary.every90Minutes" },
+  { value: "25-km", label: "itinerary.every25Km" },
+  { value: "50-km", label: "itinerary.every50Km" },
+  { value: "100-km", label: "itinerary.every100Km" },
+];
+
+const toDateTimeInput = (date: Date) => format(date, "yyyy-MM-dd'T'HH:mm");
+
+export function ItineraryPlanner({
+  trip,
+  endpoints,
+  travelMode,
+  corridorKm,
+  initialOptions,
+  onSelectRestroom
+}: ItineraryPlannerProps) {
+  const [breakInterval, setBreakInterval] = useState(
+    initialOptions ? `${initialOptions.every}-${initialOptions.unit}` : "60-minutes"
+  );
+  const [departAt, setDepartAt] = useState(toDateTimeInput(initialOptions?.departAt ?? new Date()));
+  const [accessibility, setAccessibility] = useState(initialOptions?.preferences.accessibility ?? false);
+  const [babyChanging, setBabyChanging] = useState(initialOptions?.preferences.babyChanging ?? false);
+  const [genderNeutral, setGenderNeutral] = useState(initialOptions?.preferences.genderNeutral ?? false);
+  const [minCleanliness, setMinCleanliness] = useState(initialOptions?.preferences.minCleanliness ?? 70);
+  const [options, setOptions] = useState<ItineraryOptions | undefined>(initialOptions);
+  const { t } = useLanguage();
+
+  // Re-plans by itself when the route or the stops along it change
+  const itinerary = useMemo(
+    () => (trip.route && options ? planItinerary(trip.route, trip.stops, options) : undefined),
+    [trip.route, trip.stops, options]
+  );
+
+  const tripName = t("itinerary.tripName", { from: endpoints.from.label, to: endpoints.to.label });
+
+  const handlePlan = () => {
+    const [every, unit] = breakInterval.split("-");
+    setOptions({
+      every: Number(every),
+      unit: unit === "km" ? "km" : "minutes",
+      departAt: departAt ? new Date(departAt) : new Date(),
+      preferences: { accessibility, babyChanging, genderNeutral, minCleanliness },
+    });
+  };
+
+  const handleExportGpx = () => {
+    if (!trip.route || !itinerary) return;
+
+    const blob = new Blob([toGpx(tripName, trip.route.path, itinerary.stops)], { type: "application/gpx+xml" });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement("a");
+    link.href = url;
+    // Named in English whatever the language, like the trip link
+    link.download = `${endpoints.from.label} to ${endpoints.to.label}`.toLowerCase().replace(/[^a-z0-9]+/g, "-") + ".gpx";
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  const handleShare = async () => {
+    const url = createTripLink({ endpoints, mode: travelMode, corridorKm, itinerary: options });
+
+    try {
+      if (navigator.share) {
+        await navigator.share({ title: `RestStop: ${tripName}`, url });
+      } else {
+        await navigator.clipboard.writeText(url);
+        toast.success(t("itinerary.linkCopied"));
+      }
+    } catch (error) {
+      // Closing the share sheet rejects too; only report real failures
+      if (!(error instanceof DOMException && error.name === "AbortError")) {
+        console.error("Error sharing trip:", error);
+        toast.error(t("itinerary.shareFailed"));
+      }
+    }
+  };
+
+  return (
+    <div className="space-y-3 border-t pt-3">
+      <h4 className="font-medium flex items-center gap-2">
+        <CalendarClock className="h-4 w-4" />
+        {t("itinerary.title")}
+      </h4>
+
+      <div className="grid grid-cols-2 gap-2">
+        <Select value={breakInterval} onValueChange={setBreakInterval}>
+          <SelectTrigger aria-label={t("itinerary.interval")}>
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {intervalChoices.map(choice => (
+              <SelectItem key={choice.value} value={choice.value}>{t(choice.label)}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <Input
+          type="datetime-local"
+          value={departAt}
+          onChange={(e) => setDepartAt(e.target.value)}
+          aria-label={t("itinerary.departure")}
+        />
+      </div>
+
+      <div className="flex flex-wrap gap-4">
+        <div className="flex items-center gap-2">
+          <Checkbox
+            id="itinerary-accessibility"
+            checked={accessibility}
+            onCheckedChange={(checked) => setAccessibility(!!checked)}
+          />
+          <Label htmlFor="itinerary-accessibility">{t("restroom.accessible")}</Label>
+        </div>
+        <div className="flex items-center gap-2">
+          <Checkbox
+            id="itinerary-babyChanging"
+            checked={babyChanging}
+            onCheckedChange={(checked) => setBabyChanging(!!checked)}
+          />
+          <Label htmlFor="itinerary-babyChanging">{t("restroom.babyChanging")}</Label>
+        </div>
+        <div className="flex items-center gap-2">
+          <Checkbox
+            id="itinerary-genderNeutral"
+            checked={genderNeutral}
+            onCheckedChange={(checked) => setGenderNeutral(!!checked)}
+          />
+          <Label htmlFor="itinerary-genderNeutral">{t("restroom.genderNeutral")}</Label>
+        </div>
+      </div>
+
+      <div className="space-y-1">
+        <div className="flex justify-between text-sm">
+          <Label>{t("itinerary.minCleanliness")}</Label>
+          <span className="font-medium">{minCleanliness}/100</span>
+        </div>
+        <Slider min={0} max={100} step={5} value={[minCleanliness]} onValueChange={(values) => setMinCleanliness(values[0])} />
+      </div>
+
+      <Button size="sm" className="w-full" onClick={handlePlan} disabled={!trip.route}>
+        {options ? t("itinerary.update") : t("itinerary.suggest")}
+      </Button>
+
+      {itinerary && (
+        <div className="space-y-2">
+          {itinerary.stops.length === 0 && itinerary.gaps.length === 0 && (
+            <p className="text-sm text-muted-foreground">{t("itinerary.noBreak")}</p>
+          )}
+
+          <ol className="space-y-2">
+            {itinerary.stops.map(stop => (
+              <li key={stop.restroom.id}>
+                <button
+                  type="button"
+                  className="w-full text-left rounded-md border p-2 hover:bg-muted/50 transition-colors"
+                  onClick={() => onSelectRestroom(stop.restroom.id)}
+                >
+                  <div className="flex items-center justify-between gap-2">
+                    <span className="font-medium">{format(stop.arriveAt, "h:mm a")}</span>
+                    <span className="text-xs text-muted-foreground">{t("itinerary.at", { distance: formatDistance(stop.distanceAlongRoute) })}</span>
+                  </div>
+                  <div className="flex items-center gap-1 text-sm">
+                    {(stop.restroom.businessInfo?.partnerStatus ?? "none") !== "none" && (
+                      <Sparkles size={14} className="text-yellow-500 shrink-0" aria-label={t("card.partnerVenue")} />
+                    )}
+                    <span>{stop.restroom.name}</span>
+                    <span className="ml-auto text-xs">{stop.restroom.cleanliness.score}/100</span>
+                  </div>
+                </button>
+              </li>
+            ))}
+          </ol>
+
+          {itinerary.gaps.map(gap => (
+            <p key={gap.fromKm} className="flex items-start gap-2 text-sm text-muted-foreground">
+              <TriangleAlert className="h-4 w-4 shrink-0 text-yellow-500" />
+              {t("itinerary.gap", { from: formatDistance(gap.fromKm), to: formatDistance(gap.toKm) })}
+            </p>
+          ))}
+
+          <div className="grid grid-cols-2 gap-2">
+            <Button size="sm" variant="outline" onClick={handleExportGpx}>
+              <Download className="h-4 w-4 mr-1" />
+              GPX
+            </Button>
+            <Button size="sm" variant="outline" onClick={handleShare}>
+              <Share2 className="h-4 w-4 mr-1" />
+              {t("itinerary.share")}
+            </Button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
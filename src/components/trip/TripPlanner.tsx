@@ -0,0 +1,217 @@
+import { useState } from "react";
+import { ArrowRight, Loader2, MapPinned, Sparkles, X } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Badge } from "@/components/ui/badge";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { OpenStatusBadge } from "@/components/restroom/OpenStatusBadge";
+import { TravelModeToggle } from "@/components/TravelModeToggle";
+import { ItineraryPlanner } from "@/components/trip/ItineraryPlanner";
+import { LatLng } from "@/data/geo";
+import { getGeocoder } from "@/data/geocoder";
+import { getCleanlinessTier } from "@/data/restrooms";
+import { formatDistance } from "@/data/ranking";
+import { ItineraryOptions } from "@/data/itinerary";
+import { TravelMode, formatTravelTime } from "@/data/routing";
+import { Trip, TripEndpoints } from "@/hooks/use-trip";
+import { useLanguage } from "@/hooks/use-language";
+import { toast } from "sonner";
+
+interface TripPlannerProps {
+  trip: Trip;
+  endpoints?: TripEndpoints;
+  onPlan: (endpoints: TripEndpoints) => void;
+  onClear: () => void;
+  corridorKm: number;
+  onCorridorChange: (corridorKm: number) => void;
+  travelMode: TravelMode;
+  onTravelModeChange: (mode: TravelMode) => void;
+  // Used as the start when "From" is left empty
+  currentLocation?: LatLng;
+  selectedId?: string;
+  onSelectRestroom: (id: string) => void;
+  // Break settings that came with a shared trip link
+  itineraryOptions?: ItineraryOptions;
+}
+
+const corridorOptions = [
+  { value: "0.5", distance: "500 m" },
+  { value: "1", distance: "1 km" },
+  { value: "2", distance: "2 km" },
+  { value: "5", distance: "5 km" },
+];
+
+export function TripPlanner({
+  trip,
+  endpoints,
+  onPlan,
+  onClear,
+  corridorKm,
+  onCorridorChange,
+  travelMode,
+  onTravelModeChange,
+  currentLocation,
+  selectedId,
+  onSelectRestroom,
+  itineraryOptions
+}: TripPlannerProps) {
+  const [from, setFrom] = useState("");
+  const [to, setTo] = useState("");
+  const [isLocating, setIsLocating] = useState(false);
+  const { t } = useLanguage();
+
+  const findPlace = async (query: string) => {
+    const [bestMatch] = await getGeocoder().search(query);
+    if (!bestMatch) {
+      toast.error(t("trip.placeNotFound", { query }));
+    }
+    return bestMatch;
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!to.trim() || (!from.trim() && !currentLocation)) return;
+
+    setIsLocating(true);
+    try {
+      const origin = from.trim()
+        ? await findPlace(from)
+        : { label: t("trip.yourLocation"), ...currentLocation };
+      const destination = await findPlace(to);
+
+      if (origin && destination) {
+        onPlan({ from: origin, to: destination });
+      }
+    } catch (error) {
+      console.error("Error planning trip:", error);
+      toast.error(t("trip.lookupFailed"));
+    } finally {
+      setIsLocating(false);
+    }
+  };
+
+  return (
+    <div className="space-y-3">
+      <form onSubmit={handleSubmit} className="space-y-2">
+        <Input
+          placeholder={currentLocation ? t("trip.fromCurrent") : t("trip.fromPlaceholder")}
+          value={from}
+          onChange={(e) => setFrom(e.target.value)}
+          aria-label={t("trip.from")}
+        />
+        <Input
+          placeholder={t("trip.toPlaceholder")}
+          value={to}
+          onChange={(e) => setTo(e.target.value)}
+          aria-label={t("trip.to")}
+        />
+        <div className="flex flex-wrap items-center gap-2">
+          <TravelModeToggle value={travelMode} onChange={onTravelModeChange} />
+          <Select value={corridorKm.toString()} onValueChange={(value) => onCorridorChange(Number(value))}>
+            <SelectTrigger className="w-32" aria-label={t("trip.corridor")}>
+              <SelectValue placeholder={t("trip.corridorPlaceholder")} />
+            </SelectTrigger>
+            <SelectContent>
+              {corridorOptions.map(option => (
+                <SelectItem key={option.value} value={option.value}>
+                  {t("trip.within", { distance: option.distance })}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Button type="submit" size="sm" className="ml-auto" disabled={!to.trim() || isLocating}>
+            {isLocating ? <Loader2 className="h-4 w-4 animate-spin" /> : <MapPinned className="h-4 w-4 mr-1" />}
+            {t("trip.plan")}
+          </Button>
+        </div>
+      </form>
+
+      {endpoints && (
+        <div className="flex items-center justify-between gap-2 text-sm">
+          <div className="flex items-center gap-1 min-w-0">
+            <span className="truncate">{endpoints.from.label}</span>
+            <ArrowRight className="h-3 w-3 shrink-0" />
+            <span className="truncate">{endpoints.to.label}</span>
+          </div>
+          <Button variant="ghost" size="icon" onClick={onClear} aria-label={t("trip.clear")}>
+            <X className="h-4 w-4" />
+          </Button>
+        </div>
+      )}
+
+      {trip.isLoading && (
+        <p className="flex items-center gap-2 text-sm text-muted-foreground">
+          <Loader2 className="h-4 w-4 animate-spin" /> {t("trip.finding")}
+        </p>
+      )}
+
+      {trip.route && (
+        <>
+          <p className="text-sm text-muted-foreground">
+            {t(trip.stops.length === 1 ? "trip.summaryOne" : "trip.summary", {
+              distance: formatDistance(trip.route.distance),
+              time: trip.route.estimated
+                ? t("travel.about", { time: formatTravelTime(trip.route.duration, travelMode, t) })
+                : formatTravelTime(trip.route.duration, travelMode, t),
+              count: trip.stops.length,
+            })}
+          </p>
+
+          {trip.nextCleanStop && (
+            <div className="flex items-center gap-2 rounded-md bg-muted/50 p-2 text-sm">
+              <Sparkles className="h-4 w-4 text-reststop-primary shrink-0" />
+              <span>
+                {t("trip.nextCleanStop", {
+                  distance: formatDistance(trip.nextCleanStop.distance),
+                  name: trip.nextCleanStop.stop.restroom.name,
+                })}
+              </span>
+            </div>
+          )}
+
+          <ol className="space-y-2">
+            {trip.stops.map(({ restroom, distanceAlongRoute, detour }) => {
+              const tier = getCleanlinessTier(restroom.cleanliness.score);
+              return (
+                <li key={restroom.id}>
+                  <button
+                    type="button"
+                    className={`w-full text-left rounded-md border p-2 hover:bg-muted/50 transition-colors ${
+                      restroom.id === selectedId ? "border-reststop-primary border-2" : ""
+                    }`}
+                    onClick={() => onSelectRestroom(restroom.id)}
+                  >
+                    <div className="flex items-start justify-between gap-2">
+                      <span className="font-medium">{restroom.name}</span>
+                      <Badge variant={tier === "high" ? "secondary" : tier === "medium" ? "outline" : "destructive"}>
+                        {restroom.cleanliness.score}/100
+                      </Badge>
+                    </div>
+                    <div className="mt-1 flex flex-wrap items-center gap-2 text-xs text-muted-foreground">
+                      <span>{t("trip.at", { distance: formatDistance(distanceAlongRoute) })}</span>
+                      <span>· {t("trip.offRoute", { distance: formatDistance(detour) })}</span>
+                      <OpenStatusBadge restroom={restroom} />
+                    </div>
+                  </button>
+                </li>
+              );
+            })}
+          </ol>
+
+          {endpoints && (
+            <ItineraryPlanner
+              // Start fresh for every new trip
+              key={`${endpoints.from.label}-${endpoints.to.label}`}
+              trip={trip}
+              endpoints={endpoints}
+              travelMode={travelMode}
+              corridorKm={corridorKm}
+              initialOptions={itineraryOptions}
+              onSelectRestroom={onSelectRestroom}
+            />
+          )}
+        </>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,36 @@
+// Shared amenity taxonomy. Restroom.amenities stores the ids.
+export interface Amenity {
+  id: string;
+  label: string;
+  category: "basics" | "hygiene" | "comfort";
+}
+
+export const amenityCategories: Record<Amenity["category"], string> = {
+  basics: "Basics",
+  hygiene: "Hygiene",
+  comfort: "Comfort",
+};
+
+export const amenities: Amenity[] = [
+  { id: "toilet", label: "Toilet", category: "basics" },
+  { id: "western_toilet", label: "Western toilet", category: "basics" },
+  { id: "indian_toilet", label: "Indian-style toilet", category: "basics" },
+  { id: "urinal", label: "Urinal", category: "basics" },
+  { id: "sink", label: "Sink", category: "basics" },
+  { id: "hand_soap", label: "Hand soap", category: "hygiene" },
+  { id: "paper_towels", label: "Paper towels", category: "hygiene" },
+  { id: "hand_dryer", label: "Hand dryer", category: "hygiene" },
+  { id: "health_faucet", label: "Health faucet", category: "hygiene" },
+  { id: "toilet_paper", label: "Toilet paper", category: "hygiene" },
+  { id: "sanitary_pads", label: "Sanitary pad dispenser", category: "hygiene" },
+  { id: "dustbin", label: "Dustbin", category: "hygiene" },
+  { id: "drinking_water", label: "Drinking water", category: "comfort" },
+  { id: "mirror", label: "Mirror", category: "comfort" },
+  { id: "lotion", label: "Lotion", category: "comfort" },
+  { id: "mouthwash", label: "Mouthwash", category: "comfort" },
+  { id: "shower", label: "Shower", category: "comfort" },
+  { id: "seating", label: "Waiting area", category: "comfort" },
+];
+
+export const getAmenityLabel = (id: string): string =>
+  amenities.find(amenity => amenity.id === id)?.label ?? id.replace(/_/g, ' ');
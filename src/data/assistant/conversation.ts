@@ -0,0 +1,204 @@
+import { Restroom } from "@/types";
+import { formatStatusTime, getOpenStatus } from "../openingHours";
+import { Language, Translator, createTranslator } from "../i18n";
+import {
+  ParsedQuery,
+  QueryEntities,
+  findMentionedRestroom,
+  findPhrase,
+  getRestroomFeature,
+  parseQuery,
+  tokenize,
+} from "../nlu";
+import { resolveTime } from "./search";
+import {
+  cleanlinessText,
+  describeAddress,
+  describeHours,
+  directionsTo,
+  featureLabel,
+  reportOn,
+  respondToQuery,
+} from "./ruleBased";
+import { Assistant, AssistantContext, AssistantReply, ConversationState, ConversationTurn } from "./types";
+
+export const initialConversation: ConversationState = { features: [], results: [] };
+
+const searchIntents = new Set(["find_nearest", "area_search", "filter_amenity", "open_now"]);
+
+// Words that only make sense against the previous answer
+const followUpCues = [
+  "ones", "those", "them", "these", "which", "only", "also", "what about", "how about", "and",
+  "mattum", "adhula", "athula", "மட்டும்", "அதுல", "அதில்",
+];
+
+// Words that start a new search from scratch
+const freshSearchCues = [
+  "restroom", "restrooms", "toilet", "toilets", "bathroom", "washroom", "nearest", "near me", "nearby",
+  "kazhivarai", "கழிவறை", "கழிப்பறை", "pakkam", "பக்கம்", "arugil", "அருகில்",
+];
+
+const isFollowUp = (parsed: ParsedQuery, state: ConversationState) => {
+  if (state.results.length === 0 && !state.area && state.features.length === 0) return false;
+
+  const tokens = tokenize(parsed.text);
+  if (followUpCues.some(cue => findPhrase(tokens, cue)?.exact)) return true;
+  return !freshSearchCues.some(cue => findPhrase(tokens, cue));
+};
+
+// A follow-up keeps the earlier filters unless it replaces them
+const mergeEntities = (entities: QueryEntities, state: ConversationState): QueryEntities => ({
+  ...entities,
+  area: entities.area ?? state.area,
+  features: [...new Set([...state.features, ...entities.features])],
+  distanceKm: entities.distanceKm ?? state.distanceKm,
+  time: entities.time ?? state.time,
+});
+
+// The restroom a reference points at: "the second one" picks from the
+// last results, "it" is the one last talked about
+const resolveReference = (entities: QueryEntities, state: ConversationState): Restroom | undefined => {
+  const { reference } = entities;
+  if (!reference) return undefined;
+  if (reference.kind === "pronoun") return state.focus ?? state.results[0];
+
+  const index = reference.index < 0 ? state.results.length + reference.index : reference.index;
+  return state.results[index];
+};
+
+const describeRestroom = (restroom: Restroom, now: Date, t: Translator, language?: Language): AssistantReply => {
+  const features = ["accessible", "baby_changing", "gender_neutral"]
+    .filter(id => getRestroomFeature(id).matches(restroom))
+    .map(id => featureLabel(id, language));
+
+  return {
+    text: t("assistant.describe", {
+      name: restroom.name,
+      address: describeAddress(restroom, t),
+      score: restroom.cleanliness.score,
+      rating: cleanlinessText(restroom, t),
+      hours: describeHours(restroom, now, t),
+      features: features.length > 0 ? t("assistant.describeFeatures", { features: features.join(", ") }) : "",
+    }),
+    restrooms: [restroom],
+  };
+};
+
+const openStatusReply = (restroom: Restroom, entities: QueryEntities, now: Date, t: Translator): AssistantReply => {
+  const at = entities.time ? resolveTime(entities.time, now) : now;
+  const status = getOpenStatus(restroom, at);
+  const name = restroom.name;
+  const when = at === now ? "" : t("assistant.atTime", { time: formatStatusTime(at, now) });
+
+  let text: string;
+  if (!status) {
+    text = t("assistant.hoursUnknown", { name });
+  } else if (status.isOpen) {
+    text = status.closesAt
+      ? t("assistant.isOpenUntil", { name, when, time: formatStatusTime(status.closesAt, at) })
+      : t("assistant.isOpen24", { name });
+  } else {
+    const holiday = status.holiday ? t("assistant.forHoliday", { holiday: status.holiday }) : "";
+    text = status.opensAt
+      ? t("assistant.isClosedOpens", { name, when, holiday, time: formatStatusTime(status.opensAt, at) })
+      : t("assistant.isClosed", { name, when, holiday });
+  }
+  return { text, restrooms: [restroom] };
+};
+
+const featureReply = (restroom: Restroom, features: string[], t: Translator, language?: Language): AssistantReply => {
+  const [has, lacks] = features
+    .filter(id => getRestroomFeature(id))
+    .reduce<[string[], string[]]>(
+      ([yes, no], id) => {
+        const label = featureLabel(id, language);
+        return getRestroomFeature(id).matches(restroom) ? [[...yes, label], no] : [yes, [...no, label]];
+      },
+      [[], []]
+    );
+  const name = restroom.name;
+  const text = lacks.length === 0
+    ? t("assistant.hasFeatures", { name, features: has.join(", ") })
+    : has.length === 0
+      ? t("assistant.lacksFeatures", { name, features: lacks.join(", ") })
+      : t("assistant.someFeatures", { name, has: has.join(", "), lacks: lacks.join(", ") });
+  return { text, restrooms: [restroom] };
+};
+
+// Answers about one restroom the user pointed back at
+const focusedReply = (parsed: ParsedQuery, focus: Restroom, context: AssistantContext): AssistantReply | undefined => {
+  const { language } = context;
+  const now = context.now ?? new Date();
+  const t = createTranslator(language);
+  switch (parsed.intent) {
+    case "select_result":
+      return describeRestroom(focus, now, t, language);
+    case "open_now":
+      return openStatusReply(focus, parsed.entities, now, t);
+    case "filter_amenity":
+      return featureReply(focus, parsed.entities.features, t, language);
+    case "directions":
+      return directionsTo(focus, context);
+    case "report_issue":
+      // A named restroom wins over the one in focus
+      return findMentionedRestroom(parsed.text, context.restrooms) ? undefined : reportOn(focus, parsed.text, language);
+    default:
+      return undefined;
+  }
+};
+
+// Answers one turn of a conversation and works out what the next turn can
+// refer back to. Follow-ups inherit the last area and filters; "the second
+// one", "it" and "there" point at restrooms from earlier answers.
+export const replyInConversation = (
+  parsed: ParsedQuery,
+  state: ConversationState,
+  context: AssistantContext
+): ConversationTurn => {
+  const referenced = resolveReference(parsed.entities, state);
+
+  if (parsed.entities.reference?.kind === "ordinal" && !referenced && state.results.length > 0) {
+    const t = createTranslator(context.language);
+    const count = state.results.length;
+    return {
+      reply: {
+        text: t("assistant.selectOutOfRange", { count, noun: t(count === 1 ? "assistant.restroom" : "assistant.restrooms") }),
+        restrooms: [],
+      },
+      state,
+    };
+  }
+
+  const focused = referenced && focusedReply(parsed, referenced, context);
+  if (focused) {
+    return { reply: focused, state: { ...state, focus: referenced } };
+  }
+
+  if (searchIntents.has(parsed.intent)) {
+    const entities = isFollowUp(parsed, state) ? mergeEntities(parsed.entities, state) : parsed.entities;
+    const reply = respondToQuery({ ...parsed, entities }, context);
+    return {
+      reply,
+      state: {
+        area: entities.area,
+        features: entities.features,
+        distanceKm: entities.distanceKm,
+        time: entities.time,
+        results: reply.restrooms,
+        focus: reply.restrooms.length === 1 ? reply.restrooms[0] : undefined,
+      },
+    };
+  }
+
+  // Directions and reports about a new restroom move the focus to it
+  const reply = respondToQuery(parsed, context);
+  return {
+    reply,
+    state: reply.restrooms.length === 1 ? { ...state, focus: reply.restrooms[0] } : state,
+  };
+};
+
+// The offline engine behind the Assistant interface
+export const ruleBasedAssistant: Assistant = {
+  reply: async (text, state, context) => replyInConversation(parseQuery(text), state, context),
+};
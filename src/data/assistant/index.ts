@@ -0,0 +1,53 @@
+import { getRestroomRepository } from "../repository";
+import { getRoutingService } from "../routing";
+import { ruleBasedAssistant } from "./conversation";
+import { createOpenAiAssistant } from "./openai";
+import { createAssistantTools } from "./tools";
+import { Assistant } from "./types";
+
+export type {
+  Assistant,
+  AssistantContext,
+  AssistantReply,
+  ConversationMessage,
+  ConversationState,
+  ConversationTurn,
+} from "./types";
+export type { RestroomSearch } from "./search";
+export type { OpenAiAssistantOptions } from "./openai";
+export type { AssistantTools, ToolDefinition, ToolResult } from "./tools";
+export { AREA_RADIUS_KM, NEARBY_RADIUS_KM, resolveTime, searchRestrooms } from "./search";
+export { respondToQuery } from "./ruleBased";
+export { initialConversation, replyInConversation, ruleBasedAssistant } from "./conversation";
+export { createOpenAiAssistant } from "./openai";
+export { createAssistantTools } from "./tools";
+
+// Uses an OpenAI-compatible LLM when VITE_LLM_BASE_URL and VITE_LLM_MODEL
+// are set, falling back to the rule-based engine when it fails; otherwise
+// the rule-based engine alone
+const createDefaultAssistant = (): Assistant => {
+  const baseUrl = import.meta.env.VITE_LLM_BASE_URL;
+  const model = import.meta.env.VITE_LLM_MODEL;
+  if (!baseUrl || !model) {
+    return ruleBasedAssistant;
+  }
+
+  return createOpenAiAssistant(
+    { baseUrl, model, apiKey: import.meta.env.VITE_LLM_API_KEY },
+    createAssistantTools(getRestroomRepository, getRoutingService),
+    ruleBasedAssistant
+  );
+};
+
+let assistant: Assistant | null = null;
+
+export const getAssistant = (): Assistant => {
+  if (!assistant) {
+    assistant = createDefaultAssistant();
+  }
+  return assistant;
+};
+
+export const setAssistant = (next: Assistant) => {
+  assistant = next;
+};
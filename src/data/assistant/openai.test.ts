@@ -0,0 +1,93 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { Restroom } from "@/types";
+import { initialConversation } from "./conversation";
+import { createOpenAiAssistant } from "./openai";
+import { AssistantTools } from "./tools";
+import { Assistant } from "./types";
+
+const { post } = vi.hoisted(() => ({ post: vi.fn() }));
+vi.mock("axios", () => ({ default: { create: () => ({ post }) } }));
+
+const restroomAt = (id: string, name: string): Restroom => ({
+  id,
+  name,
+  location: { lat: 11.0183, lng: 76.9674 },
+  amenities: [],
+  cleanliness: { score: 80, lastUpdated: "2024-01-01T00:00:00Z", reports: 0 },
+  accessibility: false,
+  babyChanging: false,
+  genderNeutral: false,
+  reviews: [],
+});
+
+const westin = restroomAt("westin", "Westin Hotel");
+const vocPark = restroomAt("voc-park", "VOC Park Public Restroom");
+
+// The search tool only ever finds the Westin
+const tools: AssistantTools = {
+  definitions: [{ name: "search_restrooms", description: "Find restrooms", parameters: {} }],
+  run: async () => ({ content: { restrooms: [{ id: westin.id, name: westin.name }] }, restrooms: [westin] }),
+};
+
+const fallback: Assistant = {
+  reply: vi.fn(async (_, state) => ({ reply: { text: "From the rule-based assistant", restrooms: [] }, state })),
+};
+
+// The model searches once, then answers with the given text
+const modelAnswers = (answer: string) => {
+  post
+    .mockResolvedValueOnce({
+      data: {
+        choices: [{
+          message: {
+            content: null,
+            tool_calls: [{
+              id: "call-1",
+              type: "function",
+              function: { name: "search_restrooms", arguments: '{"area":"Gandhipuram"}' },
+            }],
+          },
+        }],
+      },
+    })
+    .mockResolvedValueOnce({ data: { choices: [{ message: { content: answer } }] } });
+};
+
+const ask = () =>
+  createOpenAiAssistant({ baseUrl: "http://llm.test/v1", model: "test" }, tools, fallback)
+    .reply("restroom in gandhipuram", initialConversation, { restrooms: [westin, vocPark] });
+
+beforeEach(() => {
+  vi.spyOn(console, "error").mockImplementation(() => {});
+});
+
+afterEach(() => {
+  post.mockReset();
+  vi.clearAllMocks();
+  vi.restoreAllMocks();
+});
+
+describe("createOpenAiAssistant", () => {
+  it.each([
+    ["[[westin]] is open now.", "Westin Hotel is open now."],
+    ["[[westin]] is near Gandhipuram Bus Stand.", "Westin Hotel is near Gandhipuram Bus Stand."],
+    ["Try [[westin]] in RS Puram, it's clean.", "Try Westin Hotel in RS Puram, it's clean."],
+  ])("answers with the cited restrooms: %s", async (answer, text) => {
+    modelAnswers(answer);
+    const turn = await ask();
+    expect(turn.reply).toEqual({ text, restrooms: [westin] });
+    expect(fallback.reply).not.toHaveBeenCalled();
+  });
+
+  it.each([
+    ["an id no tool returned", "[[westin]] and [[lakshmi-mills]] are close."],
+    ["a made-up restroom", "[[westin]] is open, or try Lakshmi Mills Restroom next door."],
+    ["a made-up place", "Brookefields Mall has a clean toilet on the second floor."],
+    ["a real restroom the tools didn't return", "[[westin]] is open, and VOC Park Public Restroom is close."],
+  ])("falls back on %s", async (_, answer) => {
+    modelAnswers(answer);
+    const turn = await ask();
+    expect(turn.reply.text).toBe("From the rule-based assistant");
+    expect(fallback.reply).toHaveBeenCalledOnce();
+  });
+});
@@ -0,0 +1,224 @@
+import axios from "axios";
+import { Restroom } from "@/types";
+import { coimbatoreGazetteer, getEntryNames, normalizePlaceName } from "../gazetteer";
+import { parseQuery } from "../nlu";
+import { AssistantTools, ToolResult } from "./tools";
+import { Assistant, AssistantContext, ConversationMessage, ConversationState, ConversationTurn } from "./types";
+
+export interface OpenAiAssistantOptions {
+  // Any server speaking the OpenAI chat completions API, e.g.
+  // https://api.openai.com/v1 or a local Ollama at http://localhost:11434/v1
+  baseUrl: string;
+  model: string;
+  apiKey?: string;
+}
+
+// Rounds of tool calls before the model has to answer
+const MAX_TOOL_ROUNDS = 4;
+// Messages of earlier turns sent along for context
+const MAX_HISTORY = 10;
+const REQUEST_TIMEOUT_MS = 30000;
+
+interface ToolCall {
+  id: string;
+  type: "function";
+  function: { name: string; arguments: string };
+}
+
+type ChatCompletionMessage =
+  | { role: "system" | "user"; content: string }
+  | { role: "assistant"; content: string | null; tool_calls?: ToolCall[] }
+  | { role: "tool"; tool_call_id: string; content: string };
+
+interface ChatCompletionResponse {
+  choices: { message: { content: string | null; tool_calls?: ToolCall[] } }[];
+}
+
+// Restrooms are cited as [[id]] so every name in an answer can be checked
+const CITATION = /\[\[([^\]]+)\]\]/g;
+
+// Kinds of place restrooms are found at
+const placeKinds = [
+  "Restrooms?", "Toilets?", "Comfort Station", "Hotel", "Mall", "Bus Stand", "Bus Stop", "Station", "Hospital",
+  "Petrol Pump", "Park", "Temple", "Market", "Plaza", "Centre", "Center", "Cafe", "Restaurant",
+];
+// A capitalised name ending in one, e.g. "Lakshmi Mills Restroom" or "Brookefields Mall"
+const PLACE_NAME = new RegExp(`\\b(?:[A-Z][\\w'&.-]*\\s+){1,4}(?:${placeKinds.join("|")})\\b`, "g");
+
+const areaNames = new Set(coimbatoreGazetteer.flatMap(getEntryNames).map(normalizePlaceName));
+
+// Restroom-like names in the text outside the citations that no tool
+// returned: real restrooms the model wasn't shown, and made-up ones
+const findUngroundedNames = (answer: string, known: Map<string, Restroom>, restrooms: Restroom[]) => {
+  const uncited = answer.replace(CITATION, " ");
+  const words = ` ${normalizePlaceName(uncited)} `;
+  const groundedNames = [...[...known.values()].map(restroom => normalizePlaceName(restroom.name)), ...areaNames];
+
+  const unseen = restrooms
+    .filter(restroom => !known.has(restroom.id) && words.includes(` ${normalizePlaceName(restroom.name)} `))
+    .map(restroom => restroom.name);
+  // "Near Gandhipuram Bus Stand" and "the Westin Hotel" end in a known name
+  const madeUp = (uncited.match(PLACE_NAME) ?? []).filter(name => {
+    const place = normalizePlaceName(name);
+    return !groundedNames.some(grounded => grounded.includes(place) || place.endsWith(` ${grounded}`));
+  });
+  return [...unseen, ...madeUp];
+};
+
+const systemPrompt = (state: ConversationState, context: AssistantContext) => {
+  const lines = [
+    "You are RestStop, an assistant that helps people find public restrooms in Coimbatore district, Tamil Nadu.",
+    "Only talk about restrooms returned by your tools or listed below. Never make up restrooms, addresses, opening hours, distances or facilities.",
+    "Every time you name a restroom, write its id as [[id]] instead of its name; it is replaced with the name before the user sees it.",
+    "If the tools find nothing, say so and suggest another area, a wider radius or fewer filters.",
+    "To report a dirty restroom, the user should open it on the map and tap Report Cleanliness.",
+    "Keep answers to two or three short sentences of plain text, suitable for reading aloud.",
+    context.language === "ta"
+      ? "Answer in Tamil, in Tamil script."
+      : "Answer in English.",
+    context.location
+      ? "The user's location is known; search around them when they don't name an area."
+      : "The user's location is unknown; ask for an area when they want something nearby.",
+  ];
+
+  if (state.results.length > 0) {
+    lines.push(
+      "Restrooms from the last answer, in order, for \"the first one\", \"the second one\" and so on:",
+      ...state.results.map((restroom, index) => `${index + 1}. [[${restroom.id}]] ${restroom.name}`)
+    );
+  }
+  if (state.focus) {
+    lines.push(`"It" and "there" mean [[${state.focus.id}]] ${state.focus.name}.`);
+  }
+  return lines.join("\n");
+};
+
+const remember = (history: ConversationMessage[] = [], question: string, answer: string): ConversationMessage[] =>
+  [...history, { role: "user" as const, content: question }, { role: "assistant" as const, content: answer }].slice(-MAX_HISTORY);
+
+const parseArguments = (value: string): Record<string, unknown> | undefined => {
+  try {
+    const args = JSON.parse(value || "{}");
+    return args && typeof args === "object" ? args : undefined;
+  } catch {
+    return undefined;
+  }
+};
+
+// Answers with a hosted or self-hosted LLM that looks restrooms up through
+// tools. Replies may only name restrooms the tools returned; anything else,
+// a failed request and cleanliness reports go to the fallback assistant.
+export const createOpenAiAssistant = (
+  options: OpenAiAssistantOptions,
+  tools: AssistantTools,
+  fallback: Assistant
+): Assistant => {
+  const client = axios.create({
+    baseURL: options.baseUrl.replace(/\/+$/, ""),
+    timeout: REQUEST_TIMEOUT_MS,
+    headers: options.apiKey ? { Authorization: `Bearer ${options.apiKey}` } : undefined,
+  });
+
+  const complete = async (messages: ChatCompletionMessage[]) => {
+    const response = await client.post<ChatCompletionResponse>("/chat/completions", {
+      model: options.model,
+      messages,
+      tools: tools.definitions.map(definition => ({ type: "function", function: definition })),
+      tool_choice: "auto",
+      temperature: 0.2,
+    });
+    const message = response.data.choices?.[0]?.message;
+    if (!message) throw new Error("The model returned no message");
+    return message;
+  };
+
+  // Asks the model, running the tools it calls, until it answers in text
+  const converse = async (text: string, state: ConversationState, context: AssistantContext) => {
+    const messages: ChatCompletionMessage[] = [
+      { role: "system", content: systemPrompt(state, context) },
+      ...(state.history ?? []),
+      { role: "user", content: text },
+    ];
+    const results: ToolResult[] = [];
+
+    for (let round = 0; round <= MAX_TOOL_ROUNDS; round++) {
+      const message = await complete(messages);
+      if (!message.tool_calls?.length) {
+        if (!message.content?.trim()) throw new Error("The model returned an empty answer");
+        return { answer: message.content.trim(), results };
+      }
+      if (round === MAX_TOOL_ROUNDS) break;
+
+      messages.push({ role: "assistant", content: message.content, tool_calls: message.tool_calls });
+      for (const call of message.tool_calls) {
+        const args = parseArguments(call.function.arguments);
+        const result = args
+          ? await tools.run(call.function.name, args, context)
+          : { content: { error: "Arguments are not valid JSON" }, restrooms: [] };
+        results.push(result);
+        messages.push({ role: "tool", tool_call_id: call.id, content: JSON.stringify(result.content) });
+      }
+    }
+    throw new Error(`No answer after ${MAX_TOOL_ROUNDS} rounds of tool calls`);
+  };
+
+  const withHistory = (turn: ConversationTurn, text: string, state: ConversationState): ConversationTurn => ({
+    ...turn,
+    state: { ...turn.state, history: remember(state.history, text, turn.reply.text) },
+  });
+
+  return {
+    reply: async (text, state, context) => {
+      // Reports are filed on the user's behalf, so they stay with the
+      // rule-based engine that resolves the restroom deterministically
+      if (parseQuery(text).intent === "report_issue") {
+        return withHistory(await fallback.reply(text, state, context), text, state);
+      }
+
+      try {
+        const { answer, results } = await converse(text, state, context);
+
+        const known = new Map<string, Restroom>();
+        [...state.results, ...(state.focus ? [state.focus] : []), ...results.flatMap(result => result.restrooms)]
+          .forEach(restroom => known.set(restroom.id, restroom));
+
+        const cited: Restroom[] = [];
+        const unknownIds: string[] = [];
+        const grounded = answer.replace(CITATION, (citation, id: string) => {
+          const restroom = known.get(id.trim());
+          if (!restroom) {
+            unknownIds.push(id);
+            return citation;
+          }
+          if (!cited.includes(restroom)) cited.push(restroom);
+          return restroom.name;
+        });
+        if (unknownIds.length > 0) {
+          throw new Error(`The answer cites restrooms no tool returned: ${unknownIds.join(", ")}`);
+        }
+        const ungrounded = findUngroundedNames(answer, known, context.restrooms);
+        if (ungrounded.length > 0) {
+          throw new Error(`The answer names restrooms no tool returned: ${ungrounded.join(", ")}`);
+        }
+
+        // A new list replaces the one "the second one" points into
+        const listed = [...results].reverse().find(result => result.restrooms.length > 1)?.restrooms;
+        const nextResults = listed ?? (cited.length > 1 ? cited : state.results);
+        const focus = cited.length === 1 ? cited[0] : listed ? undefined : state.focus;
+
+        return {
+          reply: { text: grounded, restrooms: cited.length > 0 ? cited : listed ?? [] },
+          state: {
+            ...state,
+            results: nextResults,
+            focus,
+            history: remember(state.history, text, grounded),
+          },
+        };
+      } catch (error) {
+        console.error("LLM assistant failed, using the rule-based assistant:", error);
+        return withHistory(await fallback.reply(text, state, context), text, state);
+      }
+    },
+  };
+};
@@ -0,0 +1,216 @@
+import { CleanlinessStatus, Restroom } from "@/types";
+import { GazetteerEntry, coimbatoreGazetteer } from "../gazetteer";
+import { Language, Translator, createTranslator, translateLabel } from "../i18n";
+import { haversineDistance } from "../geo";
+import { formatStatusTime, getOpenStatus } from "../openingHours";
+import { formatDistance } from "../ranking";
+import { getCleanlinessTier } from "../restrooms";
+import { ParsedQuery, findMentionedRestroom, findPhrase, getRestroomFeature, tokenize } from "../nlu";
+import { RestroomSearch, searchRestrooms } from "./search";
+import { AssistantContext, AssistantReply } from "./types";
+
+// A report without a named restroom is about the one the user is standing at
+const REPORT_RADIUS_KM = 0.15;
+
+export const cleanlinessText = (restroom: Restroom, t: Translator) => {
+  const tier = getCleanlinessTier(restroom.cleanliness.score);
+  return t(tier === "high" ? "assistant.ratingHigh" : tier === "medium" ? "assistant.ratingMedium" : "assistant.ratingLow");
+};
+
+export const featureLabel = (id: string, language?: Language) =>
+  translateLabel(language, id, getRestroomFeature(id)?.label ?? id);
+
+// Places are named in the reply language; the gazetteer keeps Tamil names among the aliases
+const placeName = (entry: GazetteerEntry, language?: Language) =>
+  (language === "ta" && entry.aliases?.find(alias => /\p{Script=Tamil}/u.test(alias))) || entry.name;
+
+const describeScope = (search: RestroomSearch, t: Translator, language?: Language) =>
+  search.scope.kind === "area"
+    ? t("assistant.scopeArea", { area: placeName(search.scope.area, language) })
+    : t(search.scope.kind === "nearby" ? "assistant.scopeNearby" : "assistant.scopeDistrict");
+
+// ["accessible", "clean"] -> "accessible clean restrooms"
+const describeResults = (features: string[], count: number, t: Translator, language?: Language) => {
+  const labels = features.filter(id => getRestroomFeature(id)).map(id => featureLabel(id, language));
+  const noun = t(count === 1 ? "assistant.restroom" : "assistant.restrooms");
+  return labels.length > 0 ? `${labels.join(" ")} ${noun}` : noun;
+};
+
+export const describeHours = (restroom: Restroom, at: Date, t: Translator) => {
+  const status = getOpenStatus(restroom, at);
+  if (!status?.isOpen) return "";
+  return status.closesAt
+    ? t("assistant.openUntil", { time: formatStatusTime(status.closesAt, at) })
+    : t("assistant.open24");
+};
+
+const searchReply = (parsed: ParsedQuery, context: AssistantContext): AssistantReply => {
+  const { entities } = parsed;
+  const search = searchRestrooms(entities, context);
+  const { results, openAt } = search;
+  const { language } = context;
+  const now = context.now ?? new Date();
+  const t = createTranslator(language);
+
+  if (search.scope.kind === "district" && parsed.intent === "find_nearest") {
+    return { text: t("assistant.needLocation"), restrooms: [] };
+  }
+
+  const when = openAt
+    ? entities.time?.kind === "now" ? t("assistant.openNow") : t("assistant.openAt", { time: formatStatusTime(openAt, now) })
+    : "";
+  const where = describeScope(search, t, language);
+
+  if (results.length === 0) {
+    return {
+      text: t("assistant.notFound", {
+        what: describeResults(entities.features, 2, t, language),
+        when,
+        where,
+        suggestion: t(search.scope.kind === "district" ? "assistant.suggestTime" : "assistant.suggestRadius"),
+      }),
+      restrooms: [],
+    };
+  }
+
+  const best = results[0];
+  const cleanestFirst = search.scope.kind === "district" || openAt || entities.features.includes("clean");
+  const bestDistance = context.location && search.scope.kind === "nearby"
+    ? formatDistance(haversineDistance(context.location.lat, context.location.lng, best.location.lat, best.location.lng))
+    : undefined;
+  const distance = bestDistance ? t("assistant.away", { distance: bestDistance }) : "";
+  const hours = describeHours(best, openAt ?? now, t);
+
+  return {
+    text: t("assistant.found", {
+      count: results.length,
+      what: describeResults(entities.features, results.length, t, language),
+      when,
+      where,
+      ranking: t(cleanestFirst ? "assistant.rankingCleanest" : "assistant.rankingClosest"),
+      name: best.name,
+      score: best.cleanliness.score,
+      rating: cleanlinessText(best, t),
+      distance,
+      hours,
+    }),
+    // Just the best match, short enough to take in while driving
+    speech: t(cleanestFirst ? "assistant.spokenCleanest" : bestDistance ? "assistant.spokenNearest" : "assistant.spokenClosest", {
+      // "Cleanest restroom", not "cleanest clean restroom"
+      what: describeResults(entities.features.filter(id => !cleanestFirst || id !== "clean"), 1, t, language),
+      where,
+      name: best.name,
+      distance: bestDistance ?? "",
+      hours,
+    }),
+    restrooms: results,
+  };
+};
+
+const directionsReply = (parsed: ParsedQuery, context: AssistantContext): AssistantReply => {
+  const named = parsed.entities.target && findMentionedRestroom(parsed.entities.target, context.restrooms);
+  const restroom = named || searchRestrooms(parsed.entities, context).results[0];
+
+  if (!restroom || (!named && !context.location && !parsed.entities.area)) {
+    return { text: createTranslator(context.language)("assistant.directionsAsk"), restrooms: [] };
+  }
+
+  return directionsTo(restroom, context);
+};
+
+export const describeAddress = (restroom: Restroom, t: Translator) =>
+  restroom.location.address ? t("assistant.onAddress", { address: restroom.location.address }) : "";
+
+export const directionsTo = (restroom: Restroom, context: AssistantContext): AssistantReply => {
+  const t = createTranslator(context.language);
+  const distance = context.location
+    ? t("assistant.distanceAway", {
+        distance: formatDistance(haversineDistance(context.location.lat, context.location.lng, restroom.location.lat, restroom.location.lng)),
+      })
+    : "";
+  return {
+    text: t("assistant.directions", { name: restroom.name, address: describeAddress(restroom, t), distance }),
+    restrooms: [restroom],
+  };
+};
+
+const dirtyWords = [
+  "dirty", "filthy", "smell", "smells", "stinks", "overflowing", "clogged", "blocked",
+  "azhukku", "alukku", "naaram", "naarudhu", "அழுக்கு", "நாற்றம்",
+];
+
+const reportReply = (parsed: ParsedQuery, context: AssistantContext): AssistantReply => {
+  const { location } = context;
+  const named = findMentionedRestroom(parsed.text, context.restrooms);
+  const restroom = named ?? (location
+    ? context.restrooms.find(candidate =>
+        haversineDistance(location.lat, location.lng, candidate.location.lat, candidate.location.lng) <= REPORT_RADIUS_KM
+      )
+    : undefined);
+
+  if (!restroom) {
+    return { text: createTranslator(context.language)("assistant.reportAsk"), restrooms: [] };
+  }
+
+  return reportOn(restroom, parsed.text, context.language);
+};
+
+// Files a report about a known restroom; the wording decides how bad it is
+export const reportOn = (restroom: Restroom, text: string, language?: Language): AssistantReply => {
+  const t = createTranslator(language);
+  const tokens = tokenize(text);
+  const status: CleanlinessStatus = dirtyWords.some(word => findPhrase(tokens, word)) ? "dirty" : "needs_attention";
+  return {
+    text: t("assistant.reporting", {
+      name: restroom.name,
+      status: t(status === "dirty" ? "assistant.statusDirty" : "assistant.statusNeedsAttention"),
+    }),
+    restrooms: [restroom],
+    report: { restroom, status },
+  };
+};
+
+// Answers from the local dataset only; every restroom it names is real
+export const respondToQuery = (parsed: ParsedQuery, context: AssistantContext): AssistantReply => {
+  const t = createTranslator(context.language);
+  switch (parsed.intent) {
+    case "find_nearest":
+    case "area_search":
+    case "filter_amenity":
+    case "open_now":
+      return searchReply(parsed, context);
+
+    case "directions":
+      return directionsReply(parsed, context);
+
+    case "report_issue":
+      return reportReply(parsed, context);
+
+    case "where_am_i":
+      return {
+        text: context.location
+          ? t("assistant.location", { lat: context.location.lat.toFixed(4), lng: context.location.lng.toFixed(4) })
+          : t("assistant.locationUnknown"),
+        restrooms: [],
+      };
+
+    case "list_areas": {
+      const localities = coimbatoreGazetteer
+        .filter(entry => (entry.kind === "locality" || entry.kind === "town") && !entry.district)
+        .map(entry => placeName(entry, context.language));
+      return {
+        text: t("assistant.areas", { areas: localities.slice(0, 10).join(", "), more: localities.length - 10 }),
+        restrooms: [],
+      };
+    }
+
+    case "select_result":
+      return { text: t("assistant.selectNothing"), restrooms: [] };
+
+    case "help":
+      return { text: t("assistant.help"), restrooms: [] };
+
+    default:
+      return { text: t("assistant.fallback"), restrooms: [] };
+  }
+};
@@ -0,0 +1,69 @@
+import { Restroom } from "@/types";
+import { createRestroomIndex } from "../geo";
+import { GazetteerEntry } from "../gazetteer";
+import { isOpenAt } from "../openingHours";
+import { QueryEntities, TimeEntity, getRestroomFeature } from "../nlu";
+import { AssistantContext } from "./types";
+
+// Default search radius around the user and around a named area
+export const NEARBY_RADIUS_KM = 2;
+export const AREA_RADIUS_KM = 3;
+
+export interface RestroomSearch {
+  results: Restroom[];
+  // Where the search looked: an area, the user, or the whole district
+  scope: { kind: "area"; area: GazetteerEntry } | { kind: "nearby" } | { kind: "district" };
+  // The moment opening hours were checked for, if the query asked
+  openAt?: Date;
+}
+
+// "at 22:00" means the next time the clock shows 22:00
+export const resolveTime = (time: TimeEntity, now: Date = new Date()): Date => {
+  if (time.kind === "now") return now;
+
+  const [hours, minutes] = time.time.split(":").map(Number);
+  const at = new Date(now);
+  at.setHours(hours, minutes, 0, 0);
+  if (at.getTime() < now.getTime()) at.setDate(at.getDate() + 1);
+  return at;
+};
+
+// Restrooms matching the place, features, distance and time in a query.
+// Results are nearest first, or cleanest first when nothing anchors them
+// to a point or the user asked for clean ones.
+export const searchRestrooms = (entities: QueryEntities, context: AssistantContext): RestroomSearch => {
+  const { restrooms, location, now = new Date() } = context;
+  const geoIndex = createRestroomIndex(restrooms);
+
+  let results: Restroom[];
+  let scope: RestroomSearch["scope"];
+  if (entities.area) {
+    const { lat, lng } = entities.area;
+    results = geoIndex.withinRadius(lat, lng, entities.distanceKm ?? AREA_RADIUS_KM).map(result => result.item);
+    scope = { kind: "area", area: entities.area };
+  } else if (location) {
+    results = geoIndex
+      .withinRadius(location.lat, location.lng, entities.distanceKm ?? NEARBY_RADIUS_KM)
+      .map(result => result.item);
+    scope = { kind: "nearby" };
+  } else {
+    results = [...restrooms];
+    scope = { kind: "district" };
+  }
+
+  entities.features.forEach(id => {
+    const feature = getRestroomFeature(id);
+    if (feature) results = results.filter(feature.matches);
+  });
+
+  const openAt = entities.time && resolveTime(entities.time, now);
+  if (openAt) {
+    results = results.filter(restroom => isOpenAt(restroom, openAt));
+  }
+
+  if (scope.kind === "district" || entities.features.includes("clean") || openAt) {
+    results = [...results].sort((a, b) => b.cleanliness.score - a.cleanliness.score);
+  }
+
+  return { results, scope, openAt };
+};
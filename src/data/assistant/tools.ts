@@ -0,0 +1,210 @@
+import { Restroom } from "@/types";
+import { coimbatoreGazetteer } from "../gazetteer";
+import { haversineDistance } from "../geo";
+import { createTranslator } from "../i18n";
+import { formatStatusTime, getOpenStatus, isOpenAt } from "../openingHours";
+import { RestroomRepository } from "../repository";
+import { RoutingService, TravelMode } from "../routing";
+import { QueryEntities, TimeEntity, findArea, getRestroomFeature, restroomFeatures, tokenize } from "../nlu";
+import { resolveTime, searchRestrooms } from "./search";
+import { AssistantContext } from "./types";
+
+// Restrooms returned per call; enough to choose from without flooding the model
+const MAX_RESULTS = 8;
+// Turn-by-turn steps included in a route
+const MAX_STEPS = 8;
+// Tool results are read by the model, which gets them in English
+const toolEnglish = createTranslator("en");
+
+// JSON schema of a function the model may call, in the OpenAI tools format
+export interface ToolDefinition {
+  name: string;
+  description: string;
+  parameters: Record<string, unknown>;
+}
+
+export interface ToolResult {
+  // Sent back to the model as JSON
+  content: unknown;
+  // Real restrooms the result contains; the only ones an answer may name
+  restrooms: Restroom[];
+}
+
+export interface AssistantTools {
+  definitions: ToolDefinition[];
+  run: (name: string, args: Record<string, unknown>, context: AssistantContext) => Promise<ToolResult>;
+}
+
+const featureIds = restroomFeatures.map(feature => feature.id);
+
+const timeParameters = {
+  open_now: { type: "boolean", description: "Only restrooms open right now" },
+  open_at: { type: "string", description: "Only restrooms open at this time of day, 24-hour HH:mm" },
+};
+
+const definitions: ToolDefinition[] = [
+  {
+    name: "search_restrooms",
+    description: "Find restrooms around a named area of Coimbatore district or around the user. Results are nearest first, or cleanest first when asking for clean ones or for opening hours.",
+    parameters: {
+      type: "object",
+      properties: {
+        area: { type: "string", description: "Locality, town or landmark, e.g. \"Gandhipuram\". Omit to search around the user." },
+        features: { type: "array", items: { type: "string", enum: featureIds }, description: "Everything a restroom must have" },
+        radius_km: { type: "number", description: "Search radius; 2 km around the user and 3 km around an area by default" },
+        ...timeParameters,
+      },
+    },
+  },
+  {
+    name: "filter_restrooms",
+    description: "Narrow down restrooms from an earlier result by features, opening hours or cleanliness.",
+    parameters: {
+      type: "object",
+      properties: {
+        restroom_ids: { type: "array", items: { type: "string" } },
+        features: { type: "array", items: { type: "string", enum: featureIds } },
+        min_cleanliness: { type: "number", description: "Lowest cleanliness score, 0-100" },
+        ...timeParameters,
+      },
+      required: ["restroom_ids"],
+    },
+  },
+  {
+    name: "route_to_restroom",
+    description: "Route from the user's location to a restroom, with distance, travel time and the first turns.",
+    parameters: {
+      type: "object",
+      properties: {
+        restroom_id: { type: "string" },
+        mode: { type: "string", enum: ["walking", "two_wheeler", "driving"] },
+      },
+      required: ["restroom_id"],
+    },
+  },
+];
+
+const asStrings = (value: unknown): string[] =>
+  Array.isArray(value) ? value.filter((item): item is string => typeof item === "string") : [];
+
+const asNumber = (value: unknown) => (typeof value === "number" && Number.isFinite(value) ? value : undefined);
+
+const parseTimeArgs = (args: Record<string, unknown>): TimeEntity | undefined => {
+  if (typeof args.open_at === "string" && /^\d{1,2}:\d{2}$/.test(args.open_at)) {
+    return { kind: "at", time: args.open_at.padStart(5, "0") };
+  }
+  return args.open_now === true ? { kind: "now" } : undefined;
+};
+
+// What the model gets to see of a restroom; the id is how it cites one
+const summarize = (restroom: Restroom, context: AssistantContext) => {
+  const now = context.now ?? new Date();
+  const status = getOpenStatus(restroom, now);
+  const { location } = context;
+
+  return {
+    id: restroom.id,
+    name: restroom.name,
+    address: restroom.location.address,
+    cleanliness_score: restroom.cleanliness.score,
+    open_now: status?.isOpen,
+    closes_at: status?.closesAt && formatStatusTime(status.closesAt, now),
+    opens_at: status?.opensAt && formatStatusTime(status.opensAt, now),
+    features: featureIds.filter(id => getRestroomFeature(id).matches(restroom)),
+    distance_km: location
+      ? Number(haversineDistance(location.lat, location.lng, restroom.location.lat, restroom.location.lng).toFixed(2))
+      : undefined,
+  };
+};
+
+const listResult = (restrooms: Restroom[], context: AssistantContext, extra: Record<string, unknown> = {}): ToolResult => {
+  const shown = restrooms.slice(0, MAX_RESULTS);
+  return {
+    content: { ...extra, total: restrooms.length, restrooms: shown.map(restroom => summarize(restroom, context)) },
+    restrooms: shown,
+  };
+};
+
+const failure = (error: string, extra: Record<string, unknown> = {}): ToolResult => ({
+  content: { error, ...extra },
+  restrooms: [],
+});
+
+// Tools the LLM backend answers with. Every restroom comes from the
+// repository, and routes from the routing service the map uses.
+export const createAssistantTools = (
+  getRepository: () => RestroomRepository,
+  getRouting: () => RoutingService
+): AssistantTools => {
+  const searchTool = async (args: Record<string, unknown>, context: AssistantContext) => {
+    const areaName = typeof args.area === "string" ? args.area.trim() : "";
+    const area = areaName ? findArea(tokenize(areaName))?.entry : undefined;
+    if (areaName && !area) {
+      return failure(`Unknown area "${areaName}"`, {
+        known_areas: coimbatoreGazetteer.filter(entry => !entry.district).map(entry => entry.name),
+      });
+    }
+    if (!area && !context.location) {
+      return failure("The user's location is unknown. Ask for an area.");
+    }
+
+    const entities: QueryEntities = {
+      area,
+      features: asStrings(args.features).filter(id => featureIds.includes(id)),
+      distanceKm: asNumber(args.radius_km),
+      time: parseTimeArgs(args),
+    };
+    const restrooms = await getRepository().list();
+    const search = searchRestrooms(entities, { ...context, restrooms });
+    return listResult(search.results, context, { searched: area ? `around ${area.name}` : "around the user" });
+  };
+
+  const filterTool = async (args: Record<string, unknown>, context: AssistantContext) => {
+    const repository = getRepository();
+    const found = await Promise.all(asStrings(args.restroom_ids).map(id => repository.getById(id)));
+    const features = asStrings(args.features).map(getRestroomFeature).filter(Boolean);
+    const minCleanliness = asNumber(args.min_cleanliness) ?? 0;
+    const time = parseTimeArgs(args);
+    const openAt = time && resolveTime(time, context.now ?? new Date());
+
+    const restrooms = found
+      .filter(Boolean)
+      .filter(restroom => features.every(feature => feature.matches(restroom)))
+      .filter(restroom => restroom.cleanliness.score >= minCleanliness)
+      .filter(restroom => !openAt || isOpenAt(restroom, openAt));
+    return listResult(restrooms, context);
+  };
+
+  const routeTool = async (args: Record<string, unknown>, context: AssistantContext) => {
+    const restroom = typeof args.restroom_id === "string" ? await getRepository().getById(args.restroom_id) : undefined;
+    if (!restroom) return failure("No restroom with that id");
+    if (!context.location) return failure("The user's location is unknown, so no route can be planned.");
+
+    const mode: TravelMode = args.mode === "driving" || args.mode === "two_wheeler" ? args.mode : "walking";
+    const route = await getRouting().route(context.location, restroom.location, mode);
+    if (!route) return { content: { restroom: summarize(restroom, context), error: "No route found" }, restrooms: [restroom] };
+
+    return {
+      content: {
+        restroom: summarize(restroom, context),
+        mode,
+        distance_km: Number(route.distance.toFixed(2)),
+        duration_min: Math.round(route.duration),
+        estimated: route.estimated ?? false,
+        steps: route.steps.slice(0, MAX_STEPS).map(step => toolEnglish(step.message.key, step.message.params)),
+      },
+      restrooms: [restroom],
+    };
+  };
+
+  const tools: Record<string, (args: Record<string, unknown>, context: AssistantContext) => Promise<ToolResult>> = {
+    search_restrooms: searchTool,
+    filter_restrooms: filterTool,
+    route_to_restroom: routeTool,
+  };
+
+  return {
+    definitions,
+    run: (name, args, context) => tools[name]?.(args, context) ?? Promise.resolve(failure(`Unknown tool "${name}"`)),
+  };
+};
@@ -0,0 +1,57 @@
+import { CleanlinessStatus, Restroom } from "@/types";
+import { GazetteerEntry } from "../gazetteer";
+import { LatLng } from "../geo";
+import { Language } from "../i18n";
+import { TimeEntity } from "../nlu";
+
+// What the assistant knows about the world when it answers
+export interface AssistantContext {
+  restrooms: Restroom[];
+  // Undefined until the user shares their location
+  location?: LatLng;
+  now?: Date;
+  // Language to answer in; English when omitted
+  language?: Language;
+}
+
+export interface AssistantReply {
+  text: string;
+  // Shorter version for reading aloud; the text is read when omitted
+  speech?: string;
+  // Restrooms the reply talks about, best first
+  restrooms: Restroom[];
+  // A cleanliness report to file on the user's behalf
+  report?: { restroom: Restroom; status: CleanlinessStatus };
+}
+
+// One exchange as text, for backends that read the whole conversation
+export interface ConversationMessage {
+  role: "user" | "assistant";
+  content: string;
+}
+
+// What earlier turns established, so a reply can build on them
+export interface ConversationState {
+  // Filters of the last search
+  area?: GazetteerEntry;
+  features: string[];
+  distanceKm?: number;
+  time?: TimeEntity;
+  // The last list of restrooms shown, best first
+  results: Restroom[];
+  // The restroom "it" and "there" point at
+  focus?: Restroom;
+  // Recent messages; only kept by backends that need them
+  history?: ConversationMessage[];
+}
+
+export interface ConversationTurn {
+  reply: AssistantReply;
+  state: ConversationState;
+}
+
+// Answers chat messages. The rule-based engine answers offline and
+// instantly; LLM backends call out to a server.
+export interface Assistant {
+  reply: (text: string, state: ConversationState, context: AssistantContext) => Promise<ConversationTurn>;
+}
@@ -0,0 +1,37 @@
+import axios from "axios";
+import { CleanlinessReport, HelpfulVote, Review, ReviewReport } from "@/types";
+import { FeedbackService } from "./types";
+
+const reviewPath = (restroomId: string, reviewId: string, action: string) =>
+  `/restrooms/${encodeURIComponent(restroomId)}/reviews/${encodeURIComponent(reviewId)}/${action}`;
+
+// Talks to the same REST backend as the HTTP repository:
+//   POST {baseUrl}/restrooms/:id/reviews
+//   POST {baseUrl}/restrooms/:id/reports
+//   POST {baseUrl}/restrooms/:id/reviews/:reviewId/helpful
+//   POST {baseUrl}/restrooms/:id/reviews/:reviewId/reports
+export const createHttpFeedbackService = (baseUrl: string): FeedbackService => {
+  const client = axios.create({ baseURL: baseUrl.replace(/\/+$/, "") });
+
+  return {
+    submitReview: async (restroomId: string, review: Review) => {
+      await client.post(`/restrooms/${encodeURIComponent(restroomId)}/reviews`, review);
+      return "sent";
+    },
+
+    reportCleanliness: async (report: CleanlinessReport) => {
+      await client.post(`/restrooms/${encodeURIComponent(report.restroomId)}/reports`, report);
+      return "sent";
+    },
+
+    voteHelpful: async (vote: HelpfulVote) => {
+      await client.post(reviewPath(vote.restroomId, vote.reviewId, "helpful"), vote);
+      return "sent";
+    },
+
+    reportReview: async (report: ReviewReport) => {
+      await client.post(reviewPath(report.restroomId, report.reviewId, "reports"), report);
+      return "sent";
+    },
+  };
+};
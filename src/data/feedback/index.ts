@@ -0,0 +1,41 @@
+import { createHttpFeedbackService } from "./http";
+import { startFeedbackSync, withOfflineQueue } from "./queue";
+import { FeedbackService } from "./types";
+
+export type { FeedbackDelivery, FeedbackService } from "./types";
+export type { QueuedFeedback } from "./queue";
+export type { ReviewVotes } from "./votes";
+export { createHttpFeedbackService } from "./http";
+export { getQueuedFeedback, replayQueuedFeedback, startFeedbackSync, withOfflineQueue } from "./queue";
+export { getHelpfulCount, readReviewVotes, recordHelpfulVote, recordReviewReport } from "./votes";
+
+// Feedback goes to the restroom backend, or the sync server when restrooms
+// are stored locally. Without either it waits in the offline queue.
+const createDefaultFeedbackService = (): FeedbackService => {
+  const serverUrl = import.meta.env.VITE_RESTROOM_API_URL || import.meta.env.VITE_RESTROOM_SYNC_URL;
+  if (!serverUrl) {
+    return withOfflineQueue();
+  }
+
+  // The queue lives in IndexedDB; without it feedback can only be sent live
+  const http = createHttpFeedbackService(serverUrl);
+  if (typeof indexedDB === "undefined") {
+    return http;
+  }
+
+  startFeedbackSync(http);
+  return withOfflineQueue(http);
+};
+
+let feedbackService: FeedbackService | null = null;
+
+export const getFeedbackService = (): FeedbackService => {
+  if (!feedbackService) {
+    feedbackService = createDefaultFeedbackService();
+  }
+  return feedbackService;
+};
+
+export const setFeedbackService = (next: FeedbackService) => {
+  feedbackService = next;
+};
@@ -0,0 +1,121 @@
+import axios from "axios";
+import { CleanlinessReport, HelpfulVote, Review, ReviewReport } from "@/types";
+import { FEEDBACK_STORE, getOfflineDatabase, requestToPromise, transactionDone } from "../offline/db";
+import { FeedbackService } from "./types";
+
+type Feedback =
+  | { type: "review"; restroomId: string; review: Review }
+  | { type: "cleanliness_report"; report: CleanlinessReport }
+  | { type: "helpful_vote"; vote: HelpfulVote }
+  | { type: "review_report"; report: ReviewReport };
+
+// Feedback given without a connection, waiting to be sent
+export type QueuedFeedback = Feedback & { id?: number; createdAt: string };
+
+const queueFeedback = async (feedback: Feedback) => {
+  const db = await getOfflineDatabase();
+  const transaction = db.transaction(FEEDBACK_STORE, "readwrite");
+  transaction.objectStore(FEEDBACK_STORE).add({ ...feedback, createdAt: new Date().toISOString() });
+  await transactionDone(transaction);
+  return "queued" as const;
+};
+
+// Oldest first
+export const getQueuedFeedback = async (): Promise<QueuedFeedback[]> => {
+  const db = await getOfflineDatabase();
+  return requestToPromise<QueuedFeedback[]>(db.transaction(FEEDBACK_STORE).objectStore(FEEDBACK_STORE).getAll());
+};
+
+const removeQueuedFeedback = async (id: number) => {
+  const db = await getOfflineDatabase();
+  const transaction = db.transaction(FEEDBACK_STORE, "readwrite");
+  transaction.objectStore(FEEDBACK_STORE).delete(id);
+  await transactionDone(transaction);
+};
+
+// The request never reached the server, as opposed to the server rejecting it
+const isNetworkError = (error: unknown) => axios.isAxiosError(error) && !error.response;
+
+// Sends through `target` when possible and queues otherwise. Without a
+// target everything is queued until a backend is configured.
+export const withOfflineQueue = (target?: FeedbackService): FeedbackService => {
+  const sendOrQueue = async (send: () => Promise<unknown>, feedback: Feedback) => {
+    if (!target || !navigator.onLine) return queueFeedback(feedback);
+
+    try {
+      await send();
+      return "sent" as const;
+    } catch (error) {
+      if (isNetworkError(error)) return queueFeedback(feedback);
+      throw error;
+    }
+  };
+
+  return {
+    submitReview: (restroomId, review) =>
+      sendOrQueue(() => target.submitReview(restroomId, review), { type: "review", restroomId, review }),
+
+    reportCleanliness: (report) =>
+      sendOrQueue(() => target.reportCleanliness(report), { type: "cleanliness_report", report }),
+
+    voteHelpful: (vote) => sendOrQueue(() => target.voteHelpful(vote), { type: "helpful_vote", vote }),
+
+    reportReview: (report) => sendOrQueue(() => target.reportReview(report), { type: "review_report", report }),
+  };
+};
+
+// Replay queued feedback oldest first, stopping at the first failure like
+// the restroom outbox does. Returns the number of items sent.
+export const replayQueuedFeedback = async (target: FeedbackService): Promise<number> => {
+  const queued = await getQueuedFeedback();
+  let sent = 0;
+
+  for (const feedback of queued) {
+    try {
+      switch (feedback.type) {
+        case "review":
+          await target.submitReview(feedback.restroomId, feedback.review);
+          break;
+        case "cleanliness_report":
+          await target.reportCleanliness(feedback.report);
+          break;
+        case "helpful_vote":
+          await target.voteHelpful(feedback.vote);
+          break;
+        case "review_report":
+          await target.reportReview(feedback.report);
+          break;
+      }
+      await removeQueuedFeedback(feedback.id as number);
+      sent++;
+    } catch (error) {
+      console.error("Error sending queued feedback:", error);
+      break;
+    }
+  }
+
+  return sent;
+};
+
+// Replay now and again whenever the browser comes back online
+export const startFeedbackSync = (target: FeedbackService) => {
+  let inFlight: Promise<number> | null = null;
+
+  const sync = () => {
+    if (!navigator.onLine || inFlight) return;
+
+    inFlight = replayQueuedFeedback(target)
+      .catch(error => {
+        console.error("Error reading queued feedback:", error);
+        return 0;
+      })
+      .finally(() => {
+        inFlight = null;
+      });
+  };
+
+  sync();
+  window.addEventListener("online", sync);
+
+  return () => window.removeEventListener("online", sync);
+};
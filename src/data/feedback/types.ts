@@ -0,0 +1,13 @@
+import { CleanlinessReport, HelpfulVote, Review, ReviewReport } from "@/types";
+
+// "queued" means the feedback is stored on the device and will be sent later
+export type FeedbackDelivery = "sent" | "queued";
+
+// Where reviews and cleanliness reports go. Like the restroom repository,
+// components reach it through a getter so the backend can be swapped.
+export interface FeedbackService {
+  submitReview: (restroomId: string, review: Review) => Promise<FeedbackDelivery>;
+  reportCleanliness: (report: CleanlinessReport) => Promise<FeedbackDelivery>;
+  voteHelpful: (vote: HelpfulVote) => Promise<FeedbackDelivery>;
+  reportReview: (report: ReviewReport) => Promise<FeedbackDelivery>;
+}
@@ -0,0 +1,41 @@
+import { Review } from "@/types";
+
+const STORAGE_KEY = "reststop-review-votes";
+
+// What this device did to reviews, so each one is voted on or reported once
+export interface ReviewVotes {
+  // Review id -> its helpful count when the vote was cast
+  helpful: Record<string, number>;
+  reported: string[];
+}
+
+export const readReviewVotes = (): ReviewVotes => {
+  try {
+    const raw = localStorage.getItem(STORAGE_KEY);
+    return raw ? (JSON.parse(raw) as ReviewVotes) : { helpful: {}, reported: [] };
+  } catch (error) {
+    console.error("Error reading review votes:", error);
+    return { helpful: {}, reported: [] };
+  }
+};
+
+const writeReviewVotes = (votes: ReviewVotes) => localStorage.setItem(STORAGE_KEY, JSON.stringify(votes));
+
+export const recordHelpfulVote = (review: Review) => {
+  const votes = readReviewVotes();
+  writeReviewVotes({ ...votes, helpful: { ...votes.helpful, [review.id]: review.helpfulVotes ?? 0 } });
+};
+
+export const recordReviewReport = (reviewId: string) => {
+  const votes = readReviewVotes();
+  if (votes.reported.includes(reviewId)) return;
+  writeReviewVotes({ ...votes, reported: [...votes.reported, reviewId] });
+};
+
+// Votes from others plus this device's own, until the count served for the
+// review includes it
+export const getHelpfulCount = (review: Review, votes?: ReviewVotes) => {
+  const count = review.helpfulVotes ?? 0;
+  const countWhenVoted = votes?.helpful[review.id];
+  return countWhenVoted === undefined ? count : Math.max(count, countWhenVoted + 1);
+};
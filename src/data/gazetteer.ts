@@ -0,0 +1,65 @@
+// Localities, towns and landmarks across Coimbatore district, plus the
+// nearby trip destinations travellers start from or head to, with
+// approximate centre coordinates. Used for offline geocoding.
+export interface GazetteerEntry {
+  name: string;
+  // Alternative spellings people commonly type, including the Tamil name
+  aliases?: string[];
+  kind: "city" | "locality" | "town" | "landmark";
+  // District shown after the name; Coimbatore when omitted
+  district?: string;
+  lat: number;
+  lng: number;
+}
+
+export const coimbatoreGazetteer: GazetteerEntry[] = [
+  { name: "RS Puram", aliases: ["r.s. puram", "r s puram", "rspuram", "ஆர்.எஸ்.புரம்", "ஆர் எஸ் புரம்"], kind: "locality", lat: 11.0083, lng: 76.9514 },
+  { name: "Gandhipuram", aliases: ["gandhipuram bus stand", "cross cut road", "காந்திபுரம்"], kind: "locality", lat: 11.0183, lng: 76.9674 },
+  { name: "Town Hall", aliases: ["townhall", "டவுன்ஹால்"], kind: "locality", lat: 10.9945, lng: 76.9613 },
+  { name: "Ukkadam", aliases: ["உக்கடம்"], kind: "locality", lat: 10.9925, lng: 76.9567 },
+  { name: "Race Course", aliases: ["racecourse", "ரேஸ் கோர்ஸ்"], kind: "locality", lat: 11.0010, lng: 76.9740 },
+  { name: "Peelamedu", aliases: ["பீளமேடு"], kind: "locality", lat: 11.0183, lng: 77.0066 },
+  { name: "Saibaba Colony", aliases: ["saibaba", "sai baba colony", "சாய்பாபா காலனி"], kind: "locality", lat: 11.0268, lng: 76.9346 },
+  { name: "Vadavalli", aliases: ["வடவள்ளி"], kind: "locality", lat: 11.0272, lng: 76.8991 },
+  { name: "Ganapathy", aliases: ["ganapathi", "கணபதி"], kind: "locality", lat: 11.0352, lng: 76.9991 },
+  { name: "Singanallur", aliases: ["சிங்காநல்லூர்"], kind: "locality", lat: 11.0073, lng: 77.0281 },
+  { name: "Podanur", aliases: ["podanoor", "போத்தனூர்"], kind: "locality", lat: 10.9907, lng: 76.9723 },
+  { name: "Ramanathapuram", aliases: ["ராமநாதபுரம்"], kind: "locality", lat: 10.9984, lng: 76.9944 },
+  { name: "Saravanampatti", aliases: ["saravanampatty", "சரவணம்பட்டி"], kind: "locality", lat: 11.0791, lng: 77.0061 },
+  { name: "Thudiyalur", aliases: ["thudialur", "துடியலூர்"], kind: "locality", lat: 11.0712, lng: 76.9452 },
+  { name: "Kalapatti", aliases: ["காளப்பட்டி"], kind: "locality", lat: 11.0750, lng: 77.0400 },
+  { name: "Vilankurichi", aliases: ["விளாங்குறிச்சி"], kind: "locality", lat: 11.0650, lng: 77.0150 },
+  { name: "Kuniyamuthur", aliases: ["குனியமுத்தூர்"], kind: "locality", lat: 10.9650, lng: 76.9450 },
+  { name: "Kovaipudur", aliases: ["கோவைப்புதூர்"], kind: "locality", lat: 10.9390, lng: 76.9350 },
+  { name: "Perur", aliases: ["பேரூர்"], kind: "locality", lat: 10.9750, lng: 76.9130 },
+  { name: "Thondamuthur", aliases: ["தொண்டாமுத்தூர்"], kind: "locality", lat: 10.9900, lng: 76.8400 },
+  { name: "Madukkarai", aliases: ["மதுக்கரை"], kind: "town", lat: 10.9050, lng: 76.9620 },
+  { name: "Sulur", aliases: ["சூலூர்"], kind: "town", lat: 11.0286, lng: 77.1285 },
+  { name: "Annur", aliases: ["அன்னூர்"], kind: "town", lat: 11.2320, lng: 77.1060 },
+  { name: "Karamadai", aliases: ["காரமடை"], kind: "town", lat: 11.2420, lng: 76.9590 },
+  { name: "Mettupalayam", aliases: ["மேட்டுப்பாளையம்"], kind: "town", lat: 11.2990, lng: 76.9350 },
+  { name: "Kinathukadavu", aliases: ["கிணத்துக்கடவு"], kind: "town", lat: 10.8230, lng: 77.0170 },
+  { name: "Pollachi", aliases: ["பொள்ளாச்சி"], kind: "town", lat: 10.6580, lng: 77.0080 },
+  { name: "Coimbatore", aliases: ["kovai", "coimbatore city", "கோயம்புத்தூர்", "கோவை"], kind: "city", lat: 11.0168, lng: 76.9558 },
+  { name: "Coonoor", aliases: ["kunnur", "குன்னூர்"], kind: "town", district: "Nilgiris", lat: 11.3530, lng: 76.7959 },
+  { name: "Ooty", aliases: ["udhagamandalam", "udhagai", "ootacamund", "ஊட்டி", "உதகமண்டலம்"], kind: "town", district: "Nilgiris", lat: 11.4102, lng: 76.6950 },
+  { name: "Kotagiri", aliases: ["கோத்தகிரி"], kind: "town", district: "Nilgiris", lat: 11.4210, lng: 76.8610 },
+  { name: "Tiruppur", aliases: ["tirupur", "திருப்பூர்"], kind: "city", district: "Tiruppur", lat: 11.1085, lng: 77.3411 },
+  { name: "Erode", aliases: ["ஈரோடு"], kind: "city", district: "Erode", lat: 11.3410, lng: 77.7172 },
+  { name: "Palakkad", aliases: ["palghat", "பாலக்காடு"], kind: "city", district: "Palakkad", lat: 10.7867, lng: 76.6548 },
+  { name: "Coimbatore Junction", aliases: ["railway station", "coimbatore railway station", "ரயில் நிலையம்"], kind: "landmark", lat: 11.0015, lng: 76.9567 },
+  { name: "Coimbatore Airport", aliases: ["airport", "விமான நிலையம்"], kind: "landmark", lat: 11.0300, lng: 77.0434 },
+  { name: "VOC Park", aliases: ["v.o.c. park", "வ.உ.சி. பூங்கா"], kind: "landmark", lat: 11.0058, lng: 76.9725 },
+];
+
+// Lower-case, drop punctuation and collapse whitespace so "R.S. Puram"
+// and "rs  puram" compare equal
+export const normalizePlaceName = (value: string) =>
+  value
+    .toLowerCase()
+    // Marks stay: Tamil vowel signs are part of the letters
+    .replace(/[^\p{L}\p{M}\p{N}\s]/gu, " ")
+    .replace(/\s+/g, " ")
+    .trim();
+
+export const getEntryNames = (entry: GazetteerEntry) => [entry.name, ...(entry.aliases ?? [])];
@@ -0,0 +1,39 @@
+import { LatLng } from "./distance";
+
+export interface Cluster<T> {
+  items: T[];
+  center: LatLng; // average position of the items
+}
+
+// Group items that fall into the same `cellSize` square once projected to
+// screen pixels. Cheap enough to rerun on every pan and zoom.
+export const clusterByGrid = <T>(
+  items: T[],
+  getPosition: (item: T) => LatLng,
+  project: (position: LatLng) => { x: number; y: number },
+  cellSize: number
+): Cluster<T>[] => {
+  const cells = new Map<string, T[]>();
+
+  items.forEach(item => {
+    const point = project(getPosition(item));
+    const key = `${Math.floor(point.x / cellSize)}:${Math.floor(point.y / cellSize)}`;
+    const cell = cells.get(key);
+    if (cell) {
+      cell.push(item);
+    } else {
+      cells.set(key, [item]);
+    }
+  });
+
+  return [...cells.values()].map(cellItems => {
+    const positions = cellItems.map(getPosition);
+    return {
+      items: cellItems,
+      center: {
+        lat: positions.reduce((sum, position) => sum + position.lat, 0) / positions.length,
+        lng: positions.reduce((sum, position) => sum + position.lng, 0) / positions.length,
+      },
+    };
+  });
+};
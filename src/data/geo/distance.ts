@@ -0,0 +1,51 @@
+export interface LatLng {
+  lat: number;
+  lng: number;
+}
+
+export interface Bounds {
+  south: number;
+  west: number;
+  north: number;
+  east: number;
+}
+
+const EARTH_RADIUS_KM = 6371;
+
+const toRadians = (degrees: number) => degrees * Math.PI / 180;
+
+// Great-circle distance between two coordinates in kilometers (Haversine formula)
+export const haversineDistance = (
+  lat1: number,
+  lng1: number,
+  lat2: number,
+  lng2: number
+): number => {
+  const dLat = toRadians(lat2 - lat1);
+  const dLng = toRadians(lng2 - lng1);
+
+  const a =
+    Math.sin(dLat / 2) * Math.sin(dLat / 2) +
+    Math.cos(toRadians(lat1)) * Math.cos(toRadians(lat2)) *
+    Math.sin(dLng / 2) * Math.sin(dLng / 2);
+
+  return EARTH_RADIUS_KM * 2 * Math.atan2(Math.sqrt(a), Math.sqrt(1 - a));
+};
+
+// Smallest lat/lng box that contains a circle, used to narrow candidates
+// before checking true distances
+export const boundsAround = (lat: number, lng: number, radiusInKm: number): Bounds => {
+  const latDelta = radiusInKm / 111.32;
+  // Longitude degrees shrink towards the poles; avoid dividing by zero there
+  const lngDelta = radiusInKm / (111.32 * Math.max(Math.cos(toRadians(lat)), 0.01));
+
+  return {
+    south: Math.max(lat - latDelta, -90),
+    west: Math.max(lng - lngDelta, -180),
+    north: Math.min(lat + latDelta, 90),
+    east: Math.min(lng + lngDelta, 180),
+  };
+};
+
+export const containsPoint = (bounds: Bounds, lat: number, lng: number) =>
+  lat >= bounds.south && lat <= bounds.north && lng >= bounds.west && lng <= bounds.east;
@@ -0,0 +1,70 @@
+import { describe, expect, it } from "vitest";
+import { countCoveringCells, encodeGeohash, geohashCellSize, geohashesCovering } from "./geohash";
+
+// Edges of the precision-7 cells (~150 m) around Gandhipuram
+const { width, height } = geohashCellSize(7);
+const lngEdge = -180 + Math.ceil((76.9558 + 180) / width) * width;
+const latEdge = -90 + Math.ceil((11.0168 + 90) / height) * height;
+// Well under a metre
+const NUDGE = 1e-6;
+
+describe("encodeGeohash", () => {
+  it.each([
+    [57.64911, 10.40744, 11, "u4pruydqqvj"],
+    [0.0001, 0.0001, 1, "s"],
+    [0.0001, -0.0001, 1, "e"],
+    [-0.0001, 0.0001, 1, "k"],
+    [-0.0001, -0.0001, 1, "7"],
+    [0, 0, 1, "s"],
+  ])("(%d, %d) at precision %d -> %s", (lat, lng, precision, hash) => {
+    expect(encodeGeohash(lat, lng, precision)).toBe(hash);
+  });
+
+  it.each([
+    ["a longitude", 11.0168, lngEdge - NUDGE, 11.0168, lngEdge + NUDGE],
+    ["a latitude", latEdge - NUDGE, 76.9558, latEdge + NUDGE, 76.9558],
+  ])("puts neighbours on either side of %s edge in different cells", (_, lat1, lng1, lat2, lng2) => {
+    const a = encodeGeohash(lat1, lng1, 7);
+    const b = encodeGeohash(lat2, lng2, 7);
+
+    expect(a).not.toBe(b);
+    // Still neighbours: the cells share their coarser parents
+    expect(a.slice(0, 5)).toBe(b.slice(0, 5));
+  });
+});
+
+describe("geohashesCovering", () => {
+  it.each([
+    ["a box inside one cell", { south: 1, west: 1, north: 2, east: 2 }, ["s"]],
+    ["a box across the equator and the prime meridian", { south: -1, west: -1, north: 1, east: 1 }, ["7", "e", "k", "s"]],
+    ["a box that ends on the equator", { south: -1, west: 1, north: 0, east: 2 }, ["k", "s"]],
+    ["a box that starts on the equator", { south: 0, west: 1, north: 1, east: 2 }, ["s"]],
+  ])("covers %s", (_, bounds, hashes) => {
+    expect(geohashesCovering(bounds, 1).sort()).toEqual(hashes);
+  });
+
+  it.each([
+    ["a longitude", { south: 11.0168, west: lngEdge - NUDGE, north: 11.0168 + NUDGE, east: lngEdge + NUDGE }],
+    ["a latitude", { south: latEdge - NUDGE, west: 76.9558, north: latEdge + NUDGE, east: 76.9558 + NUDGE }],
+    ["both", { south: latEdge - NUDGE, west: lngEdge - NUDGE, north: latEdge + NUDGE, east: lngEdge + NUDGE }],
+  ])("includes the cells on both sides of %s edge", (_, bounds) => {
+    const hashes = geohashesCovering(bounds, 7);
+    const corners = [
+      [bounds.south, bounds.west],
+      [bounds.south, bounds.east],
+      [bounds.north, bounds.west],
+      [bounds.north, bounds.east],
+    ].map(([lat, lng]) => encodeGeohash(lat, lng, 7));
+
+    corners.forEach(corner => expect(hashes).toContain(corner));
+    expect(hashes).toHaveLength(new Set(corners).size);
+  });
+
+  it.each([
+    [{ south: -1, west: -1, north: 1, east: 1 }, 1],
+    [{ south: 10.9, west: 76.8, north: 11.1, east: 77.1 }, 4],
+    [{ south: 11.0, west: 76.95, north: 11.02, east: 76.97 }, 6],
+  ])("touches as many cells as countCoveringCells says for %j at precision %d", (bounds, precision) => {
+    expect(geohashesCovering(bounds, precision)).toHaveLength(countCoveringCells(bounds, precision));
+  });
+});
@@ -0,0 +1,84 @@
+import { Bounds } from "./distance";
+
+const BASE32 = "0123456789bcdefghjkmnpqrstuvwxyz";
+
+// Standard geohash of a coordinate at the given precision (characters)
+export const encodeGeohash = (lat: number, lng: number, precision: number): string => {
+  let latMin = -90, latMax = 90;
+  let lngMin = -180, lngMax = 180;
+  let hash = "";
+  let bits = 0;
+  let value = 0;
+  let evenBit = true;
+
+  while (hash.length < precision) {
+    // Bits alternate between longitude and latitude, longitude first
+    if (evenBit) {
+      const mid = (lngMin + lngMax) / 2;
+      if (lng >= mid) {
+        value = (value << 1) | 1;
+        lngMin = mid;
+      } else {
+        value = value << 1;
+        lngMax = mid;
+      }
+    } else {
+      const mid = (latMin + latMax) / 2;
+      if (lat >= mid) {
+        value = (value << 1) | 1;
+        latMin = mid;
+      } else {
+        value = value << 1;
+        latMax = mid;
+      }
+    }
+    evenBit = !evenBit;
+
+    if (++bits === 5) {
+      hash += BASE32[value];
+      bits = 0;
+      value = 0;
+    }
+  }
+
+  return hash;
+};
+
+// Width and height in degrees of a geohash cell at the given precision
+export const geohashCellSize = (precision: number) => {
+  const totalBits = precision * 5;
+  const lngBits = Math.ceil(totalBits / 2);
+  const latBits = Math.floor(totalBits / 2);
+  return {
+    width: 360 / Math.pow(2, lngBits),
+    height: 180 / Math.pow(2, latBits),
+  };
+};
+
+// Geohash cells at `precision` that together cover the bounds
+export const geohashesCovering = (bounds: Bounds, precision: number): string[] => {
+  const { width, height } = geohashCellSize(precision);
+  const hashes = new Set<string>();
+
+  const firstRow = Math.floor((bounds.south + 90) / height);
+  const lastRow = Math.floor((Math.min(bounds.north, 89.999999) + 90) / height);
+  const firstColumn = Math.floor((bounds.west + 180) / width);
+  const lastColumn = Math.floor((Math.min(bounds.east, 179.999999) + 180) / width);
+
+  for (let row = firstRow; row <= lastRow; row++) {
+    for (let column = firstColumn; column <= lastColumn; column++) {
+      // Encode the centre of each cell so rounding never picks a neighbour
+      hashes.add(encodeGeohash(-90 + (row + 0.5) * height, -180 + (column + 0.5) * width, precision));
+    }
+  }
+
+  return [...hashes];
+};
+
+// Number of cells a bounds query would touch at a given precision
+export const countCoveringCells = (bounds: Bounds, precision: number) => {
+  const { width, height } = geohashCellSize(precision);
+  const rows = Math.floor((bounds.north + 90) / height) - Math.floor((bounds.south + 90) / height) + 1;
+  const columns = Math.floor((bounds.east + 180) / width) - Math.floor((bounds.west + 180) / width) + 1;
+  return rows * columns;
+};
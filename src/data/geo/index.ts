@@ -0,0 +1,22 @@
+import { Restroom } from "@/types";
+import { createGeoIndex } from "./spatialIndex";
+
+export type { Bounds, LatLng } from "./distance";
+export type { GeoIndex, GeoResult } from "./spatialIndex";
+export type { Cluster } from "./cluster";
+export type { PathPoint, PathPosition } from "./path";
+export { boundsAround, containsPoint, haversineDistance } from "./distance";
+export { encodeGeohash } from "./geohash";
+export { createGeoIndex } from "./spatialIndex";
+export { clusterByGrid } from "./cluster";
+export {
+  compassDirection,
+  distanceAlongPath,
+  initialBearing,
+  nearestPointOnPath,
+  pathLength,
+} from "./path";
+
+// Spatial index over restrooms from any source (bundled, user-added, remote)
+export const createRestroomIndex = (restrooms: Restroom[]) =>
+  createGeoIndex(restrooms, restroom => restroom.location);
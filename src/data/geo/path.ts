@@ -0,0 +1,81 @@
+import { LatLng, haversineDistance } from "./distance";
+
+// Routes are drawn as [lat, lng] pairs, the same shape Leaflet takes
+export type PathPoint = [number, number];
+
+const toRadians = (degrees: number) => degrees * Math.PI / 180;
+const toDegrees = (radians: number) => radians * 180 / Math.PI;
+
+// Initial compass bearing from one point to another, 0-360 clockwise from north
+export const initialBearing = (from: LatLng, to: LatLng) => {
+  const dLng = toRadians(to.lng - from.lng);
+  const y = Math.sin(dLng) * Math.cos(toRadians(to.lat));
+  const x =
+    Math.cos(toRadians(from.lat)) * Math.sin(toRadians(to.lat)) -
+    Math.sin(toRadians(from.lat)) * Math.cos(toRadians(to.lat)) * Math.cos(dLng);
+  return (toDegrees(Math.atan2(y, x)) + 360) % 360;
+};
+
+const compassPoints = ["north", "northeast", "east", "southeast", "south", "southwest", "west", "northwest"];
+
+export const compassDirection = (bearing: number) =>
+  compassPoints[Math.round(bearing / 45) % compassPoints.length];
+
+export interface PathPosition {
+  distance: number;     // kilometers from the point to the path
+  segmentIndex: number; // the path segment starting at path[segmentIndex]
+  fraction: number;     // 0-1 along that segment
+}
+
+// Closest spot on a path to a point. Segments are short, so each is treated
+// as flat around its own latitude.
+export const nearestPointOnPath = (point: LatLng, path: PathPoint[]): PathPosition | undefined => {
+  if (path.length === 0) return undefined;
+  if (path.length === 1) {
+    return { distance: haversineDistance(point.lat, point.lng, path[0][0], path[0][1]), segmentIndex: 0, fraction: 0 };
+  }
+
+  let best: PathPosition | undefined;
+
+  for (let i = 0; i < path.length - 1; i++) {
+    const [lat1, lng1] = path[i];
+    const [lat2, lng2] = path[i + 1];
+    const scale = Math.cos(toRadians((lat1 + lat2) / 2));
+
+    const dx = (lng2 - lng1) * scale;
+    const dy = lat2 - lat1;
+    const px = (point.lng - lng1) * scale;
+    const py = point.lat - lat1;
+    const lengthSquared = dx * dx + dy * dy;
+    const fraction = lengthSquared === 0 ? 0 : Math.min(1, Math.max(0, (px * dx + py * dy) / lengthSquared));
+
+    const distance = haversineDistance(
+      point.lat,
+      point.lng,
+      lat1 + (lat2 - lat1) * fraction,
+      lng1 + (lng2 - lng1) * fraction
+    );
+
+    if (!best || distance < best.distance) {
+      best = { distance, segmentIndex: i, fraction };
+    }
+  }
+
+  return best;
+};
+
+// Kilometers along a path between two vertex indexes
+export const pathLength = (path: PathPoint[], fromIndex = 0, toIndex = path.length - 1) => {
+  let length = 0;
+  for (let i = fromIndex; i < toIndex; i++) {
+    length += haversineDistance(path[i][0], path[i][1], path[i + 1][0], path[i + 1][1]);
+  }
+  return length;
+};
+
+// Kilometers from the start of a path to a position on it
+export const distanceAlongPath = (path: PathPoint[], position: PathPosition) => {
+  const { segmentIndex, fraction } = position;
+  if (segmentIndex >= path.length - 1) return pathLength(path);
+  return pathLength(path, 0, segmentIndex) + pathLength(path, segmentIndex, segmentIndex + 1) * fraction;
+};
@@ -0,0 +1,76 @@
+import { describe, expect, it } from "vitest";
+import { Bounds, LatLng, containsPoint, haversineDistance } from "./distance";
+import { geohashCellSize } from "./geohash";
+import { createGeoIndex } from "./spatialIndex";
+
+interface Place {
+  id: string;
+  position: LatLng;
+}
+
+const gandhipuram = { lat: 11.0168, lng: 76.9558 };
+
+// A precision-7 cell edge (~150 m cells) right by Gandhipuram
+const { width } = geohashCellSize(7);
+const lngEdge = -180 + Math.ceil((gandhipuram.lng + 180) / width) * width;
+
+// A 21 x 21 grid about 500 m apart, two places a metre either side of the
+// cell edge, and one place across the city
+const places: Place[] = [
+  ...Array.from({ length: 21 * 21 }, (_, i) => ({
+    id: `grid-${i}`,
+    position: { lat: 10.97 + Math.floor(i / 21) * 0.0045, lng: 76.91 + (i % 21) * 0.0045 },
+  })),
+  { id: "west-of-edge", position: { lat: gandhipuram.lat, lng: lngEdge - 0.00001 } },
+  { id: "east-of-edge", position: { lat: gandhipuram.lat, lng: lngEdge + 0.00001 } },
+  { id: "ukkadam", position: { lat: 10.9925, lng: 76.9614 } },
+];
+
+const index = createGeoIndex(places, place => place.position);
+
+const distanceFrom = (from: LatLng) => (place: Place) =>
+  haversineDistance(from.lat, from.lng, place.position.lat, place.position.lng);
+
+const ids = (items: Place[]) => items.map(place => place.id).sort();
+
+describe("createGeoIndex", () => {
+  it.each([
+    ["a metre around the cell edge", { lat: gandhipuram.lat, lng: lngEdge }, 0.005],
+    ["a short walk", gandhipuram, 0.6],
+    ["a few kilometres", gandhipuram, 3],
+    ["more than the whole grid", gandhipuram, 50],
+    ["an empty spot", { lat: 12.5, lng: 78.5 }, 1],
+  ])("finds the same places within %s as a full scan", (_, from, radius) => {
+    const expected = places.filter(place => distanceFrom(from)(place) <= radius);
+
+    const results = index.withinRadius(from.lat, from.lng, radius);
+    expect(ids(results.map(result => result.item))).toEqual(ids(expected));
+    // Nearest first
+    const distances = results.map(result => result.distance);
+    expect(distances).toEqual([...distances].sort((a, b) => a - b));
+  });
+
+  it.each([
+    ["a box that ends on the cell edge", { south: 11.01, west: lngEdge - 0.01, north: 11.02, east: lngEdge }],
+    ["a box that starts on the cell edge", { south: 11.01, west: lngEdge, north: 11.02, east: lngEdge + 0.01 }],
+    ["a box across the cell edge", { south: 11.0, west: lngEdge - 0.001, north: 11.03, east: lngEdge + 0.001 }],
+    ["a viewport of the city", { south: 10.95, west: 76.9, north: 11.05, east: 77.0 }],
+  ])("finds the same places in %s as a full scan", (_, bounds: Bounds) => {
+    const expected = places.filter(place => containsPoint(bounds, place.position.lat, place.position.lng));
+    expect(ids(index.withinBounds(bounds).map(result => result.item))).toEqual(ids(expected));
+  });
+
+  it.each([
+    [1, gandhipuram],
+    [5, gandhipuram],
+    [3, { lat: 10.99, lng: 76.96 }],
+    [4, { lat: 11.5, lng: 77.5 }],
+  ])("returns the %d nearest places to %j", (k, from) => {
+    const expected = [...places].sort((a, b) => distanceFrom(from)(a) - distanceFrom(from)(b)).slice(0, k);
+    expect(index.nearest(from.lat, from.lng, k).map(result => result.item.id)).toEqual(expected.map(place => place.id));
+  });
+
+  it("stops at the maximum distance", () => {
+    expect(index.nearest(12.5, 78.5, 3, 10)).toEqual([]);
+  });
+});
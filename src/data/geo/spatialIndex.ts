@@ -0,0 +1,115 @@
+import { Bounds, LatLng, boundsAround, containsPoint, haversineDistance } from "./distance";
+import { countCoveringCells, encodeGeohash, geohashesCovering } from "./geohash";
+
+export interface GeoResult<T> {
+  item: T;
+  distance: number; // kilometers from the query point
+}
+
+export interface GeoIndex<T> {
+  size: number;
+  // Items within `radiusInKm` of a point, nearest first
+  withinRadius: (lat: number, lng: number, radiusInKm: number) => GeoResult<T>[];
+  // Items inside a box; sorted by distance from `from`, or the box centre
+  withinBounds: (bounds: Bounds, from?: LatLng) => GeoResult<T>[];
+  // The `k` nearest items, optionally no further than `maxDistanceInKm`
+  nearest: (lat: number, lng: number, k: number, maxDistanceInKm?: number) => GeoResult<T>[];
+}
+
+// Items are indexed by geohash at this precision (~150 m cells)
+const INDEX_PRECISION = 7;
+// Queries use the finest precision that needs at most this many cells
+const MAX_QUERY_CELLS = 64;
+// k-nearest search starts with this radius and doubles it until satisfied
+const INITIAL_SEARCH_RADIUS_KM = 1;
+const MAX_SEARCH_RADIUS_KM = 20037; // half the Earth's circumference
+
+interface Entry<T> {
+  hash: string;
+  item: T;
+  position: LatLng;
+}
+
+// First index whose hash is >= prefix in a hash-sorted array
+const lowerBound = <T>(entries: Entry<T>[], prefix: string) => {
+  let low = 0;
+  let high = entries.length;
+  while (low < high) {
+    const mid = (low + high) >> 1;
+    if (entries[mid].hash < prefix) low = mid + 1;
+    else high = mid;
+  }
+  return low;
+};
+
+// Geohash grid: entries are kept sorted by geohash, so every cell at any
+// coarser precision is a contiguous range found by binary search on its prefix
+export const createGeoIndex = <T>(items: T[], getPosition: (item: T) => LatLng): GeoIndex<T> => {
+  const entries: Entry<T>[] = items
+    .map(item => {
+      const position = getPosition(item);
+      return { hash: encodeGeohash(position.lat, position.lng, INDEX_PRECISION), item, position };
+    })
+    .sort((a, b) => (a.hash < b.hash ? -1 : a.hash > b.hash ? 1 : 0));
+
+  const candidatesIn = (bounds: Bounds): Entry<T>[] => {
+    let precision = INDEX_PRECISION;
+    while (precision > 1 && countCoveringCells(bounds, precision) > MAX_QUERY_CELLS) {
+      precision--;
+    }
+
+    const candidates: Entry<T>[] = [];
+    geohashesCovering(bounds, precision).forEach(prefix => {
+      for (let i = lowerBound(entries, prefix); i < entries.length && entries[i].hash.startsWith(prefix); i++) {
+        candidates.push(entries[i]);
+      }
+    });
+    return candidates;
+  };
+
+  const byDistance = (a: GeoResult<T>, b: GeoResult<T>) => a.distance - b.distance;
+
+  const withinRadius = (lat: number, lng: number, radiusInKm: number) =>
+    candidatesIn(boundsAround(lat, lng, radiusInKm))
+      .map(entry => ({
+        item: entry.item,
+        distance: haversineDistance(lat, lng, entry.position.lat, entry.position.lng),
+      }))
+      .filter(result => result.distance <= radiusInKm)
+      .sort(byDistance);
+
+  return {
+    size: entries.length,
+
+    withinRadius,
+
+    withinBounds: (bounds: Bounds, from?: LatLng) => {
+      const origin = from ?? {
+        lat: (bounds.south + bounds.north) / 2,
+        lng: (bounds.west + bounds.east) / 2,
+      };
+      return candidatesIn(bounds)
+        .filter(entry => containsPoint(bounds, entry.position.lat, entry.position.lng))
+        .map(entry => ({
+          item: entry.item,
+          distance: haversineDistance(origin.lat, origin.lng, entry.position.lat, entry.position.lng),
+        }))
+        .sort(byDistance);
+    },
+
+    nearest: (lat: number, lng: number, k: number, maxDistanceInKm: number = MAX_SEARCH_RADIUS_KM) => {
+      if (k <= 0 || entries.length === 0) return [];
+
+      // Everything within the search radius is found, so once it holds k
+      // items the k closest of them are the k nearest overall
+      let radius = Math.min(INITIAL_SEARCH_RADIUS_KM, maxDistanceInKm);
+      for (;;) {
+        const results = withinRadius(lat, lng, radius);
+        if (results.length >= k || radius >= maxDistanceInKm) {
+          return results.slice(0, k);
+        }
+        radius = Math.min(radius * 2, maxDistanceInKm);
+      }
+    },
+  };
+};
@@ -0,0 +1,54 @@
+import { haversineDistance } from "../geo";
+import { GazetteerEntry, coimbatoreGazetteer, getEntryNames, normalizePlaceName } from "../gazetteer";
+import { Geocoder } from "./types";
+
+// Reverse lookups further than this from every known place return nothing
+const MAX_REVERSE_DISTANCE_KM = 5;
+
+const toResult = (entry: GazetteerEntry) => {
+  const district = entry.district ?? "Coimbatore";
+  return {
+    label: entry.name === district ? entry.name : `${entry.name}, ${district}`,
+    lat: entry.lat,
+    lng: entry.lng,
+  };
+};
+
+// Offline geocoder that matches place names from the local gazetteer
+export const createGazetteerGeocoder = (entries: GazetteerEntry[] = coimbatoreGazetteer): Geocoder => ({
+  search: async (query: string) => {
+    const normalizedQuery = normalizePlaceName(query);
+    if (!normalizedQuery) return [];
+
+    // Prefer places whose full name appears in the address ("12 RS Puram
+    // Main Road"), then places that start with what was typed ("sarav")
+    const scored = entries
+      .map(entry => {
+        const names = getEntryNames(entry).map(normalizePlaceName);
+        if (names.some(name => normalizedQuery.includes(name))) return { entry, score: 2 };
+        if (names.some(name => name.startsWith(normalizedQuery))) return { entry, score: 1 };
+        return { entry, score: 0 };
+      })
+      .filter(match => match.score > 0);
+
+    return scored
+      .sort((a, b) => b.score - a.score)
+      .map(match => toResult(match.entry));
+  },
+
+  reverse: async (lat: number, lng: number) => {
+    let nearest: GazetteerEntry | undefined;
+    let nearestDistance = Infinity;
+
+    // A city centre says little about where a pin is; name the locality instead
+    entries.filter(entry => entry.kind !== "city").forEach(entry => {
+      const distance = haversineDistance(lat, lng, entry.lat, entry.lng);
+      if (distance < nearestDistance) {
+        nearest = entry;
+        nearestDistance = distance;
+      }
+    });
+
+    return nearest && nearestDistance <= MAX_REVERSE_DISTANCE_KM ? toResult(nearest) : undefined;
+  },
+});
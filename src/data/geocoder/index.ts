@@ -0,0 +1,50 @@
+import { createGazetteerGeocoder } from "./gazetteer";
+import { createNominatimGeocoder } from "./nominatim";
+import { Geocoder } from "./types";
+
+export type { Geocoder, GeocodeResult } from "./types";
+export { createGazetteerGeocoder } from "./gazetteer";
+export { createNominatimGeocoder } from "./nominatim";
+
+// Falls back to the offline gazetteer when the service cannot answer
+const withFallback = (primary: Geocoder, fallback: Geocoder): Geocoder => ({
+  search: async (query: string) => {
+    try {
+      const results = await primary.search(query);
+      return results.length > 0 ? results : fallback.search(query);
+    } catch (error) {
+      console.error("Geocoder search failed, using offline gazetteer:", error);
+      return fallback.search(query);
+    }
+  },
+
+  reverse: async (lat: number, lng: number) => {
+    try {
+      return (await primary.reverse(lat, lng)) ?? fallback.reverse(lat, lng);
+    } catch (error) {
+      console.error("Reverse geocoding failed, using offline gazetteer:", error);
+      return fallback.reverse(lat, lng);
+    }
+  },
+});
+
+// Uses VITE_GEOCODER_URL when configured, otherwise geocodes offline
+const createDefaultGeocoder = (): Geocoder => {
+  const gazetteer = createGazetteerGeocoder();
+  const geocoderUrl = import.meta.env.VITE_GEOCODER_URL;
+
+  return geocoderUrl ? withFallback(createNominatimGeocoder(geocoderUrl), gazetteer) : gazetteer;
+};
+
+let geocoder: Geocoder | null = null;
+
+export const getGeocoder = (): Geocoder => {
+  if (!geocoder) {
+    geocoder = createDefaultGeocoder();
+  }
+  return geocoder;
+};
+
+export const setGeocoder = (next: Geocoder) => {
+  geocoder = next;
+};
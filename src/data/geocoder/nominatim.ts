@@ -0,0 +1,35 @@
+import axios from "axios";
+import { Geocoder } from "./types";
+
+interface NominatimPlace {
+  display_name: string;
+  lat: string;
+  lon: string;
+}
+
+// Geocoder for any Nominatim-compatible service (public instance or self-hosted)
+export const createNominatimGeocoder = (baseUrl: string): Geocoder => {
+  const client = axios.create({ baseURL: baseUrl.replace(/\/+$/, "") });
+
+  const toResult = (place: NominatimPlace) => ({
+    label: place.display_name,
+    lat: Number(place.lat),
+    lng: Number(place.lon),
+  });
+
+  return {
+    search: async (query: string) => {
+      const response = await client.get<NominatimPlace[]>("/search", {
+        params: { q: query, format: "json", limit: 5 },
+      });
+      return response.data.map(toResult);
+    },
+
+    reverse: async (lat: number, lng: number) => {
+      const response = await client.get<NominatimPlace | { error: string }>("/reverse", {
+        params: { lat, lon: lng, format: "json" },
+      });
+      return "display_name" in response.data ? toResult(response.data) : undefined;
+    },
+  };
+};
@@ -0,0 +1,14 @@
+export interface GeocodeResult {
+  label: string;
+  lat: number;
+  lng: number;
+}
+
+// Turns addresses into coordinates and back. Implementations can be
+// offline (the gazetteer) or backed by a geocoding service.
+export interface Geocoder {
+  // Best matches for a typed address, most relevant first
+  search: (query: string) => Promise<GeocodeResult[]>;
+  // A human-readable place for a coordinate, if one is known
+  reverse: (lat: number, lng: number) => Promise<GeocodeResult | undefined>;
+}
@@ -0,0 +1,113 @@
+import { describe, expect, it } from "vitest";
+import { Restroom } from "@/types";
+import { PathPoint } from "./geo";
+import { toGpx } from "./gpx";
+import { PlannedStop } from "./itinerary";
+
+const restroomAt = (name: string, lat: number, lng: number, address?: string): Restroom => ({
+  id: name,
+  name,
+  location: { lat, lng, address },
+  amenities: [],
+  cleanliness: { score: 88, lastUpdated: "2024-01-01T00:00:00Z", reports: 1 },
+  accessibility: false,
+  babyChanging: false,
+  genderNeutral: false,
+  reviews: [],
+});
+
+const stopAt = (restroom: Restroom, arriveAt: string): PlannedStop => ({
+  restroom,
+  distanceAlongRoute: 10,
+  detour: 0.2,
+  arriveAt: new Date(arriveAt),
+});
+
+const path: PathPoint[] = [
+  [11.0168, 76.9558],
+  [11.05, 77.1],
+  [11.1085, 77.3411],
+];
+
+const unescapeXml = (value: string) =>
+  value
+    .replace(/&lt;/g, "<")
+    .replace(/&gt;/g, ">")
+    .replace(/&quot;/g, '"')
+    .replace(/&apos;/g, "'")
+    .replace(/&amp;/g, "&");
+
+// Enough of a GPX reader to check what navigation apps would see
+const readGpx = (gpx: string) => {
+  const text = (element: string, tag: string) =>
+    unescapeXml(element.match(new RegExp(`<${tag}>([^<]*)</${tag}>`))?.[1] ?? "");
+  const position = (element: string) => {
+    const [, lat, lng] = element.match(/lat="([^"]+)" lon="([^"]+)"/) ?? [];
+    return [Number(lat), Number(lng)];
+  };
+
+  return {
+    name: text(gpx.match(/<metadata>.*<\/metadata>/)?.[0] ?? "", "name"),
+    waypoints: [...gpx.matchAll(/<wpt [\s\S]*?<\/wpt>/g)].map(([element]) => ({
+      position: position(element),
+      time: text(element, "time"),
+      name: text(element, "name"),
+      desc: text(element, "desc"),
+    })),
+    track: [...gpx.matchAll(/<trkpt [^>]*\/>/g)].map(([element]) => position(element)),
+  };
+};
+
+describe("toGpx", () => {
+  it("writes the stops as waypoints and the route as a track", () => {
+    const gpx = readGpx(
+      toGpx("Coimbatore to Tiruppur", path, [
+        stopAt(restroomAt("Avinashi Road Fuel", 11.05, 77.1, "Avinashi Road"), "2024-03-01T09:30:00Z"),
+        stopAt(restroomAt("Tiruppur Bus Stand", 11.1085, 77.3411), "2024-03-01T10:15:00Z"),
+      ])
+    );
+
+    expect(gpx.name).toBe("Coimbatore to Tiruppur");
+    expect(gpx.track).toEqual(path);
+    expect(gpx.waypoints).toEqual([
+      {
+        position: [11.05, 77.1],
+        time: "2024-03-01T09:30:00.000Z",
+        name: "Avinashi Road Fuel",
+        desc: "Cleanliness 88/100 · Avinashi Road",
+      },
+      {
+        position: [11.1085, 77.3411],
+        time: "2024-03-01T10:15:00.000Z",
+        name: "Tiruppur Bus Stand",
+        desc: "Cleanliness 88/100",
+      },
+    ]);
+  });
+
+  it.each([
+    ["an ampersand", "Tea & Toilets"],
+    ["angle brackets", "<script>alert(1)</script>"],
+    ["quotes", `Sri "Annapoorna" Mess`],
+    ["an apostrophe", "Raja's Bakery"],
+  ])("keeps a name with %s intact", (_, name) => {
+    const raw = toGpx(name, path, [stopAt(restroomAt(name, 11.05, 77.1), "2024-03-01T09:30:00Z")]);
+    const gpx = readGpx(raw);
+
+    expect(gpx.name).toBe(name);
+    expect(gpx.waypoints[0].name).toBe(name);
+    // Nothing unescaped gets into the markup
+    expect(raw).not.toMatch(/<script>|Tea & |"Annapoorna"|Raja's/);
+  });
+
+  it("writes coordinates with six decimals", () => {
+    const raw = toGpx("Trip", [[11.123456789, 76.9]], []);
+    expect(raw).toContain(`<trkpt lat="11.123457" lon="76.900000" />`);
+  });
+
+  it("writes a track without waypoints when there are no stops", () => {
+    const gpx = readGpx(toGpx("Trip", path, []));
+    expect(gpx.waypoints).toEqual([]);
+    expect(gpx.track).toHaveLength(path.length);
+  });
+});
@@ -0,0 +1,41 @@
+import { PathPoint } from "./geo";
+import { PlannedStop } from "./itinerary";
+
+const escapeXml = (value: string) =>
+  value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&apos;");
+
+const coordinate = (lat: number, lng: number) => `lat="${lat.toFixed(6)}" lon="${lng.toFixed(6)}"`;
+
+// GPX 1.1 with the planned stops as waypoints and the route as a track, so
+// navigation apps and GPS units show both
+export const toGpx = (name: string, path: PathPoint[], stops: PlannedStop[]) => {
+  const waypoints = stops.map(({ restroom, arriveAt }) => [
+    `  <wpt ${coordinate(restroom.location.lat, restroom.location.lng)}>`,
+    `    <time>${arriveAt.toISOString()}</time>`,
+    `    <name>${escapeXml(restroom.name)}</name>`,
+    `    <desc>${escapeXml(`Cleanliness ${restroom.cleanliness.score}/100${restroom.location.address ? ` · ${restroom.location.address}` : ""}`)}</desc>`,
+    `    <type>Restroom</type>`,
+    `  </wpt>`,
+  ].join("\n"));
+
+  const trackPoints = path.map(([lat, lng]) => `      <trkpt ${coordinate(lat, lng)} />`);
+
+  return [
+    `<?xml version="1.0" encoding="UTF-8"?>`,
+    `<gpx version="1.1" creator="RestStop" xmlns="http://www.topografix.com/GPX/1/1">`,
+    `  <metadata><name>${escapeXml(name)}</name></metadata>`,
+    ...waypoints,
+    `  <trk>`,
+    `    <name>${escapeXml(name)}</name>`,
+    `    <trkseg>`,
+    ...trackPoints,
+    `    </trkseg>`,
+    `  </trk>`,
+    `</gpx>`,
+  ].join("\n");
+};
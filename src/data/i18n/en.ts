@@ -0,0 +1,507 @@
+// English strings; the source catalog every other language is checked against.
+// Placeholders in braces are filled in by the translator.
+export const en = {
+  "header.searchPlaceholder": "Search for restrooms nearby...",
+  "header.searchPlaceholderShort": "Search restrooms...",
+  "header.search": "Search",
+  "header.offlineMaps": "Offline maps",
+  "header.offlineMapsOffline": "Offline maps (you're offline)",
+  "header.toggleTheme": "Toggle theme",
+  "header.language": "Language",
+
+  "index.title": "RestStop Coimbatore",
+  "index.map": "Map",
+  "index.list": "List",
+  "index.nearby": "Nearby",
+  "index.roadTrip": "Road trip",
+  "index.shownCount": "{shown} of {total} restrooms shown",
+  "index.radius": "Radius",
+  "index.sortBy": "Sort by",
+  "index.sortBest": "Best overall",
+  "index.sortNearest": "Nearest",
+  "index.sortCleanest": "Cleanest",
+  "index.hours": "Hours",
+  "index.hoursAny": "Any time",
+  "index.hoursNow": "Open now",
+  "index.hoursAt": "Open at…",
+  "index.openAtLabel": "Open at date and time",
+  "index.titleNearest": "Nearest restrooms",
+  "index.titleCleanest": "Cleanest restrooms",
+  "index.titleBestNearby": "Best nearby",
+  "index.titleTopRated": "Top rated restrooms",
+  "index.addNew": "Add New",
+  "index.empty": "No restrooms found matching your criteria",
+  "index.loadingRestroom": "Loading restroom...",
+  "index.restroomNotFound": "Restroom not found",
+  "index.tripNoRoute": "No route found between those places",
+  "index.tripFailed": "Could not plan the trip. Please try again.",
+  "index.directionsNeedLocation": "Location access required to see directions. Please enable location services.",
+  "index.noRoute": "Could not calculate route between locations",
+  "index.routeFailed": "Could not calculate route. Please try again.",
+  "index.locationFailed": "Couldn't access your location. Showing all restrooms instead.",
+  "index.noneInRadius": "No restrooms found within {radius}km of your location",
+  "index.inRadius": "Showing {count} restrooms within {radius}km of your location",
+  "index.centeredOnMap": "Centered map on restroom location.",
+
+  "restroom.accessible": "Accessible",
+  "restroom.babyChanging": "Baby Changing",
+  "restroom.genderNeutral": "Gender Neutral",
+
+  "moderation.pending": "Pending approval",
+  "moderation.pendingHint": "A moderator checks new submissions before they count towards ratings",
+
+  "card.addressUnavailable": "Address not available",
+  "card.updatedMinutesAgo": "Updated {count} minutes ago",
+  "card.updatedMinuteAgo": "Updated 1 minute ago",
+  "card.updatedHoursAgo": "Updated {count} hours ago",
+  "card.updatedHourAgo": "Updated 1 hour ago",
+  "card.partnerVenue": "Partnership Venue",
+  "card.recommended": "Recommended for you",
+  "card.viewDetails": "View Details",
+
+  "location.premiumPartner": "Premium Partner",
+  "location.standardPartner": "Standard Partner",
+
+  "business.gasStation": "Fuel station",
+  "business.cafe": "Cafe",
+  "business.restaurant": "Restaurant",
+  "business.hotel": "Hotel",
+  "business.bakery": "Bakery",
+  "business.public": "Public",
+  "business.other": "Other",
+
+  "status.open24": "Open 24 hours",
+  "status.closesIn": "Closes in {minutes} min",
+  "status.openUntil": "Open until {time}",
+  "status.closed": "Closed",
+  "status.opensIn": "Opens in {minutes} min",
+  "status.closedOpens": "Closed · opens {time}",
+  "status.holidayHours": "({holiday} hours)",
+
+  "detail.showOnMap": "Show on Map",
+  "detail.gettingThere": "Getting there",
+  "detail.reportCleanliness": "Report Cleanliness",
+  "detail.reportClean": "Clean",
+  "detail.reportNeedsAttention": "Needs attention",
+  "detail.reportDirty": "Dirty",
+  "detail.reportSubmitted": "Report Submitted",
+  "detail.reportQueued": "You're offline. Your report will be sent once you're back online.",
+  "detail.reportThanks": "Thank you for reporting the cleanliness status.",
+  "detail.reportFailed": "Could not submit your report. Please try again.",
+  "detail.noGeolocation": "Geolocation is not supported by your browser",
+  "detail.getDirections": "Get Directions",
+  "detail.calculating": "Calculating...",
+
+  "cleanliness.title": "Cleanliness",
+  "cleanliness.high": "Very Clean",
+  "cleanliness.medium": "Moderately Clean",
+  "cleanliness.low": "Needs Cleaning",
+  "cleanliness.updated": "Updated {date}",
+  "cleanliness.reports": "{count} cleanliness reports",
+
+  "amenities.title": "Amenities",
+  "amenities.basics": "Basics",
+  "amenities.hygiene": "Hygiene",
+  "amenities.comfort": "Comfort",
+
+  "reviews.title": "Reviews",
+  "reviews.add": "Add Review",
+  "reviews.empty": "No reviews yet",
+  "reviews.average": "{rating} · {count} reviews",
+  "reviews.averageOne": "{rating} · 1 review",
+  "reviews.sort": "Sort reviews",
+  "reviews.sortNewest": "Newest",
+  "reviews.sortHelpful": "Most helpful",
+  "reviews.sortLowestCleanliness": "Lowest cleanliness",
+  "reviews.sortWithPhotos": "With photos",
+  "reviews.helpful": "Helpful ({count})",
+  "reviews.votedHelpful": "You found this helpful",
+  "reviews.report": "Report",
+  "reviews.reported": "Reported",
+  "reviews.reportTitle": "Report this review",
+  "reviews.reportDescription": "Tell the moderators what is wrong with this review.",
+  "reviews.reasonSpam": "Spam or advertising",
+  "reviews.reasonOffensive": "Offensive or abusive",
+  "reviews.reasonIrrelevant": "Not about this restroom",
+  "reviews.reasonFake": "Fake, not a real visit",
+  "reviews.reasonOther": "Something else",
+  "reviews.reportSend": "Send report",
+  "reviews.reportSent": "Thanks, the moderators will take a look",
+  "reviews.sendFailed": "Could not send. Please try again.",
+
+  "reviewForm.description": "Share your experience at {name}. Upload images to help others. Images are resized and their location data is removed before they leave your device.",
+  "reviewForm.rating": "Overall Rating",
+  "reviewForm.cleanliness": "Cleanliness Rating",
+  "reviewForm.comment": "Your Comments",
+  "reviewForm.commentPlaceholder": "Share your experience...",
+  "reviewForm.images": "Upload Images (Optional)",
+  "reviewForm.imagesHint": "Click to upload images",
+  "reviewForm.preparing": "Preparing images...",
+  "reviewForm.selectedImage": "Selected image {index}",
+  "reviewForm.removeImage": "Remove image {index}",
+  "reviewForm.uploading": "Uploading...",
+  "reviewForm.submit": "Submit Review",
+  "reviewForm.tooManyImages": "Too Many Images",
+  "reviewForm.tooManyImagesDescription": "You can add up to {max} images to a review.",
+  "reviewForm.imageNotAdded": "Image Not Added",
+  "reviewForm.imageNotAddedDescription": "That file couldn't be read as an image. Please pick another one.",
+  "reviewForm.imageRequired": "Image Required",
+  "reviewForm.imageRequiredDescription": "Please upload at least one image with your review",
+  "reviewForm.submitted": "Review Submitted",
+  "reviewForm.submittedOffline": "You're offline. Your review will be posted once you're back online.",
+  "reviewForm.submittedHeld": "Thank you! Your review will appear once a moderator has checked it.",
+  "reviewForm.submittedPending": "Thank you! Your review and images will count towards the ratings once a moderator approves them.",
+  "reviewForm.submittedApproved": "Thank you! Your review has been posted.",
+  "reviewForm.notSubmitted": "Review Not Submitted",
+  "reviewForm.uploadFailed": "Your images couldn't be uploaded. Please try again.",
+  "reviewForm.storageFull": "There's no space left on this device for reviews and photos. Try fewer photos, or clear saved offline regions.",
+  "reviewForm.failed": "Something went wrong. Please try again.",
+  "reviewForm.reminder": "Review Reminder",
+  "reviewForm.reminderDescription": "How was your experience at {name}? Consider leaving another review!",
+
+  "reputation.new": "New reviewer",
+  "reputation.regular": "Regular reviewer",
+  "reputation.trusted": "Trusted reviewer",
+  "reputation.top": "Top reviewer",
+  "reputation.stats": "Reviews: {reviews} · Helpful votes: {helpful}",
+
+  "photos.title": "Photos ({count})",
+  "photos.alt": "Photo {index} of {name}",
+  "photos.counter": "{index} of {count}",
+  "photos.previous": "Previous photo",
+  "photos.next": "Next photo",
+
+  "common.cancel": "Cancel",
+
+  "travel.mode": "Travel mode",
+  "travel.walk": "Walk",
+  "travel.twoWheeler": "Two-wheeler",
+  "travel.car": "Car",
+  "travel.walkTime": "{minutes} min walk",
+  "travel.rideTime": "{minutes} min ride",
+  "travel.driveTime": "{minutes} min drive",
+  "travel.about": "about {time}",
+
+  "route.headNorth": "Head north",
+  "route.headNorthOn": "Head north on {road}",
+  "route.headNortheast": "Head northeast",
+  "route.headNortheastOn": "Head northeast on {road}",
+  "route.headEast": "Head east",
+  "route.headEastOn": "Head east on {road}",
+  "route.headSoutheast": "Head southeast",
+  "route.headSoutheastOn": "Head southeast on {road}",
+  "route.headSouth": "Head south",
+  "route.headSouthOn": "Head south on {road}",
+  "route.headSouthwest": "Head southwest",
+  "route.headSouthwestOn": "Head southwest on {road}",
+  "route.headWest": "Head west",
+  "route.headWestOn": "Head west on {road}",
+  "route.headNorthwest": "Head northwest",
+  "route.headNorthwestOn": "Head northwest on {road}",
+  "route.depart": "Start out",
+  "route.departOn": "Start out on {road}",
+  "route.turnSlightLeft": "Turn slightly left",
+  "route.turnSlightLeftOnto": "Turn slightly left onto {road}",
+  "route.turnLeft": "Turn left",
+  "route.turnLeftOnto": "Turn left onto {road}",
+  "route.turnSharpLeft": "Turn sharp left",
+  "route.turnSharpLeftOnto": "Turn sharp left onto {road}",
+  "route.turnSlightRight": "Turn slightly right",
+  "route.turnSlightRightOnto": "Turn slightly right onto {road}",
+  "route.turnRight": "Turn right",
+  "route.turnRightOnto": "Turn right onto {road}",
+  "route.turnSharpRight": "Turn sharp right",
+  "route.turnSharpRightOnto": "Turn sharp right onto {road}",
+  "route.continueStraight": "Continue straight",
+  "route.continueStraightOnto": "Continue straight onto {road}",
+  "route.continue": "Continue",
+  "route.continueOnto": "Continue onto {road}",
+  "route.keepLeft": "Keep left",
+  "route.keepLeftOnto": "Keep left onto {road}",
+  "route.keepRight": "Keep right",
+  "route.keepRightOnto": "Keep right onto {road}",
+  "route.keepStraight": "Keep straight",
+  "route.keepStraightOnto": "Keep straight onto {road}",
+  "route.mergeLeft": "Merge left",
+  "route.mergeLeftOnto": "Merge left onto {road}",
+  "route.mergeRight": "Merge right",
+  "route.mergeRightOnto": "Merge right onto {road}",
+  "route.merge": "Merge",
+  "route.mergeOnto": "Merge onto {road}",
+  "route.uturn": "Make a U-turn",
+  "route.uturnOnto": "Make a U-turn onto {road}",
+  "route.roundabout": "Go through the roundabout",
+  "route.roundaboutOnto": "Go through the roundabout onto {road}",
+  "route.roundaboutExit": "At the roundabout, take exit {exit}",
+  "route.roundaboutExitOnto": "At the roundabout, take exit {exit} onto {road}",
+  "route.arrive": "Arrive at the restroom",
+
+  "map.routeCalculated": "Route calculated successfully!",
+  "map.nextCleanStop": "Next clean stop in {distance}",
+  "map.yourLocation": "Your Location",
+  "map.reports": "({count} reports)",
+  "map.cluster": "{count} restrooms: {high} very clean, {medium} moderate, {low} need cleaning",
+
+  "directions.title": "Directions to {name}",
+  "directions.remaining": "{distance} · {time} left",
+  "directions.end": "End directions",
+  "directions.needLocation": "Location access is needed for live directions. Please enable location services.",
+  "directions.noRoute": "No route found to this restroom.",
+  "directions.failed": "Could not calculate route. Retrying when you move.",
+  "directions.rerouting": "Re-routing...",
+  "directions.finding": "Finding the best route...",
+  "directions.arrived": "You have arrived at {name}.",
+  "directions.inDistance": "In {distance}",
+
+  "trip.placeNotFound": "Couldn't find \"{query}\". Try a town or locality name.",
+  "trip.yourLocation": "Your location",
+  "trip.lookupFailed": "Could not look up those places. Please try again.",
+  "trip.fromCurrent": "From: your location",
+  "trip.fromPlaceholder": "From (e.g. Coimbatore)",
+  "trip.from": "Trip origin",
+  "trip.toPlaceholder": "To (e.g. Ooty)",
+  "trip.to": "Trip destination",
+  "trip.corridor": "Distance from route",
+  "trip.corridorPlaceholder": "Corridor",
+  "trip.within": "Within {distance}",
+  "trip.plan": "Plan trip",
+  "trip.clear": "Clear trip",
+  "trip.finding": "Finding the route...",
+  "trip.summary": "{distance} · {time} · {count} restrooms on the way",
+  "trip.summaryOne": "{distance} · {time} · 1 restroom on the way",
+  "trip.nextCleanStop": "Next clean stop in {distance}: {name}",
+  "trip.at": "At {distance}",
+  "trip.offRoute": "{distance} off route",
+
+  "itinerary.title": "Plan rest stops",
+  "itinerary.every30Minutes": "Every 30 min",
+  "itinerary.every45Minutes": "Every 45 min",
+  "itinerary.everyHour": "Every hour",
+  "itinerary.every90Minutes": "Every 1.5 hours",
+  "itinerary.every25Km": "Every 25 km",
+  "itinerary.every50Km": "Every 50 km",
+  "itinerary.every100Km": "Every 100 km",
+  "itinerary.interval": "Break interval",
+  "itinerary.departure": "Departure time",
+  "itinerary.minCleanliness": "Minimum cleanliness",
+  "itinerary.update": "Update stops",
+  "itinerary.suggest": "Suggest stops",
+  "itinerary.noBreak": "The trip is short enough to need no break.",
+  "itinerary.at": "at {distance}",
+  "itinerary.gap": "No restroom matching your preferences between {from} and {to}.",
+  "itinerary.share": "Share link",
+  "itinerary.tripName": "{from} to {to}",
+  "itinerary.linkCopied": "Trip link copied to clipboard",
+  "itinerary.shareFailed": "Could not share the trip link",
+
+  "offline.description": "Save a region before you leave so the map and its restrooms work without signal.",
+  "offline.noTileServer": "Saving new regions needs a map server that allows downloads, and none is set up.",
+  "offline.youreOffline": "You're offline. Saved regions are being used.",
+  "offline.saved": "{name} is available offline",
+  "offline.savedDetails": "{restrooms} restrooms and {tiles} map tiles saved.",
+  "offline.saveFailed": "Could not save {name}",
+  "offline.saveFailedHint": "Check your connection and try again. Finished tiles are kept.",
+  "offline.removeFailed": "Could not remove {name}",
+  "offline.remove": "Remove {name}",
+  "offline.save": "Save",
+  "offline.regionSaved": "{count} restrooms · saved {time}",
+  "offline.size": "About {size} MB",
+  "offline.notSaved": "Not saved",
+  "offline.queuedOne": "1 review or report is waiting to be sent.",
+  "offline.queued": "{count} reviews and reports are waiting to be sent.",
+
+  "form.title": "Add New Restroom",
+  "form.name": "Restroom Name *",
+  "form.namePlaceholder": "e.g. Coffee Corner Restroom",
+  "form.description": "Description",
+  "form.descriptionPlaceholder": "Provide a brief description of the restroom",
+  "form.address": "Address *",
+  "form.addressPlaceholder": "e.g. 123 RS Puram Main Road",
+  "form.locate": "Locate",
+  "form.locating": "Locating...",
+  "form.location": "Location on map *",
+  "form.pinNear": "Pin is near {place}",
+  "form.pinHint": "Drag the pin or click the map to mark the entrance.",
+  "form.useMyPosition": "Use my position",
+  "form.locationFailed": "Couldn't access your location. Drag the pin instead.",
+  "form.type": "Type",
+  "form.typePlaceholder": "Select type",
+  "form.typePublic": "Public",
+  "form.typeCafe": "Cafe",
+  "form.typeRestaurant": "Restaurant",
+  "form.typeBakery": "Bakery",
+  "form.typeHotel": "Hotel",
+  "form.typeGasStation": "Gas Station",
+  "form.typeOther": "Other",
+  "form.babyChanging": "Baby Changing Station",
+  "form.openingHours": "Opening Hours",
+  "form.open24": "Open 24 hours, every day",
+  "form.openingTime": "{day} opening time",
+  "form.closingTime": "{day} closing time",
+  "form.cleanliness": "Cleanliness Rating",
+  "form.cleanlinessHint": "How clean was it when you visited?",
+  "form.submit": "Add Restroom",
+  "form.submitting": "Adding...",
+  "form.locationFound": "Location found",
+  "form.pinMoved": "Pin moved to {place}. Drag it to the exact spot.",
+  "form.addressNotFound": "Address not found",
+  "form.placePinManually": "Place the pin on the map manually.",
+  "form.added": "Restroom Added",
+  "form.addedPending": "Thanks! It's marked as pending until a moderator approves it.",
+  "form.addedApproved": "Thanks! It's on the map now.",
+  "form.error": "Error",
+  "form.storageFull": "There's no space left on this device to save the restroom. Clear saved offline regions and try again.",
+  "form.saveFailed": "Could not save the restroom. Please try again.",
+  "form.timeFormat": "Enter a time as HH:MM",
+  "form.timesMustDiffer": "Opening and closing times must differ",
+  "form.nameRequired": "Please provide a name for the restroom",
+  "form.descriptionTooLong": "Keep the description under 500 characters",
+  "form.addressRequired": "Please provide an address for the restroom",
+  "form.amenitiesRequired": "Select at least one amenity",
+
+  "weekday.mon": "Mon",
+  "weekday.tue": "Tue",
+  "weekday.wed": "Wed",
+  "weekday.thu": "Thu",
+  "weekday.fri": "Fri",
+  "weekday.sat": "Sat",
+  "weekday.sun": "Sun",
+
+  "admin.title": "Moderation",
+  "admin.moderatorName": "Moderator name",
+  "admin.moderatorHint": "Shown next to your decisions in the audit log",
+  "admin.queue": "Queue ({count})",
+  "admin.auditLog": "Audit log",
+  "admin.all": "All",
+  "admin.loadFailed": "Could not load the moderation queue.",
+  "admin.empty": "Nothing to moderate",
+  "admin.emptyHint": "New reviews, photos and restrooms will appear here",
+  "admin.approved": "{kind} approved",
+  "admin.rejected": "{kind} rejected",
+  "admin.saveFailed": "Could not save the decision",
+  "admin.kindReview": "Review",
+  "admin.kindPhoto": "Photo",
+  "admin.kindRestroom": "New restroom",
+  "admin.flagProfanity": "Profanity",
+  "admin.flagLink": "Link",
+  "admin.flagPhone": "Phone number",
+  "admin.flagDuplicate": "Copy of another review",
+  "admin.flagTooFast": "Posted faster than a visit",
+  "admin.flagRatingBomb": "Burst of low ratings",
+  "admin.flagSpam": "Reads like spam",
+  "admin.actionApproved": "Approved",
+  "admin.actionRejected": "Rejected",
+  "admin.actionEdited": "Edited",
+  "admin.fieldComment": "Comment",
+  "admin.fieldName": "Name",
+  "admin.fieldDescription": "Description",
+  "admin.fieldAddress": "Address",
+  "admin.emptyValue": "(empty)",
+  "admin.logEmpty": "No moderation actions yet",
+  "admin.logEmptyHint": "Approvals, rejections and edits are recorded here",
+  "admin.reason": "Reason: {reason}",
+  "admin.reasonLabel": "Reason",
+  "admin.approveTitle": "Approve submission",
+  "admin.rejectTitle": "Reject submission",
+  "admin.editTitle": "Edit and approve",
+  "admin.reasonRequiredHint": "The reason is kept in the audit log together with your decision.",
+  "admin.reasonOptionalHint": "Optionally note why; the decision is kept in the audit log.",
+  "admin.rejectPlaceholder": "e.g. Abusive language, photo not of this restroom",
+  "admin.editPlaceholder": "e.g. Removed a phone number",
+  "admin.saving": "Saving...",
+  "admin.held": "Held",
+  "admin.cleanlinessOutOf5": "{score}/5 cleanliness",
+  "admin.noComment": "No comment",
+  "admin.noAddress": "No address",
+  "admin.risk": "Risk {percent}%",
+  "admin.reports": "Reported as {reasons}",
+  "admin.approve": "Approve",
+  "admin.edit": "Edit",
+  "admin.reject": "Reject",
+
+  "recommendations.title": "Get Personalized Recommendations",
+  "recommendations.accessible": "Must be accessible",
+  "recommendations.babyChanging": "Must have baby changing station",
+  "recommendations.genderNeutral": "Must be gender neutral",
+  "recommendations.preferFuelStations": "Prefer fuel stations",
+  "recommendations.minCleanliness": "Minimum Cleanliness Score: {score}",
+  "recommendations.get": "Get Recommendations",
+  "recommendations.results": "Recommended Restrooms",
+  "recommendations.empty": "No restrooms match your preferences. Try adjusting your filters.",
+
+  "partnerships.title": "Partner Locations",
+
+  "chat.title": "RestStop Assistant - Coimbatore District",
+  "chat.welcome": "Hello! I'm your RestStop assistant for Coimbatore district. I can help you find restrooms across the entire district, including areas like Vadavalli, Saibaba Colony, Ganapathy and many more locations. How can I help you today?",
+  "chat.placeholder": "Type your message...",
+  "chat.listening": "Listening...",
+  "chat.listeningToast": "Listening... Speak now.",
+  "chat.showOnMap": "Navigate to Map",
+  "chat.locationDenied": "Location access denied. Some features may be limited.",
+  "chat.voiceError": "Voice recognition error. Please try again.",
+  "chat.voiceUnsupported": "Speech recognition is not supported in your browser.",
+  "chat.voiceStartFailed": "Could not start speech recognition. Please try again.",
+  "chat.reportFailed": "Could not report {name}. Please try again.",
+  "chat.thinking": "Thinking...",
+  "chat.replyFailed": "Could not answer that. Please try again.",
+  "chat.speakReplies": "Read replies aloud",
+  "chat.muteReplies": "Stop reading replies aloud",
+  "chat.handsFree": "Hands-free mode",
+  "chat.handsFreeOn": "Hands-free mode on. Say \"Hey RestStop\" and your question, or hold the mic button while you talk.",
+  "chat.handsFreeOff": "Hands-free mode off.",
+  "chat.handsFreeHint": "Say \"Hey RestStop\"...",
+  "chat.micBlocked": "Microphone access is blocked. Allow it in your browser settings to talk to the assistant.",
+
+  "assistant.help": "You can ask me to find restrooms anywhere in Coimbatore district, including specific areas like Vadavalli, Saibaba Colony, or Ganapathy. I can filter by cleanliness, accessibility, baby changing, gender-neutral options, fuel stations and amenities like drinking water, check which ones are open at a given time, give directions, and report a dirty restroom. What would you like to know?",
+  "assistant.fallback": "I'm here to help you find and locate restrooms across the entire Coimbatore district. You can ask about specific areas like Vadavalli, Saibaba Colony, or Ganapathy, or ask about nearby restrooms, clean facilities, accessible options, baby changing stations, or gender-neutral bathrooms. How can I assist you today?",
+  "assistant.needLocation": "I'd like to find restrooms near you in Coimbatore district, but I need permission to access your location. Please enable location services and try again, or tell me an area.",
+  "assistant.found": "I found {count} {what}{when} {where}. The {ranking} is {name} ({score}/100, {rating}{distance}{hours}).",
+  "assistant.notFound": "I couldn't find any {what}{when} {where}. {suggestion}",
+  "assistant.suggestTime": "Try a different time, or tell me an area.",
+  "assistant.suggestRadius": "Would you like me to expand the search radius?",
+  "assistant.restroom": "restroom",
+  "assistant.restrooms": "restrooms",
+  "assistant.scopeArea": "in {area}",
+  "assistant.scopeNearby": "near you",
+  "assistant.scopeDistrict": "in Coimbatore district",
+  "assistant.openNow": " open right now",
+  "assistant.openAt": " open at {time}",
+  "assistant.rankingCleanest": "cleanest",
+  "assistant.rankingClosest": "closest",
+  "assistant.ratingHigh": "highly rated",
+  "assistant.ratingMedium": "moderately rated",
+  "assistant.ratingLow": "lower rated",
+  "assistant.away": ", {distance} away",
+  "assistant.openUntil": ", open until {time}",
+  "assistant.open24": ", open 24 hours",
+  "assistant.spokenNearest": "Nearest {what} is {name}, {distance} away{hours}.",
+  "assistant.spokenClosest": "Closest {what} {where} is {name}{hours}.",
+  "assistant.spokenCleanest": "Cleanest {what} {where} is {name}{hours}.",
+  "assistant.directionsAsk": "Which restroom should I take you to? Tell me its name or an area, or enable location services so I can pick the nearest one.",
+  "assistant.directions": "Here's {name}{address}.{distance} Open it on the map and tap Get Directions for turn-by-turn guidance.",
+  "assistant.onAddress": " on {address}",
+  "assistant.distanceAway": " It's {distance} away.",
+  "assistant.reportAsk": "Which restroom is it? Tell me its name, or open it on the map and tap Report Cleanliness.",
+  "assistant.reporting": "Thanks for letting others know. I'm reporting {name} as {status}.",
+  "assistant.statusDirty": "dirty",
+  "assistant.statusNeedsAttention": "needing attention",
+  "assistant.location": "You're currently located at approximately latitude {lat} and longitude {lng}. This appears to be in the Coimbatore district area. I can help find restrooms near this location.",
+  "assistant.locationUnknown": "I don't currently have access to your location. Please enable location services so I can provide better assistance in finding restrooms in Coimbatore district.",
+  "assistant.areas": "I have information about restrooms in areas across Coimbatore district including {areas} and {more} more. Which area are you interested in?",
+  "assistant.selectNothing": "Which restroom do you mean? Ask me to find some first, then pick one by number.",
+  "assistant.selectOutOfRange": "I only found {count} {noun} last time. Which one do you mean?",
+  "assistant.describe": "{name}{address} scores {score}/100 ({rating}){hours}.{features} Ask me \"is it open?\" or \"take me there\".",
+  "assistant.describeFeatures": " It's {features}.",
+  "assistant.hoursUnknown": "I don't have opening hours for {name}.",
+  "assistant.isOpenUntil": "Yes, {name} is open{when}, until {time}.",
+  "assistant.isOpen24": "Yes, {name} is open 24 hours.",
+  "assistant.isClosedOpens": "No, {name} is closed{when}{holiday}. It opens {time}.",
+  "assistant.isClosed": "No, {name} is closed{when}{holiday}.",
+  "assistant.atTime": " at {time}",
+  "assistant.forHoliday": " for {holiday}",
+  "assistant.hasFeatures": "Yes, {name} is listed as {features}.",
+  "assistant.lacksFeatures": "No, {name} isn't listed as {features}.",
+  "assistant.someFeatures": "{name} is listed as {has}, but not {lacks}.",
+};
+
+export type MessageKey = keyof typeof en;
@@ -0,0 +1,55 @@
+import { MessageKey, en } from "./en";
+import { ta, taLabels } from "./ta";
+
+export type { MessageKey } from "./en";
+
+export type Language = "en" | "ta";
+
+export interface LanguageOption {
+  code: Language;
+  // Shown in the language switcher, in the language itself
+  label: string;
+  // BCP 47 tag for dates, speech recognition and speech synthesis
+  locale: string;
+}
+
+export const languages: LanguageOption[] = [
+  { code: "en", label: "English", locale: "en-US" },
+  { code: "ta", label: "தமிழ்", locale: "ta-IN" },
+];
+
+export const DEFAULT_LANGUAGE: Language = "en";
+
+export const getLanguageOption = (language: Language) =>
+  languages.find(option => option.code === language) ?? languages[0];
+
+const catalogs: Record<Language, Record<MessageKey, string>> = { en, ta };
+const labelCatalogs: Record<Language, Record<string, string>> = { en: {}, ta: taLabels };
+
+export type TranslationParams = Record<string, string | number>;
+export type Translator = (key: MessageKey, params?: TranslationParams) => string;
+
+// "{count} restrooms" with { count: 3 } -> "3 restrooms"; unknown
+// placeholders are left as they are so a missing value is easy to spot
+const interpolate = (template: string, params?: TranslationParams) =>
+  params
+    ? template.replace(/\{(\w+)\}/g, (placeholder, name) => (name in params ? String(params[name]) : placeholder))
+    : template;
+
+export const createTranslator = (language: Language = DEFAULT_LANGUAGE): Translator => {
+  const catalog = catalogs[language] ?? en;
+  return (key, params) => interpolate(catalog[key] ?? en[key] ?? key, params);
+};
+
+// Name of a feature or amenity id, falling back to the English label
+export const translateLabel = (language: Language = DEFAULT_LANGUAGE, id: string, fallback: string) =>
+  labelCatalogs[language]?.[id] ?? fallback;
+
+// The first supported language the browser asks for
+export const detectLanguage = (): Language => {
+  const preferred = typeof navigator === "undefined" ? [] : navigator.languages ?? [navigator.language];
+  const match = preferred
+    .map(tag => tag.toLowerCase().split("-")[0])
+    .find((code): code is Language => languages.some(option => option.code === code));
+  return match ?? DEFAULT_LANGUAGE;
+};
@@ -0,0 +1,533 @@
+import { MessageKey } from "./en";
+
+export const ta: Record<MessageKey, string> = {
+  "header.searchPlaceholder": "அருகிலுள்ள கழிவறைகளைத் தேடுங்கள்...",
+  "header.searchPlaceholderShort": "கழிவறைகளைத் தேடுங்கள்...",
+  "header.search": "தேடு",
+  "header.offlineMaps": "ஆஃப்லைன் வரைபடங்கள்",
+  "header.offlineMapsOffline": "ஆஃப்லைன் வரைபடங்கள் (நீங்கள் ஆஃப்லைனில் உள்ளீர்கள்)",
+  "header.toggleTheme": "தீம் மாற்று",
+  "header.language": "மொழி",
+
+  "index.title": "ரெஸ்ட்ஸ்டாப் கோவை",
+  "index.map": "வரைபடம்",
+  "index.list": "பட்டியல்",
+  "index.nearby": "அருகில்",
+  "index.roadTrip": "சாலைப் பயணம்",
+  "index.shownCount": "{total} கழிவறைகளில் {shown} காட்டப்படுகின்றன",
+  "index.radius": "சுற்றளவு",
+  "index.sortBy": "வரிசைப்படுத்து",
+  "index.sortBest": "சிறந்தவை",
+  "index.sortNearest": "அருகிலுள்ளவை",
+  "index.sortCleanest": "சுத்தமானவை",
+  "index.hours": "நேரம்",
+  "index.hoursAny": "எந்த நேரமும்",
+  "index.hoursNow": "இப்போது திறந்திருப்பவை",
+  "index.hoursAt": "இந்த நேரத்தில் திறந்திருப்பவை…",
+  "index.openAtLabel": "திறந்திருக்க வேண்டிய தேதி மற்றும் நேரம்",
+  "index.titleNearest": "அருகிலுள்ள கழிவறைகள்",
+  "index.titleCleanest": "மிகச் சுத்தமான கழிவறைகள்",
+  "index.titleBestNearby": "அருகிலுள்ள சிறந்தவை",
+  "index.titleTopRated": "அதிக மதிப்பீடு பெற்ற கழிவறைகள்",
+  "index.addNew": "புதியது சேர்",
+  "index.empty": "உங்கள் தேர்வுக்கு பொருந்தும் கழிவறைகள் இல்லை",
+  "index.loadingRestroom": "கழிவறை ஏற்றப்படுகிறது...",
+  "index.restroomNotFound": "கழிவறை கிடைக்கவில்லை",
+  "index.tripNoRoute": "அந்த இடங்களுக்கு இடையே வழி கிடைக்கவில்லை",
+  "index.tripFailed": "பயணத்தைத் திட்டமிட முடியவில்லை. மீண்டும் முயலவும்.",
+  "index.directionsNeedLocation": "வழிகாட்டலைப் பார்க்க இருப்பிட அனுமதி தேவை. இருப்பிடச் சேவைகளை இயக்கவும்.",
+  "index.noRoute": "இடங்களுக்கு இடையே வழியைக் கணக்கிட முடியவில்லை",
+  "index.routeFailed": "வழியைக் கணக்கிட முடியவில்லை. மீண்டும் முயலவும்.",
+  "index.locationFailed": "உங்கள் இருப்பிடத்தை அணுக முடியவில்லை. அனைத்து கழிவறைகளும் காட்டப்படுகின்றன.",
+  "index.noneInRadius": "உங்கள் இருப்பிடத்திலிருந்து {radius} கி.மீ.க்குள் கழிவறைகள் இல்லை",
+  "index.inRadius": "உங்கள் இருப்பிடத்திலிருந்து {radius} கி.மீ.க்குள் {count} கழிவறைகள் காட்டப்படுகின்றன",
+  "index.centeredOnMap": "வரைபடம் கழிவறையின் இருப்பிடத்தில் மையப்படுத்தப்பட்டது.",
+
+  "restroom.accessible": "சக்கர நாற்காலி வசதி",
+  "restroom.babyChanging": "குழந்தை பராமரிப்பு",
+  "restroom.genderNeutral": "அனைத்து பாலினத்தவருக்கும்",
+
+  "moderation.pending": "ஒப்புதலுக்காக காத்திருக்கிறது",
+  "moderation.pendingHint": "புதிய பதிவுகள் மதிப்பீடுகளில் சேரும் முன் ஒரு மதிப்பாய்வாளர் சரிபார்க்கிறார்",
+
+  "card.addressUnavailable": "முகவரி இல்லை",
+  "card.updatedMinutesAgo": "{count} நிமிடங்களுக்கு முன் புதுப்பிக்கப்பட்டது",
+  "card.updatedMinuteAgo": "1 நிமிடத்திற்கு முன் புதுப்பிக்கப்பட்டது",
+  "card.updatedHoursAgo": "{count} மணி நேரத்திற்கு முன் புதுப்பிக்கப்பட்டது",
+  "card.updatedHourAgo": "1 மணி நேரத்திற்கு முன் புதுப்பிக்கப்பட்டது",
+  "card.partnerVenue": "கூட்டாளர் இடம்",
+  "card.recommended": "உங்களுக்குப் பரிந்துரைக்கப்பட்டது",
+  "card.viewDetails": "விவரங்கள்",
+
+  "location.premiumPartner": "பிரீமியம் கூட்டாளர்",
+  "location.standardPartner": "நிலையான கூட்டாளர்",
+
+  "business.gasStation": "எரிபொருள் நிலையம்",
+  "business.cafe": "கஃபே",
+  "business.restaurant": "உணவகம்",
+  "business.hotel": "விடுதி",
+  "business.bakery": "பேக்கரி",
+  "business.public": "பொது",
+  "business.other": "மற்றவை",
+
+  "status.open24": "24 மணி நேரமும் திறந்திருக்கும்",
+  "status.closesIn": "{minutes} நிமிடத்தில் மூடப்படும்",
+  "status.openUntil": "{time} வரை திறந்திருக்கும்",
+  "status.closed": "மூடப்பட்டுள்ளது",
+  "status.opensIn": "{minutes} நிமிடத்தில் திறக்கும்",
+  "status.closedOpens": "மூடப்பட்டுள்ளது · {time} திறக்கும்",
+  "status.holidayHours": "({holiday} நேரம்)",
+
+  "detail.showOnMap": "வரைபடத்தில் காட்டு",
+  "detail.gettingThere": "அங்கு செல்ல",
+  "detail.reportCleanliness": "சுத்தம் பற்றி தெரிவி",
+  "detail.reportClean": "சுத்தமாக உள்ளது",
+  "detail.reportNeedsAttention": "கவனம் தேவை",
+  "detail.reportDirty": "அழுக்காக உள்ளது",
+  "detail.reportSubmitted": "தெரிவிக்கப்பட்டது",
+  "detail.reportQueued": "நீங்கள் ஆஃப்லைனில் உள்ளீர்கள். இணைப்பு கிடைத்ததும் உங்கள் புகார் அனுப்பப்படும்.",
+  "detail.reportThanks": "சுத்தம் பற்றி தெரிவித்ததற்கு நன்றி.",
+  "detail.reportFailed": "உங்கள் புகாரை அனுப்ப முடியவில்லை. மீண்டும் முயற்சிக்கவும்.",
+  "detail.noGeolocation": "உங்கள் உலாவி இருப்பிடத்தை ஆதரிக்கவில்லை",
+  "detail.getDirections": "வழி காட்டு",
+  "detail.calculating": "கணக்கிடப்படுகிறது...",
+
+  "cleanliness.title": "சுத்தம்",
+  "cleanliness.high": "மிகச் சுத்தம்",
+  "cleanliness.medium": "ஓரளவு சுத்தம்",
+  "cleanliness.low": "சுத்தம் செய்ய வேண்டும்",
+  "cleanliness.updated": "{date} அன்று புதுப்பிக்கப்பட்டது",
+  "cleanliness.reports": "{count} சுத்த அறிக்கைகள்",
+
+  "amenities.title": "வசதிகள்",
+  "amenities.basics": "அடிப்படை",
+  "amenities.hygiene": "சுகாதாரம்",
+  "amenities.comfort": "வசதிகள்",
+
+  "reviews.title": "மதிப்புரைகள்",
+  "reviews.add": "மதிப்புரை எழுது",
+  "reviews.empty": "இன்னும் மதிப்புரைகள் இல்லை",
+  "reviews.average": "{rating} · {count} மதிப்புரைகள்",
+  "reviews.averageOne": "{rating} · 1 மதிப்புரை",
+  "reviews.sort": "மதிப்புரைகளை வரிசைப்படுத்து",
+  "reviews.sortNewest": "புதியவை",
+  "reviews.sortHelpful": "அதிகம் பயனுள்ளவை",
+  "reviews.sortLowestCleanliness": "குறைந்த சுத்தம்",
+  "reviews.sortWithPhotos": "புகைப்படங்களுடன்",
+  "reviews.helpful": "பயனுள்ளது ({count})",
+  "reviews.votedHelpful": "இது பயனுள்ளது எனக் குறித்தீர்கள்",
+  "reviews.report": "புகார்",
+  "reviews.reported": "புகார் அளிக்கப்பட்டது",
+  "reviews.reportTitle": "இந்த மதிப்புரை பற்றி புகார் செய்",
+  "reviews.reportDescription": "இந்த மதிப்புரையில் என்ன தவறு என்று மதிப்பாய்வாளர்களுக்குத் தெரிவிக்கவும்.",
+  "reviews.reasonSpam": "ஸ்பேம் அல்லது விளம்பரம்",
+  "reviews.reasonOffensive": "அவமதிப்பான அல்லது தவறான மொழி",
+  "reviews.reasonIrrelevant": "இந்த கழிவறை பற்றியது அல்ல",
+  "reviews.reasonFake": "போலியானது, உண்மையான வருகை அல்ல",
+  "reviews.reasonOther": "வேறு காரணம்",
+  "reviews.reportSend": "புகாரை அனுப்பு",
+  "reviews.reportSent": "நன்றி, மதிப்பாய்வாளர்கள் பார்ப்பார்கள்",
+  "reviews.sendFailed": "அனுப்ப முடியவில்லை. மீண்டும் முயற்சிக்கவும்.",
+
+  "reviewForm.description": "{name} இல் உங்கள் அனுபவத்தைப் பகிருங்கள். மற்றவர்களுக்கு உதவ படங்களைப் பதிவேற்றுங்கள். படங்கள் உங்கள் சாதனத்தை விட்டு வெளியேறும் முன் அளவு குறைக்கப்பட்டு அவற்றின் இருப்பிடத் தரவு நீக்கப்படும்.",
+  "reviewForm.rating": "ஒட்டுமொத்த மதிப்பீடு",
+  "reviewForm.cleanliness": "சுத்த மதிப்பீடு",
+  "reviewForm.comment": "உங்கள் கருத்துகள்",
+  "reviewForm.commentPlaceholder": "உங்கள் அனுபவத்தைப் பகிருங்கள்...",
+  "reviewForm.images": "படங்களைப் பதிவேற்று (விருப்பத்தேர்வு)",
+  "reviewForm.imagesHint": "படங்களைப் பதிவேற்ற கிளிக் செய்யவும்",
+  "reviewForm.preparing": "படங்கள் தயாராகின்றன...",
+  "reviewForm.selectedImage": "தேர்ந்தெடுத்த படம் {index}",
+  "reviewForm.removeImage": "படம் {index} ஐ நீக்கு",
+  "reviewForm.uploading": "பதிவேற்றுகிறது...",
+  "reviewForm.submit": "மதிப்புரையைச் சமர்ப்பி",
+  "reviewForm.tooManyImages": "அதிகமான படங்கள்",
+  "reviewForm.tooManyImagesDescription": "ஒரு மதிப்புரையில் அதிகபட்சம் {max} படங்களைச் சேர்க்கலாம்.",
+  "reviewForm.imageNotAdded": "படம் சேர்க்கப்படவில்லை",
+  "reviewForm.imageNotAddedDescription": "அந்தக் கோப்பைப் படமாகப் படிக்க முடியவில்லை. வேறொன்றைத் தேர்ந்தெடுக்கவும்.",
+  "reviewForm.imageRequired": "படம் தேவை",
+  "reviewForm.imageRequiredDescription": "உங்கள் மதிப்புரையுடன் குறைந்தது ஒரு படத்தையாவது பதிவேற்றவும்",
+  "reviewForm.submitted": "மதிப்புரை சமர்ப்பிக்கப்பட்டது",
+  "reviewForm.submittedOffline": "நீங்கள் ஆஃப்லைனில் இருக்கிறீர்கள். மீண்டும் இணைந்ததும் உங்கள் மதிப்புரை வெளியிடப்படும்.",
+  "reviewForm.submittedHeld": "நன்றி! ஒரு மதிப்பாய்வாளர் சரிபார்த்த பின் உங்கள் மதிப்புரை தோன்றும்.",
+  "reviewForm.submittedPending": "நன்றி! ஒரு மதிப்பாய்வாளர் ஒப்புதல் அளித்ததும் உங்கள் மதிப்புரையும் படங்களும் மதிப்பீடுகளில் சேரும்.",
+  "reviewForm.submittedApproved": "நன்றி! உங்கள் மதிப்புரை வெளியிடப்பட்டது.",
+  "reviewForm.notSubmitted": "மதிப்புரை சமர்ப்பிக்கப்படவில்லை",
+  "reviewForm.uploadFailed": "உங்கள் படங்களைப் பதிவேற்ற முடியவில்லை. மீண்டும் முயற்சிக்கவும்.",
+  "reviewForm.storageFull": "மதிப்புரைகளுக்கும் புகைப்படங்களுக்கும் இந்தச் சாதனத்தில் இடம் இல்லை. குறைவான புகைப்படங்களை முயற்சிக்கவும், அல்லது சேமித்த ஆஃப்லைன் பகுதிகளை அழிக்கவும்.",
+  "reviewForm.failed": "ஏதோ தவறு நடந்தது. மீண்டும் முயற்சிக்கவும்.",
+  "reviewForm.reminder": "மதிப்புரை நினைவூட்டல்",
+  "reviewForm.reminderDescription": "{name} இல் உங்கள் அனுபவம் எப்படி இருந்தது? இன்னொரு மதிப்புரை எழுதலாமே!",
+
+  "reputation.new": "புதிய மதிப்புரையாளர்",
+  "reputation.regular": "வழக்கமான மதிப்புரையாளர்",
+  "reputation.trusted": "நம்பகமான மதிப்புரையாளர்",
+  "reputation.top": "சிறந்த மதிப்புரையாளர்",
+  "reputation.stats": "மதிப்புரைகள்: {reviews} · பயனுள்ள வாக்குகள்: {helpful}",
+
+  "photos.title": "புகைப்படங்கள் ({count})",
+  "photos.alt": "{name} - புகைப்படம் {index}",
+  "photos.counter": "{count} இல் {index}",
+  "photos.previous": "முந்தைய புகைப்படம்",
+  "photos.next": "அடுத்த புகைப்படம்",
+
+  "common.cancel": "ரத்து செய்",
+
+  "travel.mode": "பயண முறை",
+  "travel.walk": "நடை",
+  "travel.twoWheeler": "இருசக்கர வாகனம்",
+  "travel.car": "கார்",
+  "travel.walkTime": "{minutes} நிமிட நடை",
+  "travel.rideTime": "இருசக்கர வாகனத்தில் {minutes} நிமிடம்",
+  "travel.driveTime": "காரில் {minutes} நிமிடம்",
+  "travel.about": "சுமார் {time}",
+
+  "route.headNorth": "வடக்கே செல்லுங்கள்",
+  "route.headNorthOn": "{road} வழியாக வடக்கே செல்லுங்கள்",
+  "route.headNortheast": "வடகிழக்கே செல்லுங்கள்",
+  "route.headNortheastOn": "{road} வழியாக வடகிழக்கே செல்லுங்கள்",
+  "route.headEast": "கிழக்கே செல்லுங்கள்",
+  "route.headEastOn": "{road} வழியாக கிழக்கே செல்லுங்கள்",
+  "route.headSoutheast": "தென்கிழக்கே செல்லுங்கள்",
+  "route.headSoutheastOn": "{road} வழியாக தென்கிழக்கே செல்லுங்கள்",
+  "route.headSouth": "தெற்கே செல்லுங்கள்",
+  "route.headSouthOn": "{road} வழியாக தெற்கே செல்லுங்கள்",
+  "route.headSouthwest": "தென்மேற்கே செல்லுங்கள்",
+  "route.headSouthwestOn": "{road} வழியாக தென்மேற்கே செல்லுங்கள்",
+  "route.headWest": "மேற்கே செல்லுங்கள்",
+  "route.headWestOn": "{road} வழியாக மேற்கே செல்லுங்கள்",
+  "route.headNorthwest": "வடமேற்கே செல்லுங்கள்",
+  "route.headNorthwestOn": "{road} வழியாக வடமேற்கே செல்லுங்கள்",
+  "route.depart": "புறப்படுங்கள்",
+  "route.departOn": "{road} வழியாகப் புறப்படுங்கள்",
+  "route.turnSlightLeft": "சற்று இடப்புறம் திரும்புங்கள்",
+  "route.turnSlightLeftOnto": "சற்று இடப்புறம் திரும்பி {road} இல் செல்லுங்கள்",
+  "route.turnLeft": "இடப்புறம் திரும்புங்கள்",
+  "route.turnLeftOnto": "இடப்புறம் திரும்பி {road} இல் செல்லுங்கள்",
+  "route.turnSharpLeft": "கூர்மையாக இடப்புறம் திரும்புங்கள்",
+  "route.turnSharpLeftOnto": "கூர்மையாக இடப்புறம் திரும்பி {road} இல் செல்லுங்கள்",
+  "route.turnSlightRight": "சற்று வலப்புறம் திரும்புங்கள்",
+  "route.turnSlightRightOnto": "சற்று வலப்புறம் திரும்பி {road} இல் செல்லுங்கள்",
+  "route.turnRight": "வலப்புறம் திரும்புங்கள்",
+  "route.turnRightOnto": "வலப்புறம் திரும்பி {road} இல் செல்லுங்கள்",
+  "route.turnSharpRight": "கூர்மையாக வலப்புறம் திரும்புங்கள்",
+  "route.turnSharpRightOnto": "கூர்மையாக வலப்புறம் திரும்பி {road} இல் செல்லுங்கள்",
+  "route.continueStraight": "நேராகச் செல்லுங்கள்",
+  "route.continueStraightOnto": "நேராக {road} இல் செல்லுங்கள்",
+  "route.continue": "தொடர்ந்து செல்லுங்கள்",
+  "route.continueOnto": "{road} இல் தொடர்ந்து செல்லுங்கள்",
+  "route.keepLeft": "இடப்புறமாகச் செல்லுங்கள்",
+  "route.keepLeftOnto": "இடப்புறமாக {road} இல் செல்லுங்கள்",
+  "route.keepRight": "வலப்புறமாகச் செல்லுங்கள்",
+  "route.keepRightOnto": "வலப்புறமாக {road} இல் செல்லுங்கள்",
+  "route.keepStraight": "நேராகவே செல்லுங்கள்",
+  "route.keepStraightOnto": "நேராகவே {road} இல் செல்லுங்கள்",
+  "route.mergeLeft": "இடப்புறம் இணையுங்கள்",
+  "route.mergeLeftOnto": "இடப்புறம் {road} உடன் இணையுங்கள்",
+  "route.mergeRight": "வலப்புறம் இணையுங்கள்",
+  "route.mergeRightOnto": "வலப்புறம் {road} உடன் இணையுங்கள்",
+  "route.merge": "சாலையுடன் இணையுங்கள்",
+  "route.mergeOnto": "{road} உடன் இணையுங்கள்",
+  "route.uturn": "யு-திருப்பம் செய்யுங்கள்",
+  "route.uturnOnto": "யு-திருப்பம் செய்து {road} இல் செல்லுங்கள்",
+  "route.roundabout": "சுற்றுவட்டத்தைக் கடந்து செல்லுங்கள்",
+  "route.roundaboutOnto": "சுற்றுவட்டத்தைக் கடந்து {road} இல் செல்லுங்கள்",
+  "route.roundaboutExit": "சுற்றுவட்டத்தில் {exit}-வது வெளியேற்றத்தில் செல்லுங்கள்",
+  "route.roundaboutExitOnto": "சுற்றுவட்டத்தில் {exit}-வது வெளியேற்றத்தில் {road} இல் செல்லுங்கள்",
+  "route.arrive": "கழிவறையை அடைவீர்கள்",
+
+  "map.routeCalculated": "வழி கணக்கிடப்பட்டது!",
+  "map.nextCleanStop": "அடுத்த சுத்தமான நிறுத்தம் {distance} தொலைவில்",
+  "map.yourLocation": "உங்கள் இருப்பிடம்",
+  "map.reports": "({count} அறிக்கைகள்)",
+  "map.cluster": "{count} கழிவறைகள்: {high} மிகச் சுத்தம், {medium} ஓரளவு, {low} சுத்தம் தேவை",
+
+  "directions.title": "{name} க்கு வழிகாட்டல்",
+  "directions.remaining": "{distance} · இன்னும் {time}",
+  "directions.end": "வழிகாட்டலை முடி",
+  "directions.needLocation": "நேரடி வழிகாட்டலுக்கு இருப்பிட அனுமதி தேவை. இருப்பிடச் சேவைகளை இயக்கவும்.",
+  "directions.noRoute": "இந்தக் கழிவறைக்கு வழி கிடைக்கவில்லை.",
+  "directions.failed": "வழியைக் கணக்கிட முடியவில்லை. நீங்கள் நகரும்போது மீண்டும் முயலப்படும்.",
+  "directions.rerouting": "வழி மாற்றப்படுகிறது...",
+  "directions.finding": "சிறந்த வழி தேடப்படுகிறது...",
+  "directions.arrived": "நீங்கள் {name} ஐ அடைந்துவிட்டீர்கள்.",
+  "directions.inDistance": "{distance} இல்",
+
+  "trip.placeNotFound": "\"{query}\" கிடைக்கவில்லை. ஊர் அல்லது பகுதியின் பெயரை முயலவும்.",
+  "trip.yourLocation": "உங்கள் இருப்பிடம்",
+  "trip.lookupFailed": "அந்த இடங்களைத் தேட முடியவில்லை. மீண்டும் முயலவும்.",
+  "trip.fromCurrent": "எங்கிருந்து: உங்கள் இருப்பிடம்",
+  "trip.fromPlaceholder": "எங்கிருந்து (எ.கா. கோயம்புத்தூர்)",
+  "trip.from": "பயணத் தொடக்கம்",
+  "trip.toPlaceholder": "எங்கு (எ.கா. ஊட்டி)",
+  "trip.to": "பயண இலக்கு",
+  "trip.corridor": "வழியிலிருந்து தூரம்",
+  "trip.corridorPlaceholder": "வழித்தடம்",
+  "trip.within": "{distance} க்குள்",
+  "trip.plan": "பயணம் திட்டமிடு",
+  "trip.clear": "பயணத்தை அழி",
+  "trip.finding": "வழி தேடப்படுகிறது...",
+  "trip.summary": "{distance} · {time} · வழியில் {count} கழிவறைகள்",
+  "trip.summaryOne": "{distance} · {time} · வழியில் 1 கழிவறை",
+  "trip.nextCleanStop": "அடுத்த சுத்தமான நிறுத்தம் {distance} தொலைவில்: {name}",
+  "trip.at": "{distance} இல்",
+  "trip.offRoute": "வழியிலிருந்து {distance} விலகி",
+
+  "itinerary.title": "ஓய்வு நிறுத்தங்களைத் திட்டமிடு",
+  "itinerary.every30Minutes": "ஒவ்வொரு 30 நிமிடமும்",
+  "itinerary.every45Minutes": "ஒவ்வொரு 45 நிமிடமும்",
+  "itinerary.everyHour": "ஒவ்வொரு மணி நேரமும்",
+  "itinerary.every90Minutes": "ஒவ்வொரு 1.5 மணி நேரமும்",
+  "itinerary.every25Km": "ஒவ்வொரு 25 கி.மீ.க்கும்",
+  "itinerary.every50Km": "ஒவ்வொரு 50 கி.மீ.க்கும்",
+  "itinerary.every100Km": "ஒவ்வொரு 100 கி.மீ.க்கும்",
+  "itinerary.interval": "ஓய்வு இடைவெளி",
+  "itinerary.departure": "புறப்படும் நேரம்",
+  "itinerary.minCleanliness": "குறைந்தபட்ச சுத்தம்",
+  "itinerary.update": "நிறுத்தங்களைப் புதுப்பி",
+  "itinerary.suggest": "நிறுத்தங்களைப் பரிந்துரை",
+  "itinerary.noBreak": "இந்தப் பயணத்துக்கு ஓய்வு தேவைப்படாது.",
+  "itinerary.at": "{distance} இல்",
+  "itinerary.gap": "{from} முதல் {to} வரை உங்கள் விருப்பங்களுக்குப் பொருந்தும் கழிவறை இல்லை.",
+  "itinerary.share": "இணைப்பைப் பகிர்",
+  "itinerary.tripName": "{from} முதல் {to} வரை",
+  "itinerary.linkCopied": "பயண இணைப்பு நகலெடுக்கப்பட்டது",
+  "itinerary.shareFailed": "பயண இணைப்பைப் பகிர முடியவில்லை",
+
+  "offline.description": "புறப்படும் முன் ஒரு பகுதியைச் சேமித்தால், சிக்னல் இல்லாமலும் வரைபடமும் கழிவறைகளும் வேலை செய்யும்.",
+  "offline.noTileServer": "புதிய பகுதிகளைச் சேமிக்க பதிவிறக்கங்களை அனுமதிக்கும் வரைபடச் சர்வர் தேவை; அது அமைக்கப்படவில்லை.",
+  "offline.youreOffline": "நீங்கள் ஆஃப்லைனில் உள்ளீர்கள். சேமித்த பகுதிகள் பயன்படுத்தப்படுகின்றன.",
+  "offline.saved": "{name} ஆஃப்லைனில் கிடைக்கும்",
+  "offline.savedDetails": "{restrooms} கழிவறைகளும் {tiles} வரைபடத் துண்டுகளும் சேமிக்கப்பட்டன.",
+  "offline.saveFailed": "{name} ஐச் சேமிக்க முடியவில்லை",
+  "offline.saveFailedHint": "இணைப்பைச் சரிபார்த்து மீண்டும் முயலவும். பதிவிறக்கிய துண்டுகள் வைக்கப்படும்.",
+  "offline.removeFailed": "{name} ஐ நீக்க முடியவில்லை",
+  "offline.remove": "{name} ஐ நீக்கு",
+  "offline.save": "சேமி",
+  "offline.regionSaved": "{count} கழிவறைகள் · {time} சேமிக்கப்பட்டது",
+  "offline.size": "சுமார் {size} MB",
+  "offline.notSaved": "சேமிக்கப்படவில்லை",
+  "offline.queuedOne": "1 மதிப்புரை அல்லது புகார் அனுப்பக் காத்திருக்கிறது.",
+  "offline.queued": "{count} மதிப்புரைகளும் புகார்களும் அனுப்பக் காத்திருக்கின்றன.",
+
+  "form.title": "புதிய கழிவறையைச் சேர்",
+  "form.name": "கழிவறையின் பெயர் *",
+  "form.namePlaceholder": "எ.கா. காபி கார்னர் கழிவறை",
+  "form.description": "விவரம்",
+  "form.descriptionPlaceholder": "கழிவறையைப் பற்றிச் சுருக்கமாக விவரிக்கவும்",
+  "form.address": "முகவரி *",
+  "form.addressPlaceholder": "எ.கா. 123 ஆர்.எஸ்.புரம் மெயின் ரோடு",
+  "form.locate": "கண்டுபிடி",
+  "form.locating": "தேடுகிறது...",
+  "form.location": "வரைபடத்தில் இருப்பிடம் *",
+  "form.pinNear": "குறி {place} அருகில் உள்ளது",
+  "form.pinHint": "நுழைவாயிலைக் குறிக்க குறியை இழுக்கவும் அல்லது வரைபடத்தில் கிளிக் செய்யவும்.",
+  "form.useMyPosition": "என் இருப்பிடத்தைப் பயன்படுத்து",
+  "form.locationFailed": "உங்கள் இருப்பிடத்தை அணுக முடியவில்லை. குறியை இழுத்து வைக்கவும்.",
+  "form.type": "வகை",
+  "form.typePlaceholder": "வகையைத் தேர்ந்தெடு",
+  "form.typePublic": "பொது",
+  "form.typeCafe": "கஃபே",
+  "form.typeRestaurant": "உணவகம்",
+  "form.typeBakery": "பேக்கரி",
+  "form.typeHotel": "ஹோட்டல்",
+  "form.typeGasStation": "பெட்ரோல் பங்க்",
+  "form.typeOther": "மற்றவை",
+  "form.babyChanging": "குழந்தை பராமரிப்பு அறை",
+  "form.openingHours": "திறந்திருக்கும் நேரம்",
+  "form.open24": "எல்லா நாளும் 24 மணி நேரமும் திறந்திருக்கும்",
+  "form.openingTime": "{day} திறக்கும் நேரம்",
+  "form.closingTime": "{day} மூடும் நேரம்",
+  "form.cleanliness": "சுத்த மதிப்பீடு",
+  "form.cleanlinessHint": "நீங்கள் சென்றபோது எவ்வளவு சுத்தமாக இருந்தது?",
+  "form.submit": "கழிவறையைச் சேர்",
+  "form.submitting": "சேர்க்கிறது...",
+  "form.locationFound": "இருப்பிடம் கிடைத்தது",
+  "form.pinMoved": "குறி {place} க்கு நகர்த்தப்பட்டது. சரியான இடத்துக்கு இழுக்கவும்.",
+  "form.addressNotFound": "முகவரி கிடைக்கவில்லை",
+  "form.placePinManually": "வரைபடத்தில் குறியை நீங்களே வைக்கவும்.",
+  "form.added": "கழிவறை சேர்க்கப்பட்டது",
+  "form.addedPending": "நன்றி! மதிப்பாய்வாளர் ஒப்புதல் அளிக்கும் வரை இது நிலுவையில் இருக்கும்.",
+  "form.addedApproved": "நன்றி! இது இப்போது வரைபடத்தில் உள்ளது.",
+  "form.error": "பிழை",
+  "form.storageFull": "கழிவறையைச் சேமிக்க இந்தச் சாதனத்தில் இடம் இல்லை. சேமித்த ஆஃப்லைன் பகுதிகளை நீக்கி மீண்டும் முயலவும்.",
+  "form.saveFailed": "கழிவறையைச் சேமிக்க முடியவில்லை. மீண்டும் முயலவும்.",
+  "form.timeFormat": "நேரத்தை HH:MM ஆக உள்ளிடவும்",
+  "form.timesMustDiffer": "திறக்கும் மற்றும் மூடும் நேரங்கள் வேறுபட வேண்டும்",
+  "form.nameRequired": "கழிவறைக்கு ஒரு பெயரைத் தரவும்",
+  "form.descriptionTooLong": "விவரம் 500 எழுத்துகளுக்குள் இருக்கட்டும்",
+  "form.addressRequired": "கழிவறையின் முகவரியைத் தரவும்",
+  "form.amenitiesRequired": "குறைந்தது ஒரு வசதியைத் தேர்ந்தெடுக்கவும்",
+
+  "weekday.mon": "திங்கள்",
+  "weekday.tue": "செவ்வாய்",
+  "weekday.wed": "புதன்",
+  "weekday.thu": "வியாழன்",
+  "weekday.fri": "வெள்ளி",
+  "weekday.sat": "சனி",
+  "weekday.sun": "ஞாயிறு",
+
+  "admin.title": "மதிப்பாய்வு",
+  "admin.moderatorName": "மதிப்பாய்வாளர் பெயர்",
+  "admin.moderatorHint": "தணிக்கைப் பதிவில் உங்கள் முடிவுகளுக்கு அருகில் காட்டப்படும்",
+  "admin.queue": "வரிசை ({count})",
+  "admin.auditLog": "தணிக்கைப் பதிவு",
+  "admin.all": "அனைத்தும்",
+  "admin.loadFailed": "மதிப்பாய்வு வரிசையை ஏற்ற முடியவில்லை.",
+  "admin.empty": "மதிப்பாய்வு செய்ய எதுவும் இல்லை",
+  "admin.emptyHint": "புதிய மதிப்புரைகள், படங்கள் மற்றும் கழிவறைகள் இங்கே தோன்றும்",
+  "admin.approved": "{kind} ஏற்கப்பட்டது",
+  "admin.rejected": "{kind} நிராகரிக்கப்பட்டது",
+  "admin.saveFailed": "முடிவைச் சேமிக்க முடியவில்லை",
+  "admin.kindReview": "மதிப்புரை",
+  "admin.kindPhoto": "படம்",
+  "admin.kindRestroom": "புதிய கழிவறை",
+  "admin.flagProfanity": "ஆபாச வார்த்தைகள்",
+  "admin.flagLink": "இணைப்பு",
+  "admin.flagPhone": "தொலைபேசி எண்",
+  "admin.flagDuplicate": "மற்றொரு மதிப்புரையின் நகல்",
+  "admin.flagTooFast": "சென்று வர முடியாத வேகத்தில் இடப்பட்டது",
+  "admin.flagRatingBomb": "திடீர் குறைந்த மதிப்பீடுகள்",
+  "admin.flagSpam": "ஸ்பேம் போல் உள்ளது",
+  "admin.actionApproved": "ஏற்கப்பட்டது",
+  "admin.actionRejected": "நிராகரிக்கப்பட்டது",
+  "admin.actionEdited": "திருத்தப்பட்டது",
+  "admin.fieldComment": "கருத்து",
+  "admin.fieldName": "பெயர்",
+  "admin.fieldDescription": "விவரம்",
+  "admin.fieldAddress": "முகவரி",
+  "admin.emptyValue": "(காலி)",
+  "admin.logEmpty": "இதுவரை மதிப்பாய்வு நடவடிக்கைகள் இல்லை",
+  "admin.logEmptyHint": "ஒப்புதல்கள், நிராகரிப்புகள் மற்றும் திருத்தங்கள் இங்கே பதிவாகும்",
+  "admin.reason": "காரணம்: {reason}",
+  "admin.reasonLabel": "காரணம்",
+  "admin.approveTitle": "சமர்ப்பிப்பை ஏற்கவும்",
+  "admin.rejectTitle": "சமர்ப்பிப்பை நிராகரிக்கவும்",
+  "admin.editTitle": "திருத்தி ஏற்கவும்",
+  "admin.reasonRequiredHint": "காரணம் உங்கள் முடிவுடன் தணிக்கைப் பதிவில் வைக்கப்படும்.",
+  "admin.reasonOptionalHint": "விரும்பினால் காரணத்தைக் குறிப்பிடலாம்; முடிவு தணிக்கைப் பதிவில் வைக்கப்படும்.",
+  "admin.rejectPlaceholder": "எ.கா. தவறான வார்த்தைகள், இந்தக் கழிவறையின் படம் அல்ல",
+  "admin.editPlaceholder": "எ.கா. தொலைபேசி எண் நீக்கப்பட்டது",
+  "admin.saving": "சேமிக்கிறது...",
+  "admin.held": "நிறுத்திவைக்கப்பட்டது",
+  "admin.cleanlinessOutOf5": "சுத்தம் {score}/5",
+  "admin.noComment": "கருத்து இல்லை",
+  "admin.noAddress": "முகவரி இல்லை",
+  "admin.risk": "அபாயம் {percent}%",
+  "admin.reports": "{reasons} எனப் புகார் அளிக்கப்பட்டது",
+  "admin.approve": "ஏற்கவும்",
+  "admin.edit": "திருத்து",
+  "admin.reject": "நிராகரி",
+
+  "recommendations.title": "உங்களுக்கான பரிந்துரைகளைப் பெறுங்கள்",
+  "recommendations.accessible": "அணுகக்கூடியதாக இருக்க வேண்டும்",
+  "recommendations.babyChanging": "குழந்தை டயப்பர் மாற்றும் வசதி இருக்க வேண்டும்",
+  "recommendations.genderNeutral": "பாலின வேறுபாடற்றதாக இருக்க வேண்டும்",
+  "recommendations.preferFuelStations": "எரிபொருள் நிலையங்களுக்கு முன்னுரிமை",
+  "recommendations.minCleanliness": "குறைந்தபட்ச சுத்த மதிப்பெண்: {score}",
+  "recommendations.get": "பரிந்துரைகளைப் பெறு",
+  "recommendations.results": "பரிந்துரைக்கப்பட்ட கழிவறைகள்",
+  "recommendations.empty": "உங்கள் விருப்பங்களுக்குப் பொருந்தும் கழிவறைகள் இல்லை. வடிகட்டிகளை மாற்றிப் பாருங்கள்.",
+
+  "partnerships.title": "கூட்டாளர் இடங்கள்",
+
+  "chat.title": "ரெஸ்ட்ஸ்டாப் உதவியாளர் - கோவை மாவட்டம்",
+  "chat.welcome": "வணக்கம்! நான் கோவை மாவட்டத்திற்கான உங்கள் ரெஸ்ட்ஸ்டாப் உதவியாளர். வடவள்ளி, சாய்பாபா காலனி, கணபதி போன்ற பகுதிகள் உட்பட மாவட்டம் முழுவதும் கழிவறைகளைக் கண்டுபிடிக்க உதவுவேன். தமிழிலோ தங்கிலீஷிலோ கேளுங்கள். இன்று என்ன உதவி வேண்டும்?",
+  "chat.placeholder": "உங்கள் செய்தியை எழுதுங்கள்...",
+  "chat.listening": "கேட்கிறேன்...",
+  "chat.listeningToast": "கேட்கிறேன்... இப்போது பேசுங்கள்.",
+  "chat.showOnMap": "வரைபடத்தில் பார்",
+  "chat.locationDenied": "இருப்பிட அனுமதி மறுக்கப்பட்டது. சில வசதிகள் குறைவாக இருக்கலாம்.",
+  "chat.voiceError": "குரல் அறிதலில் பிழை. மீண்டும் முயற்சிக்கவும்.",
+  "chat.voiceUnsupported": "உங்கள் உலாவி குரல் அறிதலை ஆதரிக்கவில்லை.",
+  "chat.voiceStartFailed": "குரல் அறிதலைத் தொடங்க முடியவில்லை. மீண்டும் முயற்சிக்கவும்.",
+  "chat.reportFailed": "{name} பற்றி தெரிவிக்க முடியவில்லை. மீண்டும் முயற்சிக்கவும்.",
+  "chat.thinking": "யோசிக்கிறேன்...",
+  "chat.replyFailed": "பதில் அளிக்க முடியவில்லை. மீண்டும் முயற்சிக்கவும்.",
+  "chat.speakReplies": "பதில்களை உரக்கப் படி",
+  "chat.muteReplies": "பதில்களைப் படிப்பதை நிறுத்து",
+  "chat.handsFree": "கை தொடா முறை",
+  "chat.handsFreeOn": "கை தொடா முறை இயக்கப்பட்டது. \"ஹே ரெஸ்ட்ஸ்டாப்\" என்று சொல்லி உங்கள் கேள்வியைக் கேளுங்கள், அல்லது பேசும்போது மைக் பொத்தானை அழுத்திப் பிடியுங்கள்.",
+  "chat.handsFreeOff": "கை தொடா முறை நிறுத்தப்பட்டது.",
+  "chat.handsFreeHint": "\"ஹே ரெஸ்ட்ஸ்டாப்\" என்று சொல்லுங்கள்...",
+  "chat.micBlocked": "மைக்ரோஃபோன் அனுமதி தடுக்கப்பட்டுள்ளது. உதவியாளரிடம் பேச உலாவி அமைப்புகளில் அனுமதியுங்கள்.",
+
+  "assistant.help": "கோவை மாவட்டத்தில் எங்கும் கழிவறைகளைக் கண்டுபிடிக்க என்னிடம் கேட்கலாம், உதாரணமாக வடவள்ளி, சாய்பாபா காலனி, கணபதி போன்ற பகுதிகளில். சுத்தம், சக்கர நாற்காலி வசதி, குழந்தை பராமரிப்பு, அனைத்து பாலினத்தவருக்குமான கழிவறைகள், பெட்ரோல் பங்க், குடிநீர் போன்ற வசதிகளை வைத்து வடிகட்டுவேன்; எந்த நேரத்தில் திறந்திருக்கும் என்று சொல்வேன்; வழி காட்டுவேன்; அழுக்கான கழிவறை பற்றி புகார் அளிப்பேன். என்ன தெரிந்துகொள்ள வேண்டும்?",
+  "assistant.fallback": "கோவை மாவட்டம் முழுவதும் கழிவறைகளைக் கண்டுபிடிக்க உதவ நான் இருக்கிறேன். வடவள்ளி, சாய்பாபா காலனி, கணபதி போன்ற பகுதிகள் பற்றியோ, அருகிலுள்ள, சுத்தமான, சக்கர நாற்காலி வசதி உள்ள, குழந்தை பராமரிப்பு வசதி உள்ள கழிவறைகள் பற்றியோ கேளுங்கள். எப்படி உதவட்டும்?",
+  "assistant.needLocation": "உங்கள் அருகில் கழிவறைகளைக் கண்டுபிடிக்க உங்கள் இருப்பிடம் தேவை. இருப்பிட அனுமதியை இயக்கி மீண்டும் முயற்சிக்கவும், அல்லது ஒரு பகுதியின் பெயரைச் சொல்லுங்கள்.",
+  "assistant.found": "{where}{when} {count} {what} உள்ளன. {ranking}: {name} ({score}/100, {rating}{distance}{hours}).",
+  "assistant.notFound": "{where}{when} {what} எதுவும் கிடைக்கவில்லை. {suggestion}",
+  "assistant.suggestTime": "வேறு நேரத்தை முயற்சிக்கவும், அல்லது ஒரு பகுதியின் பெயரைச் சொல்லுங்கள்.",
+  "assistant.suggestRadius": "தேடல் சுற்றளவை அதிகரிக்கட்டுமா?",
+  "assistant.restroom": "கழிவறை",
+  "assistant.restrooms": "கழிவறைகள்",
+  "assistant.scopeArea": "{area} பகுதியில்",
+  "assistant.scopeNearby": "உங்கள் அருகில்",
+  "assistant.scopeDistrict": "கோவை மாவட்டத்தில்",
+  "assistant.openNow": " இப்போது திறந்திருக்கும்",
+  "assistant.openAt": " {time} மணிக்குத் திறந்திருக்கும்",
+  "assistant.rankingCleanest": "மிகச் சுத்தமானது",
+  "assistant.rankingClosest": "மிக அருகிலுள்ளது",
+  "assistant.ratingHigh": "உயர் மதிப்பீடு",
+  "assistant.ratingMedium": "நடுத்தர மதிப்பீடு",
+  "assistant.ratingLow": "குறைந்த மதிப்பீடு",
+  "assistant.away": ", {distance} தொலைவில்",
+  "assistant.openUntil": ", {time} வரை திறந்திருக்கும்",
+  "assistant.open24": ", 24 மணி நேரமும் திறந்திருக்கும்",
+  "assistant.spokenNearest": "அருகிலுள்ள {what}: {name}, {distance} தொலைவில்{hours}.",
+  "assistant.spokenClosest": "{where} மிக அருகிலுள்ள {what}: {name}{hours}.",
+  "assistant.spokenCleanest": "{where} மிகச் சுத்தமான {what}: {name}{hours}.",
+  "assistant.directionsAsk": "எந்தக் கழிவறைக்கு அழைத்துச் செல்லட்டும்? அதன் பெயரையோ பகுதியையோ சொல்லுங்கள், அல்லது அருகிலுள்ளதைத் தேர்ந்தெடுக்க இருப்பிட அனுமதியை இயக்குங்கள்.",
+  "assistant.directions": "இதோ {name}{address}.{distance} வரைபடத்தில் திறந்து \"வழி காட்டு\" என்பதைத் தட்டினால் படிப்படியான வழிகாட்டுதல் கிடைக்கும்.",
+  "assistant.onAddress": ", {address}",
+  "assistant.distanceAway": " இது {distance} தொலைவில் உள்ளது.",
+  "assistant.reportAsk": "எந்தக் கழிவறை? அதன் பெயரைச் சொல்லுங்கள், அல்லது வரைபடத்தில் திறந்து \"சுத்தம் பற்றி தெரிவி\" என்பதைத் தட்டுங்கள்.",
+  "assistant.reporting": "மற்றவர்களுக்குத் தெரிவித்ததற்கு நன்றி. {name} {status} என்று புகார் அளிக்கிறேன்.",
+  "assistant.statusDirty": "அழுக்காக உள்ளது",
+  "assistant.statusNeedsAttention": "கவனம் தேவை",
+  "assistant.location": "நீங்கள் தோராயமாக அட்சரேகை {lat}, தீர்க்கரேகை {lng} இல் இருக்கிறீர்கள். இது கோவை மாவட்டப் பகுதியாகத் தெரிகிறது. இந்த இடத்தின் அருகில் கழிவறைகளைக் கண்டுபிடிக்க உதவுவேன்.",
+  "assistant.locationUnknown": "உங்கள் இருப்பிடம் எனக்குத் தெரியவில்லை. கோவை மாவட்டத்தில் கழிவறைகளைச் சிறப்பாகக் கண்டுபிடிக்க இருப்பிட அனுமதியை இயக்குங்கள்.",
+  "assistant.areas": "கோவை மாவட்டத்தில் {areas} மற்றும் இன்னும் {more} பகுதிகளில் உள்ள கழிவறைகள் பற்றிய தகவல் என்னிடம் உள்ளது. எந்தப் பகுதி வேண்டும்?",
+  "assistant.selectNothing": "எந்தக் கழிவறையைச் சொல்கிறீர்கள்? முதலில் சில கழிவறைகளைத் தேடச் சொல்லுங்கள், பிறகு எண்ணைச் சொல்லித் தேர்ந்தெடுங்கள்.",
+  "assistant.selectOutOfRange": "கடந்த முறை {count} {noun} மட்டுமே கிடைத்தன. எதைச் சொல்கிறீர்கள்?",
+  "assistant.describe": "{name}{address}: {score}/100 ({rating}){hours}.{features} \"திறந்திருக்கா?\" அல்லது \"அங்க கூட்டிட்டு போ\" என்று கேளுங்கள்.",
+  "assistant.describeFeatures": " வசதிகள்: {features}.",
+  "assistant.hoursUnknown": "{name} திறந்திருக்கும் நேரம் என்னிடம் இல்லை.",
+  "assistant.isOpenUntil": "ஆம், {name}{when} திறந்திருக்கும், {time} வரை.",
+  "assistant.isOpen24": "ஆம், {name} 24 மணி நேரமும் திறந்திருக்கும்.",
+  "assistant.isClosedOpens": "இல்லை, {name}{when}{holiday} மூடப்பட்டிருக்கும். {time} திறக்கும்.",
+  "assistant.isClosed": "இல்லை, {name}{when}{holiday} மூடப்பட்டிருக்கும்.",
+  "assistant.atTime": " {time} மணிக்கு",
+  "assistant.forHoliday": " {holiday} காரணமாக",
+  "assistant.hasFeatures": "ஆம், {name} இல் {features} உள்ளது.",
+  "assistant.lacksFeatures": "இல்லை, {name} இல் {features} இல்லை.",
+  "assistant.someFeatures": "{name} இல் {has} உள்ளது, ஆனால் {lacks} இல்லை.",
+};
+
+// Tamil names for restroom features and amenities, keyed by their ids;
+// English uses the labels in the data itself
+export const taLabels: Record<string, string> = {
+  accessible: "சக்கர நாற்காலி வசதி",
+  baby_changing: "குழந்தை பராமரிப்பு வசதி",
+  gender_neutral: "அனைத்து பாலினத்தவருக்குமான",
+  clean: "சுத்தமான",
+  fuel_station: "பெட்ரோல் பங்க்",
+  toilet: "கழிப்பறை",
+  western_toilet: "வெஸ்டர்ன் கழிப்பறை",
+  indian_toilet: "இந்திய முறை கழிப்பறை",
+  urinal: "சிறுநீர் கழிப்பிடம்",
+  sink: "கை கழுவும் தொட்டி",
+  hand_soap: "கை சோப்பு",
+  paper_towels: "காகிதத் துண்டுகள்",
+  hand_dryer: "கை உலர்த்தி",
+  health_faucet: "ஹெல்த் ஃபாசெட்",
+  toilet_paper: "டாய்லெட் பேப்பர்",
+  sanitary_pads: "சானிட்டரி நாப்கின் இயந்திரம்",
+  dustbin: "குப்பைத் தொட்டி",
+  drinking_water: "குடிநீர்",
+  mirror: "கண்ணாடி",
+  lotion: "லோஷன்",
+  mouthwash: "மவுத்வாஷ்",
+  shower: "குளியல் வசதி",
+  seating: "காத்திருப்பு இடம்",
+};
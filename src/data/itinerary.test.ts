@@ -0,0 +1,99 @@
+import { describe, expect, it } from "vitest";
+import { Restroom } from "@/types";
+import { ItineraryOptions, planItinerary } from "./itinerary";
+import { Route } from "./routing";
+import { TripStop } from "./trip";
+
+const stopAt = (
+  id: string,
+  distanceAlongRoute: number,
+  score: number,
+  details: Partial<Restroom> = {}
+): TripStop => ({
+  restroom: {
+    id,
+    name: id,
+    location: { lat: 11, lng: 77 },
+    amenities: [],
+    cleanliness: { score, lastUpdated: "2024-01-01T00:00:00Z", reports: 1 },
+    accessibility: false,
+    babyChanging: false,
+    genderNeutral: false,
+    reviews: [],
+    ...details,
+  },
+  distanceAlongRoute,
+  detour: 0.2,
+});
+
+// 120 km in two hours
+const route: Route = { distance: 120, duration: 120, path: [], steps: [] };
+
+const everyKm = (every: number, preferences = {}): ItineraryOptions => ({
+  every,
+  unit: "km",
+  departAt: new Date("2024-03-01T08:00:00Z"),
+  preferences,
+});
+
+const partner = { businessInfo: { type: "cafe" as const, partnerStatus: "standard" as const } };
+
+describe("planItinerary", () => {
+  it.each([
+    [
+      "the cleanest restroom closest to each break",
+      [stopAt("a", 25, 90), stopAt("b", 38, 90), stopAt("c", 60, 50), stopAt("d", 70, 95), stopAt("e", 110, 90)],
+      everyKm(40),
+      ["b", "d", "e"],
+    ],
+    [
+      "only restrooms that meet the preferences",
+      [stopAt("a", 25, 70, { accessibility: true }), stopAt("b", 38, 90)],
+      everyKm(40, { accessibility: true }),
+      ["a"],
+    ],
+    [
+      "a partner venue over a slightly cleaner restroom",
+      [stopAt("partner", 38, 80, partner), stopAt("plain", 38, 90)],
+      everyKm(40),
+      ["partner"],
+    ],
+    [
+      "nothing before the second half of an interval",
+      [stopAt("too-early", 15, 100)],
+      everyKm(40),
+      [],
+    ],
+    [
+      "no break when the trip is shorter than one interval",
+      [stopAt("a", 100, 100)],
+      everyKm(150),
+      [],
+    ],
+  ])("picks %s", (_, stops, options, ids) => {
+    expect(planItinerary(route, stops, options).stops.map(stop => stop.restroom.id)).toEqual(ids);
+  });
+
+  it.each([
+    ["a stretch without a restroom", [stopAt("b", 38, 90), stopAt("e", 110, 90)], [{ fromKm: 38, toKm: 78 }]],
+    ["back-to-back misses as one stretch", [], [{ fromKm: 0, toKm: 80 }]],
+  ])("reports %s", (_, stops, gaps) => {
+    expect(planItinerary(route, stops, everyKm(40)).gaps).toEqual(gaps);
+  });
+
+  it("times each arrival with the breaks before it", () => {
+    const { stops } = planItinerary(route, [stopAt("b", 38, 90), stopAt("d", 70, 95)], everyKm(40));
+    expect(stops.map(stop => stop.arriveAt.toISOString())).toEqual([
+      "2024-03-01T08:38:00.000Z",
+      "2024-03-01T09:25:00.000Z",
+    ]);
+  });
+
+  it("spaces breaks by travel time", () => {
+    // Half a kilometre a minute: a break every 40 minutes is every 20 km
+    const slow = { ...route, duration: 240 };
+    const stops = [stopAt("a", 18, 90), stopAt("b", 36, 90)];
+    const { stops: planned } = planItinerary(slow, stops, { ...everyKm(40), unit: "minutes" });
+    expect(planned.map(stop => stop.restroom.id)).toEqual(["a", "b"]);
+  });
+});
@@ -0,0 +1,98 @@
+import { Route } from "./routing";
+import { TripStop } from "./trip";
+import { getOpenStatus } from "./openingHours";
+import { RestroomPreferences, matchesPreferences } from "./userRestrooms";
+
+export interface ItineraryOptions {
+  // Break every `every` minutes of travel or kilometers of road
+  every: number;
+  unit: "minutes" | "km";
+  departAt: Date;
+  preferences: RestroomPreferences;
+}
+
+export interface PlannedStop extends TripStop {
+  arriveAt: Date;
+}
+
+// A stretch where no restroom met the preferences in time for a break
+export interface ItineraryGap {
+  fromKm: number;
+  toKm: number;
+}
+
+export interface Itinerary {
+  stops: PlannedStop[];
+  gaps: ItineraryGap[];
+}
+
+// Time assumed at each stop when estimating later arrivals
+export const BREAK_MINUTES = 15;
+
+const partnerBonus = { premium: 0.3, standard: 0.15, none: 0 };
+
+// Higher is better: clean, a partner venue, close to when the break is due
+// and not far off the road
+const scoreCandidate = (stop: TripStop, dueAtKm: number, intervalKm: number) => {
+  const cleanliness = stop.restroom.cleanliness.score / 100;
+  const partner = partnerBonus[stop.restroom.businessInfo?.partnerStatus ?? "none"];
+  const earliness = (dueAtKm - stop.distanceAlongRoute) / intervalKm;
+  return cleanliness + partner - earliness * 0.2 - stop.detour * 0.1;
+};
+
+// Picks one restroom per interval along the route. A break is looked for in
+// the second half of each interval so stops stay roughly evenly spaced.
+export const planItinerary = (route: Route, tripStops: TripStop[], options: ItineraryOptions): Itinerary => {
+  const kmPerMinute = route.duration > 0 ? route.distance / route.duration : 0;
+  const intervalKm = options.unit === "km" ? options.every : options.every * kmPerMinute;
+  if (intervalKm <= 0) return { stops: [], gaps: [] };
+
+  const arrivalAt = (distanceKm: number, breaksSoFar: number) => {
+    const travelMinutes = kmPerMinute > 0 ? distanceKm / kmPerMinute : 0;
+    return new Date(options.departAt.getTime() + (travelMinutes + breaksSoFar * BREAK_MINUTES) * 60000);
+  };
+
+  const stops: PlannedStop[] = [];
+  const gaps: ItineraryGap[] = [];
+  let lastKm = 0;
+
+  // No break needed if the destination comes before the next one is due
+  while (lastKm + intervalKm < route.distance) {
+    const dueAtKm = lastKm + intervalKm;
+    const windowStart = lastKm + intervalKm / 2;
+
+    let best: PlannedStop | undefined;
+    let bestScore = -Infinity;
+
+    tripStops.forEach(stop => {
+      if (stop.distanceAlongRoute <= windowStart || stop.distanceAlongRoute > dueAtKm) return;
+      if (!matchesPreferences(stop.restroom, options.preferences)) return;
+
+      // Restrooms without known hours get the benefit of the doubt
+      const arriveAt = arrivalAt(stop.distanceAlongRoute, stops.length);
+      if (getOpenStatus(stop.restroom, arriveAt)?.isOpen === false) return;
+
+      const score = scoreCandidate(stop, dueAtKm, intervalKm);
+      if (score > bestScore) {
+        best = { ...stop, arriveAt };
+        bestScore = score;
+      }
+    });
+
+    if (best) {
+      stops.push(best);
+      lastKm = best.distanceAlongRoute;
+    } else {
+      // Back-to-back misses are reported as one longer stretch
+      const previousGap = gaps[gaps.length - 1];
+      if (previousGap?.toKm === lastKm) {
+        previousGap.toKm = dueAtKm;
+      } else {
+        gaps.push({ fromKm: lastKm, toKm: dueAtKm });
+      }
+      lastKm = dueAtKm;
+    }
+  }
+
+  return { stops, gaps };
+};
@@ -0,0 +1,57 @@
+import { describe, expect, it } from "vitest";
+import { MapUrlState, defaultMapUrlState, parseMapUrlState, toMapSearchParams } from "./mapUrlState";
+
+const roundTrip = (state: MapUrlState) => parseMapUrlState(new URLSearchParams(toMapSearchParams(state).toString()));
+
+describe("map URL state", () => {
+  it.each<[string, MapUrlState]>([
+    ["the defaults", { ...defaultMapUrlState }],
+    ["a map view", { ...defaultMapUrlState, view: { center: { lat: 11.01684, lng: 76.95583 }, zoom: 16 } }],
+    ["a list sorted by cleanliness", { ...defaultMapUrlState, viewMode: "list", sortMode: "cleanest", radius: 10 }],
+    ["restrooms open now", { ...defaultMapUrlState, openFilter: "now" }],
+    ["restrooms open at a time", { ...defaultMapUrlState, openFilter: "at", openAt: "2024-03-01T22:30" }],
+    ["a selected restroom", { ...defaultMapUrlState, selectedId: "user-17 & co/ö" }],
+  ])("comes back the same for %s", (_, state) => {
+    expect(roundTrip(state)).toEqual(state);
+  });
+
+  it("leaves the defaults out of the URL", () => {
+    expect(toMapSearchParams(defaultMapUrlState).toString()).toBe("");
+  });
+
+  it("rounds the centre to about a metre", () => {
+    const state = { ...defaultMapUrlState, view: { center: { lat: 11.0168449, lng: 76.9558321 }, zoom: 15 } };
+    expect(roundTrip(state).view).toEqual({ center: { lat: 11.01684, lng: 76.95583 }, zoom: 15 });
+  });
+
+  it("drops the time unless restrooms have to be open at it", () => {
+    expect(roundTrip({ ...defaultMapUrlState, openFilter: "now", openAt: "2024-03-01T22:30" }).openAt).toBe("");
+  });
+
+  it("keeps query keys it does not own", () => {
+    const base = new URLSearchParams("from=11,77&to=11.1,77.3&radius=5&selected=old");
+    const params = toMapSearchParams({ ...defaultMapUrlState, selectedId: "new" }, base);
+
+    expect(params.get("from")).toBe("11,77");
+    expect(params.get("to")).toBe("11.1,77.3");
+    expect(params.has("radius")).toBe(false);
+    expect(params.get("selected")).toBe("new");
+  });
+
+  it.each([
+    ["lat=91&lng=77", "view", undefined],
+    ["lat=11&lng=abc", "view", undefined],
+    ["lng=77", "view", undefined],
+    ["lat=11&lng=77&zoom=40", "view", { center: { lat: 11, lng: 77 }, zoom: 14 }],
+    ["lat=11&lng=77&zoom=12.6", "view", { center: { lat: 11, lng: 77 }, zoom: 13 }],
+    ["radius=0", "radius", 2],
+    ["radius=500", "radius", 2],
+    ["radius=5", "radius", 5],
+    ["open=sometimes", "openFilter", "any"],
+    ["sort=random", "sortMode", "best"],
+    ["view=satellite", "viewMode", "map"],
+    ["selected=", "selectedId", undefined],
+  ])("reads %s with %s as %j", (query, key, value) => {
+    expect(parseMapUrlState(new URLSearchParams(query))[key as keyof MapUrlState]).toEqual(value);
+  });
+});
@@ -0,0 +1,88 @@
+import { LatLng } from "./geo";
+import { SortMode } from "./ranking";
+
+export type OpenFilter = "any" | "now" | "at";
+export type ViewMode = "map" | "list";
+
+export interface MapView {
+  center: LatLng;
+  zoom: number;
+}
+
+// What the home screen shows, kept in the query string so the back button,
+// bookmarks and shared links all bring back the same view
+export interface MapUrlState {
+  view?: MapView;
+  radius: number;   // km around the user's location
+  openFilter: OpenFilter;
+  openAt: string;   // datetime-local value, used with openFilter "at"
+  sortMode: SortMode;
+  viewMode: ViewMode;
+  selectedId?: string; // highlighted on the map; the detail page has its own route
+}
+
+export const defaultMapUrlState: MapUrlState = {
+  radius: 2,
+  openFilter: "any",
+  openAt: "",
+  sortMode: "best",
+  viewMode: "map",
+};
+
+// Query keys owned by the map state; other keys (e.g. a shared trip) are
+// left alone when the state is written back
+const MAP_STATE_KEYS = ["lat", "lng", "zoom", "radius", "open", "at", "sort", "view", "selected"];
+
+const sortModes: SortMode[] = ["best", "nearest", "cleanest"];
+const openFilters: OpenFilter[] = ["any", "now", "at"];
+
+const oneOf = <T extends string>(value: string | null, allowed: T[], fallback: T): T =>
+  allowed.includes(value as T) ? (value as T) : fallback;
+
+const parseView = (params: URLSearchParams): MapView | undefined => {
+  const lat = Number(params.get("lat"));
+  const lng = Number(params.get("lng"));
+  const zoom = Number(params.get("zoom"));
+  if (!params.has("lat") || !params.has("lng") || !Number.isFinite(lat) || !Number.isFinite(lng)) {
+    return undefined;
+  }
+  if (Math.abs(lat) > 90 || Math.abs(lng) > 180) return undefined;
+
+  return { center: { lat, lng }, zoom: zoom >= 1 && zoom <= 19 ? Math.round(zoom) : 14 };
+};
+
+export const parseMapUrlState = (params: URLSearchParams): MapUrlState => {
+  const radius = Number(params.get("radius"));
+
+  return {
+    view: parseView(params),
+    radius: radius > 0 && radius <= 50 ? radius : defaultMapUrlState.radius,
+    openFilter: oneOf(params.get("open"), openFilters, defaultMapUrlState.openFilter),
+    openAt: params.get("at") ?? "",
+    sortMode: oneOf(params.get("sort"), sortModes, defaultMapUrlState.sortMode),
+    viewMode: params.get("view") === "list" ? "list" : "map",
+    selectedId: params.get("selected") || undefined,
+  };
+};
+
+// Writes `state` over `base`, leaving out values that match the defaults so
+// plain links stay short
+export const toMapSearchParams = (state: MapUrlState, base = new URLSearchParams()) => {
+  const params = new URLSearchParams(base);
+  MAP_STATE_KEYS.forEach(key => params.delete(key));
+
+  if (state.view) {
+    // ~1 m precision is plenty and keeps URLs readable
+    params.set("lat", state.view.center.lat.toFixed(5));
+    params.set("lng", state.view.center.lng.toFixed(5));
+    params.set("zoom", String(state.view.zoom));
+  }
+  if (state.radius !== defaultMapUrlState.radius) params.set("radius", String(state.radius));
+  if (state.openFilter !== "any") params.set("open", state.openFilter);
+  if (state.openFilter === "at" && state.openAt) params.set("at", state.openAt);
+  if (state.sortMode !== defaultMapUrlState.sortMode) params.set("sort", state.sortMode);
+  if (state.viewMode !== defaultMapUrlState.viewMode) params.set("view", state.viewMode);
+  if (state.selectedId) params.set("selected", state.selectedId);
+
+  return params;
+};
@@ -0,0 +1,43 @@
+import axios from "axios";
+import { AuditEntry, AuditLog } from "./types";
+
+const DEFAULT_STORAGE_KEY = "reststop-moderation-log";
+
+// Keeps the log in localStorage, for moderating what was submitted on this device
+export const createLocalAuditLog = (storageKey: string = DEFAULT_STORAGE_KEY): AuditLog => {
+  const read = (): AuditEntry[] => {
+    try {
+      const raw = localStorage.getItem(storageKey);
+      return raw ? (JSON.parse(raw) as AuditEntry[]) : [];
+    } catch (error) {
+      console.error("Error reading the moderation log:", error);
+      return [];
+    }
+  };
+
+  return {
+    list: async () => read(),
+
+    append: async (entry) => {
+      localStorage.setItem(storageKey, JSON.stringify([entry, ...read()]));
+    },
+  };
+};
+
+// Talks to a backend exposing:
+//   GET  {baseUrl}/moderation/log   newest first
+//   POST {baseUrl}/moderation/log
+export const createHttpAuditLog = (baseUrl: string): AuditLog => {
+  const client = axios.create({ baseURL: baseUrl.replace(/\/+$/, "") });
+
+  return {
+    list: async () => {
+      const response = await client.get<AuditEntry[]>("/moderation/log");
+      return response.data;
+    },
+
+    append: async (entry) => {
+      await client.post("/moderation/log", entry);
+    },
+  };
+};
@@ -0,0 +1,52 @@
+import { getRestroomRepository } from "../repository";
+import { createHttpAuditLog, createLocalAuditLog } from "./auditLog";
+import { createModerationService } from "./service";
+import { ModerationService } from "./types";
+
+export type {
+  AuditEntry,
+  AuditLog,
+  ModerationAction,
+  ModerationChanges,
+  ModerationDecision,
+  ModerationItem,
+  ModerationItemKind,
+  ModerationService,
+} from "./types";
+export { createHttpAuditLog, createLocalAuditLog } from "./auditLog";
+export { createModerationService, getItemRisk } from "./service";
+export { getSubmissionStatus, isApproved, isPending, isPublished, isReported } from "./status";
+export { HOLD_THRESHOLD, assessReview } from "./risk";
+export { findProfanity } from "./profanity";
+export { spamProbability } from "./spamModel";
+
+// Nothing on a server checks who moderates yet, so the moderation page is
+// left out of production builds unless it is switched on explicitly
+export const isModerationPageEnabled = import.meta.env.DEV || import.meta.env.VITE_ENABLE_ADMIN === "true";
+
+// Someone works through the queue: the restroom backend's moderators, or
+// whoever opens the moderation page of this build
+export const hasModerators = () => Boolean(import.meta.env.VITE_RESTROOM_API_URL) || isModerationPageEnabled;
+
+// The restroom backend keeps the audit log when there is one; otherwise
+// it stays on this device next to the submissions it covers
+const createDefaultModerationService = (): ModerationService => {
+  const apiUrl = import.meta.env.VITE_RESTROOM_API_URL;
+  return createModerationService(
+    getRestroomRepository,
+    apiUrl ? createHttpAuditLog(apiUrl) : createLocalAuditLog()
+  );
+};
+
+let moderationService: ModerationService | null = null;
+
+export const getModerationService = (): ModerationService => {
+  if (!moderationService) {
+    moderationService = createDefaultModerationService();
+  }
+  return moderationService;
+};
+
+export const setModerationService = (next: ModerationService) => {
+  moderationService = next;
+};
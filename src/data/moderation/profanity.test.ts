@@ -0,0 +1,37 @@
+import { describe, expect, it } from "vitest";
+import { findProfanity } from "./profanity";
+
+describe("findProfanity", () => {
+  it.each([
+    ["this is shit", ["shit"]],
+    ["fucking dirty", ["fucking"]],
+    ["f*cking dirty", ["fcking"]],
+    ["sh1t place", ["shit"]],
+    ["fuuuck this", ["fuuuck"]],
+    ["what an ashole", ["ashole"]],
+    ["sunni mathiri iruku", ["sunni"]],
+    ["suuunni", ["suuunni"]],
+    ["punda toilet", ["punda"]],
+    ["koothi", ["koothi"]],
+    ["thevidiya paiyan", ["thevidiya"]],
+    ["சுன்னியா இது", ["சுன்னியா"]],
+  ])("%s -> %j", (text, words) => {
+    expect(findProfanity(text)).toEqual(words);
+  });
+
+  // Names and everyday words that share letters with a swear word
+  it.each([
+    "Sunil cleaned it just now",
+    "Sunitha at the counter was helpful",
+    "Ask for Suni at the desk",
+    "Shital keeps it spotless",
+    "Pundalik runs the shop",
+    "Kothai is the caretaker",
+    "Dickens street, near the park",
+    "Scunthorpe standards",
+    "Othakalmandapam bus stop",
+    "சுனில் நல்லா சுத்தம் பண்ணாரு",
+  ])("%s is clean", text => {
+    expect(findProfanity(text)).toEqual([]);
+  });
+});
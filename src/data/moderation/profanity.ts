@@ -0,0 +1,47 @@
+import { normalizePlaceName } from "../gazetteer";
+
+// Entries ending in "*" also match longer words ("fuck*" -> "fucking"). Only
+// stems no name or everyday word starts with get one, and Tamil-script words
+// because case endings attach to them. Tanglish words are matched whole:
+// "sunni*" would flag "Sunil" and "Sunitha".
+const profaneWords = [
+  // English
+  "fuck*", "motherfuck*", "fck*", "shit", "shits", "shitty", "shite", "bullshit*", "bitch*", "bastard*",
+  "asshole*", "dick", "dickhead*", "cunt*", "slut*", "whore*", "wanker*",
+  // Tamil
+  "தேவடியா*", "தேவிடியா*", "ஓத்த*", "ஓம்மால*", "புண்ட*", "கூதி*", "சுன்னி*", "லவடா*",
+  // Tanglish
+  "thevidiya", "thevdiya", "thevudiya", "otha", "ommala", "ommaala", "punda", "pundai", "koothi", "sunni",
+  "lavada", "baadu",
+];
+
+// Digits and symbols people swap in for letters to get past filters
+const lookalikes: Record<string, string> = { "0": "o", "1": "i", "3": "e", "4": "a", "5": "s", "7": "t", "@": "a", "$": "s" };
+
+// "fuuuck" and "fuck", "asshole" and "ashole" compare equal
+const squash = (word: string) => word.replace(/(.)\1+/gu, "$1");
+
+const patterns = profaneWords.map(entry => {
+  const prefix = entry.endsWith("*");
+  const word = prefix ? entry.slice(0, -1) : entry;
+  return { word, squashed: squash(word), prefix };
+});
+
+const matchesWord = (word: string, pattern: (typeof patterns)[number]) => {
+  const squashed = squash(word);
+  if (pattern.prefix) return squashed.startsWith(pattern.squashed);
+  // Stretching a word only ever adds letters, so a shorter word that squashes
+  // the same ("suni" for "sunni") is a different word
+  return squashed === pattern.squashed && word.length >= pattern.word.length;
+};
+
+// Swear words in the text, as written
+export const findProfanity = (text: string): string[] => {
+  const unmasked = text
+    .replace(/[013457@$]/g, char => lookalikes[char])
+    // "f*ck", "sh#t"
+    .replace(/(\p{L})[*#]+(?=\p{L})/gu, "$1");
+  const words = normalizePlaceName(unmasked).split(" ");
+
+  return words.filter(word => patterns.some(pattern => matchesWord(word, pattern)));
+};
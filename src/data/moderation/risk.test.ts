@@ -0,0 +1,62 @@
+import { describe, expect, it } from "vitest";
+import { Restroom, Review } from "@/types";
+import { assessReview } from "./risk";
+
+const restroomAt = (id: string, lat: number, lng: number, reviews: Review[] = []): Restroom => ({
+  id,
+  name: id,
+  location: { lat, lng },
+  amenities: [],
+  cleanliness: { score: 60, lastUpdated: "2024-01-01T00:00:00Z", reports: 0 },
+  accessibility: false,
+  babyChanging: false,
+  genderNeutral: false,
+  reviews,
+});
+
+const reviewBy = (id: string, userId: string, date: string, comment?: string): Review => ({
+  id,
+  userId,
+  userName: userId,
+  rating: 4,
+  comment,
+  date,
+  cleanliness: 4,
+  status: "approved",
+});
+
+// Gandhipuram and Ooty, about 75 km apart
+const earlier = (userId: string) =>
+  restroomAt("gandhipuram", 11.0168, 76.9558, [reviewBy("review-a", userId, "2024-01-01T10:00:00Z")]);
+const ooty = restroomAt("ooty", 11.4102, 76.695);
+
+describe("assessReview", () => {
+  it("flags the same reviewer reviewing somewhere they could not have reached", () => {
+    const review = reviewBy("review-b", "device-1", "2024-01-01T10:20:00Z");
+    expect(assessReview(review, "ooty", [earlier("device-1"), ooty]).flags).toContain("too_fast");
+  });
+
+  it("lets the same reviewer through once there was time to travel", () => {
+    const review = reviewBy("review-b", "device-1", "2024-01-01T12:30:00Z");
+    expect(assessReview(review, "ooty", [earlier("device-1"), ooty]).flags).not.toContain("too_fast");
+  });
+
+  it.each([
+    ["different reviewers", "device-1", "device-2"],
+    ["anonymous reviewers", "guest", "guest"],
+    ["reviewers without an id", "", ""],
+  ])("does not compare %s", (_, before, after) => {
+    const review = reviewBy("review-b", after, "2024-01-01T10:20:00Z");
+    expect(assessReview(review, "ooty", [earlier(before), ooty]).flags).not.toContain("too_fast");
+  });
+
+  it("does not hold a review that mentions a name close to a swear word", () => {
+    const review = reviewBy("review-b", "device-1", "2024-01-01T10:00:00Z", "Sunil and Sunitha keep it clean");
+    expect(assessReview(review, "ooty", [ooty])).toEqual({ score: 0, flags: [], held: false });
+  });
+
+  it("holds a review with a slur", () => {
+    const review = reviewBy("review-b", "device-1", "2024-01-01T10:00:00Z", "sunni place");
+    expect(assessReview(review, "ooty", [ooty])).toMatchObject({ flags: ["profanity"], held: true });
+  });
+});
@@ -0,0 +1,152 @@
+import { Restroom, Review, ReviewRisk, RiskFlag } from "@/types";
+import { normalizePlaceName } from "../gazetteer";
+import { haversineDistance } from "../geo";
+import { isAnonymousReviewer } from "../reviewer";
+import { findProfanity } from "./profanity";
+import { spamProbability } from "./spamModel";
+import { isApproved } from "./status";
+
+// How much each signal alone adds to the risk. Signals combine as
+// independent evidence, so two weak ones make a strong case together.
+const flagWeights: Record<RiskFlag, number> = {
+  profanity: 0.6,
+  link: 0.5,
+  phone: 0.45,
+  duplicate: 0.55,
+  too_fast: 0.45,
+  rating_bomb: 0.4,
+  spam: 0.6,
+};
+
+// Reviews at or above this score are held back for a moderator
+export const HOLD_THRESHOLD = 0.5;
+
+// Model output from which a comment counts as spam
+const SPAM_PROBABILITY = 0.5;
+
+// Comments shorter than this ("Clean", "Very good") repeat innocently
+const MIN_DUPLICATE_LENGTH = 20;
+// Share of three-word runs two comments need in common to be copies
+const DUPLICATE_SIMILARITY = 0.8;
+
+// Fastest anyone gets between two restrooms, highway included, and the
+// least time a visit takes
+const MAX_TRAVEL_KMH = 80;
+const MIN_VISIT_MINUTES = 5;
+// Reviewing the same restroom again sooner than this is not a new visit
+const REPEAT_VISIT_MINUTES = 60;
+
+// A burst of this many low ratings within the window, against a restroom
+// that was rated well before it
+const RATING_BOMB_COUNT = 3;
+const RATING_BOMB_WINDOW_HOURS = 24;
+const LOW_RATING = 2;
+const GOOD_AVERAGE = 3.5;
+const GOOD_SCORE = 70;
+
+const LINK_PATTERN = /(?:https?:\/\/|www\.)\S+|\b[\w-]+\.(?:com|in|net|org|io|ly|co|me|info|xyz|shop|app)\b/i;
+// Runs of digits, spaces and dashes long enough to be a phone number
+const PHONE_CANDIDATES = /\+?\d[\d\s-]{8,}\d/g;
+
+const hasPhoneNumber = (text: string) =>
+  (text.match(PHONE_CANDIDATES) ?? []).some(candidate => {
+    const digits = candidate.replace(/\D/g, "").length;
+    return digits >= 10 && digits <= 13;
+  });
+
+const shingles = (text: string) => {
+  const words = text.split(" ");
+  const runs = new Set<string>();
+  for (let i = 0; i + 3 <= words.length; i++) runs.add(words.slice(i, i + 3).join(" "));
+  return runs;
+};
+
+const isCopy = (a: string, b: string) => {
+  if (a === b) return true;
+  const runsA = shingles(a);
+  const runsB = shingles(b);
+  if (runsA.size === 0 || runsB.size === 0) return false;
+
+  const shared = [...runsA].filter(run => runsB.has(run)).length;
+  return shared / (runsA.size + runsB.size - shared) >= DUPLICATE_SIMILARITY;
+};
+
+const minutesBetween = (from: string, to: string) => (Date.parse(to) - Date.parse(from)) / 60000;
+
+// The same text posted before, on this restroom or any other
+const isDuplicate = (review: Review, restrooms: Restroom[]) => {
+  const text = normalizePlaceName(review.comment ?? "");
+  if (text.length < MIN_DUPLICATE_LENGTH) return false;
+
+  return restrooms.some(restroom =>
+    restroom.reviews.some(
+      other => other.id !== review.id && other.comment && isCopy(text, normalizePlaceName(other.comment))
+    )
+  );
+};
+
+// An earlier review by the same person that they could not have travelled
+// from in time. Anonymous reviews could be anyone's, so they are not compared.
+const isTooFast = (review: Review, restroom: Restroom, restrooms: Restroom[]) =>
+  !isAnonymousReviewer(review.userId) &&
+  restrooms.some(other =>
+    other.reviews.some(earlier => {
+      if (earlier.id === review.id || earlier.userId !== review.userId) return false;
+
+      const elapsed = minutesBetween(earlier.date, review.date);
+      if (elapsed < 0) return false;
+      if (other.id === restroom.id) return elapsed < REPEAT_VISIT_MINUTES;
+
+      const km = haversineDistance(
+        other.location.lat,
+        other.location.lng,
+        restroom.location.lat,
+        restroom.location.lng
+      );
+      return elapsed < (km / MAX_TRAVEL_KMH) * 60 + MIN_VISIT_MINUTES;
+    })
+  );
+
+// One of several low ratings arriving together on a restroom people used
+// to rate well
+const isRatingBomb = (review: Review, restroom: Restroom) => {
+  if (review.rating > LOW_RATING) return false;
+
+  const windowMinutes = RATING_BOMB_WINDOW_HOURS * 60;
+  const others = restroom.reviews.filter(other => other.id !== review.id);
+  const inWindow = (other: Review) => Math.abs(minutesBetween(other.date, review.date)) <= windowMinutes;
+
+  const burst = others.filter(other => inWindow(other) && other.rating <= LOW_RATING).length + 1;
+  if (burst < RATING_BOMB_COUNT) return false;
+
+  const before = others.filter(other => !inWindow(other) && isApproved(other));
+  return before.length > 0
+    ? before.reduce((sum, other) => sum + other.rating, 0) / before.length >= GOOD_AVERAGE
+    : restroom.cleanliness.score >= GOOD_SCORE;
+};
+
+// Scores a review before it is stored, from its comment and from what is
+// already known about the restroom and the reviewer. Everything runs on the
+// device.
+export const assessReview = (review: Review, restroomId: string, restrooms: Restroom[]): ReviewRisk => {
+  const restroom = restrooms.find(restroom => restroom.id === restroomId);
+  const comment = review.comment ?? "";
+  const spam = spamProbability(comment);
+
+  const flags: RiskFlag[] = [];
+  if (findProfanity(comment).length > 0) flags.push("profanity");
+  if (LINK_PATTERN.test(comment)) flags.push("link");
+  if (hasPhoneNumber(comment)) flags.push("phone");
+  if (isDuplicate(review, restrooms)) flags.push("duplicate");
+  if (restroom && isTooFast(review, restroom, restrooms)) flags.push("too_fast");
+  if (restroom && isRatingBomb(review, restroom)) flags.push("rating_bomb");
+  if (spam >= SPAM_PROBABILITY) flags.push("spam");
+
+  const clean = flags.reduce(
+    (probability, flag) => probability * (1 - flagWeights[flag] * (flag === "spam" ? spam : 1)),
+    1
+  );
+  const score = Math.round((1 - clean) * 100) / 100;
+
+  return { score, flags, held: score >= HOLD_THRESHOLD };
+};
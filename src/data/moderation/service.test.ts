@@ -0,0 +1,100 @@
+import { describe, expect, it } from "vitest";
+import { Restroom, Review, ReviewReport } from "@/types";
+import { createMemoryRepository } from "../repository/memory";
+import { createModerationService } from "./service";
+import { AuditEntry, AuditLog } from "./types";
+
+const reviewBy = (id: string, userId: string): Review => ({
+  id,
+  userId,
+  userName: userId,
+  rating: 1,
+  comment: "Buy cheap watches at example.com",
+  date: "2024-01-01T10:00:00Z",
+  cleanliness: 1,
+  status: "approved",
+});
+
+// Comes with one review of its own, like the bundled restrooms
+const restroom: Restroom = {
+  id: "gandhipuram",
+  name: "Gandhipuram Bus Stand",
+  location: { lat: 11.0168, lng: 76.9558 },
+  amenities: [],
+  cleanliness: { score: 60, lastUpdated: "2024-01-01T00:00:00Z", reports: 4 },
+  accessibility: false,
+  babyChanging: false,
+  genderNeutral: false,
+  reviews: [reviewBy("review-bundled", "someone")],
+};
+
+const reportOf = (reviewId: string): ReviewReport => ({
+  id: `report-${reviewId}`,
+  restroomId: "gandhipuram",
+  reviewId,
+  reason: "spam",
+  date: "2024-01-02T10:00:00Z",
+});
+
+const createAuditLog = (): AuditLog => {
+  const entries: AuditEntry[] = [];
+  return {
+    list: async () => entries,
+    append: async entry => {
+      entries.unshift(entry);
+    },
+  };
+};
+
+const setUp = async () => {
+  const repository = createMemoryRepository([restroom]);
+  await repository.addReview("gandhipuram", reviewBy("review-added", "device-1"));
+  return { repository, moderation: createModerationService(() => repository, createAuditLog()) };
+};
+
+describe("createModerationService", () => {
+  it.each([
+    ["one that came with the restroom", "review-bundled"],
+    ["one added on this device", "review-added"],
+  ])("queues a reported review, %s", async (_, reviewId) => {
+    const { moderation } = await setUp();
+    expect(await moderation.listQueue()).toEqual([]);
+
+    await moderation.report(reportOf(reviewId));
+
+    const queue = await moderation.listQueue();
+    expect(queue.map(item => item.id)).toEqual([`review:${reviewId}`]);
+    expect(queue[0].kind === "review" && queue[0].review.reports).toEqual(["spam"]);
+  });
+
+  it("keeps a reported review listed and counted once", async () => {
+    const { moderation, repository } = await setUp();
+    const before = await repository.getById("gandhipuram");
+
+    await moderation.report(reportOf("review-bundled"));
+
+    const after = await repository.getById("gandhipuram");
+    expect(after?.reviews.map(review => review.id)).toEqual(before?.reviews.map(review => review.id));
+    expect(after?.cleanliness).toEqual(before?.cleanliness);
+  });
+
+  it.each([
+    ["approve", ["review-added", "review-bundled"]],
+    ["reject", ["review-added"]],
+  ] as const)("takes a reported review off the queue once a moderator decides to %s it", async (action, listed) => {
+    const { moderation, repository } = await setUp();
+    await moderation.report(reportOf("review-bundled"));
+
+    const [item] = await moderation.listQueue();
+    await moderation.decide(item, { action, reason: "Checked the report", moderator: "mod" });
+
+    expect(await moderation.listQueue()).toEqual([]);
+    const restroom = await repository.getById("gandhipuram");
+    expect(restroom?.reviews.map(review => review.id)).toEqual(listed);
+  });
+
+  it("refuses to report a review it does not know", async () => {
+    const { moderation } = await setUp();
+    await expect(moderation.report(reportOf("review-missing"))).rejects.toThrow("Unknown review review-missing");
+  });
+});
@@ -0,0 +1,173 @@
+import { Restroom, Review, ReviewReport } from "@/types";
+import { RestroomRepository } from "../repository/types";
+import { isPending, isReported } from "./status";
+import {
+  AuditEntry,
+  AuditLog,
+  ModerationChanges,
+  ModerationDecision,
+  ModerationItem,
+  ModerationService,
+} from "./types";
+
+// Longest comment excerpt kept as an audit log label
+const LABEL_LENGTH = 80;
+
+const excerpt = (text: string) => (text.length > LABEL_LENGTH ? `${text.slice(0, LABEL_LENGTH - 1)}…` : text);
+
+// Pending submissions of one restroom: the restroom itself when a user
+// added it, its reviews, and each photo of those reviews. Reviews users
+// reported are queued again, however they were moderated before.
+const collectItems = (restroom: Restroom): ModerationItem[] => {
+  const items: ModerationItem[] = [];
+  if (isPending(restroom)) {
+    items.push({
+      kind: "restroom",
+      id: `restroom:${restroom.id}`,
+      restroom,
+      submittedAt: restroom.cleanliness.lastUpdated,
+    });
+  }
+
+  restroom.reviews.forEach(review => {
+    if (isPending(review) || isReported(review)) {
+      items.push({ kind: "review", id: `review:${review.id}`, restroom, review, submittedAt: review.date });
+    }
+    (review.photos ?? []).forEach((photo, photoIndex) => {
+      if (!isPending(photo)) return;
+      items.push({
+        kind: "photo",
+        id: `photo:${review.id}:${photoIndex}`,
+        restroom,
+        review,
+        photo,
+        photoIndex,
+        submittedAt: review.date,
+      });
+    });
+  });
+
+  return items;
+};
+
+// Photos share the risk of their review; restrooms are not scored
+export const getItemRisk = (item: ModerationItem) => (item.kind === "restroom" ? 0 : item.review.risk?.score ?? 0);
+
+const describe = (item: ModerationItem) => {
+  switch (item.kind) {
+    case "restroom":
+      return item.restroom.name;
+    case "review":
+      return `${item.review.userName} on ${item.restroom.name}: ${excerpt(item.review.comment || `${item.review.rating} stars`)}`;
+    case "photo":
+      return `Photo ${item.photoIndex + 1} from ${item.review.userName} on ${item.restroom.name}`;
+  }
+};
+
+const restroomFields = (restroom: Restroom): ModerationChanges => ({
+  name: restroom.name,
+  description: restroom.description,
+  address: restroom.location.address,
+});
+
+const alreadyModerated = () => new Error("This submission was already moderated");
+
+// Builds the queue from whatever the repository holds, so submissions stored
+// on this device and ones served by a backend are moderated the same way
+export const createModerationService = (
+  getRepository: () => RestroomRepository,
+  auditLog: AuditLog
+): ModerationService => ({
+  listQueue: async () => {
+    const restrooms = await getRepository().list();
+    return restrooms
+      .flatMap(collectItems)
+      .sort((a, b) => getItemRisk(b) - getItemRisk(a) || a.submittedAt.localeCompare(b.submittedAt));
+  },
+
+  decide: async (item, decision) => {
+    const reason = decision.reason.trim();
+    if (decision.action !== "approve" && !reason) {
+      throw new Error(`A reason is required to ${decision.action} a submission`);
+    }
+    if (decision.action === "edit" && item.kind === "photo") {
+      throw new Error("Photos can only be approved or rejected");
+    }
+
+    // Work on the stored version; an earlier decision may have changed it
+    // since the queue was read
+    const repository = getRepository();
+    const restroom = await repository.getById(item.restroom.id);
+    if (!restroom) throw alreadyModerated();
+
+    const status = decision.action === "reject" ? "rejected" : "approved";
+    const changes = decision.action === "edit" ? decision.changes ?? {} : {};
+    let before: ModerationChanges | undefined;
+    let after: ModerationChanges | undefined;
+
+    if (item.kind === "restroom") {
+      if (!isPending(restroom)) throw alreadyModerated();
+
+      const updated: Restroom = {
+        ...restroom,
+        name: changes.name ?? restroom.name,
+        description: changes.description ?? restroom.description,
+        location: { ...restroom.location, address: changes.address ?? restroom.location.address },
+        status,
+      };
+      before = restroomFields(restroom);
+      after = restroomFields(updated);
+      await repository.update(updated);
+    } else {
+      const review = restroom.reviews.find(review => review.id === item.review.id);
+      let updated: Review;
+
+      if (item.kind === "review") {
+        if (!review || !(isPending(review) || isReported(review))) throw alreadyModerated();
+        updated = { ...review, comment: changes.comment ?? review.comment, status, reports: undefined };
+        before = { comment: review.comment };
+        after = { comment: updated.comment };
+      } else {
+        if (!review?.photos?.[item.photoIndex] || !isPending(review.photos[item.photoIndex])) {
+          throw alreadyModerated();
+        }
+        updated = {
+          ...review,
+          photos: review.photos.map((photo, index) => (index === item.photoIndex ? { ...photo, status } : photo)),
+        };
+      }
+      await repository.updateReview(restroom.id, updated);
+    }
+
+    const entry: AuditEntry = {
+      id: `audit-${Date.now()}`,
+      itemId: item.id,
+      kind: item.kind,
+      restroomId: restroom.id,
+      label: describe(item),
+      action: decision.action,
+      reason,
+      moderator: decision.moderator.trim() || "moderator",
+      date: new Date().toISOString(),
+      ...(decision.action === "edit" && { before, after }),
+    };
+    await auditLog.append(entry);
+    return entry;
+  },
+
+  getAuditLog: () => auditLog.list(),
+
+  report: async (report: ReviewReport) => {
+    const repository = getRepository();
+    const restroom = await repository.getById(report.restroomId);
+    const review = restroom?.reviews.find(review => review.id === report.reviewId);
+    if (!review) throw new Error(`Unknown review ${report.reviewId}`);
+
+    const reported: Review = { ...review, reports: [...(review.reports ?? []), report.reason] };
+    // Reviews that came with the restroom are not stored yet; storing a copy
+    // keeps the report with the review
+    return repository
+      .updateReview(restroom.id, reported)
+      .catch(() => repository.addReview(restroom.id, reported));
+  },
+});
@@ -0,0 +1,54 @@
+import { tokenize } from "../nlu/fuzzy";
+
+// A small logistic model over words and writing style. Promotional words
+// push towards spam; words about the visit itself pull away from it. The
+// weights are hand-tuned; trained ones can replace them without touching
+// the callers.
+const wordWeights: Record<string, number> = {
+  offer: 1.2, discount: 1.2, free: 0.8, cheap: 1, promo: 1.4, promotion: 1.2, deal: 0.8, earn: 1.5, money: 1,
+  income: 1.5, loan: 1.6, crypto: 1.8, bitcoin: 1.8, investment: 1.4, whatsapp: 1.6, telegram: 1.6, dm: 1.2,
+  subscribe: 1.4, follow: 0.8, click: 1.4, website: 1.2, contact: 0.8, call: 0.6, guaranteed: 1.4, winner: 1.4,
+  prize: 1.4, casino: 2, betting: 2,
+  clean: -0.8, dirty: -0.8, toilet: -0.8, restroom: -0.6, washroom: -0.8, bathroom: -0.6, water: -0.6,
+  soap: -0.8, smell: -0.8, smells: -0.8, tissue: -0.6, flush: -0.8, staff: -0.4, sink: -0.6, wheelchair: -0.6,
+  sutham: -0.8, kazhivarai: -0.8, thanni: -0.6, "சுத்தம்": -0.8, "கழிவறை": -0.8, "தண்ணீர்": -0.6, "நாற்றம்": -0.8,
+};
+
+const BIAS = -2.5;
+const SHOUTING_WEIGHT = 2;
+const EXCLAMATION_WEIGHT = 0.3;
+const DIGIT_WEIGHT = 3;
+const STRETCHED_WEIGHT = 0.5;
+
+// Style needs some text to go on; "OK" is not shouting
+const MIN_LETTERS_FOR_STYLE = 10;
+
+const sigmoid = (value: number) => 1 / (1 + Math.exp(-value));
+
+const ratio = (text: string, pattern: RegExp, of: RegExp) => {
+  const total = (text.match(of) ?? []).length;
+  return total > 0 ? (text.match(pattern) ?? []).length / total : 0;
+};
+
+// Probability (0-1) that a review comment is spam rather than a review
+export const spamProbability = (comment: string): number => {
+  const text = comment.trim();
+  if (!text) return 0;
+
+  const words = tokenize(text).reduce((sum, token) => sum + (wordWeights[token] ?? 0), 0);
+
+  const letters = (text.match(/\p{L}/gu) ?? []).length;
+  const shouting = letters >= MIN_LETTERS_FOR_STYLE ? ratio(text, /\p{Lu}/gu, /\p{L}/gu) : 0;
+  const exclamations = Math.min(5, (text.match(/!/g) ?? []).length);
+  const digits = ratio(text, /\d/g, /[\p{L}\d]/gu);
+  const stretched = /(\p{L})\1{3,}/u.test(text) ? 1 : 0;
+
+  return sigmoid(
+    BIAS +
+      words +
+      SHOUTING_WEIGHT * shouting +
+      EXCLAMATION_WEIGHT * exclamations +
+      DIGIT_WEIGHT * digits +
+      STRETCHED_WEIGHT * stretched
+  );
+};
@@ -0,0 +1,19 @@
+import { describe, expect, it } from "vitest";
+import { ReviewRisk } from "@/types";
+import { getSubmissionStatus } from "./status";
+
+const low: ReviewRisk = { score: 0.1, flags: [], held: false };
+const held: ReviewRisk = { score: 0.8, flags: ["link", "spam"], held: true };
+
+describe("getSubmissionStatus", () => {
+  it.each([
+    ["a low-risk review with moderators", true, low, "pending"],
+    ["a held review with moderators", true, held, "pending"],
+    ["a restroom with moderators", true, undefined, "pending"],
+    ["a low-risk review without moderators", false, low, "approved"],
+    ["a held review without moderators", false, held, "pending"],
+    ["a restroom without moderators", false, undefined, "approved"],
+  ])("starts %s as %s", (_, moderated, risk, status) => {
+    expect(getSubmissionStatus(moderated, risk)).toBe(status);
+  });
+});
@@ -0,0 +1,21 @@
+import { ModerationStatus, Review, ReviewRisk } from "@/types";
+
+type Moderated = { status?: ModerationStatus };
+
+// Public and counted towards scores and averages
+export const isApproved = (item: Moderated) => !item.status || item.status === "approved";
+
+// Still shown; pending content is labelled as such until a moderator decides
+export const isPublished = (item: Moderated) => item.status !== "rejected";
+
+export const isPending = (item: Moderated) => item.status === "pending";
+
+// Users reported it and a moderator has yet to look at it again
+export const isReported = (review: Review) => (review.reports?.length ?? 0) > 0;
+
+// What a new submission starts as. With nobody to work through the queue
+// nothing would ever be approved, so low-risk submissions are published
+// right away and only the ones the spam and abuse check held back wait.
+// Restrooms are not scored and count as low-risk.
+export const getSubmissionStatus = (moderated: boolean, risk?: ReviewRisk): ModerationStatus =>
+  moderated || risk?.held ? "pending" : "approved";
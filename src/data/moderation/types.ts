@@ -0,0 +1,70 @@
+import { Restroom, Review, ReviewPhoto, ReviewReport } from "@/types";
+
+interface QueuedSubmission {
+  // Stable across reloads, so decisions can be matched to items
+  id: string;
+  restroom: Restroom;
+  submittedAt: string; // ISO date string
+}
+
+// Something a user submitted that waits for a moderator
+export type ModerationItem =
+  | (QueuedSubmission & { kind: "review"; review: Review })
+  | (QueuedSubmission & { kind: "photo"; review: Review; photo: ReviewPhoto; photoIndex: number })
+  | (QueuedSubmission & { kind: "restroom" });
+
+export type ModerationItemKind = ModerationItem["kind"];
+
+// "edit" publishes the submission with the moderator's changes
+export type ModerationAction = "approve" | "reject" | "edit";
+
+// What a moderator can change: the comment of a review, or the details of
+// a restroom. Photos can only be approved or rejected.
+export interface ModerationChanges {
+  comment?: string;
+  name?: string;
+  description?: string;
+  address?: string;
+}
+
+export interface ModerationDecision {
+  action: ModerationAction;
+  // Required to reject or edit
+  reason: string;
+  moderator: string;
+  changes?: ModerationChanges;
+}
+
+// One moderator action, as kept in the audit log
+export interface AuditEntry {
+  id: string;
+  itemId: string;
+  kind: ModerationItemKind;
+  restroomId: string;
+  // What the item was, e.g. the restroom name or the start of a comment
+  label: string;
+  action: ModerationAction;
+  reason: string;
+  moderator: string;
+  date: string; // ISO date string
+  // The edited fields as they were and as the moderator left them
+  before?: ModerationChanges;
+  after?: ModerationChanges;
+}
+
+// Append-only record of moderator actions
+export interface AuditLog {
+  // Newest first
+  list: () => Promise<AuditEntry[]>;
+  append: (entry: AuditEntry) => Promise<void>;
+}
+
+export interface ModerationService {
+  // Pending and reported submissions, riskiest first and otherwise oldest first
+  listQueue: () => Promise<ModerationItem[]>;
+  // Apply the decision to the submission and log it
+  decide: (item: ModerationItem, decision: ModerationDecision) => Promise<AuditEntry>;
+  getAuditLog: () => Promise<AuditEntry[]>;
+  // Put a review users reported in front of the moderators
+  report: (report: ReviewReport) => Promise<Restroom>;
+}
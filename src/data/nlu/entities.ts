@@ -0,0 +1,219 @@
+import { Restroom } from "@/types";
+import { amenities } from "../amenities";
+import { GazetteerEntry, coimbatoreGazetteer, getEntryNames } from "../gazetteer";
+import { parseTimeOfDay } from "../openingHours";
+import { PhraseMatch, findPhrase, fuzzyEquals, tokenize } from "./fuzzy";
+
+// Something a restroom can be filtered on. Ids are plain strings so they
+// can be carried in conversation state or passed to a tool call.
+export interface RestroomFeature {
+  id: string;
+  label: string;
+  keywords: string[];
+  matches: (restroom: Restroom) => boolean;
+}
+
+// Cleanliness score counted as "clean" when someone asks for a clean one
+export const CLEAN_SCORE = 85;
+
+// Extra words people use for an amenity besides its label
+const amenitySynonyms: Record<string, string[]> = {
+  western_toilet: ["western", "commode", "வெஸ்டர்ன்"],
+  indian_toilet: ["indian", "இந்தியன்"],
+  hand_soap: ["soap", "சோப்பு"],
+  paper_towels: ["towel", "towels"],
+  hand_dryer: ["dryer"],
+  health_faucet: ["jet spray", "bidet", "hose"],
+  toilet_paper: ["tissue", "tissues"],
+  sanitary_pads: ["sanitary", "pads", "napkin"],
+  drinking_water: ["water", "thanni", "kudineer", "தண்ணீர்", "தண்ணி", "குடிநீர்"],
+  shower: ["bath", "bathing", "kulikka", "குளியல்"],
+  seating: ["waiting", "seats"],
+};
+
+export const restroomFeatures: RestroomFeature[] = [
+  {
+    id: "accessible",
+    label: "accessible",
+    keywords: [
+      "accessible", "wheelchair", "disabled", "disability", "handicap",
+      "chakkara naarkali", "சக்கர நாற்காலி", "மாற்றுத்திறனாளி",
+    ],
+    matches: restroom => restroom.accessibility,
+  },
+  {
+    id: "baby_changing",
+    label: "baby changing",
+    keywords: ["baby changing", "baby", "changing table", "diaper", "nappy", "kuzhandhai", "kuzhanthai", "குழந்தை"],
+    matches: restroom => restroom.babyChanging,
+  },
+  {
+    id: "gender_neutral",
+    label: "gender-neutral",
+    keywords: ["gender neutral", "unisex", "gender", "transgender", "திருநங்கை"],
+    matches: restroom => restroom.genderNeutral,
+  },
+  {
+    id: "clean",
+    label: "clean",
+    keywords: ["clean", "cleanest", "hygienic", "spotless", "tidy", "sutham", "suthamana", "சுத்தம்", "சுத்தமான"],
+    matches: restroom => restroom.cleanliness.score >= CLEAN_SCORE,
+  },
+  {
+    id: "fuel_station",
+    label: "fuel station",
+    keywords: ["fuel", "petrol", "diesel", "gas station", "petrol bunk", "bunk", "pump", "பெட்ரோல்", "பங்க்"],
+    matches: restroom => restroom.businessInfo?.type === "gas_station" || /fuel|petrol/i.test(restroom.name),
+  },
+  // "toilet" is what people call the restroom itself, not an amenity
+  ...amenities
+    .filter(amenity => amenity.id !== "toilet")
+    .map(amenity => ({
+      id: amenity.id,
+      label: amenity.label.toLowerCase(),
+      keywords: [amenity.label, ...(amenitySynonyms[amenity.id] ?? [])],
+      matches: (restroom: Restroom) => restroom.amenities.includes(amenity.id),
+    })),
+];
+
+export const getRestroomFeature = (id: string) => restroomFeatures.find(feature => feature.id === id);
+
+export type TimeEntity = { kind: "now" } | { kind: "at"; time: string }; // "HH:mm"
+
+// Pointer back to something said earlier: "the second one", "it", "there"
+export type ReferenceEntity = { kind: "ordinal"; index: number } | { kind: "pronoun" };
+
+export interface QueryEntities {
+  area?: GazetteerEntry;
+  features: string[]; // RestroomFeature ids
+  distanceKm?: number;
+  time?: TimeEntity;
+  // Free text after "to" in "directions to ...", resolved against restroom names later
+  target?: string;
+  reference?: ReferenceEntity;
+}
+
+// Common query words; never read as a misspelt place name
+const stopWords = new Set([
+  "find", "show", "near", "nearest", "nearby", "open", "closed", "where", "what", "which", "with",
+  "have", "there", "from", "take", "this", "that", "they", "them", "some", "need", "want", "please",
+  "good", "best", "area", "here", "clean", "route", "road",
+]);
+
+// Longest place name in the text wins, so "Coimbatore Airport" beats "Coimbatore"
+export const findArea = (tokens: string[], places: GazetteerEntry[] = coimbatoreGazetteer) => {
+  let best: { entry: GazetteerEntry; match: PhraseMatch; length: number } | undefined;
+
+  places.forEach(entry => {
+    getEntryNames(entry).forEach(name => {
+      const nameTokens = tokenize(name);
+      const match = findPhrase(tokens, name);
+      if (!match) return;
+      if (!match.exact && nameTokens.length === 1 && stopWords.has(tokens[match.start])) return;
+
+      const length = nameTokens.join("").length + (match.exact ? 0.5 : 0);
+      if (!best || length > best.length) {
+        best = { entry, match, length };
+      }
+    });
+  });
+
+  return best && { entry: best.entry, match: best.match };
+};
+
+export const findFeatures = (tokens: string[]): string[] =>
+  restroomFeatures
+    .filter(feature => feature.keywords.some(keyword => findPhrase(tokens, keyword)))
+    .map(feature => feature.id);
+
+// "within 3 km", "500m", "2 kms"
+export const findDistance = (text: string): number | undefined => {
+  const match = text.toLowerCase().match(/(\d+(?:\.\d+)?)\s*(km|kms|kilomet(?:er|re)s?|m|meters?|metres?)\b/);
+  if (!match) return undefined;
+
+  const value = Number(match[1]);
+  return match[2].startsWith("k") ? value : value / 1000;
+};
+
+// "open now", "right now", "open at 10 pm", "after 9.30pm", "open late"
+export const findTime = (text: string, tokens: string[]): TimeEntity | undefined => {
+  const lower = text.toLowerCase();
+  const at = lower.match(/(?:at|by|after|around|till|until)\s+([\d:.]+\s*(?:am|pm|a\.m\.|p\.m\.)?|noon|midnight)/);
+  const time = at && parseTimeOfDay(at[1]);
+  if (time) return { kind: "at", time };
+
+  if (tokens.includes("late") || tokens.includes("tonight")) return { kind: "at", time: "22:00" };
+  if (["now", "currently", "ippo", "ippa", "ippodhu", "இப்போ", "இப்போது", "இப்ப"].some(word => tokens.includes(word))) {
+    return { kind: "now" };
+  }
+  return undefined;
+};
+
+// "directions to Westin Hotel", "take me to the bus stand"
+export const findTarget = (text: string): string | undefined => {
+  const match = text.toLowerCase().match(/\b(?:to|towards|till)\s+(?:the\s+)?(.+?)[?.!]*$/);
+  return match?.[1].trim() || undefined;
+};
+
+const ordinals: Record<string, number> = {
+  first: 0, second: 1, third: 2, fourth: 3, fifth: 4, last: -1,
+  mudhal: 0, muthal: 0, rendavadhu: 1, rendavathu: 1, irandavathu: 1, moonavadhu: 2, moonavathu: 2,
+  naalavadhu: 3, anjavadhu: 4, kadaisi: -1,
+  "முதல்": 0, "முதலாவது": 0, "இரண்டாவது": 1, "ரெண்டாவது": 1, "மூன்றாவது": 2, "மூணாவது": 2,
+  "நான்காவது": 3, "நாலாவது": 3, "ஐந்தாவது": 4, "கடைசி": -1,
+};
+
+// "there" and "that" are too common on their own ("is there a toilet", "a
+// restroom that is open"), so they only count in these combinations
+const pronouns = new Set(["it", "its", "adhu", "athu", "andha", "antha", "anga", "ange", "அது", "அந்த", "அங்கே", "அங்க"]);
+const pronounPhrases = ["that one", "this one", "that place", "this place", "me there", "get there", "go there", "reach there"];
+
+// "the second one", "3rd", "number 2", "last one"; -1 means the last result
+export const findReference = (tokens: string[]): ReferenceEntity | undefined => {
+  const ordinal = tokens.find(token => token in ordinals || /^\d+(st|nd|rd|th)$/.test(token));
+  if (ordinal) return { kind: "ordinal", index: ordinals[ordinal] ?? parseInt(ordinal, 10) - 1 };
+
+  const numbered = tokens.findIndex(token => token === "number" || token === "no");
+  const position = numbered >= 0 ? Number(tokens[numbered + 1]) : NaN;
+  if (Number.isInteger(position) && position > 0) return { kind: "ordinal", index: position - 1 };
+
+  const pronoun = tokens.some(token => pronouns.has(token))
+    || pronounPhrases.some(phrase => tokens.join(" ").includes(phrase));
+  return pronoun ? { kind: "pronoun" } : undefined;
+};
+
+// Words in restroom names that say nothing about which one is meant
+const genericNameWords = new Set(["restroom", "restrooms", "public", "toilet", "toilets", "the", "and", "station"]);
+
+// The restroom whose name the text mentions best, if any. At least half of
+// the distinctive words in its name must appear (typos allowed).
+export const findMentionedRestroom = (text: string, restrooms: Restroom[]): Restroom | undefined => {
+  const tokens = tokenize(text);
+  let best: { restroom: Restroom; score: number } | undefined;
+
+  restrooms.forEach(restroom => {
+    const words = tokenize(restroom.name).filter(word => word.length > 2 && !genericNameWords.has(word));
+    if (words.length === 0) return;
+
+    const found = words.filter(word => tokens.some(token => fuzzyEquals(token, word))).length;
+    const score = found / words.length;
+    if (found > 0 && score >= 0.5 && (!best || score > best.score)) {
+      best = { restroom, score };
+    }
+  });
+
+  return best?.restroom;
+};
+
+export const extractEntities = (text: string, places?: GazetteerEntry[]): QueryEntities => {
+  const tokens = tokenize(text);
+
+  return {
+    area: findArea(tokens, places)?.entry,
+    features: findFeatures(tokens),
+    distanceKm: findDistance(text),
+    time: findTime(text, tokens),
+    target: findTarget(text),
+    reference: findReference(tokens),
+  };
+};
@@ -0,0 +1,73 @@
+import { normalizePlaceName } from "../gazetteer";
+import { stemTamilSuffix } from "./tamil";
+
+// Lower-cased words without punctuation or Tamil case endings, the unit
+// everything is matched on
+export const tokenize = (text: string): string[] => {
+  const normalized = normalizePlaceName(text);
+  return normalized ? normalized.split(" ").map(stemTamilSuffix) : [];
+};
+
+// Edit distance that also counts swapping two neighbouring letters as one
+// edit, the most common typo on phone keyboards ("tiolet")
+export const editDistance = (a: string, b: string): number => {
+  if (a === b) return 0;
+  if (!a.length) return b.length;
+  if (!b.length) return a.length;
+
+  const rows = Array.from({ length: a.length + 1 }, (_, i) => {
+    const row = new Array<number>(b.length + 1).fill(0);
+    row[0] = i;
+    return row;
+  });
+  for (let j = 0; j <= b.length; j++) rows[0][j] = j;
+
+  for (let i = 1; i <= a.length; i++) {
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      rows[i][j] = Math.min(rows[i - 1][j] + 1, rows[i][j - 1] + 1, rows[i - 1][j - 1] + cost);
+      if (i > 1 && j > 1 && a[i - 1] === b[j - 2] && a[i - 2] === b[j - 1]) {
+        rows[i][j] = Math.min(rows[i][j], rows[i - 2][j - 2] + 1);
+      }
+    }
+  }
+
+  return rows[a.length][b.length];
+};
+
+// Short words get no slack, otherwise "loo" would match "low" and "open" "oven"
+export const allowedTypos = (length: number) => (length <= 4 ? 0 : length <= 8 ? 1 : 2);
+
+export const fuzzyEquals = (word: string, target: string) =>
+  word === target ||
+  (Math.abs(word.length - target.length) <= allowedTypos(target.length) &&
+    editDistance(word, target) <= allowedTypos(target.length));
+
+export interface PhraseMatch {
+  start: number;
+  end: number; // exclusive
+  exact: boolean;
+}
+
+// Finds a (possibly multi-word) phrase in the tokens, tolerating typos in
+// each word. Also tries the words run together, so "rs puram" is found in
+// "rspuram" and "saibabacolony".
+export const findPhrase = (tokens: string[], phrase: string): PhraseMatch | undefined => {
+  const words = tokenize(phrase);
+  if (words.length === 0) return undefined;
+
+  for (let start = 0; start + words.length <= tokens.length; start++) {
+    const slice = tokens.slice(start, start + words.length);
+    if (slice.every((token, i) => fuzzyEquals(token, words[i]))) {
+      return { start, end: start + words.length, exact: slice.every((token, i) => token === words[i]) };
+    }
+  }
+
+  if (words.length > 1) {
+    const joined = words.join("");
+    const index = tokens.findIndex(token => fuzzyEquals(token, joined));
+    if (index >= 0) return { start: index, end: index + 1, exact: tokens[index] === joined };
+  }
+
+  return undefined;
+};
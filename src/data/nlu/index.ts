@@ -0,0 +1,34 @@
+import { GazetteerEntry } from "../gazetteer";
+import { extractEntities, QueryEntities } from "./entities";
+import { tokenize } from "./fuzzy";
+import { Intent, classifyIntent } from "./intents";
+
+export type { Intent, IntentScore } from "./intents";
+export type { QueryEntities, ReferenceEntity, RestroomFeature, TimeEntity } from "./entities";
+export type { PhraseMatch } from "./fuzzy";
+export { scoreIntents } from "./intents";
+export {
+  CLEAN_SCORE,
+  extractEntities,
+  findArea,
+  findMentionedRestroom,
+  getRestroomFeature,
+  restroomFeatures,
+} from "./entities";
+export { editDistance, findPhrase, fuzzyEquals, tokenize } from "./fuzzy";
+export { findWakePhrase, wakePhrases } from "./wakePhrase";
+
+export interface ParsedQuery {
+  text: string;
+  intent: Intent;
+  confidence: number; // 0-1
+  entities: QueryEntities;
+}
+
+// Turns a chat message into an intent plus the places, amenities, distance
+// and time it mentions. Pure and synchronous, so it is easy to unit test.
+export const parseQuery = (text: string, places?: GazetteerEntry[]): ParsedQuery => {
+  const entities = extractEntities(text, places);
+  const { intent, confidence } = classifyIntent(tokenize(text), entities);
+  return { text, intent, confidence, entities };
+};
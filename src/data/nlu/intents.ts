@@ -0,0 +1,136 @@
+import { findPhrase } from "./fuzzy";
+import { QueryEntities } from "./entities";
+
+export type Intent =
+  | "find_nearest"
+  | "filter_amenity"
+  | "open_now"
+  | "area_search"
+  | "directions"
+  | "report_issue"
+  | "where_am_i"
+  | "list_areas"
+  | "select_result"
+  | "help"
+  | "unknown";
+
+interface IntentRule {
+  intent: Exclude<Intent, "unknown">;
+  // Phrases that point at the intent, with how strongly they do
+  cues: [phrase: string, weight: number][];
+  // Extra weight from what was found in the text
+  boost?: (entities: QueryEntities) => number;
+}
+
+// Listed by priority: when two intents score the same, the earlier wins.
+// Reporting and directions come first because their phrasing is specific
+// and the rest of the sentence often names a place or amenity too.
+const rules: IntentRule[] = [
+  {
+    intent: "report_issue",
+    cues: [
+      ["report", 3], ["complaint", 3], ["complain", 3], ["dirty", 2], ["filthy", 2], ["broken", 2],
+      ["no water", 3], ["not working", 3], ["smell", 2], ["smells", 2], ["stinks", 2], ["overflowing", 2],
+      ["clogged", 2], ["blocked", 2], ["locked", 2],
+      // Tamil and Tanglish
+      ["pugar", 3], ["புகார்", 3], ["azhukku", 2], ["alukku", 2], ["அழுக்கு", 2], ["naaram", 2], ["naarudhu", 2],
+      ["நாற்றம்", 2], ["thanni illa", 3], ["தண்ணீர் இல்லை", 3], ["தண்ணி இல்ல", 3],
+    ],
+  },
+  {
+    intent: "directions",
+    cues: [
+      ["directions", 3], ["direction", 3], ["navigate", 3], ["take me", 3], ["how do i get", 3],
+      ["how to reach", 3], ["how to get", 3], ["way to", 2], ["guide me", 3], ["route", 2],
+      ["vazhi", 3], ["வழி", 3], ["eppadi poradhu", 3], ["epdi poganum", 3], ["eppadi poganum", 3],
+      ["எப்படி போவது", 3], ["எப்படி போகணும்", 3], ["kootitu po", 3], ["kootittu po", 3], ["கூட்டிட்டு போ", 3],
+    ],
+  },
+  {
+    intent: "open_now",
+    cues: [
+      ["open", 2], ["closed", 2], ["timings", 2], ["timing", 2], ["hours", 1.5], ["24 hours", 2], ["24x7", 2],
+      ["thirandhirukka", 2], ["thiranthirukka", 2], ["திறந்திருக்கா", 2], ["திறந்திருக்கும்", 2], ["moodi", 2], ["மூடி", 2],
+      ["neram", 1.5], ["நேரம்", 1.5],
+    ],
+    boost: entities => (entities.time ? 1.5 : 0),
+  },
+  {
+    intent: "where_am_i",
+    cues: [
+      ["where am i", 4], ["my location", 3], ["current location", 3],
+      ["naan enga irukken", 4], ["naan enge irukken", 4], ["நான் எங்கே இருக்கிறேன்", 4], ["நான் எங்க இருக்கேன்", 4],
+    ],
+  },
+  {
+    intent: "list_areas",
+    cues: [
+      ["areas", 2], ["localities", 2], ["locations", 2], ["places", 2], ["which areas", 3],
+      ["idangal", 2], ["இடங்கள்", 2], ["pagudhigal", 2], ["பகுதிகள்", 2],
+    ],
+  },
+  {
+    intent: "area_search",
+    cues: [["in", 0.5], ["at", 0.25], ["around", 0.5]],
+    boost: entities => (entities.area ? 2.5 : -Infinity),
+  },
+  {
+    intent: "filter_amenity",
+    cues: [["with", 0.5], ["has", 0.5], ["have", 0.5]],
+    boost: entities => (entities.features.length > 0 ? 2 : -Infinity),
+  },
+  {
+    // "the second one", "tell me about it"
+    intent: "select_result",
+    cues: [
+      ["tell me about", 1.5], ["more about", 1.5], ["details", 1.5], ["show", 0.5], ["one", 0.5],
+      ["pathi sollu", 1.5], ["பற்றி சொல்லு", 1.5], ["விவரம்", 1.5],
+    ],
+    boost: entities => (entities.reference?.kind === "ordinal" ? 1.5 : entities.reference ? 0 : -Infinity),
+  },
+  {
+    intent: "find_nearest",
+    cues: [
+      ["nearest", 2], ["closest", 2], ["nearby", 2], ["near me", 2], ["around me", 2], ["urgent", 1], ["urgently", 1],
+      ["restroom", 1], ["bathroom", 1], ["toilet", 1], ["washroom", 1], ["loo", 1], ["wc", 1],
+      ["find", 0.5], ["need", 0.5],
+      ["kazhivarai", 1], ["kalivarai", 1], ["kazhipparai", 1], ["கழிவறை", 1], ["கழிப்பறை", 1], ["பாத்ரூம்", 1],
+      ["டாய்லெட்", 1], ["pakkam", 2], ["பக்கம்", 2], ["arugil", 2], ["அருகில்", 2], ["அருகே", 2], ["kitta", 1],
+      ["enga", 0.5], ["எங்கே", 0.5], ["venum", 0.5], ["வேண்டும்", 0.5], ["thevai", 0.5], ["தேவை", 0.5],
+    ],
+  },
+  {
+    intent: "help",
+    cues: [
+      ["help", 3], ["what can you do", 4], ["how does this work", 4], ["hello", 1.5], ["hi", 1.5], ["vanakkam", 1.5],
+      ["udhavi", 3], ["உதவி", 3], ["வணக்கம்", 1.5],
+    ],
+  },
+];
+
+export interface IntentScore {
+  intent: Intent;
+  score: number;
+}
+
+export const scoreIntents = (tokens: string[], entities: QueryEntities): IntentScore[] =>
+  rules
+    .map(rule => ({
+      intent: rule.intent,
+      score:
+        rule.cues.reduce((total, [phrase, weight]) => total + (findPhrase(tokens, phrase) ? weight : 0), 0) +
+        (rule.boost?.(entities) ?? 0),
+    }))
+    .filter(result => result.score > 0)
+    // Stable sort keeps rule order for ties
+    .sort((a, b) => b.score - a.score);
+
+// Score at which the engine is fully confident in an intent
+const CONFIDENT_SCORE = 3;
+
+export const classifyIntent = (tokens: string[], entities: QueryEntities) => {
+  const [best] = scoreIntents(tokens, entities);
+  if (!best) return { intent: "unknown" as Intent, confidence: 0 };
+
+  return { intent: best.intent, confidence: Math.min(1, best.score / CONFIDENT_SCORE) };
+};
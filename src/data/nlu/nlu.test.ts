@@ -0,0 +1,130 @@
+import { describe, expect, it } from "vitest";
+import { editDistance, extractEntities, findWakePhrase, fuzzyEquals, parseQuery, tokenize } from ".";
+
+describe("parseQuery intents", () => {
+  it.each([
+    ["where is the nearest toilet", "find_nearest"],
+    ["need a restroom urgently", "find_nearest"],
+    ["kazhivarai enga irukku", "find_nearest"],
+    ["அருகில் கழிவறை எங்கே", "find_nearest"],
+    ["restrooms in RS Puram", "area_search"],
+    ["toilet at gandhipuram", "area_search"],
+    ["any restroom with baby changing", "filter_amenity"],
+    ["wheelchair accessible toilet", "filter_amenity"],
+    ["which restrooms are open now", "open_now"],
+    ["is it open at 10 pm", "open_now"],
+    ["directions to Westin Hotel", "directions"],
+    ["take me there", "directions"],
+    ["the toilet is dirty and there is no water", "report_issue"],
+    ["thanni illa", "report_issue"],
+    ["where am i", "where_am_i"],
+    ["which areas do you cover", "list_areas"],
+    ["tell me about the second one", "select_result"],
+    ["help", "help"],
+    ["vanakkam", "help"],
+    ["banana", "unknown"],
+  ])("%s -> %s", (text, intent) => {
+    expect(parseQuery(text).intent).toBe(intent);
+  });
+});
+
+describe("extractEntities", () => {
+  it.each([
+    ["toilets in RS Puram", "RS Puram"],
+    ["toilets in r.s. puram", "RS Puram"],
+    ["rspuram restroom", "RS Puram"],
+    ["ஆர்.எஸ்.புரம் கழிவறை", "RS Puram"],
+    ["kovai bus stand toilet", "Coimbatore"],
+    ["restroom near Coimbatore Airport", "Coimbatore Airport"],
+    ["gandhipurathula toilet", "Gandhipuram"],
+    ["காந்திபுரத்தில் கழிவறை", "Gandhipuram"],
+    ["udhagai toilets", "Ooty"],
+  ])("finds the area in %s", (text, area) => {
+    expect(extractEntities(text).area?.name).toBe(area);
+  });
+
+  it.each([
+    ["toilet in gandhipurm", "Gandhipuram"],
+    ["restroom at peelamdu", "Peelamedu"],
+    ["saravanampati toilet", "Saravanampatti"],
+  ])("tolerates the typo in %s", (text, area) => {
+    expect(extractEntities(text).area?.name).toBe(area);
+  });
+
+  it("does not read common words as places", () => {
+    expect(extractEntities("find a clean toilet near me").area).toBeUndefined();
+  });
+
+  it.each([
+    ["wheelchair accessible", ["accessible"]],
+    ["baby changing table please", ["baby_changing"]],
+    ["unisex restroom", ["gender_neutral"]],
+    ["clean one with soap", ["clean", "hand_soap"]],
+    ["petrol bunk toilet", ["fuel_station"]],
+  ])("finds the features in %s", (text, features) => {
+    expect(extractEntities(text).features).toEqual(expect.arrayContaining(features));
+  });
+
+  it.each([
+    ["within 3 km", 3],
+    ["500m", 0.5],
+    ["under 2 kms", 2],
+  ])("reads the distance in %s", (text, km) => {
+    expect(extractEntities(text).distanceKm).toBe(km);
+  });
+
+  it.each([
+    ["open now", { kind: "now" }],
+    ["ippo thirandhirukka", { kind: "now" }],
+    ["open at 10 pm", { kind: "at", time: "22:00" }],
+    ["after 9.30pm", { kind: "at", time: "21:30" }],
+    ["open late", { kind: "at", time: "22:00" }],
+  ])("reads the time in %s", (text, time) => {
+    expect(extractEntities(text).time).toEqual(time);
+  });
+
+  it.each([
+    ["the second one", { kind: "ordinal", index: 1 }],
+    ["3rd", { kind: "ordinal", index: 2 }],
+    ["number 2", { kind: "ordinal", index: 1 }],
+    ["the last one", { kind: "ordinal", index: -1 }],
+    ["rendavadhu", { kind: "ordinal", index: 1 }],
+    ["take me there", { kind: "pronoun" }],
+    ["is there a toilet", undefined],
+  ])("reads the reference in %s", (text, reference) => {
+    expect(extractEntities(text).reference).toEqual(reference);
+  });
+
+  it("keeps the target of directions", () => {
+    expect(extractEntities("directions to the Westin Hotel").target).toBe("westin hotel");
+  });
+});
+
+describe("fuzzy matching", () => {
+  it("counts a swap of neighbouring letters as one edit", () => {
+    expect(editDistance("tiolet", "toilet")).toBe(1);
+  });
+
+  it.each([
+    ["loo", "low", false],
+    ["toilte", "toilet", true],
+    ["restrom", "restroom", true],
+    ["gandipuram", "gandhipuram", true],
+  ])("%s ~ %s is %s", (word, target, equal) => {
+    expect(fuzzyEquals(word, target)).toBe(equal);
+  });
+
+  it("strips Tamil case endings", () => {
+    expect(tokenize("pakkathula")).toEqual(["pakkam"]);
+  });
+});
+
+describe("findWakePhrase", () => {
+  it.each([
+    ["hey reststop find a toilet", "find a toilet"],
+    ["ok rest stop", ""],
+    ["find a toilet", undefined],
+  ])("%s -> %s", (transcript, command) => {
+    expect(findWakePhrase(transcript)).toBe(command);
+  });
+});
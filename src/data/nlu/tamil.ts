@@ -0,0 +1,25 @@
+// Tamil glues case endings onto the word: "காந்திபுரத்தில்" is "in
+// Gandhipuram", typed as "gandhipurathula" in Tanglish. Stripping the
+// common locative and dative endings lets place names and cue words match
+// their dictionary form.
+const suffixRules: [pattern: RegExp, replacement: string][] = [
+  // -am nouns take -atthil: புரம் -> புரத்தில், pakkam -> pakkathula
+  [/த்(?:தில்|துல|துக்கு)$/u, "ம்"],
+  [/(?:thula|thule|thile|thil|thukku)$/, "m"],
+  // Words ending in a vowel take -yil: வடவள்ளி -> வடவள்ளியில்
+  [/(?:யில்|யில|யிலே|வில்)$/u, ""],
+  [/(?:yila|yile|yil)$/, ""],
+];
+
+// Shorter stems are more likely to be an unrelated word than an inflection
+const MIN_STEM_LENGTH = 3;
+
+export const stemTamilSuffix = (token: string): string => {
+  for (const [pattern, replacement] of suffixRules) {
+    const stem = token.replace(pattern, replacement);
+    if (stem !== token) {
+      return stem.length - replacement.length >= MIN_STEM_LENGTH ? stem : token;
+    }
+  }
+  return token;
+};
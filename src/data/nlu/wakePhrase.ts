@@ -0,0 +1,25 @@
+import { findPhrase, tokenize } from "./fuzzy";
+
+// What starts a hands-free command, as speech recognition tends to spell it
+export const wakePhrases = [
+  "hey reststop", "hey rest stop", "ok reststop", "ok rest stop", "okay reststop", "okay rest stop",
+  "ஹே ரெஸ்ட்ஸ்டாப்", "ஹே ரெஸ்ட் ஸ்டாப்", "ஓகே ரெஸ்ட்ஸ்டாப்", "ஓகே ரெஸ்ட் ஸ்டாப்",
+];
+
+// The command said after a wake phrase: "Hey RestStop, nearest toilet" ->
+// "nearest toilet". Empty when the phrase was said on its own, undefined
+// when it wasn't said at all.
+export const findWakePhrase = (transcript: string): string | undefined => {
+  const tokens = tokenize(transcript);
+  const match = wakePhrases
+    .map(phrase => findPhrase(tokens, phrase))
+    .filter(Boolean)
+    .sort((a, b) => a.start - b.start)[0];
+  if (!match) return undefined;
+
+  // Map the token position back onto the words as spoken
+  const words = transcript.trim().split(/\s+/);
+  let consumed = 0;
+  const last = words.findIndex(word => (consumed += tokenize(word).length) >= match.end);
+  return last < 0 ? "" : words.slice(last + 1).join(" ").replace(/^[\s,.!?]+/, "");
+};
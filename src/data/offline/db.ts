@@ -0,0 +1,43 @@
+// Separate from the restroom database, whose version follows the record
+// schema; this one holds what the app needs to keep working without a
+// connection
+const DB_NAME = "reststop-offline";
+const DB_VERSION = 1;
+
+export const REGION_STORE = "regions";
+export const FEEDBACK_STORE = "feedback";
+
+export const requestToPromise = <T>(request: IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+export const transactionDone = (transaction: IDBTransaction): Promise<void> =>
+  new Promise((resolve, reject) => {
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error);
+  });
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+export const getOfflineDatabase = (): Promise<IDBDatabase> => {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+
+      request.onupgradeneeded = (event) => {
+        const db = request.result;
+        if (event.oldVersion < 1) {
+          db.createObjectStore(REGION_STORE, { keyPath: "id" });
+          db.createObjectStore(FEEDBACK_STORE, { keyPath: "id", autoIncrement: true });
+        }
+      };
+
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+  }
+  return dbPromise;
+};
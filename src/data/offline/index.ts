@@ -0,0 +1,19 @@
+export type { OfflineRegion, OfflineRegionPreset } from "./regions";
+export type { TileCoordinate } from "./tiles";
+export {
+  countRegionTiles,
+  deleteOfflineRegion,
+  downloadOfflineRegion,
+  getOfflineRestrooms,
+  listOfflineRegions,
+  offlineRegionPresets,
+} from "./regions";
+export {
+  MAX_TILES_PER_REGION,
+  TILE_ATTRIBUTION,
+  TILE_CACHE,
+  TILE_DOWNLOADS_ENABLED,
+  TILE_URL_TEMPLATE,
+  tileUrl,
+  tilesInBounds,
+} from "./tiles";
@@ -0,0 +1,125 @@
+import { Restroom } from "@/types";
+import { Bounds } from "../geo";
+import { RestroomRepository } from "../repository/types";
+import { REGION_STORE, getOfflineDatabase, requestToPromise, transactionDone } from "./db";
+import { MAX_TILES_PER_REGION, deleteTiles, downloadTiles, tileUrl, tilesInBounds } from "./tiles";
+
+// An area that can be saved for use without a connection. Highway regions
+// stop at a lower zoom since they cover much more ground.
+export interface OfflineRegionPreset {
+  id: string;
+  name: string;
+  description: string;
+  bounds: Bounds;
+  minZoom: number;
+  maxZoom: number;
+}
+
+export interface OfflineRegion extends OfflineRegionPreset {
+  downloadedAt: string;
+  tileCount: number;
+  restrooms: Restroom[];
+}
+
+export const offlineRegionPresets: OfflineRegionPreset[] = [
+  {
+    id: "coimbatore-city",
+    name: "Coimbatore city",
+    description: "Gandhipuram, RS Puram, Peelamedu and the railway station",
+    bounds: { south: 10.93, west: 76.88, north: 11.1, east: 77.08 },
+    minZoom: 11,
+    maxZoom: 15,
+  },
+  {
+    id: "coimbatore-ooty",
+    name: "Coimbatore to Ooty (NH 181)",
+    description: "Mettupalayam, the Kallar ghat road, Coonoor and Ooty",
+    bounds: { south: 10.99, west: 76.66, north: 11.44, east: 77.0 },
+    minZoom: 10,
+    maxZoom: 14,
+  },
+  {
+    id: "coimbatore-palakkad",
+    name: "Coimbatore to Palakkad (NH 544)",
+    description: "Madukkarai, Walayar and the Kerala border",
+    bounds: { south: 10.75, west: 76.6, north: 11.05, east: 77.0 },
+    minZoom: 10,
+    maxZoom: 14,
+  },
+  {
+    id: "coimbatore-erode",
+    name: "Coimbatore to Erode (NH 544)",
+    description: "Avinashi, Tiruppur, Perundurai and Erode",
+    bounds: { south: 10.98, west: 76.95, north: 11.4, east: 77.75 },
+    minZoom: 10,
+    maxZoom: 13,
+  },
+];
+
+export const countRegionTiles = (preset: OfflineRegionPreset) =>
+  tilesInBounds(preset.bounds, preset.minZoom, preset.maxZoom).length;
+
+export const listOfflineRegions = async (): Promise<OfflineRegion[]> => {
+  const db = await getOfflineDatabase();
+  return requestToPromise<OfflineRegion[]>(db.transaction(REGION_STORE).objectStore(REGION_STORE).getAll());
+};
+
+// Downloads the map tiles and the restrooms inside the region. The record
+// is only written once both succeeded, so a region is never half saved.
+export const downloadOfflineRegion = async (
+  preset: OfflineRegionPreset,
+  source: RestroomRepository,
+  onProgress?: (done: number, total: number) => void,
+  signal?: AbortSignal
+): Promise<OfflineRegion> => {
+  const tiles = tilesInBounds(preset.bounds, preset.minZoom, preset.maxZoom);
+  if (tiles.length > MAX_TILES_PER_REGION) {
+    throw new Error(`${preset.name} needs ${tiles.length} map tiles; the limit is ${MAX_TILES_PER_REGION}`);
+  }
+
+  const restrooms = await source.listInBounds(preset.bounds);
+  await downloadTiles(tiles, onProgress, signal);
+
+  const region: OfflineRegion = {
+    ...preset,
+    downloadedAt: new Date().toISOString(),
+    tileCount: tiles.length,
+    restrooms,
+  };
+
+  const db = await getOfflineDatabase();
+  const transaction = db.transaction(REGION_STORE, "readwrite");
+  transaction.objectStore(REGION_STORE).put(region);
+  await transactionDone(transaction);
+
+  return region;
+};
+
+export const deleteOfflineRegion = async (id: string) => {
+  const regions = await listOfflineRegions();
+  const region = regions.find(candidate => candidate.id === id);
+  if (!region) return;
+
+  // Regions overlap around Coimbatore; keep tiles another region still uses
+  const tilesInUse = new Set(
+    regions
+      .filter(other => other.id !== id)
+      .flatMap(other => tilesInBounds(other.bounds, other.minZoom, other.maxZoom).map(tileUrl))
+  );
+  const tiles = tilesInBounds(region.bounds, region.minZoom, region.maxZoom);
+  await deleteTiles(tiles.filter(tile => !tilesInUse.has(tileUrl(tile))));
+
+  const db = await getOfflineDatabase();
+  const transaction = db.transaction(REGION_STORE, "readwrite");
+  transaction.objectStore(REGION_STORE).delete(id);
+  await transactionDone(transaction);
+};
+
+// Every downloaded restroom, once, even where regions overlap
+export const getOfflineRestrooms = async (): Promise<Restroom[]> => {
+  const byId = new Map<string, Restroom>();
+  (await listOfflineRegions()).forEach(region => {
+    region.restrooms.forEach(restroom => byId.set(restroom.id, restroom));
+  });
+  return [...byId.values()];
+};
@@ -0,0 +1,88 @@
+import { Bounds } from "../geo";
+
+// Single host without {s} subdomains, so a tile has one cache key no matter
+// which request fetched it
+export const TILE_URL_TEMPLATE = import.meta.env.VITE_TILE_URL || "https://tile.openstreetmap.org/{z}/{x}/{y}.png";
+export const TILE_ATTRIBUTION = '&copy; <a href="https://www.openstreetmap.org/copyright">OpenStreetMap</a> contributors';
+
+// Shared with public/sw.js, which serves tiles from this cache
+export const TILE_CACHE = "reststop-tiles";
+
+// The public OSM servers forbid bulk downloads, so regions can only be saved
+// from a tile server set up for it
+export const TILE_DOWNLOADS_ENABLED = Boolean(import.meta.env.VITE_TILE_URL);
+
+// Even then, keep each region to a size that doesn't swamp the server
+export const MAX_TILES_PER_REGION = 1500;
+
+export interface TileCoordinate {
+  x: number;
+  y: number;
+  z: number;
+}
+
+// Slippy-map tile numbering, see https://wiki.openstreetmap.org/wiki/Slippy_map_tilenames
+const lngToTileX = (lng: number, zoom: number) =>
+  Math.floor(((lng + 180) / 360) * 2 ** zoom);
+
+const latToTileY = (lat: number, zoom: number) => {
+  const radians = (lat * Math.PI) / 180;
+  return Math.floor(((1 - Math.log(Math.tan(radians) + 1 / Math.cos(radians)) / Math.PI) / 2) * 2 ** zoom);
+};
+
+export const tilesInBounds = (bounds: Bounds, minZoom: number, maxZoom: number): TileCoordinate[] => {
+  const tiles: TileCoordinate[] = [];
+
+  for (let z = minZoom; z <= maxZoom; z++) {
+    const [minX, maxX] = [lngToTileX(bounds.west, z), lngToTileX(bounds.east, z)];
+    // Tile rows count down from the north
+    const [minY, maxY] = [latToTileY(bounds.north, z), latToTileY(bounds.south, z)];
+
+    for (let x = minX; x <= maxX; x++) {
+      for (let y = minY; y <= maxY; y++) {
+        tiles.push({ x, y, z });
+      }
+    }
+  }
+
+  return tiles;
+};
+
+export const tileUrl = ({ x, y, z }: TileCoordinate) =>
+  TILE_URL_TEMPLATE.replace("{z}", String(z)).replace("{x}", String(x)).replace("{y}", String(y));
+
+// Puts every tile into the cache the service worker reads from. Tiles that
+// are already cached are skipped, so an interrupted download can resume.
+export const downloadTiles = async (
+  tiles: TileCoordinate[],
+  onProgress?: (done: number, total: number) => void,
+  signal?: AbortSignal
+) => {
+  if (!TILE_DOWNLOADS_ENABLED) throw new Error("Map tiles can only be downloaded from a configured tile server");
+
+  const cache = await caches.open(TILE_CACHE);
+  let done = 0;
+
+  // A few requests at a time keeps the tile server and slow links happy
+  const queue = [...tiles];
+  const worker = async () => {
+    while (queue.length > 0) {
+      if (signal?.aborted) throw new DOMException("Tile download cancelled", "AbortError");
+
+      const url = tileUrl(queue.shift() as TileCoordinate);
+      if (!(await cache.match(url))) {
+        const response = await fetch(url, { signal });
+        if (!response.ok) throw new Error(`Tile request failed with ${response.status}`);
+        await cache.put(url, response);
+      }
+      onProgress?.(++done, tiles.length);
+    }
+  };
+
+  await Promise.all(Array.from({ length: 4 }, worker));
+};
+
+export const deleteTiles = async (tiles: TileCoordinate[]) => {
+  const cache = await caches.open(TILE_CACHE);
+  await Promise.all(tiles.map(tile => cache.delete(tileUrl(tile))));
+};
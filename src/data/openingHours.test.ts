@@ -0,0 +1,108 @@
+import { describe, expect, it } from "vitest";
+import { Restroom } from "@/types";
+import { createWeeklyHours, formatWeeklyHours, getOpenStatus, parseOpenHours, parseTimeOfDay } from "./openingHours";
+
+const restroomWith = (businessInfo: Restroom["businessInfo"]): Restroom => ({
+  id: "test",
+  name: "Test",
+  location: { lat: 11, lng: 77 },
+  amenities: [],
+  cleanliness: { score: 80, lastUpdated: "2024-01-01T00:00:00Z", reports: 0 },
+  accessibility: false,
+  babyChanging: false,
+  genderNeutral: false,
+  reviews: [],
+  businessInfo,
+});
+
+// 2024-01-01 was a Monday; local time, like the app
+const monday = (hours: number, minutes = 0) => new Date(2024, 0, 1, hours, minutes);
+
+describe("parseTimeOfDay", () => {
+  it.each([
+    ["6:00 AM", "06:00"],
+    ["6am", "06:00"],
+    ["6.30 pm", "18:30"],
+    ["12 am", "00:00"],
+    ["12 pm", "12:00"],
+    ["18:30", "18:30"],
+    ["noon", "12:00"],
+    ["midnight", "00:00"],
+    ["6", undefined],
+    ["13 pm", undefined],
+    ["9:75", undefined],
+  ])("%s -> %s", (text, time) => {
+    expect(parseTimeOfDay(text)).toBe(time);
+  });
+});
+
+describe("parseOpenHours", () => {
+  it("reads 24/7", () => {
+    expect(parseOpenHours("24/7")?.mon).toEqual([{ open: "00:00", close: "24:00" }]);
+  });
+
+  it("applies a single range to every day", () => {
+    const hours = parseOpenHours("6:00 AM - 10:00 PM");
+    expect(hours?.sun).toEqual([{ open: "06:00", close: "22:00" }]);
+  });
+
+  it("reads split ranges and closing at midnight", () => {
+    expect(parseOpenHours("9 am - 1 pm, 2 pm to midnight")?.wed).toEqual([
+      { open: "09:00", close: "13:00" },
+      { open: "14:00", close: "24:00" },
+    ]);
+  });
+
+  it("reads per-day summaries and leaves other days closed", () => {
+    const hours = parseOpenHours("Mon-Fri 9:00 AM - 9:00 PM; Sat Closed");
+    expect(hours?.fri).toEqual([{ open: "09:00", close: "21:00" }]);
+    expect(hours?.sat).toEqual([]);
+    expect(hours?.sun).toEqual([]);
+  });
+
+  it("round-trips what formatWeeklyHours writes", () => {
+    const hours = parseOpenHours("Mon-Fri 9:00 AM - 9:00 PM; Sat-Sun 10:00 AM - 6:00 PM");
+    expect(parseOpenHours(formatWeeklyHours(hours))).toEqual(hours);
+  });
+
+  it("gives up on text it does not understand", () => {
+    expect(parseOpenHours("ask the watchman")).toBeUndefined();
+  });
+});
+
+describe("getOpenStatus", () => {
+  const daytime = restroomWith({ type: "cafe", hours: createWeeklyHours([{ open: "06:00", close: "22:00" }]) });
+
+  it("is open with a closing time during opening hours", () => {
+    const status = getOpenStatus(daytime, monday(12));
+    expect(status?.isOpen).toBe(true);
+    expect(status?.closesAt).toEqual(monday(22));
+  });
+
+  it("is closed with the next opening time outside them", () => {
+    const status = getOpenStatus(daytime, monday(23));
+    expect(status?.isOpen).toBe(false);
+    expect(status?.opensAt).toEqual(new Date(2024, 0, 2, 6));
+  });
+
+  it("keeps overnight ranges open past midnight", () => {
+    const night = restroomWith({ type: "cafe", hours: createWeeklyHours([{ open: "20:00", close: "02:00" }]) });
+    expect(getOpenStatus(night, new Date(2024, 0, 2, 1))?.isOpen).toBe(true);
+    expect(getOpenStatus(night, new Date(2024, 0, 2, 3))?.isOpen).toBe(false);
+  });
+
+  it("uses holiday hours on their date", () => {
+    const restroom = restroomWith({
+      type: "cafe",
+      hours: createWeeklyHours([{ open: "06:00", close: "22:00" }]),
+      holidays: [{ date: "2024-01-01", label: "New Year", ranges: [] }],
+    });
+    const status = getOpenStatus(restroom, monday(12));
+    expect(status?.isOpen).toBe(false);
+    expect(status?.holiday).toBe("New Year");
+  });
+
+  it("is unknown without hours", () => {
+    expect(getOpenStatus(restroomWith(undefined), monday(12))).toBeUndefined();
+  });
+});
@@ -0,0 +1,280 @@
+import { addDays, addMinutes, format, isSameDay, startOfDay } from "date-fns";
+import { HolidayHours, Restroom, TimeRange, Weekday, WeeklyHours } from "../types";
+
+export const weekdays: Weekday[] = ['mon', 'tue', 'wed', 'thu', 'fri', 'sat', 'sun'];
+
+export const weekdayLabels: Record<Weekday, string> = {
+  mon: "Mon",
+  tue: "Tue",
+  wed: "Wed",
+  thu: "Thu",
+  fri: "Fri",
+  sat: "Sat",
+  sun: "Sun",
+};
+
+// Same opening ranges on every day of the week
+export const createWeeklyHours = (ranges: TimeRange[]): WeeklyHours =>
+  weekdays.reduce((hours, day) => {
+    hours[day] = ranges.map(range => ({ ...range }));
+    return hours;
+  }, {} as WeeklyHours);
+
+const isAllDay = (ranges: TimeRange[]) =>
+  ranges.length === 1 && ranges[0].open === "00:00" && ranges[0].close === "24:00";
+
+// "09:00" -> "9:00 AM", "24:00" -> "12:00 AM"
+export const formatTime = (time: string): string => {
+  const [hours, minutes] = time.split(':').map(Number);
+  const period = hours % 24 < 12 ? "AM" : "PM";
+  const displayHours = hours % 12 === 0 ? 12 : hours % 12;
+  return `${displayHours}:${minutes.toString().padStart(2, '0')} ${period}`;
+};
+
+const formatRanges = (ranges: TimeRange[]) => {
+  if (ranges.length === 0) return "Closed";
+  if (isAllDay(ranges)) return "Open 24 hours";
+  return ranges.map(range => `${formatTime(range.open)} - ${formatTime(range.close)}`).join(", ");
+};
+
+// Summarise weekly hours in the same style as the free-text openHours
+// strings: "24/7", "6:00 AM - 10:00 PM", or per-day groups such as
+// "Mon-Fri 9:00 AM - 9:00 PM; Sat-Sun Closed"
+export const formatWeeklyHours = (hours: WeeklyHours): string => {
+  const formattedDays = weekdays.map(day => formatRanges(hours[day]));
+
+  if (weekdays.every(day => isAllDay(hours[day]))) return "24/7";
+  if (formattedDays.every(text => text === formattedDays[0])) return formattedDays[0];
+
+  // Group consecutive days that share the same hours
+  const groups: { from: Weekday; to: Weekday; text: string }[] = [];
+  weekdays.forEach((day, index) => {
+    const lastGroup = groups[groups.length - 1];
+    if (lastGroup && lastGroup.text === formattedDays[index]) {
+      lastGroup.to = day;
+    } else {
+      groups.push({ from: day, to: day, text: formattedDays[index] });
+    }
+  });
+
+  return groups
+    .map(group => {
+      const days = group.from === group.to
+        ? weekdayLabels[group.from]
+        : `${weekdayLabels[group.from]}-${weekdayLabels[group.to]}`;
+      return `${days} ${group.text}`;
+    })
+    .join("; ");
+};
+
+// Parse a time of day as people write it ("6:00 AM", "6am", "6.30 pm",
+// "18:30", "noon", "midnight") into "HH:mm". Returns undefined if the
+// text is not a time.
+export const parseTimeOfDay = (text: string): string | undefined => {
+  const normalized = text.trim().toLowerCase();
+  if (normalized === "noon") return "12:00";
+  if (normalized === "midnight") return "00:00";
+
+  const match = normalized.match(/^(\d{1,2})(?:[:.](\d{2}))?\s*(am|pm|a\.m\.|p\.m\.)?$/);
+  if (!match) return undefined;
+
+  let hours = Number(match[1]);
+  const minutes = Number(match[2] ?? 0);
+  const period = match[3]?.replace(/\./g, "");
+
+  if (minutes > 59) return undefined;
+  if (period) {
+    if (hours < 1 || hours > 12) return undefined;
+    hours = (hours % 12) + (period === "pm" ? 12 : 0);
+  } else if (hours > 23 || match[2] === undefined) {
+    // A bare number like "6" is too ambiguous to treat as a time
+    return undefined;
+  }
+
+  return `${hours.toString().padStart(2, '0')}:${minutes.toString().padStart(2, '0')}`;
+};
+
+const ALL_DAY: TimeRange[] = [{ open: "00:00", close: "24:00" }];
+
+const parseRanges = (text: string): TimeRange[] | undefined => {
+  if (text === "closed") return [];
+  if (/^(open )?24 hours$/.test(text)) return ALL_DAY;
+
+  const ranges: TimeRange[] = [];
+  for (const part of text.split(",")) {
+    const [openText, closeText, ...rest] = part.split("-");
+    if (closeText === undefined || rest.length > 0) return undefined;
+
+    const open = parseTimeOfDay(openText);
+    const close = parseTimeOfDay(closeText);
+    if (!open || !close) return undefined;
+
+    // Closing at midnight ends the day rather than starting it
+    ranges.push({ open, close: close === "00:00" ? "24:00" : close });
+  }
+  return ranges;
+};
+
+const findWeekday = (text: string): Weekday | undefined =>
+  weekdays.find(day => text.startsWith(day));
+
+// Days covered by "mon", "mon-fri" or a wrapping range like "sat-mon"
+const expandDays = (from: Weekday, to: Weekday): Weekday[] => {
+  const days: Weekday[] = [];
+  let index = weekdays.indexOf(from);
+  days.push(weekdays[index]);
+  while (weekdays[index] !== to) {
+    index = (index + 1) % weekdays.length;
+    days.push(weekdays[index]);
+  }
+  return days;
+};
+
+// Upgrade a free-text openHours string to structured weekly hours.
+// Understands "24/7", single ranges for every day ("6:00 AM - 10:00 PM"),
+// split ranges ("9 am - 1 pm, 2 pm - 6 pm") and the per-day summaries
+// written by formatWeeklyHours ("Mon-Fri 9:00 AM - 9:00 PM; Sun Closed").
+// Days a per-day summary leaves out are treated as closed. Returns
+// undefined when the text cannot be understood.
+export const parseOpenHours = (text: string): WeeklyHours | undefined => {
+  const normalized = text
+    .toLowerCase()
+    .replace(/[\u2013\u2014]/g, "-")
+    .replace(/\s+to\s+/g, " - ")
+    .replace(/\s+/g, " ")
+    .trim();
+
+  if (/^(24\/7|24x7|24 ?hrs|(open )?24 hours)$/.test(normalized)) {
+    return createWeeklyHours(ALL_DAY);
+  }
+
+  const segments = normalized.split(";").map(segment => segment.trim()).filter(Boolean);
+  if (segments.length === 0) return undefined;
+
+  const hours = createWeeklyHours([]);
+  for (const segment of segments) {
+    const dayMatch = segment.match(/^([a-z]+)(?:\s*-\s*([a-z]+))?\s+(.+)$/);
+    const from = dayMatch && findWeekday(dayMatch[1]);
+
+    if (!from) {
+      // No day prefix: the same hours apply all week
+      if (segments.length > 1) return undefined;
+      const ranges = parseRanges(segment);
+      return ranges ? createWeeklyHours(ranges) : undefined;
+    }
+
+    const to = dayMatch[2] ? findWeekday(dayMatch[2]) : from;
+    const ranges = parseRanges(dayMatch[3]);
+    if (!to || !ranges) return undefined;
+
+    expandDays(from, to).forEach(day => {
+      hours[day] = ranges.map(range => ({ ...range }));
+    });
+  }
+
+  return hours;
+};
+
+// Structured hours for a restroom, parsed from the free-text openHours
+// when it predates structured hours
+export const getRestroomHours = (restroom: Restroom): WeeklyHours | undefined => {
+  const businessInfo = restroom.businessInfo;
+  if (!businessInfo) return undefined;
+  return businessInfo.hours ?? (businessInfo.openHours ? parseOpenHours(businessInfo.openHours) : undefined);
+};
+
+export interface OpenStatus {
+  isOpen: boolean;
+  // When the current opening ends; undefined while open means it stays open
+  // for at least the coming week (24/7)
+  closesAt?: Date;
+  // When it next opens; undefined while closed means not within a week
+  opensAt?: Date;
+  // Label of the holiday whose hours apply on the checked date
+  holiday?: string;
+}
+
+// How far ahead opening and closing times are looked up
+const STATUS_WINDOW_DAYS = 7;
+
+const toMinutes = (time: string) => {
+  const [hours, minutes] = time.split(':').map(Number);
+  return hours * 60 + minutes;
+};
+
+const weekdayOf = (date: Date): Weekday => weekdays[(date.getDay() + 6) % 7];
+
+const findHoliday = (date: Date, holidays: HolidayHours[] = []) => {
+  const key = format(date, "yyyy-MM-dd");
+  return holidays.find(holiday => holiday.date === key);
+};
+
+// Opening intervals from the day before `at` until the end of the window,
+// with back-to-back intervals (e.g. 24/7 days) merged into one
+const getOpenIntervals = (hours: WeeklyHours, holidays: HolidayHours[] | undefined, at: Date) => {
+  const intervals: { start: Date; end: Date }[] = [];
+  const today = startOfDay(at);
+
+  for (let offset = -1; offset <= STATUS_WINDOW_DAYS; offset++) {
+    const day = addDays(today, offset);
+    const holiday = findHoliday(day, holidays);
+    const ranges = holiday ? holiday.ranges : hours[weekdayOf(day)];
+
+    ranges.forEach(range => {
+      const open = toMinutes(range.open);
+      let close = toMinutes(range.close);
+      // Ranges that close earlier than they open run past midnight
+      if (close <= open) close += 24 * 60;
+      intervals.push({ start: addMinutes(day, open), end: addMinutes(day, close) });
+    });
+  }
+
+  intervals.sort((a, b) => a.start.getTime() - b.start.getTime());
+
+  return intervals.reduce<{ start: Date; end: Date }[]>((merged, interval) => {
+    const last = merged[merged.length - 1];
+    if (last && interval.start <= last.end) {
+      if (interval.end > last.end) last.end = interval.end;
+    } else {
+      merged.push({ ...interval });
+    }
+    return merged;
+  }, []);
+};
+
+// Whether a restroom is open at a given moment, and when that changes.
+// Returns undefined when its hours are unknown.
+export const getOpenStatus = (restroom: Restroom, at: Date = new Date()): OpenStatus | undefined => {
+  const hours = getRestroomHours(restroom);
+  if (!hours) return undefined;
+
+  const holidays = restroom.businessInfo?.holidays;
+  const holiday = findHoliday(at, holidays)?.label;
+  const intervals = getOpenIntervals(hours, holidays, at);
+  const windowEnd = addDays(startOfDay(at), STATUS_WINDOW_DAYS + 1);
+
+  const current = intervals.find(interval => interval.start <= at && at < interval.end);
+  if (current) {
+    return {
+      isOpen: true,
+      closesAt: current.end < windowEnd ? current.end : undefined,
+      holiday,
+    };
+  }
+
+  const next = intervals.find(interval => interval.start > at);
+  return { isOpen: false, opensAt: next?.start, holiday };
+};
+
+// Restrooms with unknown hours are never reported as open
+export const isOpenAt = (restroom: Restroom, at: Date = new Date()): boolean =>
+  getOpenStatus(restroom, at)?.isOpen === true;
+
+export const minutesUntil = (date: Date, from: Date = new Date()): number =>
+  Math.max(0, Math.round((date.getTime() - from.getTime()) / 60000));
+
+// "10:00 PM" today, "Mon 6:00 AM" on another day
+export const formatStatusTime = (date: Date, from: Date = new Date()): string => {
+  const time = formatTime(format(date, "HH:mm"));
+  return isSameDay(date, from) ? time : `${weekdayLabels[weekdayOf(date)]} ${time}`;
+};
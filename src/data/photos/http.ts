@@ -0,0 +1,25 @@
+import axios from "axios";
+import { ReviewPhoto } from "@/types";
+import { PhotoStorage } from "./types";
+
+interface UploadResponse {
+  url: string;
+  thumbnailUrl: string;
+}
+
+// Uploads to a server exposing:
+//   POST {baseUrl}/photos   multipart "image" and "thumbnail" -> { url, thumbnailUrl }
+export const createHttpPhotoStorage = (baseUrl: string): PhotoStorage => {
+  const client = axios.create({ baseURL: baseUrl.replace(/\/+$/, "") });
+
+  return {
+    save: async (photo): Promise<ReviewPhoto> => {
+      const form = new FormData();
+      form.append("image", photo.image, "photo.jpg");
+      form.append("thumbnail", photo.thumbnail, "thumbnail.jpg");
+
+      const response = await client.post<UploadResponse>("/photos", form);
+      return { ...response.data, width: photo.width, height: photo.height };
+    },
+  };
+};
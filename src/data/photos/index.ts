@@ -0,0 +1,45 @@
+import axios from "axios";
+import { createHttpPhotoStorage } from "./http";
+import { createInlinePhotoStorage } from "./inline";
+import { PhotoStorage } from "./types";
+
+export type { PhotoStorage, ProcessedPhoto } from "./types";
+export type { PhotoOptions } from "./pipeline";
+export { defaultPhotoOptions, processPhoto } from "./pipeline";
+export { createHttpPhotoStorage } from "./http";
+export { createInlinePhotoStorage } from "./inline";
+
+// Without a connection an upload can't happen, so the photo travels inline
+// with the review, which is queued until the device is back online
+const withInlineFallback = (primary: PhotoStorage, fallback: PhotoStorage): PhotoStorage => ({
+  save: async (photo) => {
+    try {
+      return await primary.save(photo);
+    } catch (error) {
+      if (!axios.isAxiosError(error) || error.response) throw error;
+      console.error("Photo upload failed, keeping it with the review:", error);
+      return fallback.save(photo);
+    }
+  },
+});
+
+// Uploads to VITE_PHOTO_UPLOAD_URL, or the restroom backend when there is
+// one; otherwise photos stay inline with their review
+const createDefaultPhotoStorage = (): PhotoStorage => {
+  const uploadUrl = import.meta.env.VITE_PHOTO_UPLOAD_URL || import.meta.env.VITE_RESTROOM_API_URL;
+  const inline = createInlinePhotoStorage();
+  return uploadUrl ? withInlineFallback(createHttpPhotoStorage(uploadUrl), inline) : inline;
+};
+
+let photoStorage: PhotoStorage | null = null;
+
+export const getPhotoStorage = (): PhotoStorage => {
+  if (!photoStorage) {
+    photoStorage = createDefaultPhotoStorage();
+  }
+  return photoStorage;
+};
+
+export const setPhotoStorage = (next: PhotoStorage) => {
+  photoStorage = next;
+};
@@ -0,0 +1,22 @@
+import { PhotoStorage } from "./types";
+
+const toDataUrl = (blob: Blob) =>
+  new Promise<string>((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(reader.result as string);
+    reader.onerror = () => reject(reader.error);
+    reader.readAsDataURL(blob);
+  });
+
+// Keeps photos on the device as data URLs inside the review itself, so they
+// are stored, queued and synced wherever the review goes. Fine for a few
+// compressed photos; use an upload server for anything bigger. Once the
+// device's storage is full, saving the review fails with a quota error.
+export const createInlinePhotoStorage = (): PhotoStorage => ({
+  save: async (photo) => ({
+    url: await toDataUrl(photo.image),
+    thumbnailUrl: await toDataUrl(photo.thumbnail),
+    width: photo.width,
+    height: photo.height,
+  }),
+});
@@ -0,0 +1,89 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { processPhoto } from "./pipeline";
+
+// A camera JPEG with an EXIF block carrying where it was taken
+const exif = "Exif\0\0GPSLatitude 11.0168 GPSLongitude 76.9558";
+const photoOf = (name: string, type: string) => new File([`\xff\xd8${exif}pixels`], name, { type });
+
+// Stands in for a canvas: "encodes" what was drawn as a JPEG of its size
+const createCanvas = () => {
+  const canvas = {
+    width: 0,
+    height: 0,
+    getContext: () => ({
+      fillRect: vi.fn(),
+      drawImage: vi.fn(),
+    }),
+    toBlob: (callback: (blob: Blob | null) => void, type: string, quality: number) =>
+      callback(new Blob([`${canvas.width}x${canvas.height} at ${quality}`], { type })),
+  };
+  return canvas;
+};
+
+let bitmap: { width: number; height: number; close: () => void };
+
+beforeEach(() => {
+  bitmap = { width: 4000, height: 3000, close: vi.fn() };
+  vi.stubGlobal("createImageBitmap", vi.fn(async () => bitmap));
+  vi.stubGlobal("HTMLImageElement", class {});
+  vi.stubGlobal("document", { createElement: createCanvas });
+});
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+});
+
+describe("processPhoto", () => {
+  it.each([
+    ["a text file", "notes.txt", "text/plain"],
+    ["a video", "clip.mp4", "video/mp4"],
+    ["a file of unknown type", "photo", ""],
+  ])("rejects %s", async (_, name, type) => {
+    await expect(processPhoto(photoOf(name, type))).rejects.toThrow(`${name} is not an image`);
+    expect(createImageBitmap).not.toHaveBeenCalled();
+  });
+
+  it.each([
+    ["a JPEG", "photo.jpg", "image/jpeg"],
+    ["a PNG screenshot", "screen.png", "image/png"],
+    ["a HEIC photo", "IMG_0001.heic", "image/heic"],
+  ])("re-encodes %s as JPEG", async (_, name, type) => {
+    const photo = await processPhoto(photoOf(name, type));
+
+    expect(photo.image.type).toBe("image/jpeg");
+    expect(photo.thumbnail.type).toBe("image/jpeg");
+  });
+
+  it("keeps none of the original's metadata", async () => {
+    const photo = await processPhoto(photoOf("photo.jpg", "image/jpeg"));
+
+    expect(await photo.image.text()).not.toContain("GPS");
+    expect(await photo.thumbnail.text()).not.toContain("GPS");
+  });
+
+  it("scales the photo and its thumbnail down to the longest side", async () => {
+    const photo = await processPhoto(photoOf("photo.jpg", "image/jpeg"), {
+      maxSize: 1600,
+      thumbnailSize: 320,
+      quality: 0.8,
+    });
+
+    expect(photo).toMatchObject({ width: 1600, height: 1200 });
+    expect(await photo.image.text()).toBe("1600x1200 at 0.8");
+    expect(await photo.thumbnail.text()).toBe("320x240 at 0.8");
+  });
+
+  it("leaves a small photo at its own size", async () => {
+    bitmap = { width: 600, height: 800, close: vi.fn() };
+    const photo = await processPhoto(photoOf("photo.jpg", "image/jpeg"));
+
+    expect(photo).toMatchObject({ width: 600, height: 800 });
+  });
+
+  it("decodes upright and releases the decoded image", async () => {
+    await processPhoto(photoOf("photo.jpg", "image/jpeg"));
+
+    expect(createImageBitmap).toHaveBeenCalledWith(expect.any(File), { imageOrientation: "from-image" });
+    expect(bitmap.close).toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,87 @@
+import { ProcessedPhoto } from "./types";
+
+export interface PhotoOptions {
+  // Longest side in pixels
+  maxSize: number;
+  thumbnailSize: number;
+  // JPEG quality, 0-1
+  quality: number;
+}
+
+// Sharp on a phone screen at well under 500 KB per photo
+export const defaultPhotoOptions: PhotoOptions = {
+  maxSize: 1600,
+  thumbnailSize: 320,
+  quality: 0.82,
+};
+
+type Drawable = ImageBitmap | HTMLImageElement;
+
+// Decodes with the EXIF orientation applied, so portrait shots stay upright
+// once the metadata is gone
+const decodeImage = async (file: File): Promise<Drawable> => {
+  if (typeof createImageBitmap === "function") {
+    return createImageBitmap(file, { imageOrientation: "from-image" });
+  }
+
+  const url = URL.createObjectURL(file);
+  try {
+    const image = new Image();
+    image.src = url;
+    await image.decode();
+    return image;
+  } finally {
+    URL.revokeObjectURL(url);
+  }
+};
+
+const sizeOf = (image: Drawable) =>
+  image instanceof HTMLImageElement
+    ? { width: image.naturalWidth, height: image.naturalHeight }
+    : { width: image.width, height: image.height };
+
+// Draws the image no larger than `maxSize` and encodes it as JPEG. The
+// canvas only holds pixels, which is what drops the EXIF block.
+const encode = (image: Drawable, maxSize: number, quality: number) => {
+  const { width, height } = sizeOf(image);
+  const scale = Math.min(1, maxSize / Math.max(width, height));
+  const canvas = document.createElement("canvas");
+  canvas.width = Math.max(1, Math.round(width * scale));
+  canvas.height = Math.max(1, Math.round(height * scale));
+
+  const context = canvas.getContext("2d");
+  if (!context) throw new Error("Canvas is not available");
+  // JPEG has no transparency; PNG screenshots would turn black without this
+  context.fillStyle = "#fff";
+  context.fillRect(0, 0, canvas.width, canvas.height);
+  context.imageSmoothingQuality = "high";
+  context.drawImage(image, 0, 0, canvas.width, canvas.height);
+
+  return new Promise<{ blob: Blob; width: number; height: number }>((resolve, reject) => {
+    canvas.toBlob(
+      blob => (blob ? resolve({ blob, width: canvas.width, height: canvas.height }) : reject(new Error("Could not encode photo"))),
+      "image/jpeg",
+      quality
+    );
+  });
+};
+
+// Resizes, compresses and strips metadata from a photo picked for a review,
+// and makes its thumbnail. Runs entirely in the browser, so the original
+// with its location never leaves the device.
+export const processPhoto = async (file: File, options: PhotoOptions = defaultPhotoOptions): Promise<ProcessedPhoto> => {
+  if (!file.type.startsWith("image/")) {
+    throw new Error(`${file.name} is not an image`);
+  }
+
+  const image = await decodeImage(file);
+  try {
+    const full = await encode(image, options.maxSize, options.quality);
+    const thumbnail = await encode(image, options.thumbnailSize, options.quality);
+    return { image: full.blob, thumbnail: thumbnail.blob, width: full.width, height: full.height };
+  } finally {
+    if (!(image instanceof HTMLImageElement)) {
+      image.close();
+    }
+  }
+};
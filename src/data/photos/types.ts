@@ -0,0 +1,16 @@
+import { ReviewPhoto } from "@/types";
+
+// A photo ready to store: a resized JPEG and its thumbnail. Both were
+// re-encoded from pixels, so they carry no EXIF data, GPS position included.
+export interface ProcessedPhoto {
+  image: Blob;
+  thumbnail: Blob;
+  width: number;
+  height: number;
+}
+
+// Where review photos are kept. Like the restroom repository, components
+// reach it through a getter so the backend can be swapped.
+export interface PhotoStorage {
+  save: (photo: ProcessedPhoto) => Promise<ReviewPhoto>;
+}
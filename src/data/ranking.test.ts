@@ -0,0 +1,111 @@
+import { describe, expect, it } from "vitest";
+import { Restroom, Review } from "@/types";
+import { RestroomResult, SortMode, formatDistance, sortRestroomResults, toRestroomResults } from "./ranking";
+
+const reviewRated = (rating: number): Review => ({
+  id: `review-${rating}`,
+  userId: "device-1",
+  userName: "You",
+  rating,
+  date: "2024-01-01T10:00:00Z",
+  cleanliness: 3,
+  status: "approved",
+});
+
+const restroomOf = (id: string, score: number, reviews: Review[] = []): Restroom => ({
+  id,
+  name: id,
+  location: { lat: 11.0168, lng: 76.9558 },
+  amenities: [],
+  cleanliness: { score, lastUpdated: "2024-01-01T00:00:00Z", reports: 1 },
+  accessibility: false,
+  babyChanging: false,
+  genderNeutral: false,
+  reviews,
+});
+
+const resultOf = (id: string, score: number, distance?: number, reviews?: Review[]): RestroomResult => ({
+  restroom: restroomOf(id, score, reviews),
+  distance,
+});
+
+const order = (results: RestroomResult[], mode: SortMode) =>
+  sortRestroomResults(results, mode).map(result => result.restroom.id);
+
+describe("sortRestroomResults", () => {
+  it.each<[string, SortMode, RestroomResult[], string[]]>([
+    [
+      "nearest first",
+      "nearest",
+      [resultOf("far", 90, 2), resultOf("near", 40, 0.5), resultOf("middle", 70, 1)],
+      ["near", "middle", "far"],
+    ],
+    [
+      "cleanest first without distances",
+      "nearest",
+      [resultOf("dirty", 30), resultOf("clean", 90), resultOf("fair", 60)],
+      ["clean", "fair", "dirty"],
+    ],
+    [
+      "cleanest first",
+      "cleanest",
+      [resultOf("fair", 60, 0.2), resultOf("clean", 90, 3), resultOf("dirty", 30, 0.1)],
+      ["clean", "fair", "dirty"],
+    ],
+    [
+      "the nearer of two equally clean ones first",
+      "cleanest",
+      [resultOf("far", 80, 2), resultOf("near", 80, 0.3)],
+      ["near", "far"],
+    ],
+    [
+      "a spotless restroom 3 km away before a dirty one next door",
+      "best",
+      [resultOf("next-door", 20, 0.05), resultOf("spotless", 100, 3)],
+      ["spotless", "next-door"],
+    ],
+    [
+      "the nearer of two equally clean ones first",
+      "best",
+      [resultOf("far", 70, 4), resultOf("near", 70, 0.5)],
+      ["near", "far"],
+    ],
+    [
+      "the better rated of two otherwise equal ones first",
+      "best",
+      [resultOf("one-star", 70, 1, [reviewRated(1)]), resultOf("five-star", 70, 1, [reviewRated(5)])],
+      ["five-star", "one-star"],
+    ],
+  ])("puts %s (%s)", (_, mode, results, expected) => {
+    expect(order(results, mode)).toEqual(expected);
+  });
+
+  it("leaves the results it was given in their order", () => {
+    const results = [resultOf("far", 90, 2), resultOf("near", 40, 0.5)];
+    sortRestroomResults(results, "nearest");
+    expect(results.map(result => result.restroom.id)).toEqual(["far", "near"]);
+  });
+});
+
+describe("toRestroomResults", () => {
+  it("adds the distance and travel time from the user", () => {
+    const [result] = toRestroomResults([restroomOf("a", 80)], { lat: 11.0258, lng: 76.9558 }, "walking");
+    expect(result.distance).toBeCloseTo(1, 1);
+    expect(result.travelMinutes).toBeGreaterThan(0);
+  });
+
+  it("leaves both out without a location", () => {
+    expect(toRestroomResults([restroomOf("a", 80)])).toEqual([{ restroom: restroomOf("a", 80) }]);
+  });
+});
+
+describe("formatDistance", () => {
+  it.each([
+    [0.347, "350 m"],
+    [0.05, "50 m"],
+    [1.24, "1.2 km"],
+    [12, "12.0 km"],
+  ])("%d km -> %s", (distance, text) => {
+    expect(formatDistance(distance)).toBe(text);
+  });
+});
@@ -0,0 +1,59 @@
+import { Restroom } from "../types";
+import { LatLng, haversineDistance } from "./geo";
+import { getAverageRating } from "./reviews";
+import { TravelMode, estimateTravelMinutes } from "./routing";
+
+export type SortMode = "nearest" | "cleanest" | "best";
+
+// A restroom as shown in results, with how far it is from the user
+export interface RestroomResult {
+  restroom: Restroom;
+  distance?: number; // kilometers, straight line; undefined without a location
+  travelMinutes?: number; // estimated for the travel mode the results were built for
+}
+
+export const toRestroomResults = (
+  restrooms: Restroom[],
+  from?: LatLng,
+  mode: TravelMode = "walking"
+): RestroomResult[] =>
+  restrooms.map(restroom => {
+    if (!from) return { restroom };
+
+    const distance = haversineDistance(from.lat, from.lng, restroom.location.lat, restroom.location.lng);
+    return { restroom, distance, travelMinutes: estimateTravelMinutes(distance, mode) };
+  });
+
+// 0-1 score balancing cleanliness, closeness and reviews. Proximity halves
+// at 1 km, so a spotless restroom 3 km away can still beat a dirty one next door.
+export const getOverallScore = (result: RestroomResult) => {
+  const cleanliness = result.restroom.cleanliness.score / 100;
+  const proximity = result.distance === undefined ? 0.5 : 1 / (1 + result.distance);
+  // Neutral when nobody has reviewed it yet
+  const rating = (getAverageRating(result.restroom) ?? 3) / 5;
+  return cleanliness * 0.55 + proximity * 0.35 + rating * 0.1;
+};
+
+// Returns a new array; "nearest" falls back to cleanliness without distances
+export const sortRestroomResults = (results: RestroomResult[], mode: SortMode): RestroomResult[] => {
+  const byCleanliness = (a: RestroomResult, b: RestroomResult) =>
+    b.restroom.cleanliness.score - a.restroom.cleanliness.score;
+
+  return [...results].sort((a, b) => {
+    switch (mode) {
+      case "nearest":
+        if (a.distance === undefined || b.distance === undefined) return byCleanliness(a, b);
+        return a.distance - b.distance;
+      case "cleanest":
+        return byCleanliness(a, b) || (a.distance ?? 0) - (b.distance ?? 0);
+      case "best":
+        return getOverallScore(b) - getOverallScore(a);
+    }
+  });
+};
+
+// "350 m" below a kilometer, "1.2 km" above
+export const formatDistance = (distanceInKm: number) =>
+  distanceInKm < 1
+    ? `${Math.round(distanceInKm * 1000 / 10) * 10} m`
+    : `${distanceInKm.toFixed(1)} km`;
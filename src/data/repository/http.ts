@@ -0,0 +1,73 @@
+import axios from "axios";
+import { Restroom, Review } from "@/types";
+import { applyReviews } from "../reviews";
+import { RestroomRepository } from "./types";
+
+// Talks to a REST backend exposing:
+//   GET  {baseUrl}/restrooms
+//   GET  {baseUrl}/restrooms?bbox=west,south,east,north
+//   GET  {baseUrl}/restrooms/:id
+//   POST {baseUrl}/restrooms
+//   PUT  {baseUrl}/restrooms/:id
+//   PUT  {baseUrl}/restrooms/:id/reviews/:reviewId
+// Reviews reach it through the feedback service, and the backend keeps the
+// aggregates up to date.
+export const createHttpRepository = (baseUrl: string): RestroomRepository => {
+  const client = axios.create({ baseURL: baseUrl.replace(/\/+$/, "") });
+
+  const getById = async (id: string) => {
+    try {
+      const response = await client.get<Restroom>(`/restrooms/${encodeURIComponent(id)}`);
+      return response.data;
+    } catch (error) {
+      // A missing restroom is not an error for callers
+      if (axios.isAxiosError(error) && error.response?.status === 404) {
+        return undefined;
+      }
+      throw error;
+    }
+  };
+
+  return {
+    list: async () => {
+      const response = await client.get<Restroom[]>("/restrooms");
+      return response.data;
+    },
+
+    listInBounds: async (bounds) => {
+      const response = await client.get<Restroom[]>("/restrooms", {
+        params: { bbox: [bounds.west, bounds.south, bounds.east, bounds.north].join(",") },
+      });
+      return response.data;
+    },
+
+    getById,
+
+    add: async (restroom: Restroom) => {
+      const response = await client.post<Restroom>("/restrooms", restroom);
+      return response.data;
+    },
+
+    // The review was posted already; a queued one is applied locally until it arrives
+    addReview: async (restroomId: string, review: Review) => {
+      const restroom = await getById(restroomId);
+      if (!restroom) throw new Error(`Unknown restroom ${restroomId}`);
+      return applyReviews(restroom, [review]);
+    },
+
+    update: async (restroom: Restroom) => {
+      const response = await client.put<Restroom>(`/restrooms/${encodeURIComponent(restroom.id)}`, restroom);
+      return response.data;
+    },
+
+    updateReview: async (restroomId: string, review: Review) => {
+      await client.put(
+        `/restrooms/${encodeURIComponent(restroomId)}/reviews/${encodeURIComponent(review.id)}`,
+        review
+      );
+      const restroom = await getById(restroomId);
+      if (!restroom) throw new Error(`Unknown restroom ${restroomId}`);
+      return restroom;
+    },
+  };
+};
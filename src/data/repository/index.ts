@@ -0,0 +1,68 @@
+import { getAllRestrooms } from "../restrooms";
+import { getUserRestrooms } from "../userRestrooms";
+import { createHttpRepository } from "./http";
+import { createIndexedDbRepository } from "./indexeddb";
+import { createLocalStorageRepository } from "./local";
+import { createMemoryRepository } from "./memory";
+import { withOfflineDataset } from "./offline";
+import { startBackgroundSync } from "./sync";
+import { RestroomRepository } from "./types";
+
+export type { RestroomRepository } from "./types";
+export type { IndexedDbRestroomRepository, PendingChange } from "./indexeddb";
+export { createHttpRepository } from "./http";
+export { createIndexedDbRepository } from "./indexeddb";
+export { createLocalStorageRepository, isStorageFull } from "./local";
+export { createMemoryRepository } from "./memory";
+export { withOfflineDataset } from "./offline";
+export { syncPendingChanges, startBackgroundSync } from "./sync";
+
+// Predefined restrooms plus the bundled fuel station dataset
+const getSeedRestrooms = () => [...getAllRestrooms(), ...getUserRestrooms()];
+
+// Pick an implementation from the build environment:
+// - VITE_RESTROOM_API_URL set          -> HTTP backend, falling back to
+//                                         regions saved for offline use
+// - VITE_RESTROOM_STORE === "memory"   -> in-memory only
+// - VITE_RESTROOM_STORE === "local"    -> bundled data + localStorage
+// - otherwise                          -> bundled data + IndexedDB, falling
+//                                         back to localStorage without it
+const createDefaultRepository = (): RestroomRepository => {
+  const apiUrl = import.meta.env.VITE_RESTROOM_API_URL;
+  if (apiUrl) {
+    return withOfflineDataset(createHttpRepository(apiUrl));
+  }
+
+  const store = import.meta.env.VITE_RESTROOM_STORE;
+  if (store === "memory") {
+    return createMemoryRepository(getSeedRestrooms());
+  }
+
+  if (store === "local" || typeof indexedDB === "undefined") {
+    return createLocalStorageRepository(getSeedRestrooms());
+  }
+
+  const indexedDbRepository = createIndexedDbRepository(getSeedRestrooms());
+
+  // Push queued additions to the server once one is configured
+  const syncUrl = import.meta.env.VITE_RESTROOM_SYNC_URL;
+  if (syncUrl) {
+    startBackgroundSync(indexedDbRepository, createHttpRepository(syncUrl));
+  }
+
+  return indexedDbRepository;
+};
+
+let repository: RestroomRepository | null = null;
+
+export const getRestroomRepository = (): RestroomRepository => {
+  if (!repository) {
+    repository = createDefaultRepository();
+  }
+  return repository;
+};
+
+// Swap the repository at runtime (e.g. to point at a different backend)
+export const setRestroomRepository = (next: RestroomRepository) => {
+  repository = next;
+};
@@ -0,0 +1,132 @@
+import { IDBFactory } from "fake-indexeddb";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { Restroom, Review } from "@/types";
+import { createIndexedDbRepository } from "./indexeddb";
+import { RESTROOM_SCHEMA_VERSION, StoredRestroom } from "./migrations";
+
+// What a first-version database held: schema 1 records, free-text hours only
+const cafe: StoredRestroom = {
+  id: "user-1",
+  name: "Annapoorna Cafe",
+  location: { lat: 11.0168, lng: 76.9558 },
+  amenities: ["soap"],
+  cleanliness: { score: 80, lastUpdated: "2024-01-01T00:00:00Z", reports: 2 },
+  accessibility: false,
+  babyChanging: false,
+  genderNeutral: false,
+  reviews: [],
+  businessInfo: { type: "cafe", openHours: "6:00 AM - 10:00 PM" },
+  schemaVersion: 1,
+};
+
+// Written before records were versioned
+const unversioned = {
+  id: "user-2",
+  name: "Bus Stand",
+  location: { lat: 11.1085, lng: 77.3411 },
+  accessibility: true,
+  babyChanging: false,
+  genderNeutral: false,
+} as StoredRestroom;
+
+const pendingAdd = { type: "add_restroom", payload: cafe, createdAt: "2024-01-01T00:00:00Z" };
+
+const review: Review = {
+  id: "review-1",
+  userId: "device-1",
+  userName: "You",
+  rating: 5,
+  date: "2024-02-01T10:00:00Z",
+  cleanliness: 5,
+};
+
+const memoryStorage = (items: Record<string, string> = {}) => {
+  const stored = new Map(Object.entries(items));
+  return {
+    getItem: (key: string) => stored.get(key) ?? null,
+    setItem: (key: string, value: string) => void stored.set(key, value),
+    removeItem: (key: string) => void stored.delete(key),
+  };
+};
+
+const requestToPromise = <T>(request: IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+// The database as version 1 of the app created and filled it
+const seedVersion1 = async () => {
+  const request = indexedDB.open("reststop", 1);
+  request.onupgradeneeded = () => {
+    const db = request.result;
+    db.createObjectStore("restrooms", { keyPath: "id" });
+    db.createObjectStore("outbox", { keyPath: "id", autoIncrement: true });
+  };
+  const db = await requestToPromise(request);
+
+  const transaction = db.transaction(["restrooms", "outbox"], "readwrite");
+  transaction.objectStore("restrooms").put(cafe);
+  transaction.objectStore("restrooms").put(unversioned);
+  transaction.objectStore("outbox").add(pendingAdd);
+  await new Promise(resolve => (transaction.oncomplete = resolve));
+  db.close();
+};
+
+const readStore = async <T>(store: string): Promise<T[]> => {
+  const db = await requestToPromise(indexedDB.open("reststop"));
+  const records = await requestToPromise<T[]>(db.transaction(store).objectStore(store).getAll());
+  db.close();
+  return records;
+};
+
+beforeEach(() => {
+  vi.stubGlobal("indexedDB", new IDBFactory());
+  vi.stubGlobal("localStorage", memoryStorage());
+});
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+});
+
+describe("createIndexedDbRepository", () => {
+  it("upgrades a first-version database without losing anything", async () => {
+    await seedVersion1();
+    const repository = createIndexedDbRepository();
+
+    const restrooms = await repository.list();
+    expect(restrooms.map(restroom => restroom.id).sort()).toEqual(["user-1", "user-2"]);
+    expect(await repository.getPendingChanges()).toEqual([{ ...pendingAdd, id: 1 }]);
+  });
+
+  it("rewrites old records in the current schema while upgrading", async () => {
+    await seedVersion1();
+    await createIndexedDbRepository().list();
+
+    const records = await readStore<StoredRestroom>("restrooms");
+    expect(records.map(record => record.schemaVersion)).toEqual([RESTROOM_SCHEMA_VERSION, RESTROOM_SCHEMA_VERSION]);
+
+    const [migratedCafe, migratedStand] = records;
+    expect(migratedCafe.businessInfo?.hours?.mon).toEqual([{ open: "06:00", close: "22:00" }]);
+    expect(migratedStand).toMatchObject({ amenities: [], reviews: [], cleanliness: { score: 0, reports: 0 } });
+  });
+
+  it("keeps reviews once the upgrade has added somewhere to store them", async () => {
+    await seedVersion1();
+    const repository = createIndexedDbRepository();
+
+    const updated = await repository.addReview("user-1", review);
+    expect(updated?.reviews).toEqual([review]);
+    expect(await readStore("reviews")).toEqual([{ ...review, restroomId: "user-1" }]);
+  });
+
+  it("imports the old localStorage store into a new database and queues it for sync", async () => {
+    const legacy: Restroom[] = [{ ...unversioned, reviews: [] }];
+    vi.stubGlobal("localStorage", memoryStorage({ "reststop-user-restrooms": JSON.stringify(legacy) }));
+    const repository = createIndexedDbRepository();
+
+    expect((await repository.list()).map(restroom => restroom.id)).toEqual(["user-2"]);
+    expect((await repository.getPendingChanges()).map(change => change.payload.id)).toEqual(["user-2"]);
+    expect(localStorage.getItem("reststop-user-restrooms")).toBeNull();
+  });
+});
@@ -0,0 +1,276 @@
+import { Restroom, Review } from "@/types";
+import { RestroomRepository } from "./types";
+import { GeoIndex, createRestroomIndex } from "../geo";
+import { isPublished } from "../moderation/status";
+import { applyReviews } from "../reviews";
+import {
+  StoredRestroom,
+  fromStoredRestroom,
+  migrateRestroom,
+  needsMigration,
+  toStoredRestroom,
+} from "./migrations";
+
+const DB_NAME = "reststop";
+// Bump it together with a new entry in `upgrades` whenever object stores or
+// indexes change. Restroom records have their own schema version and are
+// migrated when read, so a record schema change needs no database upgrade.
+const DB_VERSION = 3;
+
+const RESTROOM_STORE = "restrooms";
+const OUTBOX_STORE = "outbox";
+const REVIEW_STORE = "reviews";
+
+// Key used by the localStorage repository; its contents are imported once
+const LEGACY_STORAGE_KEY = "reststop-user-restrooms";
+
+// A review added on this device, for bundled and user-added restrooms alike
+type StoredReview = Review & { restroomId: string };
+
+// A local change waiting to be sent to the server
+export interface PendingChange {
+  id?: number;
+  type: "add_restroom" | "update_restroom";
+  payload: Restroom;
+  createdAt: string;
+}
+
+export interface IndexedDbRestroomRepository extends RestroomRepository {
+  // Queued changes, oldest first
+  getPendingChanges: () => Promise<PendingChange[]>;
+  removePendingChange: (id: number) => Promise<void>;
+}
+
+const requestToPromise = <T>(request: IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+const transactionDone = (transaction: IDBTransaction): Promise<void> =>
+  new Promise((resolve, reject) => {
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error);
+  });
+
+const importLegacyRestrooms = (transaction: IDBTransaction) => {
+  try {
+    const raw = localStorage.getItem(LEGACY_STORAGE_KEY);
+    if (!raw) return;
+
+    const restrooms = JSON.parse(raw) as StoredRestroom[];
+    const createdAt = new Date().toISOString();
+    restrooms.forEach(restroom => {
+      transaction.objectStore(RESTROOM_STORE).put(migrateRestroom(restroom));
+      // These were never sent anywhere, so queue them like fresh additions
+      transaction.objectStore(OUTBOX_STORE).add({
+        type: "add_restroom",
+        payload: fromStoredRestroom(restroom),
+        createdAt,
+      });
+    });
+    localStorage.removeItem(LEGACY_STORAGE_KEY);
+  } catch (error) {
+    console.error("Error importing stored restrooms:", error);
+  }
+};
+
+type DatabaseUpgrade = (db: IDBDatabase, transaction: IDBTransaction) => void;
+
+// Keyed by the database version an upgrade step brings it *to*
+const upgrades: Record<number, DatabaseUpgrade> = {
+  // Restrooms and the outbox, seeded from the old localStorage store
+  1: (db, transaction) => {
+    db.createObjectStore(RESTROOM_STORE, { keyPath: "id" });
+    db.createObjectStore(OUTBOX_STORE, { keyPath: "id", autoIncrement: true });
+    importLegacyRestrooms(transaction);
+  },
+  // Came with restroom schema 2 and changed no stores
+  2: () => {},
+  // Reviews added on this device
+  3: (db) => {
+    db.createObjectStore(REVIEW_STORE, { keyPath: "id" });
+  },
+};
+
+// Reads migrate records anyway; while upgrading, old ones are rewritten too
+const migrateStoredRestrooms = (transaction: IDBTransaction) => {
+  const request = transaction.objectStore(RESTROOM_STORE).openCursor();
+  request.onsuccess = () => {
+    const cursor = request.result;
+    if (!cursor) return;
+
+    const record = cursor.value as StoredRestroom;
+    if (needsMigration(record)) {
+      cursor.update(migrateRestroom(record));
+    }
+    cursor.continue();
+  };
+};
+
+const openDatabase = (): Promise<IDBDatabase> =>
+  new Promise((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+
+    request.onupgradeneeded = (event) => {
+      const db = request.result;
+      const transaction = request.transaction as IDBTransaction;
+
+      for (let version = event.oldVersion + 1; version <= DB_VERSION; version++) {
+        upgrades[version](db, transaction);
+      }
+      migrateStoredRestrooms(transaction);
+    };
+
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+// Serves the bundled dataset and keeps user additions and reviews in
+// IndexedDB. Every added restroom is also queued in an outbox so it can be
+// pushed to a server later; reviews travel through the feedback service.
+export const createIndexedDbRepository = (seed: Restroom[] = []): IndexedDbRestroomRepository => {
+  let dbPromise: Promise<IDBDatabase> | null = null;
+  const getDatabase = () => {
+    if (!dbPromise) {
+      dbPromise = openDatabase();
+    }
+    return dbPromise;
+  };
+
+  const getStoredRestrooms = async (): Promise<Restroom[]> => {
+    const db = await getDatabase();
+    const records = await requestToPromise<StoredRestroom[]>(
+      db.transaction(RESTROOM_STORE).objectStore(RESTROOM_STORE).getAll()
+    );
+    return records.map(fromStoredRestroom);
+  };
+
+  const getStoredReviews = async (): Promise<Map<string, Review[]>> => {
+    const db = await getDatabase();
+    const records = await requestToPromise<StoredReview[]>(
+      db.transaction(REVIEW_STORE).objectStore(REVIEW_STORE).getAll()
+    );
+    const byRestroom = new Map<string, Review[]>();
+    records.forEach(({ restroomId, ...review }) => {
+      byRestroom.set(restroomId, [...(byRestroom.get(restroomId) ?? []), review]);
+    });
+    return byRestroom;
+  };
+
+  const list = async () => {
+    const [stored, reviews] = await Promise.all([getStoredRestrooms(), getStoredReviews()]);
+    return [...seed, ...stored]
+      .filter(isPublished)
+      .map(restroom => applyReviews(restroom, reviews.get(restroom.id) ?? []));
+  };
+
+  const getById = async (id: string) => (await list()).find(restroom => restroom.id === id);
+
+  // Built on the first viewport query and dropped by every write, so panning
+  // the map doesn't re-read the database
+  let index: Promise<GeoIndex<Restroom>> | null = null;
+
+  return {
+    list,
+
+    getById,
+
+    listInBounds: async (bounds) => {
+      if (!index) {
+        const building = list().then(createRestroomIndex);
+        // A failed read is tried again by the next query
+        building.catch(() => {
+          if (index === building) index = null;
+        });
+        index = building;
+      }
+      return (await index).withinBounds(bounds).map(result => result.item);
+    },
+
+    add: async (restroom: Restroom) => {
+      const newRestroom = {
+        ...restroom,
+        id: restroom.id || `user-${Date.now()}`,
+      };
+
+      // Store the restroom and queue it for sync in a single transaction
+      const db = await getDatabase();
+      const transaction = db.transaction([RESTROOM_STORE, OUTBOX_STORE], "readwrite");
+      transaction.objectStore(RESTROOM_STORE).put(toStoredRestroom(newRestroom));
+      transaction.objectStore(OUTBOX_STORE).add({
+        type: "add_restroom",
+        payload: newRestroom,
+        createdAt: new Date().toISOString(),
+      } as PendingChange);
+      await transactionDone(transaction);
+      index = null;
+
+      return newRestroom;
+    },
+
+    addReview: async (restroomId: string, review: Review) => {
+      if (!(await getById(restroomId))) throw new Error(`Unknown restroom ${restroomId}`);
+
+      const db = await getDatabase();
+      const transaction = db.transaction(REVIEW_STORE, "readwrite");
+      transaction.objectStore(REVIEW_STORE).put({ ...review, restroomId } as StoredReview);
+      await transactionDone(transaction);
+      index = null;
+
+      return getById(restroomId);
+    },
+
+    // Only restrooms added on this device are stored here and can change
+    update: async (restroom: Restroom) => {
+      const db = await getDatabase();
+      const existing = await requestToPromise<StoredRestroom | undefined>(
+        db.transaction(RESTROOM_STORE).objectStore(RESTROOM_STORE).get(restroom.id)
+      );
+      if (!existing) throw new Error(`Unknown restroom ${restroom.id}`);
+
+      const updated = { ...restroom, reviews: fromStoredRestroom(existing).reviews };
+      const transaction = db.transaction([RESTROOM_STORE, OUTBOX_STORE], "readwrite");
+      transaction.objectStore(RESTROOM_STORE).put(toStoredRestroom(updated));
+      transaction.objectStore(OUTBOX_STORE).add({
+        type: "update_restroom",
+        payload: updated,
+        createdAt: new Date().toISOString(),
+      } as PendingChange);
+      await transactionDone(transaction);
+      index = null;
+
+      return (await getById(restroom.id)) ?? updated;
+    },
+
+    updateReview: async (restroomId: string, review: Review) => {
+      const db = await getDatabase();
+      const existing = await requestToPromise<StoredReview | undefined>(
+        db.transaction(REVIEW_STORE).objectStore(REVIEW_STORE).get(review.id)
+      );
+      if (existing?.restroomId !== restroomId) throw new Error(`Unknown review ${review.id}`);
+
+      const transaction = db.transaction(REVIEW_STORE, "readwrite");
+      transaction.objectStore(REVIEW_STORE).put({ ...review, restroomId } as StoredReview);
+      await transactionDone(transaction);
+      index = null;
+
+      return getById(restroomId);
+    },
+
+    getPendingChanges: async () => {
+      const db = await getDatabase();
+      return requestToPromise<PendingChange[]>(
+        db.transaction(OUTBOX_STORE).objectStore(OUTBOX_STORE).getAll()
+      );
+    },
+
+    removePendingChange: async (id: number) => {
+      const db = await getDatabase();
+      const transaction = db.transaction(OUTBOX_STORE, "readwrite");
+      transaction.objectStore(OUTBOX_STORE).delete(id);
+      await transactionDone(transaction);
+    },
+  };
+};
@@ -0,0 +1,95 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { Restroom, Review } from "@/types";
+import { createLocalStorageRepository, isStorageFull } from "./local";
+
+const restroom: Restroom = {
+  id: "test",
+  name: "Test",
+  location: { lat: 11, lng: 77 },
+  amenities: [],
+  cleanliness: { score: 80, lastUpdated: "2024-01-01T00:00:00Z", reports: 0 },
+  accessibility: false,
+  babyChanging: false,
+  genderNeutral: false,
+  reviews: [],
+};
+
+const review: Review = {
+  id: "review-x",
+  userId: "device-1",
+  userName: "You",
+  rating: 4,
+  date: "2024-01-01T10:00:00Z",
+  cleanliness: 4,
+  photos: [{ url: "data:image/jpeg;base64,...", thumbnailUrl: "data:image/jpeg;base64,...", width: 1280, height: 960 }],
+};
+
+// localStorage that is already full
+const fullStorage = {
+  getItem: () => null,
+  setItem: () => {
+    throw new DOMException("The quota has been exceeded.", "QuotaExceededError");
+  },
+};
+
+const memoryStorage = () => {
+  const items = new Map<string, string>();
+  return {
+    getItem: (key: string) => items.get(key) ?? null,
+    setItem: (key: string, value: string) => void items.set(key, value),
+  };
+};
+
+// Around the test restroom
+const bounds = { south: 10.9, west: 76.9, north: 11.1, east: 77.1 };
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+});
+
+describe("createLocalStorageRepository", () => {
+  it("fails with an error that says storage is full", async () => {
+    vi.stubGlobal("localStorage", fullStorage);
+    const repository = createLocalStorageRepository([restroom]);
+
+    const error = await repository.addReview("test", review).catch(error => error);
+    expect(isStorageFull(error)).toBe(true);
+  });
+
+  it("lists what was written since the last viewport query", async () => {
+    vi.stubGlobal("localStorage", memoryStorage());
+    const repository = createLocalStorageRepository([restroom]);
+    expect((await repository.listInBounds(bounds)).map(found => found.id)).toEqual(["test"]);
+
+    await repository.add({ ...restroom, id: "added", location: { lat: 11.01, lng: 77.01 } });
+    await repository.addReview("test", { ...review, status: "approved" });
+
+    const found = await repository.listInBounds(bounds);
+    expect(found.map(restroom => restroom.id).sort()).toEqual(["added", "test"]);
+    expect(found.find(restroom => restroom.id === "test")?.reviews).toHaveLength(1);
+  });
+
+  it("reads storage once for repeated viewport queries", async () => {
+    const storage = memoryStorage();
+    const getItem = vi.fn(storage.getItem);
+    vi.stubGlobal("localStorage", { ...storage, getItem });
+    const repository = createLocalStorageRepository([restroom]);
+
+    await repository.listInBounds(bounds);
+    const reads = getItem.mock.calls.length;
+    await repository.listInBounds({ ...bounds, north: 11.05 });
+
+    expect(getItem).toHaveBeenCalledTimes(reads);
+  });
+});
+
+describe("isStorageFull", () => {
+  it.each([
+    [new DOMException("", "QuotaExceededError"), true],
+    [new DOMException("", "NS_ERROR_DOM_QUOTA_REACHED"), true],
+    [new DOMException("", "AbortError"), false],
+    [new Error("QuotaExceededError"), false],
+  ])("%s -> %s", (error, full) => {
+    expect(isStorageFull(error)).toBe(full);
+  });
+});
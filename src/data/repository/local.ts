@@ -0,0 +1,116 @@
+import { Restroom, Review } from "@/types";
+import { RestroomRepository } from "./types";
+import { GeoIndex, createRestroomIndex } from "../geo";
+import { isPublished } from "../moderation/status";
+import { applyReviews } from "../reviews";
+
+const DEFAULT_STORAGE_KEY = "reststop-user-restrooms";
+
+// The browser refused to store more. localStorage holds about 5 MB, which
+// reviews with inline photos fill quickly; IndexedDB has a quota too.
+export const isStorageFull = (error: unknown) =>
+  error instanceof DOMException &&
+  (error.name === "QuotaExceededError" || error.name === "NS_ERROR_DOM_QUOTA_REACHED");
+
+const readStoredRestrooms = (storageKey: string): Restroom[] => {
+  try {
+    const raw = localStorage.getItem(storageKey);
+    return raw ? (JSON.parse(raw) as Restroom[]) : [];
+  } catch (error) {
+    console.error("Error reading stored restrooms:", error);
+    return [];
+  }
+};
+
+// Reviews added per restroom id, for bundled and user-added restrooms alike
+const readStoredReviews = (storageKey: string): Record<string, Review[]> => {
+  try {
+    const raw = localStorage.getItem(storageKey);
+    return raw ? (JSON.parse(raw) as Record<string, Review[]>) : {};
+  } catch (error) {
+    console.error("Error reading stored reviews:", error);
+    return {};
+  }
+};
+
+// Serves the bundled dataset and keeps user additions and reviews in
+// localStorage so they survive a page reload.
+export const createLocalStorageRepository = (
+  seed: Restroom[] = [],
+  storageKey: string = DEFAULT_STORAGE_KEY
+): RestroomRepository => {
+  const reviewsKey = `${storageKey}-reviews`;
+
+  const list = async () => {
+    const reviews = readStoredReviews(reviewsKey);
+    return [...seed, ...readStoredRestrooms(storageKey)]
+      .filter(isPublished)
+      .map(restroom => applyReviews(restroom, reviews[restroom.id] ?? []));
+  };
+
+  const getById = async (id: string) => (await list()).find(restroom => restroom.id === id);
+
+  // Built on the first viewport query and dropped by every write, so panning
+  // the map doesn't re-read storage
+  let index: Promise<GeoIndex<Restroom>> | null = null;
+
+  return {
+    list,
+
+    getById,
+
+    listInBounds: async (bounds) => {
+      if (!index) {
+        index = list().then(createRestroomIndex);
+      }
+      return (await index).withinBounds(bounds).map(result => result.item);
+    },
+
+    add: async (restroom: Restroom) => {
+      const newRestroom = {
+        ...restroom,
+        id: restroom.id || `user-${Date.now()}`,
+      };
+      const stored = readStoredRestrooms(storageKey);
+      localStorage.setItem(storageKey, JSON.stringify([...stored, newRestroom]));
+      index = null;
+      return newRestroom;
+    },
+
+    addReview: async (restroomId: string, review: Review) => {
+      if (!(await getById(restroomId))) throw new Error(`Unknown restroom ${restroomId}`);
+
+      const reviews = readStoredReviews(reviewsKey);
+      reviews[restroomId] = [...(reviews[restroomId] ?? []), review];
+      localStorage.setItem(reviewsKey, JSON.stringify(reviews));
+      index = null;
+      return getById(restroomId);
+    },
+
+    // Only restrooms added on this device are stored here and can change
+    update: async (restroom: Restroom) => {
+      const stored = readStoredRestrooms(storageKey);
+      const existing = stored.find(stored => stored.id === restroom.id);
+      if (!existing) throw new Error(`Unknown restroom ${restroom.id}`);
+
+      const updated = { ...restroom, reviews: existing.reviews };
+      localStorage.setItem(
+        storageKey,
+        JSON.stringify(stored.map(stored => (stored.id === restroom.id ? updated : stored)))
+      );
+      index = null;
+      return (await getById(restroom.id)) ?? updated;
+    },
+
+    updateReview: async (restroomId: string, review: Review) => {
+      const reviews = readStoredReviews(reviewsKey);
+      const added = reviews[restroomId] ?? [];
+      if (!added.some(existing => existing.id === review.id)) throw new Error(`Unknown review ${review.id}`);
+
+      reviews[restroomId] = added.map(existing => (existing.id === review.id ? review : existing));
+      localStorage.setItem(reviewsKey, JSON.stringify(reviews));
+      index = null;
+      return getById(restroomId);
+    },
+  };
+};
@@ -0,0 +1,44 @@
+import { describe, expect, it } from "vitest";
+import { Restroom, Review } from "@/types";
+import { createMemoryRepository } from "./memory";
+
+const restroom: Restroom = {
+  id: "test",
+  name: "Test",
+  location: { lat: 11, lng: 77 },
+  amenities: [],
+  cleanliness: { score: 80, lastUpdated: "2024-01-01T00:00:00Z", reports: 0 },
+  accessibility: false,
+  babyChanging: false,
+  genderNeutral: false,
+  reviews: [],
+};
+
+const review: Review = {
+  id: "review-x",
+  userId: "device-1",
+  userName: "You",
+  rating: 4,
+  date: "2024-01-01T10:00:00Z",
+  cleanliness: 4,
+};
+
+describe("createMemoryRepository", () => {
+  it("updates a review it holds", async () => {
+    const repository = createMemoryRepository([restroom]);
+    await repository.addReview("test", review);
+
+    const updated = await repository.updateReview("test", { ...review, helpfulVotes: 3 });
+    expect(updated.reviews.find(existing => existing.id === review.id)?.helpfulVotes).toBe(3);
+  });
+
+  it.each([
+    ["an unknown restroom", "missing", review, "Unknown restroom missing"],
+    ["an unknown review", "test", { ...review, id: "review-y" }, "Unknown review review-y"],
+  ])("refuses to update a review of %s", async (_, restroomId, changed, message) => {
+    const repository = createMemoryRepository([restroom]);
+    await repository.addReview("test", review);
+
+    await expect(repository.updateReview(restroomId, changed)).rejects.toThrow(message);
+  });
+});
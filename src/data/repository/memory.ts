@@ -0,0 +1,73 @@
+import { Restroom, Review } from "@/types";
+import { createRestroomIndex } from "../geo";
+import { isPublished } from "../moderation/status";
+import { applyReviews } from "../reviews";
+import { RestroomRepository } from "./types";
+
+// Keeps everything in a plain array. Additions are lost on reload, which
+// makes this the right choice for tests and throwaway demos.
+export const createMemoryRepository = (seed: Restroom[] = []): RestroomRepository => {
+  const restrooms: Restroom[] = [...seed];
+  // Reviews added per restroom id, applied on read
+  const reviews = new Map<string, Review[]>();
+  const withReviews = (restroom: Restroom) => applyReviews(restroom, reviews.get(restroom.id) ?? []);
+  // Rebuilt lazily after additions
+  let index: ReturnType<typeof createRestroomIndex> | null = null;
+
+  return {
+    list: async () => restrooms.filter(isPublished).map(withReviews),
+
+    getById: async (id: string) => {
+      const restroom = restrooms.find(restroom => restroom.id === id);
+      return restroom && isPublished(restroom) ? withReviews(restroom) : undefined;
+    },
+
+    listInBounds: async (bounds) => {
+      if (!index) {
+        index = createRestroomIndex(restrooms);
+      }
+      return index
+        .withinBounds(bounds)
+        .filter(result => isPublished(result.item))
+        .map(result => withReviews(result.item));
+    },
+
+    add: async (restroom: Restroom) => {
+      const newRestroom = {
+        ...restroom,
+        id: restroom.id || `user-${Date.now()}`,
+      };
+      restrooms.push(newRestroom);
+      index = null;
+      return newRestroom;
+    },
+
+    addReview: async (restroomId: string, review: Review) => {
+      const restroom = restrooms.find(restroom => restroom.id === restroomId);
+      if (!restroom) throw new Error(`Unknown restroom ${restroomId}`);
+
+      reviews.set(restroomId, [...(reviews.get(restroomId) ?? []), review]);
+      return withReviews(restroom);
+    },
+
+    update: async (restroom: Restroom) => {
+      const position = restrooms.findIndex(existing => existing.id === restroom.id);
+      if (position === -1) throw new Error(`Unknown restroom ${restroom.id}`);
+
+      restrooms[position] = { ...restroom, reviews: restrooms[position].reviews };
+      index = null;
+      return withReviews(restrooms[position]);
+    },
+
+    updateReview: async (restroomId: string, review: Review) => {
+      const restroom = restrooms.find(restroom => restroom.id === restroomId);
+      if (!restroom) throw new Error(`Unknown restroom ${restroomId}`);
+
+      const added = reviews.get(restroomId) ?? [];
+      if (!added.some(existing => existing.id === review.id)) throw new Error(`Unknown review ${review.id}`);
+
+      reviews.set(restroomId, added.map(existing => (existing.id === review.id ? review : existing)));
+      return withReviews(restroom);
+    },
+  };
+};
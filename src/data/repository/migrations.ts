@@ -0,0 +1,57 @@
+import { Restroom } from "@/types";
+import { parseOpenHours } from "../openingHours";
+
+// Version of the Restroom record shape written to persistent storage.
+// Bump it together with a new entry in `migrations` whenever the Restroom
+// type changes in a way older stored records need to be upgraded for.
+export const RESTROOM_SCHEMA_VERSION = 2;
+
+export type StoredRestroom = Restroom & { schemaVersion?: number };
+
+type RestroomMigration = (restroom: StoredRestroom) => StoredRestroom;
+
+// Keyed by the version a migration upgrades *to*
+const migrations: Record<number, RestroomMigration> = {
+  // 0 -> 1: unversioned records from the old localStorage store may be
+  // missing collections and cleanliness data that the UI relies on
+  1: (restroom) => ({
+    ...restroom,
+    amenities: restroom.amenities ?? [],
+    reviews: restroom.reviews ?? [],
+    cleanliness: {
+      score: restroom.cleanliness?.score ?? 0,
+      lastUpdated: restroom.cleanliness?.lastUpdated ?? new Date().toISOString(),
+      reports: restroom.cleanliness?.reports ?? 0,
+    },
+  }),
+  // 1 -> 2: structured opening hours, parsed from the free-text openHours
+  2: (restroom) => {
+    const businessInfo = restroom.businessInfo;
+    if (!businessInfo || businessInfo.hours || !businessInfo.openHours) return restroom;
+
+    const hours = parseOpenHours(businessInfo.openHours);
+    return hours ? { ...restroom, businessInfo: { ...businessInfo, hours } } : restroom;
+  },
+};
+
+export const needsMigration = (record: StoredRestroom) =>
+  (record.schemaVersion ?? 0) < RESTROOM_SCHEMA_VERSION;
+
+// Run every migration between the record's version and the current one
+export const migrateRestroom = (record: StoredRestroom): StoredRestroom => {
+  let migrated = record;
+  for (let version = (record.schemaVersion ?? 0) + 1; version <= RESTROOM_SCHEMA_VERSION; version++) {
+    migrated = { ...migrations[version](migrated), schemaVersion: version };
+  }
+  return migrated;
+};
+
+export const toStoredRestroom = (restroom: Restroom): StoredRestroom => ({
+  ...restroom,
+  schemaVersion: RESTROOM_SCHEMA_VERSION,
+});
+
+export const fromStoredRestroom = (record: StoredRestroom): Restroom => {
+  const { schemaVersion, ...restroom } = migrateRestroom(record);
+  return restroom;
+};
@@ -0,0 +1,47 @@
+import { Restroom, Review } from "@/types";
+import { createRestroomIndex } from "../geo";
+import { getOfflineRestrooms } from "../offline/regions";
+import { applyReviews } from "../reviews";
+import { RestroomRepository } from "./types";
+
+// Reads from `remote`, and when that fails (no signal on the highway) from
+// the regions the user saved for offline use. Writes always go to `remote`.
+export const withOfflineDataset = (remote: RestroomRepository): RestroomRepository => {
+  const fromOffline = async <T>(error: unknown, read: (restrooms: Restroom[]) => T): Promise<T> => {
+    const restrooms = await getOfflineRestrooms().catch(() => [] as Restroom[]);
+    if (restrooms.length === 0) throw error;
+    return read(restrooms);
+  };
+
+  return {
+    list: () => remote.list().catch(error => fromOffline(error, restrooms => restrooms)),
+
+    getById: (id: string) =>
+      remote.getById(id).catch(error =>
+        fromOffline(error, restrooms => restrooms.find(restroom => restroom.id === id))
+      ),
+
+    listInBounds: (bounds) =>
+      remote.listInBounds(bounds).catch(error =>
+        fromOffline(error, restrooms =>
+          createRestroomIndex(restrooms).withinBounds(bounds).map(result => result.item)
+        )
+      ),
+
+    add: (restroom: Restroom) => remote.add(restroom),
+
+    // Shows a review queued offline on the saved copy of the restroom
+    addReview: (restroomId: string, review: Review) =>
+      remote.addReview(restroomId, review).catch(error =>
+        fromOffline(error, restrooms => {
+          const restroom = restrooms.find(restroom => restroom.id === restroomId);
+          if (!restroom) throw error;
+          return applyReviews(restroom, [review]);
+        })
+      ),
+
+    update: (restroom: Restroom) => remote.update(restroom),
+
+    updateReview: (restroomId: string, review: Review) => remote.updateReview(restroomId, review),
+  };
+};
@@ -0,0 +1,62 @@
+import { IndexedDbRestroomRepository } from "./indexeddb";
+import { RestroomRepository } from "./types";
+
+// Replay queued local changes against a remote repository, oldest first.
+// Stops at the first failure so changes are never applied out of order.
+// Returns the number of changes that were synced.
+export const syncPendingChanges = async (
+  source: IndexedDbRestroomRepository,
+  target: RestroomRepository
+): Promise<number> => {
+  const pending = await source.getPendingChanges();
+  let synced = 0;
+
+  for (const change of pending) {
+    try {
+      switch (change.type) {
+        case "add_restroom":
+          await target.add(change.payload);
+          break;
+        case "update_restroom":
+          await target.update(change.payload);
+          break;
+      }
+      await source.removePendingChange(change.id as number);
+      synced++;
+    } catch (error) {
+      console.error("Error syncing pending change:", error);
+      break;
+    }
+  }
+
+  return synced;
+};
+
+// Sync now and again whenever the browser comes back online
+export const startBackgroundSync = (
+  source: IndexedDbRestroomRepository,
+  target: RestroomRepository
+) => {
+  let inFlight: Promise<number> | null = null;
+
+  const sync = () => {
+    // Skip while offline or while a previous run is still replaying the queue
+    if (!navigator.onLine || inFlight) return;
+
+    // Reading the queue can fail too (storage blocked, database deleted);
+    // the next "online" event tries again
+    inFlight = syncPendingChanges(source, target)
+      .catch(error => {
+        console.error("Error reading pending changes:", error);
+        return 0;
+      })
+      .finally(() => {
+        inFlight = null;
+      });
+  };
+
+  sync();
+  window.addEventListener("online", sync);
+
+  return () => window.removeEventListener("online", sync);
+};
@@ -0,0 +1,23 @@
+import { Restroom, Review } from "@/types";
+import { Bounds } from "../geo";
+
+// Async access to the restroom dataset. Components never talk to an
+// implementation directly - they go through the hooks in use-restrooms.ts,
+// so the backing store can be swapped without touching the UI.
+export interface RestroomRepository {
+  // All restrooms, predefined and user-added
+  list: () => Promise<Restroom[]>;
+  getById: (id: string) => Promise<Restroom | undefined>;
+  // Restrooms inside a lat/lng box, e.g. the visible part of the map
+  listInBounds: (bounds: Bounds) => Promise<Restroom[]>;
+  // Persist a new restroom and return it as stored (with its final id)
+  add: (restroom: Restroom) => Promise<Restroom>;
+  // Attach a review and return the restroom with it and its cleanliness
+  // recomputed. Getting the review to a server is the feedback service's job.
+  addReview: (restroomId: string, review: Review) => Promise<Restroom>;
+  // Replace the details of a restroom added by a user, e.g. after a
+  // moderator edited or approved it. Its reviews are kept as they are.
+  update: (restroom: Restroom) => Promise<Restroom>;
+  // Replace a review added with addReview, e.g. its moderation status
+  updateReview: (restroomId: string, review: Review) => Promise<Restroom>;
+}
@@ -0,0 +1,57 @@
+import { describe, expect, it } from "vitest";
+import { Restroom, Review } from "@/types";
+import { getReviewerReputations } from "./reputation";
+
+const reviewBy = (userId: string, index: number, helpfulVotes = 0): Review => ({
+  id: `review-${userId}-${index}`,
+  userId,
+  userName: userId,
+  rating: 4,
+  date: "2024-01-01T10:00:00Z",
+  cleanliness: 4,
+  helpfulVotes,
+});
+
+const restroomWith = (reviews: Review[]): Restroom => ({
+  id: "test",
+  name: "Test",
+  location: { lat: 11, lng: 77 },
+  amenities: [],
+  cleanliness: { score: 80, lastUpdated: "2024-01-01T00:00:00Z", reports: 0 },
+  accessibility: false,
+  babyChanging: false,
+  genderNeutral: false,
+  reviews,
+});
+
+const reviewsBy = (userId: string, count: number) =>
+  Array.from({ length: count }, (_, index) => reviewBy(userId, index));
+
+describe("getReviewerReputations", () => {
+  it.each([
+    [1, 0, "new"],
+    [3, 0, "regular"],
+    [10, 0, "trusted"],
+    [25, 0, "top"],
+    [1, 15, "trusted"],
+  ])("%i reviews and %i helpful votes -> %s", (count, helpfulVotes, level) => {
+    const reviews = [reviewBy("device-1", -1, helpfulVotes), ...reviewsBy("device-1", count - 1)];
+    expect(getReviewerReputations([restroomWith(reviews)]).get("device-1")?.level).toBe(level);
+  });
+
+  it("keeps reviewers apart", () => {
+    const reputations = getReviewerReputations([restroomWith([...reviewsBy("device-1", 3), ...reviewsBy("device-2", 1)])]);
+    expect(reputations.get("device-1")?.reviews).toBe(3);
+    expect(reputations.get("device-2")?.reviews).toBe(1);
+  });
+
+  it("skips reviews that are not approved", () => {
+    const pending: Review = { ...reviewBy("device-1", 0), status: "pending" };
+    expect(getReviewerReputations([restroomWith([pending])]).has("device-1")).toBe(false);
+  });
+
+  it("gives anonymous reviewers no reputation", () => {
+    const reputations = getReviewerReputations([restroomWith([...reviewsBy("guest", 30), ...reviewsBy("", 30)])]);
+    expect(reputations.size).toBe(0);
+  });
+});
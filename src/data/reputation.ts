@@ -0,0 +1,42 @@
+import { Restroom } from "../types";
+import { isApproved } from "./moderation/status";
+import { isAnonymousReviewer } from "./reviewer";
+
+export type ReputationLevel = "new" | "regular" | "trusted" | "top";
+
+export interface ReviewerReputation {
+  reviews: number;
+  helpfulVotes: number;
+  level: ReputationLevel;
+}
+
+// Reviews or helpful votes needed for each level, highest first; either
+// one is enough
+const levels: { level: ReputationLevel; reviews: number; helpfulVotes: number }[] = [
+  { level: "top", reviews: 25, helpfulVotes: 50 },
+  { level: "trusted", reviews: 10, helpfulVotes: 15 },
+  { level: "regular", reviews: 3, helpfulVotes: 5 },
+];
+
+const getLevel = (reviews: number, helpfulVotes: number): ReputationLevel =>
+  levels.find(level => reviews >= level.reviews || helpfulVotes >= level.helpfulVotes)?.level ?? "new";
+
+// Reputation of everyone who reviewed, keyed by user id, from their approved
+// reviews across all restrooms and the helpful votes those received.
+// Anonymous reviews belong to no one in particular and earn none.
+export const getReviewerReputations = (restrooms: Restroom[]): Map<string, ReviewerReputation> => {
+  const totals = new Map<string, { reviews: number; helpfulVotes: number }>();
+  restrooms.forEach(restroom =>
+    restroom.reviews.filter(review => isApproved(review) && !isAnonymousReviewer(review.userId)).forEach(review => {
+      const total = totals.get(review.userId) ?? { reviews: 0, helpfulVotes: 0 };
+      totals.set(review.userId, {
+        reviews: total.reviews + 1,
+        helpfulVotes: total.helpfulVotes + (review.helpfulVotes ?? 0),
+      });
+    })
+  );
+
+  return new Map(
+    [...totals].map(([userId, total]) => [userId, { ...total, level: getLevel(total.reviews, total.helpfulVotes) }])
+  );
+};
@@ -1,4 +1,5 @@
 import { Restroom } from "../types";
+import { createRestroomIndex } from "./geo";
 
 // Coimbatore, Tamil Nadu, India coordinates
 export const defaultLocation = {
@@ -36,7 +37,8 @@ const mockRestrooms: Restroom[] = [
         rating: 4,
         comment: "Very clean for a public restroom. Soap dispensers were full.",
         date: new Date(Date.now() - 86400000).toISOString(), // 1 day ago
-        cleanliness: 4
+        cleanliness: 4,
+        helpfulVotes: 12
       },
       {
         id: "r2",
@@ -45,7 +47,8 @@ const mockRestrooms: Restroom[] = [
         rating: 5,
         comment: "Surprisingly well maintained. No waiting line when I visited.",
         date: new Date(Date.now() - 172800000).toISOString(), // 2 days ago
-        cleanliness: 5
+        cleanliness: 5,
+        helpfulVotes: 3
       }
     ],
     businessInfo: {
@@ -82,7 +85,8 @@ const mockRestrooms: Restroom[] = [
         rating: 5,
         comment: "Always clean. You need to be a customer but worth buying a coffee for access.",
         date: new Date(Date.now() - 259200000).toISOString(), // 3 days ago
-        cleanliness: 5
+        cleanliness: 5,
+        helpfulVotes: 7
       }
     ],
     businessInfo: {
@@ -119,7 +123,8 @@ const mockRestrooms: Restroom[] = [
         rating: 3,
         comment: "Clean enough but always crowded during rush hours.",
         date: new Date(Date.now() - 345600000).toISOString(), // 4 days ago
-        cleanliness: 3
+        cleanliness: 3,
+        helpfulVotes: 1
       },
       {
         id: "r5",
@@ -165,7 +170,8 @@ const mockRestrooms: Restroom[] = [
         rating: 5,
         comment: "Immaculately clean. The lobby restrooms are accessible without being a guest.",
         date: new Date(Date.now() - 518400000).toISOString(), // 6 days ago
-        cleanliness: 5
+        cleanliness: 5,
+        helpfulVotes: 5
       }
     ],
     businessInfo: {
@@ -202,7 +208,8 @@ const mockRestrooms: Restroom[] = [
         rating: 4,
         comment: "Well maintained public restroom. Usually clean.",
         date: new Date(Date.now() - 604800000).toISOString(), // 7 days ago
-        cleanliness: 4
+        cleanliness: 4,
+        helpfulVotes: 2
       },
       {
         id: "r8",
@@ -211,7 +218,8 @@ const mockRestrooms: Restroom[] = [
         rating: 4,
         comment: "Decent facilities. Sometimes there's a short wait.",
         date: new Date(Date.now() - 691200000).toISOString(), // 8 days ago
-        cleanliness: 4
+        cleanliness: 4,
+        helpfulVotes: 9
       }
     ],
     businessInfo: {
@@ -219,23 +227,161 @@ const mockRestrooms: Restroom[] = [
       partnerStatus: "standard",
       openHours: "6:00 AM - 9:00 PM"
     }
+  },
+  {
+    id: "6",
+    name: "Mettupalayam Bus Stand Restroom",
+    description: "Pay-and-use restroom at the bus stand where the Nilgiris ghat road begins",
+    location: {
+      lat: 11.2995,
+      lng: 76.9395,
+      address: "Mettupalayam Bus Stand, Ooty Main Road",
+      city: "Mettupalayam",
+      state: "Tamil Nadu"
+    },
+    amenities: ["toilet", "sink", "hand_soap"],
+    cleanliness: {
+      score: 68,
+      lastUpdated: new Date(Date.now() - 10800000).toISOString(), // 3 hours ago
+      reports: 142
+    },
+    accessibility: false,
+    babyChanging: false,
+    genderNeutral: false,
+    reviews: [],
+    businessInfo: {
+      type: "public",
+      partnerStatus: "none",
+      openHours: "5:00 AM - 11:00 PM"
+    }
+  },
+  {
+    id: "7",
+    name: "Kallar Highway Fuel Station",
+    description: "Fuel station restroom at the foot of the ghat road",
+    location: {
+      lat: 11.3318,
+      lng: 76.8745,
+      address: "NH 181, Kallar",
+      city: "Mettupalayam",
+      state: "Tamil Nadu"
+    },
+    amenities: ["toilet", "sink", "hand_soap", "paper_towels", "drinking_water"],
+    cleanliness: {
+      score: 88,
+      lastUpdated: new Date(Date.now() - 3600000).toISOString(), // 1 hour ago
+      reports: 57
+    },
+    accessibility: true,
+    babyChanging: false,
+    genderNeutral: true,
+    reviews: [
+      {
+        id: "r9",
+        userId: "u606",
+        userName: "GhatRider",
+        rating: 5,
+        comment: "Last proper restroom before the hairpin bends. Spotless and has water.",
+        date: new Date(Date.now() - 259200000).toISOString(), // 3 days ago
+        cleanliness: 5,
+        helpfulVotes: 4
+      }
+    ],
+    businessInfo: {
+      type: "gas_station",
+      partnerStatus: "standard",
+      openHours: "24/7"
+    }
+  },
+  {
+    id: "8",
+    name: "Burliyar Tea Stall Restroom",
+    description: "Small restroom behind a roadside tea stall halfway up the ghat",
+    location: {
+      lat: 11.3421,
+      lng: 76.8387,
+      address: "NH 181, Burliyar",
+      city: "Coonoor",
+      state: "Tamil Nadu"
+    },
+    amenities: ["toilet", "sink"],
+    cleanliness: {
+      score: 72,
+      lastUpdated: new Date(Date.now() - 18000000).toISOString(), // 5 hours ago
+      reports: 23
+    },
+    accessibility: false,
+    babyChanging: false,
+    genderNeutral: false,
+    reviews: [],
+    businessInfo: {
+      type: "cafe",
+      partnerStatus: "none",
+      openHours: "6:00 AM - 8:00 PM"
+    }
+  },
+  {
+    id: "9",
+    name: "Coonoor Bus Stand Restroom",
+    description: "Public restroom next to the Coonoor bus stand and railway station",
+    location: {
+      lat: 11.353,
+      lng: 76.7959,
+      address: "Bus Stand Road, Coonoor",
+      city: "Coonoor",
+      state: "Tamil Nadu"
+    },
+    amenities: ["toilet", "sink", "hand_soap", "hand_dryer"],
+    cleanliness: {
+      score: 79,
+      lastUpdated: new Date(Date.now() - 7200000).toISOString(), // 2 hours ago
+      reports: 88
+    },
+    accessibility: true,
+    babyChanging: true,
+    genderNeutral: false,
+    reviews: [],
+    businessInfo: {
+      type: "public",
+      partnerStatus: "none",
+      openHours: "5:30 AM - 10:30 PM"
+    }
+  },
+  {
+    id: "10",
+    name: "Government Botanical Garden Restroom",
+    description: "Well kept restroom near the main entrance of the Ooty botanical garden",
+    location: {
+      lat: 11.4183,
+      lng: 76.7111,
+      address: "Garden Road, Ooty",
+      city: "Ooty",
+      state: "Tamil Nadu"
+    },
+    amenities: ["toilet", "sink", "hand_soap", "hand_dryer", "mirror"],
+    cleanliness: {
+      score: 91,
+      lastUpdated: new Date(Date.now() - 7200000).toISOString(), // 2 hours ago
+      reports: 164
+    },
+    accessibility: true,
+    babyChanging: true,
+    genderNeutral: true,
+    reviews: [],
+    businessInfo: {
+      type: "public",
+      partnerStatus: "standard",
+      openHours: "7:00 AM - 6:30 PM"
+    }
   }
 ];
 
+// Predefined restrooms within `radius` km, nearest first. Use a geo index
+// built with createRestroomIndex to search every dataset at once.
+const mockRestroomIndex = createRestroomIndex(mockRestrooms);
+
 export const getRestroomsByLocation = (lat: number, lng: number, radius: number = 5): Restroom[] => {
-  // Simple distance calculation (not accounting for Earth's curvature)
-  // For a real app, use proper geospatial queries
-  return mockRestrooms.filter(restroom => {
-    const distance = Math.sqrt(
-      Math.pow(restroom.location.lat - lat, 2) + 
-      Math.pow(restroom.location.lng - lng, 2)
-    );
-    
-    // Convert rough degrees to kilometers (very approximate)
-    const distanceInKm = distance * 111;
-    
-    return distanceInKm <= radius;
-  });
+  return mockRestroomIndex.withinRadius(lat, lng, radius).map(result => result.item);
 };
 
 export const getRestroomById = (id: string): Restroom | undefined => {
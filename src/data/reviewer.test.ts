@@ -0,0 +1,53 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { ANONYMOUS_REVIEWER, getReviewerId, isAnonymousReviewer } from "./reviewer";
+
+const memoryStorage = () => {
+  const items = new Map<string, string>();
+  return {
+    getItem: (key: string) => items.get(key) ?? null,
+    setItem: (key: string, value: string) => void items.set(key, value),
+  };
+};
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+  vi.restoreAllMocks();
+});
+
+describe("getReviewerId", () => {
+  it("keeps the same id on a device", () => {
+    vi.stubGlobal("localStorage", memoryStorage());
+    const id = getReviewerId();
+    expect(id).toMatch(/^device-/);
+    expect(getReviewerId()).toBe(id);
+  });
+
+  it("gives each device its own id", () => {
+    vi.stubGlobal("localStorage", memoryStorage());
+    const first = getReviewerId();
+    vi.stubGlobal("localStorage", memoryStorage());
+    expect(getReviewerId()).not.toBe(first);
+  });
+
+  it("falls back to anonymous when storage is unavailable", () => {
+    vi.spyOn(console, "error").mockImplementation(() => {});
+    vi.stubGlobal("localStorage", {
+      getItem: () => {
+        throw new Error("blocked");
+      },
+    });
+    expect(getReviewerId()).toBe(ANONYMOUS_REVIEWER);
+  });
+});
+
+describe("isAnonymousReviewer", () => {
+  it.each([
+    ["guest", true],
+    ["", true],
+    [undefined, true],
+    ["u123", false],
+    ["device-1", false],
+  ])("%s -> %s", (userId, anonymous) => {
+    expect(isAnonymousReviewer(userId)).toBe(anonymous);
+  });
+});
@@ -0,0 +1,27 @@
+const STORAGE_KEY = "reststop-reviewer-id";
+
+// Reviews written before reviewers had an id, or on a device that can't keep
+// one. Nothing is known about who wrote them, so they are never linked.
+export const ANONYMOUS_REVIEWER = "guest";
+
+export const isAnonymousReviewer = (userId?: string) => !userId || userId === ANONYMOUS_REVIEWER;
+
+// crypto.randomUUID is only there on https and localhost
+const generateId = () =>
+  `device-${crypto.randomUUID?.() ?? `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 10)}`}`;
+
+// An id for whoever reviews from this device, made on first use and kept
+// until site data is cleared. There are no accounts, so it stands in for one.
+export const getReviewerId = (): string => {
+  try {
+    const stored = localStorage.getItem(STORAGE_KEY);
+    if (stored) return stored;
+
+    const id = generateId();
+    localStorage.setItem(STORAGE_KEY, id);
+    return id;
+  } catch (error) {
+    console.error("Error reading reviewer id:", error);
+    return ANONYMOUS_REVIEWER;
+  }
+};
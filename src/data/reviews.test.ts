@@ -0,0 +1,69 @@
+import { describe, expect, it } from "vitest";
+import { ModerationStatus, Restroom, Review } from "@/types";
+import { applyReviews } from "./reviews";
+
+const restroom: Restroom = {
+  id: "test",
+  name: "Test",
+  location: { lat: 11, lng: 77 },
+  amenities: [],
+  cleanliness: { score: 60, lastUpdated: "2024-01-01T00:00:00Z", reports: 5 },
+  accessibility: false,
+  babyChanging: false,
+  genderNeutral: false,
+  reviews: [],
+};
+
+const reviewOf = (id: string, cleanliness: number, status?: ModerationStatus): Review => ({
+  id,
+  userId: "device-1",
+  userName: "You",
+  rating: 4,
+  date: `2024-01-0${id.length}T10:00:00Z`,
+  cleanliness,
+  status,
+});
+
+describe("applyReviews", () => {
+  it.each([
+    ["an approved review", [reviewOf("a", 5)], 68, 6],
+    ["two approved reviews", [reviewOf("a", 5), reviewOf("bb", 2)], 63, 7],
+    ["a pending review", [reviewOf("a", 5, "pending")], 60, 5],
+    ["a rejected review", [reviewOf("a", 5, "rejected")], 60, 5],
+  ])("scores %s", (_, added, score, reports) => {
+    const { cleanliness } = applyReviews(restroom, added);
+    expect(cleanliness.score).toBe(score);
+    expect(cleanliness.reports).toBe(reports);
+  });
+
+  it("does not count reviews the restroom already has", () => {
+    const added = [reviewOf("a", 5), reviewOf("bb", 1)];
+    const once = applyReviews(restroom, added);
+    const twice = applyReviews(once, added);
+
+    expect(twice).toBe(once);
+    expect(twice.reviews).toHaveLength(2);
+    expect(twice.cleanliness.reports).toBe(7);
+  });
+
+  it("counts only the reviews that are new", () => {
+    const once = applyReviews(restroom, [reviewOf("a", 5)]);
+    const again = applyReviews(once, [reviewOf("a", 5), reviewOf("bb", 5)]);
+
+    expect(again.reviews.map(review => review.id)).toEqual(["bb", "a"]);
+    expect(again.cleanliness.reports).toBe(7);
+  });
+
+  it.each([
+    ["a reported copy in its place", { reports: ["spam" as const] }, ["a"]],
+    ["a rejected copy by dropping it", { status: "rejected" as const }, []],
+  ])("replaces a review the restroom lists with %s, without counting it", (_, change, listed) => {
+    const listing = { ...restroom, reviews: [reviewOf("a", 5)] };
+    const copy = { ...reviewOf("a", 5), ...change };
+    const applied = applyReviews(listing, [copy]);
+
+    expect(applied.reviews.map(review => review.id)).toEqual(listed);
+    expect(applied.reviews[0] ?? copy).toBe(copy);
+    expect(applied.cleanliness).toBe(listing.cleanliness);
+  });
+});
@@ -0,0 +1,90 @@
+import { Restroom, Review, ReviewPhoto } from "../types";
+import { isApproved, isPending, isPublished } from "./moderation/status";
+
+// How many reviews the cleanliness score a restroom comes with is worth. The
+// score already reflects its earlier reviews and reports, so reviews added
+// on top of it move it gradually instead of replacing it.
+const BASELINE_WEIGHT = 4;
+
+// Average 1-5 rating over approved reviews; undefined when there are none yet
+export const getAverageRating = (restroom: Restroom) => {
+  const reviews = restroom.reviews.filter(isApproved);
+  return reviews.length > 0
+    ? reviews.reduce((sum, review) => sum + review.rating, 0) / reviews.length
+    : undefined;
+};
+
+// The restroom with reviews written since it was stored, newest first, and
+// its cleanliness score and report count updated for them. Every repository
+// keeps added reviews next to its restrooms and applies them on read.
+// Rejected reviews are dropped, and pending ones are listed but only count
+// once a moderator approves them. A stored copy of a review the restroom
+// already lists, say one a user reported, replaces it without counting again.
+export const applyReviews = (restroom: Restroom, added: Review[]): Restroom => {
+  const known = new Set(restroom.reviews.map(review => review.id));
+  const copies = new Map(added.filter(review => known.has(review.id)).map(review => [review.id, review]));
+  const listed = restroom.reviews.map(review => copies.get(review.id) ?? review);
+  const changed = listed.some((review, index) => review !== restroom.reviews[index]);
+  const kept = changed ? listed.filter(isPublished) : restroom.reviews;
+
+  const fresh = added
+    .filter(review => !known.has(review.id) && isPublished(review))
+    .sort((a, b) => b.date.localeCompare(a.date));
+  if (fresh.length === 0) return changed ? { ...restroom, reviews: kept } : restroom;
+
+  const counted = fresh.filter(isApproved);
+  if (counted.length === 0) return { ...restroom, reviews: [...fresh, ...kept] };
+
+  // Reviews rate cleanliness 1-5; scores are on the app's 100-point scale
+  const total = counted.reduce(
+    (sum, review) => sum + review.cleanliness * 20,
+    restroom.cleanliness.score * BASELINE_WEIGHT
+  );
+  const latest = counted[0].date;
+
+  return {
+    ...restroom,
+    reviews: [...fresh, ...kept],
+    cleanliness: {
+      score: Math.round(total / (BASELINE_WEIGHT + counted.length)),
+      lastUpdated: latest > restroom.cleanliness.lastUpdated ? latest : restroom.cleanliness.lastUpdated,
+      reports: restroom.cleanliness.reports + counted.length,
+    },
+  };
+};
+
+// Reviews to list on the restroom; ones the spam and abuse check held back
+// only show in the moderation queue until they are approved
+export const getListedReviews = (restroom: Restroom): Review[] =>
+  restroom.reviews.filter(review => !(isPending(review) && review.risk?.held));
+
+export type ReviewSort = "newest" | "helpful" | "lowest_cleanliness" | "with_photos";
+
+const newestFirst = (a: Review, b: Review) => b.date.localeCompare(a.date);
+
+// Reviews in the chosen order, newest first among equals. `helpfulCount`
+// lets callers add votes that were cast on this device.
+export const sortReviews = (
+  reviews: Review[],
+  order: ReviewSort,
+  helpfulCount: (review: Review) => number = review => review.helpfulVotes ?? 0
+): Review[] => {
+  const compare: Record<ReviewSort, (a: Review, b: Review) => number> = {
+    newest: () => 0,
+    helpful: (a, b) => helpfulCount(b) - helpfulCount(a),
+    lowest_cleanliness: (a, b) => a.cleanliness - b.cleanliness,
+    with_photos: (a, b) => Number(getReviewPhotos(b).length > 0) - Number(getReviewPhotos(a).length > 0),
+  };
+  return [...reviews].sort((a, b) => compare[order](a, b) || newestFirst(a, b));
+};
+
+// Photos of a review that were not rejected. Plain image URLs from older
+// reviews double as their own thumbnails.
+export const getReviewPhotos = (review: Review): ReviewPhoto[] => [
+  ...(review.photos ?? []).filter(isPublished),
+  ...(review.images ?? []).map(url => ({ url, thumbnailUrl: url, width: 0, height: 0 })),
+];
+
+// Every approved photo from the restroom's approved reviews, in review order
+export const getRestroomPhotos = (restroom: Restroom): ReviewPhoto[] =>
+  restroom.reviews.filter(isApproved).flatMap(review => getReviewPhotos(review).filter(isApproved));
@@ -0,0 +1,53 @@
+import { createOsrmRoutingService } from "./osrm";
+import { createStraightLineRoutingService } from "./straightLine";
+import { createValhallaRoutingService } from "./valhalla";
+import { RoutingService } from "./types";
+
+export type { ManeuverKind, Route, RouteStep, RoutingService, StepMessage, TravelMode } from "./types";
+export * from "./modes";
+export { createOsrmRoutingService, defaultOsrmProfiles } from "./osrm";
+export { createValhallaRoutingService } from "./valhalla";
+export { createStraightLineRoutingService, isStraightLineRoute } from "./straightLine";
+
+// The public OSRM demo only serves car routes
+const PUBLIC_OSRM_URL = "https://router.project-osrm.org";
+
+// Falls back to a straight-line estimate when the engine is unreachable
+const withFallback = (primary: RoutingService, fallback: RoutingService): RoutingService => ({
+  route: async (from, to, mode) => {
+    try {
+      return await primary.route(from, to, mode);
+    } catch (error) {
+      console.error("Routing failed, using straight-line estimate:", error);
+      return fallback.route(from, to, mode);
+    }
+  },
+});
+
+// Uses VITE_ROUTING_URL (OSRM by default, Valhalla with VITE_ROUTING_PROVIDER),
+// otherwise the public OSRM demo server
+const createDefaultRoutingService = (): RoutingService => {
+  const routingUrl = import.meta.env.VITE_ROUTING_URL;
+  const provider = import.meta.env.VITE_ROUTING_PROVIDER ?? "osrm";
+
+  const primary = !routingUrl
+    ? createOsrmRoutingService(PUBLIC_OSRM_URL, { driving: "driving" })
+    : provider === "valhalla"
+      ? createValhallaRoutingService(routingUrl)
+      : createOsrmRoutingService(routingUrl);
+
+  return withFallback(primary, createStraightLineRoutingService());
+};
+
+let routingService: RoutingService | null = null;
+
+export const getRoutingService = (): RoutingService => {
+  if (!routingService) {
+    routingService = createDefaultRoutingService();
+  }
+  return routingService;
+};
+
+export const setRoutingService = (next: RoutingService) => {
+  routingService = next;
+};
@@ -0,0 +1,31 @@
+import { describe, expect, it } from "vitest";
+import { createTranslator } from "../i18n";
+import { describeManeuver } from "./instructions";
+
+describe("describeManeuver", () => {
+  it.each([
+    [{ type: "depart", bearing_after: 90 }, undefined, "route.headEast", undefined],
+    [{ type: "depart", bearing_after: 0 }, "DB Road", "route.headNorthOn", { road: "DB Road" }],
+    [{ type: "arrive" }, undefined, "route.arrive", undefined],
+    [{ type: "turn", modifier: "left" }, "Avinashi Road", "route.turnLeftOnto", { road: "Avinashi Road" }],
+    [{ type: "turn", modifier: "sharp right" }, undefined, "route.turnSharpRight", undefined],
+    [{ type: "turn", modifier: "uturn" }, undefined, "route.uturn", undefined],
+    [{ type: "roundabout", exit: 2 }, undefined, "route.roundaboutExit", { exit: 2 }],
+    [{ type: "rotary" }, "Trichy Road", "route.roundaboutOnto", { road: "Trichy Road" }],
+    [{ type: "fork", modifier: "slight left" }, undefined, "route.keepLeft", undefined],
+    [{ type: "off ramp", modifier: "right" }, undefined, "route.keepRight", undefined],
+    [{ type: "merge", modifier: "straight" }, undefined, "route.merge", undefined],
+    [{ type: "new name", modifier: "straight" }, "Mettupalayam Road", "route.continueOnto", { road: "Mettupalayam Road" }],
+    [{ type: "continue", modifier: "slight right" }, undefined, "route.turnSlightRight", undefined],
+    [{ type: "end of road", modifier: "straight" }, undefined, "route.continueStraight", undefined],
+  ])("describes %j onto %s", (maneuver, road, key, params) => {
+    expect(describeManeuver(maneuver, road)).toEqual(params ? { key, params } : { key });
+  });
+
+  it("words a step in the chosen language", () => {
+    const message = describeManeuver({ type: "turn", modifier: "left" }, "DB Road");
+
+    expect(createTranslator("en")(message.key, message.params)).toBe("Turn left onto DB Road");
+    expect(createTranslator("ta")(message.key, message.params)).toBe("இடப்புறம் திரும்பி DB Road இல் செல்லுங்கள்");
+  });
+});
@@ -0,0 +1,132 @@
+import { compassDirection } from "../geo";
+import { MessageKey } from "../i18n";
+import { ManeuverKind, StepMessage } from "./types";
+
+// OSRM describes maneuvers as a type plus a direction modifier but leaves the
+// wording to the client; these pick the message shown in the directions
+// panel, which translates it. Valhalla steps are worded the same way.
+
+const modifierKinds: Record<string, ManeuverKind> = {
+  "uturn": "uturn",
+  "sharp right": "sharp_right",
+  "right": "right",
+  "slight right": "slight_right",
+  "straight": "straight",
+  "slight left": "slight_left",
+  "left": "left",
+  "sharp left": "sharp_left",
+};
+
+export const getManeuverKind = (type: string, modifier?: string): ManeuverKind => {
+  if (type === "depart" || type === "arrive") return type;
+  if (type === "roundabout" || type === "rotary" || type === "roundabout turn") return "roundabout";
+  return (modifier && modifierKinds[modifier]) || "straight";
+};
+
+// A message on its own and with the road the maneuver leads onto
+type Phrase = [plain: MessageKey, withRoad: MessageKey];
+
+const phrase = ([plain, withRoad]: Phrase, road?: string): StepMessage =>
+  road ? { key: withRoad, params: { road } } : { key: plain };
+
+const headings: Record<string, Phrase> = {
+  north: ["route.headNorth", "route.headNorthOn"],
+  northeast: ["route.headNortheast", "route.headNortheastOn"],
+  east: ["route.headEast", "route.headEastOn"],
+  southeast: ["route.headSoutheast", "route.headSoutheastOn"],
+  south: ["route.headSouth", "route.headSouthOn"],
+  southwest: ["route.headSouthwest", "route.headSouthwestOn"],
+  west: ["route.headWest", "route.headWestOn"],
+  northwest: ["route.headNorthwest", "route.headNorthwestOn"],
+};
+
+const turns: Partial<Record<ManeuverKind, Phrase>> = {
+  slight_left: ["route.turnSlightLeft", "route.turnSlightLeftOnto"],
+  left: ["route.turnLeft", "route.turnLeftOnto"],
+  sharp_left: ["route.turnSharpLeft", "route.turnSharpLeftOnto"],
+  slight_right: ["route.turnSlightRight", "route.turnSlightRightOnto"],
+  right: ["route.turnRight", "route.turnRightOnto"],
+  sharp_right: ["route.turnSharpRight", "route.turnSharpRightOnto"],
+};
+
+export type Side = "left" | "right" | "straight";
+
+const keeps: Record<Side, Phrase> = {
+  left: ["route.keepLeft", "route.keepLeftOnto"],
+  right: ["route.keepRight", "route.keepRightOnto"],
+  straight: ["route.keepStraight", "route.keepStraightOnto"],
+};
+
+const merges: Record<Side, Phrase> = {
+  left: ["route.mergeLeft", "route.mergeLeftOnto"],
+  right: ["route.mergeRight", "route.mergeRightOnto"],
+  straight: ["route.merge", "route.mergeOnto"],
+};
+
+const sideOf = (modifier = "straight"): Side =>
+  modifier.includes("left") ? "left" : modifier.includes("right") ? "right" : "straight";
+
+export const headTowards = (bearing: number, road?: string) =>
+  phrase(headings[compassDirection(bearing)], road);
+
+export const arrive = (): StepMessage => ({ key: "route.arrive" });
+
+export const departOnto = (road?: string) => phrase(["route.depart", "route.departOn"], road);
+
+export const roundabout = (exit?: number, road?: string): StepMessage => {
+  if (!exit) return phrase(["route.roundabout", "route.roundaboutOnto"], road);
+  return road
+    ? { key: "route.roundaboutExitOnto", params: { exit, road } }
+    : { key: "route.roundaboutExit", params: { exit } };
+};
+
+export const uturn = (road?: string) => phrase(["route.uturn", "route.uturnOnto"], road);
+
+export const keep = (side: Side, road?: string) => phrase(keeps[side], road);
+
+export const merge = (side: Side, road?: string) => phrase(merges[side], road);
+
+export const continueOnto = (road?: string) => phrase(["route.continue", "route.continueOnto"], road);
+
+// Turns, or carrying on straight for any other kind
+export const turn = (kind: ManeuverKind, road?: string) =>
+  phrase(turns[kind] ?? ["route.continueStraight", "route.continueStraightOnto"], road);
+
+interface OsrmManeuver {
+  type: string;
+  modifier?: string;
+  bearing_after?: number;
+  exit?: number;
+}
+
+export const describeManeuver = (maneuver: OsrmManeuver, roadName?: string): StepMessage => {
+  const { type, modifier, exit } = maneuver;
+
+  switch (type) {
+    case "depart":
+      return headTowards(maneuver.bearing_after ?? 0, roadName);
+    case "arrive":
+      return arrive();
+    case "roundabout":
+    case "rotary":
+    case "roundabout turn":
+      return roundabout(exit, roadName);
+  }
+
+  if (modifier === "uturn") return uturn(roadName);
+
+  const kind = getManeuverKind(type, modifier);
+  switch (type) {
+    case "fork":
+    case "off ramp":
+    case "on ramp":
+      return keep(sideOf(modifier), roadName);
+    case "merge":
+      return merge(sideOf(modifier), roadName);
+    case "continue":
+    case "new name":
+      return kind === "straight" ? continueOnto(roadName) : turn(kind, roadName);
+    default:
+      return turn(kind, roadName);
+  }
+};
@@ -0,0 +1,33 @@
+import { MessageKey, Translator } from "../i18n";
+import { TravelMode } from "./types";
+
+export interface TravelModeInfo {
+  id: TravelMode;
+  label: MessageKey;
+  duration: MessageKey; // a trip in this mode, as in "12 min ride"
+  speedKmh: number; // typical door-to-door speed in city traffic
+}
+
+export const travelModes: TravelModeInfo[] = [
+  { id: "walking", label: "travel.walk", duration: "travel.walkTime", speedKmh: 4.8 },
+  { id: "two_wheeler", label: "travel.twoWheeler", duration: "travel.rideTime", speedKmh: 22 },
+  { id: "driving", label: "travel.car", duration: "travel.driveTime", speedKmh: 18 },
+];
+
+export const getTravelMode = (mode: TravelMode) =>
+  travelModes.find(info => info.id === mode) ?? travelModes[0];
+
+// How much longer real streets are than a straight line
+export const STREET_DETOUR_FACTOR = 1.3;
+
+// Minutes to cover a distance already measured along streets
+export const estimateDuration = (routeDistanceInKm: number, mode: TravelMode) =>
+  Math.max(1, Math.round((routeDistanceInKm / getTravelMode(mode).speedKmh) * 60));
+
+// Minutes for a straight-line distance, allowing for the street detour
+export const estimateTravelMinutes = (distanceInKm: number, mode: TravelMode) =>
+  estimateDuration(distanceInKm * STREET_DETOUR_FACTOR, mode);
+
+// "15 min walk", "8 min drive"
+export const formatTravelTime = (minutes: number, mode: TravelMode, t: Translator) =>
+  t(getTravelMode(mode).duration, { minutes });
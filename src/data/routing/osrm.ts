@@ -0,0 +1,98 @@
+import axios from "axios";
+import { LatLng, PathPoint, haversineDistance } from "../geo";
+import { describeManeuver, getManeuverKind } from "./instructions";
+import { estimateDuration } from "./modes";
+import { RouteStep, RoutingService, TravelMode } from "./types";
+
+interface OsrmStep {
+  distance: number; // meters
+  name: string;
+  maneuver: {
+    type: string;
+    modifier?: string;
+    bearing_after?: number;
+    exit?: number;
+    location: [number, number]; // [lng, lat]
+  };
+}
+
+interface OsrmResponse {
+  code: string;
+  routes?: {
+    distance: number; // meters
+    duration: number; // seconds
+    geometry: { coordinates: [number, number][] }; // [lng, lat]
+    legs: { steps: OsrmStep[] }[];
+  }[];
+}
+
+// OSRM gives maneuver coordinates rather than indexes into the geometry, so
+// walk forward along the path to the closest vertex for each one
+const toRouteSteps = (steps: OsrmStep[], path: PathPoint[]): RouteStep[] => {
+  let searchFrom = 0;
+
+  return steps.map(step => {
+    const [lng, lat] = step.maneuver.location;
+    let pathIndex = searchFrom;
+    let closest = Infinity;
+
+    for (let i = searchFrom; i < path.length; i++) {
+      const distance = haversineDistance(lat, lng, path[i][0], path[i][1]);
+      if (distance < closest) {
+        closest = distance;
+        pathIndex = i;
+      }
+    }
+    searchFrom = pathIndex;
+
+    return {
+      message: describeManeuver(step.maneuver, step.name || undefined),
+      maneuver: getManeuverKind(step.maneuver.type, step.maneuver.modifier),
+      distance: step.distance / 1000,
+      pathIndex,
+    };
+  });
+};
+
+// A self-hosted OSRM runs one profile per server; these are the names used
+// by the stock foot and car profiles. OSRM has no scooter profile, so
+// two-wheelers follow car roads.
+export const defaultOsrmProfiles: Partial<Record<TravelMode, string>> = {
+  walking: "foot",
+  two_wheeler: "driving",
+  driving: "driving",
+};
+
+// Routing for any OSRM-compatible server (public demo, self-hosted or a mock).
+// Modes without a profile reuse the driving route and estimate the duration.
+export const createOsrmRoutingService = (
+  baseUrl: string,
+  profiles: Partial<Record<TravelMode, string>> = defaultOsrmProfiles
+): RoutingService => {
+  const client = axios.create({ baseURL: baseUrl.replace(/\/+$/, "") });
+
+  return {
+    route: async (from: LatLng, to: LatLng, mode: TravelMode) => {
+      const profile = profiles[mode] ?? profiles.driving ?? "driving";
+      const response = await client.get<OsrmResponse>(
+        `/route/v1/${profile}/${from.lng},${from.lat};${to.lng},${to.lat}`,
+        { params: { overview: "full", geometries: "geojson", steps: true } }
+      );
+
+      const [route] = response.data.routes ?? [];
+      if (response.data.code !== "Ok" || !route) return undefined;
+
+      const distance = route.distance / 1000;
+      const estimated = !profiles[mode];
+      const path = route.geometry.coordinates.map(([lng, lat]) => [lat, lng] as PathPoint);
+
+      return {
+        distance,
+        duration: estimated ? estimateDuration(distance, mode) : Math.max(1, Math.round(route.duration / 60)),
+        path,
+        steps: toRouteSteps(route.legs.flatMap(leg => leg.steps), path),
+        estimated,
+      };
+    },
+  };
+};
@@ -0,0 +1,39 @@
+import { LatLng, haversineDistance, initialBearing } from "../geo";
+import { arrive, headTowards } from "./instructions";
+import { STREET_DETOUR_FACTOR, estimateDuration } from "./modes";
+import { Route, RoutingService, TravelMode } from "./types";
+
+// A straight-line estimate rather than a route along streets
+export const isStraightLineRoute = (route: Route) => route.estimated === true && route.path.length === 2;
+
+// Offline stand-in that draws a straight line and estimates the street
+// distance and duration from average speeds
+export const createStraightLineRoutingService = (): RoutingService => ({
+  route: async (from: LatLng, to: LatLng, mode: TravelMode) => {
+    const distance = haversineDistance(from.lat, from.lng, to.lat, to.lng) * STREET_DETOUR_FACTOR;
+
+    return {
+      distance,
+      duration: estimateDuration(distance, mode),
+      path: [
+        [from.lat, from.lng],
+        [to.lat, to.lng],
+      ],
+      steps: [
+        {
+          message: headTowards(initialBearing(from, to)),
+          maneuver: "depart",
+          distance,
+          pathIndex: 0,
+        },
+        {
+          message: arrive(),
+          maneuver: "arrive",
+          distance: 0,
+          pathIndex: 1,
+        },
+      ],
+      estimated: true,
+    };
+  },
+});
@@ -0,0 +1,47 @@
+import { LatLng, PathPoint } from "../geo";
+import { MessageKey, TranslationParams } from "../i18n";
+
+export type TravelMode = "walking" | "two_wheeler" | "driving";
+
+export type ManeuverKind =
+  | "depart"
+  | "arrive"
+  | "straight"
+  | "slight_left"
+  | "left"
+  | "sharp_left"
+  | "slight_right"
+  | "right"
+  | "sharp_right"
+  | "uturn"
+  | "roundabout";
+
+// What to tell the user at a step, e.g. "route.turnLeftOnto" with
+// { road: "DB Road" }; shown through the translator
+export interface StepMessage {
+  key: MessageKey;
+  params?: TranslationParams;
+}
+
+// One instruction along a route, e.g. "Turn left onto DB Road"
+export interface RouteStep {
+  message: StepMessage;
+  maneuver: ManeuverKind;
+  distance: number;  // kilometers until the next step
+  pathIndex: number; // index in Route.path where the maneuver happens
+}
+
+export interface Route {
+  distance: number; // kilometers along the route
+  duration: number; // minutes
+  path: PathPoint[]; // [lat, lng] pairs, start to end
+  steps: RouteStep[];
+  estimated?: boolean; // duration derived from average speed, not the router
+}
+
+// Turns two coordinates into a route for a travel mode. Implementations wrap
+// a routing engine (OSRM, Valhalla) or estimate offline.
+export interface RoutingService {
+  // Undefined when the engine finds no route between the points
+  route: (from: LatLng, to: LatLng, mode: TravelMode) => Promise<Route | undefined>;
+}
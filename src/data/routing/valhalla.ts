@@ -0,0 +1,140 @@
+import axios from "axios";
+import { LatLng, PathPoint } from "../geo";
+import { Side, arrive, continueOnto, departOnto, keep, merge, roundabout, turn, uturn } from "./instructions";
+import { ManeuverKind, RouteStep, RoutingService, StepMessage, TravelMode } from "./types";
+
+// Valhalla words its own instructions, but only in languages it ships, so
+// steps are worded from the maneuver like OSRM's
+interface ValhallaManeuver {
+  type: number;
+  length: number; // kilometers
+  begin_shape_index: number;
+  street_names?: string[];
+  roundabout_exit_count?: number;
+}
+
+interface ValhallaResponse {
+  trip: {
+    summary: { length: number; time: number }; // kilometers, seconds
+    legs: { shape: string; maneuvers: ValhallaManeuver[] }[];
+  };
+}
+
+// Valhalla maneuver type numbers, grouped by how they're drawn
+const maneuverKinds: Record<number, ManeuverKind> = {
+  1: "depart", 2: "depart", 3: "depart",
+  4: "arrive", 5: "arrive", 6: "arrive",
+  9: "slight_right", 18: "slight_right", 20: "slight_right", 23: "slight_right",
+  10: "right",
+  11: "sharp_right",
+  12: "uturn", 13: "uturn",
+  14: "sharp_left",
+  15: "left",
+  16: "slight_left", 19: "slight_left", 21: "slight_left", 24: "slight_left",
+  26: "roundabout", 27: "roundabout",
+};
+
+// Ramps, exits and forks (17-24) and merges (25, 37, 38)
+const keepSides: Record<number, Side> = {
+  17: "straight", 18: "right", 19: "left", 20: "right", 21: "left", 22: "straight", 23: "right", 24: "left",
+};
+const mergeSides: Record<number, Side> = { 25: "straight", 37: "right", 38: "left" };
+
+const describeManeuver = (maneuver: ValhallaManeuver): StepMessage => {
+  const road = maneuver.street_names?.[0];
+  const kind = maneuverKinds[maneuver.type] ?? "straight";
+
+  if (kind === "depart") return departOnto(road);
+  if (kind === "arrive") return arrive();
+  if (kind === "uturn") return uturn(road);
+  // 26 enters the roundabout, 27 leaves it
+  if (maneuver.type === 26) return roundabout(maneuver.roundabout_exit_count, road);
+  if (maneuver.type in keepSides) return keep(keepSides[maneuver.type], road);
+  if (maneuver.type in mergeSides) return merge(mergeSides[maneuver.type], road);
+  if (kind === "straight" || kind === "roundabout") return continueOnto(road);
+  return turn(kind, road);
+};
+
+const costings: Record<TravelMode, string> = {
+  walking: "pedestrian",
+  two_wheeler: "motor_scooter",
+  driving: "auto",
+};
+
+// Valhalla encodes shapes as Google polylines with six decimal places
+const decodePolyline6 = (encoded: string): PathPoint[] => {
+  const points: PathPoint[] = [];
+  let index = 0;
+  let lat = 0;
+  let lng = 0;
+
+  const nextValue = () => {
+    let result = 0;
+    let shift = 0;
+    let byte: number;
+    do {
+      byte = encoded.charCodeAt(index++) - 63;
+      result |= (byte & 0x1f) << shift;
+      shift += 5;
+    } while (byte >= 0x20);
+    return result & 1 ? ~(result >> 1) : result >> 1;
+  };
+
+  while (index < encoded.length) {
+    lat += nextValue();
+    lng += nextValue();
+    points.push([lat / 1e6, lng / 1e6]);
+  }
+  return points;
+};
+
+// Routing through a Valhalla server, which has native costing for all modes
+export const createValhallaRoutingService = (baseUrl: string): RoutingService => {
+  const client = axios.create({ baseURL: baseUrl.replace(/\/+$/, "") });
+
+  return {
+    route: async (from: LatLng, to: LatLng, mode: TravelMode) => {
+      try {
+        const response = await client.post<ValhallaResponse>("/route", {
+          locations: [
+            { lat: from.lat, lon: from.lng },
+            { lat: to.lat, lon: to.lng },
+          ],
+          costing: costings[mode],
+          units: "kilometers",
+        });
+
+        const { summary, legs } = response.data.trip;
+        const path: PathPoint[] = [];
+        const steps: RouteStep[] = [];
+
+        // Shape indexes restart with every leg
+        legs.forEach(leg => {
+          const offset = path.length;
+          path.push(...decodePolyline6(leg.shape));
+          leg.maneuvers.forEach(maneuver => {
+            steps.push({
+              message: describeManeuver(maneuver),
+              maneuver: maneuverKinds[maneuver.type] ?? "straight",
+              distance: maneuver.length,
+              pathIndex: offset + maneuver.begin_shape_index,
+            });
+          });
+        });
+
+        return {
+          distance: summary.length,
+          duration: Math.max(1, Math.round(summary.time / 60)),
+          path,
+          steps,
+        };
+      } catch (error) {
+        // Valhalla answers 400 when the points can't be connected
+        if (axios.isAxiosError(error) && error.response?.status === 400) {
+          return undefined;
+        }
+        throw error;
+      }
+    },
+  };
+};
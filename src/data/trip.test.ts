@@ -0,0 +1,86 @@
+import { describe, expect, it } from "vitest";
+import { Restroom } from "@/types";
+import { PathPoint, createRestroomIndex, nearestPointOnPath } from "./geo";
+import { TripStop, findNextCleanStop, findStopsAlongRoute } from "./trip";
+
+const restroomAt = (id: string, lat: number, lng: number, score = 80): Restroom => ({
+  id,
+  name: id,
+  location: { lat, lng },
+  amenities: [],
+  cleanliness: { score, lastUpdated: "2024-01-01T00:00:00Z", reports: 1 },
+  accessibility: false,
+  babyChanging: false,
+  genderNeutral: false,
+  reviews: [],
+});
+
+// East for about 44 km, then north for about 33 km. At this latitude 0.009°
+// is about a kilometre either way.
+const path: PathPoint[] = [
+  [11.0, 76.9],
+  [11.0, 77.3],
+  [11.3, 77.3],
+];
+
+const restrooms = [
+  restroomAt("before-start", 11.0, 76.87),
+  restroomAt("on-route", 11.0, 77.0, 90),
+  restroomAt("north-1km", 11.009, 77.1, 60),
+  restroomAt("south-3km", 10.973, 77.2, 95),
+  restroomAt("inside-corner", 11.01, 77.29),
+  restroomAt("second-leg", 11.2, 77.31),
+  restroomAt("far-away", 11.5, 76.9),
+];
+
+const stopsWithin = (corridorKm: number) => findStopsAlongRoute(createRestroomIndex(restrooms), path, corridorKm);
+
+describe("findStopsAlongRoute", () => {
+  it.each([
+    [0.5, ["on-route"]],
+    [2, ["on-route", "north-1km", "inside-corner", "second-leg"]],
+    [5, ["before-start", "on-route", "north-1km", "south-3km", "inside-corner", "second-leg"]],
+  ])("keeps the restrooms within %d km, in trip order", (corridorKm, ids) => {
+    expect(stopsWithin(corridorKm).map(stop => stop.restroom.id)).toEqual(ids);
+  });
+
+  it.each([
+    ["on-route", 10.9, 0],
+    ["north-1km", 21.8, 1.0],
+    ["second-leg", 65.9, 1.1],
+  ])("places %s %d km into the trip, %d km off the route", (id, along, detour) => {
+    const stop = stopsWithin(2).find(stop => stop.restroom.id === id);
+    expect(stop?.distanceAlongRoute).toBeCloseTo(along, 0);
+    expect(stop?.detour).toBeCloseTo(detour, 1);
+  });
+
+  it.each([0.3, 1, 3])("misses nothing a full scan finds within %d km", corridorKm => {
+    // Every 0.005° (about 550 m) across the trip's surroundings
+    const grid = Array.from({ length: 90 * 90 }, (_, i) =>
+      restroomAt(`grid-${i}`, 10.95 + Math.floor(i / 90) * 0.005, 76.85 + (i % 90) * 0.005)
+    );
+    const expected = grid
+      .filter(restroom => (nearestPointOnPath(restroom.location, path)?.distance ?? Infinity) <= corridorKm)
+      .map(restroom => restroom.id)
+      .sort();
+
+    const stops = findStopsAlongRoute(createRestroomIndex(grid), path, corridorKm);
+    expect(stops.map(stop => stop.restroom.id).sort()).toEqual(expected);
+  });
+
+  it("finds nothing along an empty route", () => {
+    expect(findStopsAlongRoute(createRestroomIndex(restrooms), [], 2)).toEqual([]);
+  });
+});
+
+describe("findNextCleanStop", () => {
+  const stops: TripStop[] = stopsWithin(5);
+
+  it.each([
+    [0, "on-route"],
+    [11, "south-3km"],
+    [40, undefined],
+  ])("after %d km picks %s", (progressKm, id) => {
+    expect(findNextCleanStop(stops, progressKm)?.restroom.id).toBe(id);
+  });
+});
@@ -0,0 +1,77 @@
+import { Restroom } from "../types";
+import {
+  GeoIndex,
+  LatLng,
+  PathPoint,
+  distanceAlongPath,
+  haversineDistance,
+  nearestPointOnPath,
+} from "./geo";
+import { getCleanlinessTier } from "./restrooms";
+
+export interface TripEndpoints {
+  from: LatLng & { label: string };
+  to: LatLng & { label: string };
+}
+
+// A restroom near a trip route, positioned by how far into the trip it is
+export interface TripStop {
+  restroom: Restroom;
+  distanceAlongRoute: number; // kilometers from the start of the trip
+  detour: number;             // kilometers between the route and the restroom
+}
+
+// Points along a path at most `spacing` km apart, so a circle search around
+// each one covers the whole corridor without gaps
+const samplePath = (path: PathPoint[], spacing: number): LatLng[] => {
+  if (path.length === 0) return [];
+
+  const samples: LatLng[] = [{ lat: path[0][0], lng: path[0][1] }];
+  for (let i = 1; i < path.length; i++) {
+    const [lat1, lng1] = path[i - 1];
+    const [lat2, lng2] = path[i];
+    const pieces = Math.ceil(haversineDistance(lat1, lng1, lat2, lng2) / spacing);
+
+    for (let piece = 1; piece <= pieces; piece++) {
+      const t = piece / pieces;
+      samples.push({ lat: lat1 + (lat2 - lat1) * t, lng: lng1 + (lng2 - lng1) * t });
+    }
+  }
+  return samples;
+};
+
+// Restrooms within `corridorKm` of a route, in the order the trip reaches them
+export const findStopsAlongRoute = (
+  index: GeoIndex<Restroom>,
+  path: PathPoint[],
+  corridorKm: number
+): TripStop[] => {
+  // Circles around samples `corridorKm` apart leave no gap if each reaches
+  // a little past the corridor edge (sqrt(1 + 0.5²) ≈ 1.12)
+  const candidates = new Map<string, Restroom>();
+  samplePath(path, corridorKm).forEach(sample => {
+    index.withinRadius(sample.lat, sample.lng, corridorKm * 1.15).forEach(({ item }) => {
+      candidates.set(item.id, item);
+    });
+  });
+
+  const stops: TripStop[] = [];
+  candidates.forEach(restroom => {
+    const onRoute = nearestPointOnPath(restroom.location, path);
+    if (onRoute && onRoute.distance <= corridorKm) {
+      stops.push({
+        restroom,
+        distanceAlongRoute: distanceAlongPath(path, onRoute),
+        detour: onRoute.distance,
+      });
+    }
+  });
+
+  return stops.sort((a, b) => a.distanceAlongRoute - b.distanceAlongRoute);
+};
+
+// First very clean stop still ahead of `progressKm` into the trip
+export const findNextCleanStop = (stops: TripStop[], progressKm: number) =>
+  stops.find(
+    stop => stop.distanceAlongRoute >= progressKm && getCleanlinessTier(stop.restroom.cleanliness.score) === "high"
+  );
@@ -0,0 +1,84 @@
+import { describe, expect, it } from "vitest";
+import { SharedTrip, createTripLink, parseTripSearchParams, toTripSearchParams } from "./tripLink";
+
+const endpoints = {
+  from: { lat: 11.01684, lng: 76.95583, label: "Gandhipuram, Coimbatore" },
+  to: { lat: 11.10854, lng: 77.34109, label: "திருப்பூர் & Bus Stand" },
+};
+
+const roundTrip = (trip: SharedTrip) =>
+  parseTripSearchParams(new URLSearchParams(toTripSearchParams(trip).toString()));
+
+describe("trip links", () => {
+  it.each<[string, SharedTrip]>([
+    ["a trip", { endpoints, mode: "two_wheeler", corridorKm: 5 }],
+    [
+      "a trip with an itinerary",
+      {
+        endpoints,
+        mode: "driving",
+        corridorKm: 2,
+        itinerary: {
+          every: 90,
+          unit: "minutes",
+          departAt: new Date("2024-03-01T08:00:00.000Z"),
+          preferences: { accessibility: false, babyChanging: false, genderNeutral: false, minCleanliness: undefined },
+        },
+      },
+    ],
+    [
+      "an itinerary with preferences",
+      {
+        endpoints,
+        mode: "driving",
+        corridorKm: 3,
+        itinerary: {
+          every: 50,
+          unit: "km",
+          departAt: new Date("2024-03-01T08:00:00.000Z"),
+          preferences: { accessibility: true, babyChanging: true, genderNeutral: true, minCleanliness: 80 },
+        },
+      },
+    ],
+  ])("comes back the same for %s", (_, trip) => {
+    expect(roundTrip(trip)).toEqual(trip);
+  });
+
+  it("rounds coordinates to about a metre", () => {
+    const trip: SharedTrip = {
+      endpoints: { ...endpoints, from: { lat: 11.0168449, lng: 76.9558321, label: "Start" } },
+      mode: "driving",
+      corridorKm: 2,
+    };
+    expect(roundTrip(trip)?.endpoints.from).toEqual({ lat: 11.01684, lng: 76.95583, label: "Start" });
+  });
+
+  it("links to the app with the trip in the query", () => {
+    const link = createTripLink({ endpoints, mode: "walking", corridorKm: 1 }, "https://reststop.example");
+    const url = new URL(link);
+
+    expect(url.origin).toBe("https://reststop.example");
+    expect(url.pathname).toBe("/");
+    expect(parseTripSearchParams(url.searchParams)?.endpoints).toEqual(endpoints);
+  });
+
+  it.each([
+    ["no destination", "from=11,77"],
+    ["no start", "to=11,77"],
+    ["a start that is not a point", "from=gandhipuram&to=11,77"],
+  ])("is not read from a URL with %s", (_, query) => {
+    expect(parseTripSearchParams(new URLSearchParams(query))).toBeUndefined();
+  });
+
+  it.each([
+    ["names each end by its coordinates without a label", "from=11,77&to=11.1,77.3", "endpoints", {
+      from: { lat: 11, lng: 77, label: "11.00000,77.00000" },
+      to: { lat: 11.1, lng: 77.3, label: "11.10000,77.30000" },
+    }],
+    ["drives when the mode is unknown", "from=11,77&to=11.1,77.3&mode=flying", "mode", "driving"],
+    ["keeps a 2 km corridor when none is given", "from=11,77&to=11.1,77.3", "corridorKm", 2],
+    ["plans no itinerary without an interval", "from=11,77&to=11.1,77.3&unit=km", "itinerary", undefined],
+  ])("%s", (_, query, key, value) => {
+    expect(parseTripSearchParams(new URLSearchParams(query))?.[key as keyof SharedTrip]).toEqual(value);
+  });
+});
@@ -0,0 +1,79 @@
+import { TravelMode, travelModes } from "./routing";
+import { ItineraryOptions } from "./itinerary";
+import { TripEndpoints } from "./trip";
+
+// Everything needed to rebuild a planned trip from a URL
+export interface SharedTrip {
+  endpoints: TripEndpoints;
+  mode: TravelMode;
+  corridorKm: number;
+  itinerary?: ItineraryOptions;
+}
+
+const formatPoint = ({ lat, lng }: { lat: number; lng: number }) => `${lat.toFixed(5)},${lng.toFixed(5)}`;
+
+const parsePoint = (value: string | null, label: string | null) => {
+  if (!value) return undefined;
+
+  const [lat, lng] = value.split(",").map(Number);
+  if (!Number.isFinite(lat) || !Number.isFinite(lng)) return undefined;
+  return { lat, lng, label: label || formatPoint({ lat, lng }) };
+};
+
+export const toTripSearchParams = ({ endpoints, mode, corridorKm, itinerary }: SharedTrip) => {
+  const params = new URLSearchParams({
+    from: formatPoint(endpoints.from),
+    fromName: endpoints.from.label,
+    to: formatPoint(endpoints.to),
+    toName: endpoints.to.label,
+    mode,
+    corridor: String(corridorKm),
+  });
+
+  if (itinerary) {
+    params.set("every", String(itinerary.every));
+    params.set("unit", itinerary.unit);
+    params.set("depart", itinerary.departAt.toISOString());
+
+    const { accessibility, babyChanging, genderNeutral, minCleanliness } = itinerary.preferences;
+    if (accessibility) params.set("accessible", "1");
+    if (babyChanging) params.set("babyChanging", "1");
+    if (genderNeutral) params.set("genderNeutral", "1");
+    if (minCleanliness) params.set("minCleanliness", String(minCleanliness));
+  }
+
+  return params;
+};
+
+// Absolute link that opens the app on this trip
+export const createTripLink = (trip: SharedTrip, base: string = window.location.origin) =>
+  `${base}/?${toTripSearchParams(trip).toString()}`;
+
+// Undefined unless the URL holds a complete, valid trip
+export const parseTripSearchParams = (params: URLSearchParams): SharedTrip | undefined => {
+  const from = parsePoint(params.get("from"), params.get("fromName"));
+  const to = parsePoint(params.get("to"), params.get("toName"));
+  if (!from || !to) return undefined;
+
+  const modeParam = params.get("mode");
+  const mode = travelModes.find(info => info.id === modeParam)?.id ?? "driving";
+  const corridorKm = Number(params.get("corridor")) || 2;
+
+  const every = Number(params.get("every"));
+  const departAt = new Date(params.get("depart") ?? "");
+  const itinerary: ItineraryOptions | undefined = every > 0
+    ? {
+        every,
+        unit: params.get("unit") === "km" ? "km" : "minutes",
+        departAt: Number.isNaN(departAt.getTime()) ? new Date() : departAt,
+        preferences: {
+          accessibility: params.get("accessible") === "1",
+          babyChanging: params.get("babyChanging") === "1",
+          genderNeutral: params.get("genderNeutral") === "1",
+          minCleanliness: Number(params.get("minCleanliness")) || undefined,
+        },
+      }
+    : undefined;
+
+  return { endpoints: { from, to }, mode, corridorKm, itinerary };
+};
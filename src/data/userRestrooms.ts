@@ -1,11 +1,10 @@
 
 import { Restroom } from "../types";
-import { defaultLocation } from "./restrooms";
+import { createRestroomIndex, haversineDistance } from "./geo";
 
-// Custom user-added restrooms for Coimbatore
-const userRestrooms: Restroom[] = [
-  // This array will store user-added restrooms
-];
+// The bundled Coimbatore restrooms. Additions go through the repository
+// (src/data/repository), never into this array.
+const userRestrooms: Restroom[] = [];
 
 // Import the fuel station dataset
 const fuelStationDataset = [
@@ -185,94 +184,56 @@ const convertDatasetToRestrooms = (): Restroom[] => {
 const datasetRestrooms = convertDatasetToRestrooms();
 userRestrooms.push(...datasetRestrooms);
 
-// Function to add a new restroom to the dataset
-export const addRestroom = (restroom: Restroom): Restroom[] => {
-  // Create a new restroom with generated ID if not provided
-  const newRestroom = {
-    ...restroom,
-    id: restroom.id || `user-${Date.now()}`,
-  };
-  
-  // Add to user restrooms
-  userRestrooms.push(newRestroom);
-  
-  // Return updated list
-  return [...userRestrooms];
-};
-
 // Get all user-added restrooms
 export const getUserRestrooms = (): Restroom[] => {
   return [...userRestrooms];
 };
 
 // Calculate distance between two coordinates using the Haversine formula
-export const calculateDistance = (
-  lat1: number, 
-  lng1: number, 
-  lat2: number, 
-  lng2: number
-): number => {
-  const R = 6371; // Earth's radius in kilometers
-  
-  const dLat = (lat2 - lat1) * Math.PI / 180;
-  const dLng = (lng2 - lng1) * Math.PI / 180;
-  
-  const a = 
-    Math.sin(dLat / 2) * Math.sin(dLat / 2) +
-    Math.cos(lat1 * Math.PI / 180) * Math.cos(lat2 * Math.PI / 180) * 
-    Math.sin(dLng / 2) * Math.sin(dLng / 2);
-  
-  const c = 2 * Math.atan2(Math.sqrt(a), Math.sqrt(1 - a));
-  const distance = R * c; // Distance in kilometers
-  
-  return distance;
-};
+export const calculateDistance = haversineDistance;
 
-// Get restrooms near a specific location
+// Get restrooms near a specific location, nearest first
 export const getNearbyRestrooms = (
   lat: number, 
   lng: number, 
   radiusInKm: number = 2
 ): Restroom[] => {
-  return userRestrooms.filter(restroom => {
-    const distance = calculateDistance(
-      lat, 
-      lng, 
-      restroom.location.lat, 
-      restroom.location.lng
-    );
-    
-    return distance <= radiusInKm;
-  });
+  return createRestroomIndex(userRestrooms)
+    .withinRadius(lat, lng, radiusInKm)
+    .map(result => result.item);
+};
+
+// Must-haves a traveller can ask for
+export interface RestroomPreferences {
+  accessibility?: boolean;
+  babyChanging?: boolean;
+  genderNeutral?: boolean;
+  minCleanliness?: number;
+}
+
+export const matchesPreferences = (restroom: Restroom, preferences: RestroomPreferences): boolean => {
+  // If accessibility is important and restroom is not accessible, exclude
+  if (preferences.accessibility && !restroom.accessibility) return false;
+  
+  // If baby changing is important and restroom doesn't have it, exclude
+  if (preferences.babyChanging && !restroom.babyChanging) return false;
+  
+  // If gender neutral is important and restroom is not gender neutral, exclude
+  if (preferences.genderNeutral && !restroom.genderNeutral) return false;
+  
+  // If minimum cleanliness score is set and restroom scores below it, exclude
+  if (preferences.minCleanliness && restroom.cleanliness.score < preferences.minCleanliness) return false;
+  
+  return true;
 };
 
 // Function to get recommendations based on user preferences
 export const getRecommendedRestrooms = (
   allRestrooms: Restroom[], 
-  preferences: { 
-    accessibility?: boolean;
-    babyChanging?: boolean;
-    genderNeutral?: boolean;
-    minCleanliness?: number;
-  }
+  preferences: RestroomPreferences
 ): Restroom[] => {
   // Filter restrooms based on user preferences
-  let recommended = allRestrooms.filter(restroom => {
-    // If accessibility is important and restroom is not accessible, exclude
-    if (preferences.accessibility && !restroom.accessibility) return false;
-    
-    // If baby changing is important and restroom doesn't have it, exclude
-    if (preferences.babyChanging && !restroom.babyChanging) return false;
-    
-    // If gender neutral is important and restroom is not gender neutral, exclude
-    if (preferences.genderNeutral && !restroom.genderNeutral) return false;
-    
-    // If minimum cleanliness score is set and restroom scores below it, exclude
-    if (preferences.minCleanliness && restroom.cleanliness.score < preferences.minCleanliness) return false;
-    
-    // Include this restroom in recommendations
-    return true;
-  });
+  let recommended = allRestrooms.filter(restroom => matchesPreferences(restroom, preferences));
   
   // Sort by cleanliness score
   recommended.sort((a, b) => b.cleanliness.score - a.cleanliness.score);
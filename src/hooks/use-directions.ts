@@ -0,0 +1,114 @@
+import { useCallback, useEffect, useMemo, useRef, useState } from "react";
+import { Restroom } from "@/types";
+import {
+  LatLng,
+  distanceAlongPath,
+  haversineDistance,
+  nearestPointOnPath,
+  pathLength,
+} from "@/data/geo";
+import { TravelMode, isStraightLineRoute } from "@/data/routing";
+import { useRoute } from "@/hooks/use-route";
+import { useWatchPosition } from "@/hooks/use-watch-position";
+
+// Farther than this from the drawn route counts as a wrong turn, or farther
+// than the GPS accuracy when that is worse
+const OFF_ROUTE_KM = 0.04;
+// Off-route fixes in a row before re-routing, so one noisy fix doesn't
+const OFF_ROUTE_FIXES = 3;
+// Close enough to the destination to stop giving directions
+const ARRIVED_KM = 0.025;
+
+export interface DirectionsProgress {
+  stepIndex: number;           // the maneuver the user is heading towards
+  distanceToStep: number;      // kilometers to that maneuver
+  remainingDistance: number;   // kilometers to the destination
+  arrived: boolean;
+}
+
+// Live directions to a restroom: follows the device position, re-routes when
+// the user leaves the route and tracks which step comes next. Lives in the
+// page so the route survives switching between the detail and map views.
+export function useDirections(destination: Restroom | undefined, mode: TravelMode) {
+  const [isActive, setIsActive] = useState(false);
+  const [origin, setOrigin] = useState<LatLng>();
+  const { position, error } = useWatchPosition(isActive);
+  const routeQuery = useRoute(origin, isActive ? destination?.location : undefined, mode);
+  const route = routeQuery.data ?? undefined;
+  const isFetching = routeQuery.isFetching;
+  const offRouteFixes = useRef(0);
+
+  // A new destination needs a fresh route from wherever the user is now
+  useEffect(() => {
+    setOrigin(undefined);
+    offRouteFixes.current = 0;
+  }, [destination?.id]);
+
+  useEffect(() => {
+    if (!isActive || !position) return;
+
+    if (!origin) {
+      setOrigin({ lat: position.lat, lng: position.lng });
+      return;
+    }
+    // A straight-line estimate doesn't follow the streets, so the user is
+    // always off it; a new one from here would be no better
+    if (!route || isFetching || isStraightLineRoute(route)) return;
+
+    const onRoute = nearestPointOnPath(position, route.path);
+    const threshold = Math.max(OFF_ROUTE_KM, position.accuracy / 1000);
+    if (!onRoute || onRoute.distance <= threshold) {
+      offRouteFixes.current = 0;
+      return;
+    }
+
+    offRouteFixes.current += 1;
+    if (offRouteFixes.current >= OFF_ROUTE_FIXES) {
+      offRouteFixes.current = 0;
+      setOrigin({ lat: position.lat, lng: position.lng });
+    }
+  }, [isActive, position, origin, route, isFetching]);
+
+  const progress = useMemo((): DirectionsProgress | undefined => {
+    if (!route || !position || !destination) return undefined;
+
+    const onRoute = nearestPointOnPath(position, route.path);
+    if (!onRoute) return undefined;
+
+    const travelled = distanceAlongPath(route.path, onRoute);
+    const nextStep = route.steps.findIndex(step => step.pathIndex > onRoute.segmentIndex);
+    const stepIndex = nextStep === -1 ? route.steps.length - 1 : nextStep;
+    const stepAt = route.steps[stepIndex] ? pathLength(route.path, 0, route.steps[stepIndex].pathIndex) : travelled;
+
+    return {
+      stepIndex,
+      distanceToStep: Math.max(0, stepAt - travelled),
+      remainingDistance: Math.max(0, pathLength(route.path) - travelled),
+      arrived: haversineDistance(position.lat, position.lng, destination.location.lat, destination.location.lng) <= ARRIVED_KM,
+    };
+  }, [route, position, destination]);
+
+  const start = useCallback(() => setIsActive(true), []);
+
+  const stop = useCallback(() => {
+    setIsActive(false);
+    setOrigin(undefined);
+    offRouteFixes.current = 0;
+  }, []);
+
+  return {
+    isActive,
+    route,
+    position,
+    progress,
+    // Waiting for the first GPS fix or for the routing engine
+    isRouting: isActive && !error && (!origin || isFetching),
+    noRoute: routeQuery.data === null,
+    routeFailed: routeQuery.isError,
+    locationError: error,
+    start,
+    stop,
+  };
+}
+
+export type Directions = ReturnType<typeof useDirections>;
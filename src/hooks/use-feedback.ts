@@ -0,0 +1,127 @@
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { CleanlinessReport, Restroom, Review, ReviewReport } from "@/types";
+import {
+  getFeedbackService,
+  getQueuedFeedback,
+  readReviewVotes,
+  recordHelpfulVote,
+  recordReviewReport,
+} from "@/data/feedback";
+import { getRestroomRepository } from "@/data/repository";
+import { assessReview, getModerationService, getSubmissionStatus, hasModerators } from "@/data/moderation";
+import { restroomKeys } from "./use-restrooms";
+
+export const feedbackKeys = {
+  queued: ["feedback", "queued"] as const,
+  reviewVotes: ["feedback", "review-votes"] as const,
+};
+
+// Reviews and reports waiting for a connection
+export function useQueuedFeedback() {
+  return useQuery({
+    queryKey: feedbackKeys.queued,
+    queryFn: getQueuedFeedback,
+  });
+}
+
+interface SubmitReviewVariables {
+  restroomId: string;
+  review: Review;
+}
+
+// Scores the review for spam and abuse, attaches it to the restroom and then
+// sends it (or queues it offline). Attaching comes first so a review the
+// repository refuses, say for a rejected restroom, is never sent. Where
+// moderators check submissions it counts towards the scores once one
+// approves it; until then it is listed as pending, or kept out of sight when
+// the check held it back. Without moderators a review the check let through
+// counts right away.
+export function useSubmitReview() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({ restroomId, review: submitted }: SubmitReviewVariables) => {
+      const repository = getRestroomRepository();
+      const risk = assessReview(submitted, restroomId, await repository.list());
+      const status = getSubmissionStatus(hasModerators(), risk);
+      // Photos share the risk, and so the status, of their review
+      const photos = submitted.photos?.map(photo => ({ ...photo, status }));
+      const review: Review = { ...submitted, risk, status, photos };
+      const restroom = await repository.addReview(restroomId, review);
+      const delivery = await getFeedbackService().submitReview(restroomId, review);
+      return { delivery, restroom, review };
+    },
+    onSuccess: ({ restroom }) => {
+      queryClient.setQueryData(restroomKeys.detail(restroom.id), restroom);
+      queryClient.setQueryData<Restroom[]>(restroomKeys.all, restrooms =>
+        restrooms?.map(existing => (existing.id === restroom.id ? restroom : existing))
+      );
+      queryClient.invalidateQueries({ queryKey: restroomKeys.all });
+      queryClient.invalidateQueries({ queryKey: feedbackKeys.queued });
+    },
+  });
+}
+
+export function useReportCleanliness() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (report: CleanlinessReport) => getFeedbackService().reportCleanliness(report),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: feedbackKeys.queued });
+    },
+  });
+}
+
+// Reviews this device marked helpful or reported
+export function useReviewVotes() {
+  return useQuery({
+    queryKey: feedbackKeys.reviewVotes,
+    queryFn: async () => readReviewVotes(),
+  });
+}
+
+interface VoteHelpfulVariables {
+  restroomId: string;
+  review: Review;
+}
+
+export function useVoteHelpful() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({ restroomId, review }: VoteHelpfulVariables) => {
+      const delivery = await getFeedbackService().voteHelpful({
+        restroomId,
+        reviewId: review.id,
+        date: new Date().toISOString(),
+      });
+      recordHelpfulVote(review);
+      return delivery;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: feedbackKeys.reviewVotes });
+      queryClient.invalidateQueries({ queryKey: feedbackKeys.queued });
+    },
+  });
+}
+
+// Flags the review for the moderation queue and then sends the report (or
+// queues it offline), the same order as submitting a review
+export function useReportReview() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (report: ReviewReport) => {
+      await getModerationService().report(report);
+      const delivery = await getFeedbackService().reportReview(report);
+      recordReviewReport(report.reviewId);
+      return delivery;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: restroomKeys.all });
+      queryClient.invalidateQueries({ queryKey: feedbackKeys.reviewVotes });
+      queryClient.invalidateQueries({ queryKey: feedbackKeys.queued });
+    },
+  });
+}
@@ -0,0 +1,20 @@
+import { createContext, useContext } from "react";
+import { Language, LanguageOption, Translator, createTranslator, getLanguageOption } from "@/data/i18n";
+
+export interface LanguageState {
+  language: Language;
+  // Locale and label of the current language
+  option: LanguageOption;
+  setLanguage: (language: Language) => void;
+  t: Translator;
+}
+
+// English until a LanguageProvider says otherwise
+export const LanguageContext = createContext<LanguageState>({
+  language: "en",
+  option: getLanguageOption("en"),
+  setLanguage: () => null,
+  t: createTranslator("en"),
+});
+
+export const useLanguage = () => useContext(LanguageContext);
@@ -0,0 +1,27 @@
+import { useCallback, useMemo } from "react";
+import { useSearchParams } from "react-router-dom";
+import { MapUrlState, parseMapUrlState, toMapSearchParams } from "@/data/mapUrlState";
+
+interface UpdateOptions {
+  // Replace the current history entry instead of adding one; used for
+  // continuous changes like panning that shouldn't each need a back press
+  replace?: boolean;
+}
+
+// Home screen state read from and written to the query string
+export function useMapUrlState() {
+  const [searchParams, setSearchParams] = useSearchParams();
+  const state = useMemo(() => parseMapUrlState(searchParams), [searchParams]);
+
+  const update = useCallback(
+    (changes: Partial<MapUrlState>, options: UpdateOptions = {}) => {
+      setSearchParams(
+        current => toMapSearchParams({ ...parseMapUrlState(current), ...changes }, current),
+        { replace: options.replace }
+      );
+    },
+    [setSearchParams]
+  );
+
+  return [state, update] as const;
+}
@@ -0,0 +1,40 @@
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { ModerationDecision, ModerationItem, getModerationService } from "@/data/moderation";
+import { restroomKeys } from "./use-restrooms";
+
+export const moderationKeys = {
+  // Built from restroom data, so it refreshes along with it
+  queue: [...restroomKeys.all, "moderation"] as const,
+  auditLog: ["moderation", "audit-log"] as const,
+};
+
+export function useModerationQueue() {
+  return useQuery({
+    queryKey: moderationKeys.queue,
+    queryFn: () => getModerationService().listQueue(),
+  });
+}
+
+export function useAuditLog() {
+  return useQuery({
+    queryKey: moderationKeys.auditLog,
+    queryFn: () => getModerationService().getAuditLog(),
+  });
+}
+
+interface ModerateVariables {
+  item: ModerationItem;
+  decision: ModerationDecision;
+}
+
+export function useModerate() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: ({ item, decision }: ModerateVariables) => getModerationService().decide(item, decision),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: restroomKeys.all });
+      queryClient.invalidateQueries({ queryKey: moderationKeys.auditLog });
+    },
+  });
+}
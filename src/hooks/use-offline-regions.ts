@@ -0,0 +1,49 @@
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import {
+  OfflineRegionPreset,
+  deleteOfflineRegion,
+  downloadOfflineRegion,
+  listOfflineRegions,
+} from "@/data/offline";
+import { getRestroomRepository } from "@/data/repository";
+
+export const offlineKeys = {
+  regions: ["offline", "regions"] as const,
+};
+
+export function useOfflineRegions() {
+  return useQuery({
+    queryKey: offlineKeys.regions,
+    queryFn: listOfflineRegions,
+  });
+}
+
+interface DownloadRegionVariables {
+  preset: OfflineRegionPreset;
+  onProgress?: (done: number, total: number) => void;
+  signal?: AbortSignal;
+}
+
+export function useDownloadOfflineRegion() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: ({ preset, onProgress, signal }: DownloadRegionVariables) =>
+      downloadOfflineRegion(preset, getRestroomRepository(), onProgress, signal),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: offlineKeys.regions });
+    },
+  });
+}
+
+export function useDeleteOfflineRegion() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: deleteOfflineRegion,
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: offlineKeys.regions });
+    },
+  });
+}
+
@@ -0,0 +1,19 @@
+import { useEffect, useState } from "react";
+
+// Mirrors navigator.onLine, which flips as soon as the device loses its
+// network. A captive portal can still report online.
+export function useOnlineStatus() {
+  const [isOnline, setIsOnline] = useState(() => navigator.onLine);
+
+  useEffect(() => {
+    const update = () => setIsOnline(navigator.onLine);
+    window.addEventListener("online", update);
+    window.addEventListener("offline", update);
+    return () => {
+      window.removeEventListener("online", update);
+      window.removeEventListener("offline", update);
+    };
+  }, []);
+
+  return isOnline;
+}
@@ -0,0 +1,15 @@
+import { useMutation } from "@tanstack/react-query";
+import { ProcessedPhoto, getPhotoStorage, processPhoto } from "@/data/photos";
+
+// Resize, compress and strip metadata on the device, before anything is stored
+export function useProcessPhotos() {
+  return useMutation({
+    mutationFn: (files: File[]) => Promise.all(files.map(file => processPhoto(file))),
+  });
+}
+
+export function useSavePhotos() {
+  return useMutation({
+    mutationFn: (photos: ProcessedPhoto[]) => Promise.all(photos.map(photo => getPhotoStorage().save(photo))),
+  });
+}
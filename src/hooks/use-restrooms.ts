@@ -0,0 +1,58 @@
+import { keepPreviousData, useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { Restroom } from "@/types";
+import { Bounds } from "@/data/geo";
+import { getRestroomRepository } from "@/data/repository";
+
+export const restroomKeys = {
+  all: ["restrooms"] as const,
+  detail: (id: string) => ["restrooms", "detail", id] as const,
+  bounds: (bounds: Bounds) => ["restrooms", "bounds", bounds] as const,
+};
+
+// Round to ~100 m so tiny pans reuse the cached query
+const roundBounds = (bounds: Bounds): Bounds => ({
+  south: Math.floor(bounds.south * 1000) / 1000,
+  west: Math.floor(bounds.west * 1000) / 1000,
+  north: Math.ceil(bounds.north * 1000) / 1000,
+  east: Math.ceil(bounds.east * 1000) / 1000,
+});
+
+// Every restroom known to the app (predefined and user-added)
+export function useRestrooms() {
+  return useQuery({
+    queryKey: restroomKeys.all,
+    queryFn: () => getRestroomRepository().list(),
+  });
+}
+
+export function useRestroom(id: string | undefined) {
+  return useQuery({
+    queryKey: restroomKeys.detail(id ?? ""),
+    queryFn: () => getRestroomRepository().getById(id as string),
+    enabled: !!id,
+  });
+}
+
+// Restrooms inside a viewport; keeps showing the previous viewport's
+// results while the next one loads so markers don't flicker while panning
+export function useRestroomsInBounds(bounds: Bounds | null) {
+  const rounded = bounds ? roundBounds(bounds) : null;
+
+  return useQuery({
+    queryKey: restroomKeys.bounds(rounded as Bounds),
+    queryFn: () => getRestroomRepository().listInBounds(rounded as Bounds),
+    enabled: !!rounded,
+    placeholderData: keepPreviousData,
+  });
+}
+
+export function useAddRestroom() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (restroom: Restroom) => getRestroomRepository().add(restroom),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: restroomKeys.all });
+    },
+  });
+}
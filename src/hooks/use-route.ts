@@ -0,0 +1,28 @@
+import { useQuery } from "@tanstack/react-query";
+import { LatLng } from "@/data/geo";
+import { TravelMode, getRoutingService } from "@/data/routing";
+
+// Round to ~10 m so GPS jitter doesn't request a new route
+const roundPoint = (point: LatLng): LatLng => ({
+  lat: Math.round(point.lat * 10000) / 10000,
+  lng: Math.round(point.lng * 10000) / 10000,
+});
+
+export const routeKeys = {
+  route: (from: LatLng, to: LatLng, mode: TravelMode) => ["route", mode, from, to] as const,
+};
+
+// Route between two points for a travel mode; idle until both are known.
+// Resolves to null when the engine finds no route.
+export function useRoute(from: LatLng | undefined, to: LatLng | undefined, mode: TravelMode) {
+  const start = from ? roundPoint(from) : undefined;
+  const end = to ? roundPoint(to) : undefined;
+
+  return useQuery({
+    queryKey: routeKeys.route(start as LatLng, end as LatLng, mode),
+    queryFn: async () => (await getRoutingService().route(start as LatLng, end as LatLng, mode)) ?? null,
+    enabled: !!start && !!end,
+    staleTime: 5 * 60 * 1000,
+    retry: false,
+  });
+}
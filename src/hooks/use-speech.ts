@@ -0,0 +1,157 @@
+import { useCallback, useEffect, useRef, useState } from "react";
+
+// The Web Speech API recognition interface, which TypeScript's DOM types lack
+interface SpeechRecognitionEvent extends Event {
+  resultIndex: number;
+  results: SpeechRecognitionResultList;
+}
+
+interface SpeechRecognitionErrorEvent extends Event {
+  error: string;
+}
+
+interface SpeechRecognitionInterface extends EventTarget {
+  continuous: boolean;
+  interimResults: boolean;
+  lang: string;
+  start: () => void;
+  stop: () => void;
+  abort: () => void;
+  onstart: ((event: Event) => void) | null;
+  onresult: ((event: SpeechRecognitionEvent) => void) | null;
+  onerror: ((event: SpeechRecognitionErrorEvent) => void) | null;
+  onend: ((event: Event) => void) | null;
+}
+
+declare global {
+  interface Window {
+    SpeechRecognition?: new () => SpeechRecognitionInterface;
+    webkitSpeechRecognition?: new () => SpeechRecognitionInterface;
+  }
+}
+
+interface SpeechRecognitionOptions {
+  // BCP 47 tag of the language spoken
+  locale: string;
+  // Keep listening through pauses instead of stopping after one phrase
+  continuous?: boolean;
+  onResult: (transcript: string) => void;
+  // Errors other than silence and aborting; "not-allowed" when the
+  // microphone is blocked
+  onError?: (error: string) => void;
+}
+
+// Errors that only mean nobody spoke, or that listening was cut short on purpose
+const quietErrors = new Set(["no-speech", "aborted"]);
+
+// Speech to text through the browser's speech recognition
+export function useSpeechRecognition({ locale, continuous = false, onResult, onError }: SpeechRecognitionOptions) {
+  const recognitionRef = useRef<SpeechRecognitionInterface | null>(null);
+  const [isListening, setIsListening] = useState(false);
+  // The recognition callbacks are registered once, so they call the latest handlers through a ref
+  const handlersRef = useRef({ onResult, onError });
+  handlersRef.current = { onResult, onError };
+
+  useEffect(() => {
+    const SpeechRecognitionConstructor = window.SpeechRecognition || window.webkitSpeechRecognition;
+    if (!SpeechRecognitionConstructor) return;
+
+    const recognition = new SpeechRecognitionConstructor();
+    recognition.interimResults = false;
+    recognition.onstart = () => setIsListening(true);
+    recognition.onresult = (event) => {
+      const result = event.results[event.resultIndex];
+      const transcript = result?.[0]?.transcript.trim();
+      if (result?.isFinal && transcript) {
+        handlersRef.current.onResult(transcript);
+      }
+    };
+    recognition.onerror = (event) => {
+      if (!quietErrors.has(event.error)) {
+        console.error("Speech recognition error", event);
+        handlersRef.current.onError?.(event.error);
+      }
+    };
+    recognition.onend = () => setIsListening(false);
+    recognitionRef.current = recognition;
+
+    return () => {
+      recognition.onstart = null;
+      recognition.onend = null;
+      recognition.abort();
+      recognitionRef.current = null;
+    };
+  }, []);
+
+  useEffect(() => {
+    if (recognitionRef.current) {
+      recognitionRef.current.lang = locale;
+      recognitionRef.current.continuous = continuous;
+    }
+  }, [locale, continuous]);
+
+  // False when recognition is unsupported or could not start, e.g. while
+  // the previous session is still winding down. isListening follows once
+  // the browser actually starts.
+  const start = useCallback(() => {
+    const recognition = recognitionRef.current;
+    if (!recognition) return false;
+    try {
+      recognition.start();
+      return true;
+    } catch (error) {
+      console.error("Speech recognition error:", error);
+      return false;
+    }
+  }, []);
+
+  // Stops listening and still delivers what was heard so far
+  const stop = useCallback(() => recognitionRef.current?.stop(), []);
+
+  // Stops listening and throws away what was heard
+  const abort = useCallback(() => recognitionRef.current?.abort(), []);
+
+  const isSupported = useCallback(() => recognitionRef.current !== null, []);
+
+  return { isSupported, isListening, start, stop, abort };
+}
+
+// Text to speech through the browser's speech synthesis
+export function useSpeechSynthesis(locale: string) {
+  const [isSpeaking, setIsSpeaking] = useState(false);
+  // Cancelled utterances still report their end, after the next one started
+  const currentRef = useRef<SpeechSynthesisUtterance | null>(null);
+
+  const speak = useCallback((text: string) => {
+    if (!("speechSynthesis" in window) || !text) return;
+
+    // A new reply replaces whatever is still being read
+    window.speechSynthesis.cancel();
+    const utterance = new SpeechSynthesisUtterance(text);
+    utterance.lang = locale;
+    const finish = () => {
+      if (currentRef.current === utterance) {
+        currentRef.current = null;
+        setIsSpeaking(false);
+      }
+    };
+    utterance.onend = finish;
+    utterance.onerror = finish;
+    currentRef.current = utterance;
+    // Set before the voice starts, so nothing listens in on it
+    setIsSpeaking(true);
+    window.speechSynthesis.speak(utterance);
+  }, [locale]);
+
+  const cancel = useCallback(() => {
+    currentRef.current = null;
+    if ("speechSynthesis" in window) {
+      window.speechSynthesis.cancel();
+    }
+    setIsSpeaking(false);
+  }, []);
+
+  useEffect(() => cancel, [cancel]);
+
+  return { isSpeaking, speak, cancel };
+}
@@ -0,0 +1,50 @@
+import { useMemo } from "react";
+import { Restroom } from "@/types";
+import { GeoIndex, LatLng, distanceAlongPath, nearestPointOnPath } from "@/data/geo";
+import { TravelMode } from "@/data/routing";
+import { TripEndpoints, findNextCleanStop, findStopsAlongRoute } from "@/data/trip";
+import { useRoute } from "@/hooks/use-route";
+
+export type { TripEndpoints } from "@/data/trip";
+
+// Route for a road trip and the restrooms along it. `position` moves the
+// "next clean stop" forward once the traveller is on the route.
+export function useTrip(
+  endpoints: TripEndpoints | undefined,
+  index: GeoIndex<Restroom>,
+  mode: TravelMode,
+  corridorKm: number,
+  position?: LatLng
+) {
+  const routeQuery = useRoute(endpoints?.from, endpoints?.to, mode);
+  const route = routeQuery.data ?? undefined;
+
+  const stops = useMemo(
+    () => (route ? findStopsAlongRoute(index, route.path, corridorKm) : []),
+    [route, index, corridorKm]
+  );
+
+  const progress = useMemo(() => {
+    if (!route || !position) return 0;
+
+    // Off the corridor means the trip hasn't started (or was left); count from the start
+    const onRoute = nearestPointOnPath(position, route.path);
+    return onRoute && onRoute.distance <= corridorKm ? distanceAlongPath(route.path, onRoute) : 0;
+  }, [route, position, corridorKm]);
+
+  const nextCleanStop = useMemo(() => {
+    const stop = findNextCleanStop(stops, progress);
+    return stop ? { stop, distance: stop.distanceAlongRoute - progress } : undefined;
+  }, [stops, progress]);
+
+  return {
+    route,
+    stops,
+    nextCleanStop,
+    isLoading: routeQuery.isFetching,
+    noRoute: routeQuery.data === null,
+    routeFailed: routeQuery.isError,
+  };
+}
+
+export type Trip = ReturnType<typeof useTrip>;
@@ -0,0 +1,33 @@
+import { useEffect, useState } from "react";
+import { LatLng } from "@/data/geo";
+
+export interface WatchedPosition extends LatLng {
+  accuracy: number; // meters
+}
+
+// Follows the device position while enabled; stops the GPS when disabled
+export function useWatchPosition(enabled: boolean) {
+  const [position, setPosition] = useState<WatchedPosition>();
+  const [error, setError] = useState<GeolocationPositionError>();
+
+  useEffect(() => {
+    if (!enabled || !navigator.geolocation) return;
+
+    const watchId = navigator.geolocation.watchPosition(
+      (next) => {
+        setPosition({
+          lat: next.coords.latitude,
+          lng: next.coords.longitude,
+          accuracy: next.coords.accuracy,
+        });
+        setError(undefined);
+      },
+      setError,
+      { enableHighAccuracy: true, maximumAge: 5000 }
+    );
+
+    return () => navigator.geolocation.clearWatch(watchId);
+  }, [enabled]);
+
+  return { position, error };
+}
@@ -1,5 +1,18 @@
 import { createRoot } from 'react-dom/client'
 import App from './App.tsx'
+import { TILE_URL_TEMPLATE } from './data/offline'
 import './index.css'
 
 createRoot(document.getElementById("root")!).render(<App />);
+
+// Offline support; skipped in development so the dev server's modules are
+// never served from a stale cache. The worker can't read env variables, so
+// it gets the tile URL it should serve saved tiles for in its own URL.
+if (import.meta.env.PROD && 'serviceWorker' in navigator) {
+  window.addEventListener('load', () => {
+    const workerUrl = `/sw.js?tiles=${encodeURIComponent(TILE_URL_TEMPLATE)}`;
+    navigator.serviceWorker.register(workerUrl).catch((error) => {
+      console.error('Service worker registration failed:', error);
+    });
+  });
+}
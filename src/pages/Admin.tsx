@@ -0,0 +1,151 @@
+import { useState } from "react";
+import { Link } from "react-router-dom";
+import { ArrowLeft, Inbox, Loader2 } from "lucide-react";
+import { toast } from "sonner";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { ModerationItemCard } from "@/components/admin/ModerationItemCard";
+import { ModerationDialog } from "@/components/admin/ModerationDialog";
+import { AuditLogList } from "@/components/admin/AuditLogList";
+import { kindLabels } from "@/components/admin/labels";
+import { ModerationAction, ModerationChanges, ModerationItem, ModerationItemKind } from "@/data/moderation";
+import { useAuditLog, useModerate, useModerationQueue } from "@/hooks/use-moderation";
+import { useLanguage } from "@/hooks/use-language";
+
+// Remembers who is moderating on this device, for the audit log
+const MODERATOR_STORAGE_KEY = "reststop-moderator";
+
+const kinds: ModerationItemKind[] = ["review", "photo", "restroom"];
+
+const Admin = () => {
+  const queue = useModerationQueue();
+  const auditLog = useAuditLog();
+  const moderate = useModerate();
+  const { t } = useLanguage();
+
+  const [moderator, setModerator] = useState(() => localStorage.getItem(MODERATOR_STORAGE_KEY) ?? "");
+  const [kindFilter, setKindFilter] = useState<ModerationItemKind | "all">("all");
+  const [selected, setSelected] = useState<{ item: ModerationItem; action: ModerationAction } | null>(null);
+
+  const items = queue.data ?? [];
+  const visibleItems = kindFilter === "all" ? items : items.filter(item => item.kind === kindFilter);
+
+  const updateModerator = (name: string) => {
+    setModerator(name);
+    localStorage.setItem(MODERATOR_STORAGE_KEY, name);
+  };
+
+  const confirmDecision = (reason: string, changes?: ModerationChanges) => {
+    if (!selected) return;
+
+    moderate.mutate(
+      { item: selected.item, decision: { action: selected.action, reason, moderator, changes } },
+      {
+        onSuccess: (entry) => {
+          toast.success(t(entry.action === "reject" ? "admin.rejected" : "admin.approved", { kind: t(kindLabels[entry.kind]) }));
+          setSelected(null);
+        },
+        onError: (error) => {
+          console.error("Error moderating submission:", error);
+          toast.error(t("admin.saveFailed"));
+        },
+      }
+    );
+  };
+
+  return (
+    <div className="container max-w-2xl mx-auto py-6 px-4">
+      <div className="flex items-center gap-2 mb-6">
+        <Link to="/">
+          <Button variant="ghost" size="icon">
+            <ArrowLeft size={20} />
+          </Button>
+        </Link>
+        <h1 className="text-2xl font-bold">{t("admin.title")}</h1>
+        {items.length > 0 && (
+          <span className="bg-red-500 text-white text-xs px-2 py-1 rounded-full">{items.length}</span>
+        )}
+      </div>
+
+      <div className="grid gap-2 mb-6">
+        <Label htmlFor="moderator-name">{t("admin.moderatorName")}</Label>
+        <Input
+          id="moderator-name"
+          placeholder={t("admin.moderatorHint")}
+          value={moderator}
+          onChange={(e) => updateModerator(e.target.value)}
+        />
+      </div>
+
+      <Tabs defaultValue="queue">
+        <TabsList className="mb-4">
+          <TabsTrigger value="queue">{t("admin.queue", { count: items.length })}</TabsTrigger>
+          <TabsTrigger value="log">{t("admin.auditLog")}</TabsTrigger>
+        </TabsList>
+
+        <TabsContent value="queue" className="space-y-4">
+          <div className="flex flex-wrap gap-2">
+            {(["all", ...kinds] as const).map(kind => {
+              const count = kind === "all" ? items.length : items.filter(item => item.kind === kind).length;
+              return (
+                <Button
+                  key={kind}
+                  size="sm"
+                  variant={kindFilter === kind ? "default" : "outline"}
+                  onClick={() => setKindFilter(kind)}
+                >
+                  {t(kind === "all" ? "admin.all" : kindLabels[kind])} ({count})
+                </Button>
+              );
+            })}
+          </div>
+
+          {queue.isLoading ? (
+            <div className="flex justify-center py-12">
+              <Loader2 className="h-8 w-8 animate-spin text-muted-foreground" />
+            </div>
+          ) : queue.isError ? (
+            <p className="text-center py-12 text-destructive">{t("admin.loadFailed")}</p>
+          ) : visibleItems.length > 0 ? (
+            visibleItems.map(item => (
+              <ModerationItemCard
+                key={item.id}
+                item={item}
+                disabled={moderate.isPending}
+                onDecide={(item, action) => setSelected({ item, action })}
+              />
+            ))
+          ) : (
+            <div className="text-center py-12">
+              <Inbox className="mx-auto h-12 w-12 text-muted-foreground mb-4" />
+              <h3 className="font-medium text-lg">{t("admin.empty")}</h3>
+              <p className="text-muted-foreground">{t("admin.emptyHint")}</p>
+            </div>
+          )}
+        </TabsContent>
+
+        <TabsContent value="log">
+          {auditLog.isLoading ? (
+            <div className="flex justify-center py-12">
+              <Loader2 className="h-8 w-8 animate-spin text-muted-foreground" />
+            </div>
+          ) : (
+            <AuditLogList entries={auditLog.data ?? []} />
+          )}
+        </TabsContent>
+      </Tabs>
+
+      <ModerationDialog
+        item={selected?.item ?? null}
+        action={selected?.action ?? "approve"}
+        isSaving={moderate.isPending}
+        onOpenChange={(open) => !open && setSelected(null)}
+        onConfirm={confirmDecision}
+      />
+    </div>
+  );
+};
+
+export default Admin;
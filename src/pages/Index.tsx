@@ -1,161 +1,207 @@
-import { useEffect, useState } from "react";
+import { useCallback, useEffect, useMemo, useRef, useState } from "react";
+import { useNavigate, useParams, useSearchParams } from "react-router-dom";
 import { Header } from "@/components/Header";
 import { Map } from "@/components/Map";
 import { RestroomCard } from "@/components/RestroomCard";
 import { RestroomDetail } from "@/components/RestroomDetail";
 import { Chatbot } from "@/components/Chatbot";
-import { ThemeProvider } from "@/hooks/use-theme";
+import { useRestrooms } from "@/hooks/use-restrooms";
+import { useDirections } from "@/hooks/use-directions";
+import { TripEndpoints, useTrip } from "@/hooks/use-trip";
+import { useMapUrlState } from "@/hooks/use-map-url-state";
+import { useLanguage } from "@/hooks/use-language";
 import { Restroom } from "@/types";
-import { getAllRestrooms, getRestroomsByLocation, defaultLocation } from "@/data/restrooms";
-import { getUserRestrooms, getNearbyRestrooms } from "@/data/userRestrooms";
+import { defaultLocation } from "@/data/restrooms";
+import { createRestroomIndex, haversineDistance } from "@/data/geo";
+import { isOpenAt } from "@/data/openingHours";
+import { RestroomResult, SortMode, sortRestroomResults, toRestroomResults } from "@/data/ranking";
+import { TravelMode } from "@/data/routing";
+import { parseTripSearchParams } from "@/data/tripLink";
+import { MapView, OpenFilter, toMapSearchParams } from "@/data/mapUrlState";
 import { Button } from "@/components/ui/button";
-import { MapPin, List, Plus, Filter } from "lucide-react";
+import { Input } from "@/components/ui/input";
+import { MapPin, List, Plus, Filter, Clock, ArrowUpDown } from "lucide-react";
 import { AddRestroomForm } from "@/components/AddRestroomForm";
+import { TravelModeToggle } from "@/components/TravelModeToggle";
+import { DirectionsPanel } from "@/components/directions/DirectionsPanel";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { TripPlanner } from "@/components/trip/TripPlanner";
 import { toast } from "sonner";
 
+// What the list shows: restrooms near the user (all of them without a
+// location), a search, or the chatbot's latest answer
+type ListSource = { type: "nearby" } | { type: "search"; query: string } | { type: "chat"; ids: string[] };
+
+// `query` is lower case
+const matchesSearch = (restroom: Restroom, query: string) =>
+  restroom.name.toLowerCase().includes(query) ||
+  (!!restroom.description && restroom.description.toLowerCase().includes(query)) ||
+  (!!restroom.location.address && restroom.location.address.toLowerCase().includes(query));
+
 const Index = () => {
-  const [restrooms, setRestrooms] = useState<Restroom[]>([]);
-  const [selectedId, setSelectedId] = useState<string | undefined>(undefined);
+  const [searchParams] = useSearchParams();
+  const navigate = useNavigate();
+  // /restroom/:id opens the detail page; everything else lives in the query
+  const { id: detailId } = useParams();
+  const [mapState, updateMapState] = useMapUrlState();
+  const { t } = useLanguage();
+  // Toasts fire from effects that shouldn't re-run when the language changes
+  const translateRef = useRef(t);
+  translateRef.current = t;
+  const { viewMode, radius: filterRadius, openFilter, openAt, sortMode } = mapState;
+  const selectedId = detailId ?? mapState.selectedId;
+  const isDetailView = !!detailId;
+  // A shared trip link opens straight into road-trip mode
+  const [sharedTrip] = useState(() => parseTripSearchParams(searchParams));
+  const { data, isLoading } = useRestrooms();
+  const allRestrooms = useMemo(() => data ?? [], [data]);
+  const geoIndex = useMemo(() => createRestroomIndex(allRestrooms), [allRestrooms]);
+  const [listSource, setListSource] = useState<ListSource>({ type: "nearby" });
   const [currentLocation, setCurrentLocation] = useState(defaultLocation);
-  const [viewMode, setViewMode] = useState<"map" | "list">("map");
-  const [isDetailView, setIsDetailView] = useState(false);
   const [isAddingRestroom, setIsAddingRestroom] = useState(false);
-  const [filterRadius, setFilterRadius] = useState<number>(2);
   const [isUsingLocation, setIsUsingLocation] = useState(false);
-  const [totalRestroomCount, setTotalRestroomCount] = useState(0);
+  const [travelMode, setTravelMode] = useState<TravelMode>(sharedTrip?.mode ?? "walking");
+  const [searchMode, setSearchMode] = useState<"nearby" | "trip">(sharedTrip ? "trip" : "nearby");
+  const [tripEndpoints, setTripEndpoints] = useState<TripEndpoints | undefined>(sharedTrip?.endpoints);
+  const [corridorKm, setCorridorKm] = useState(sharedTrip?.corridorKm ?? 2);
+  const totalRestroomCount = allRestrooms.length;
+
+  // Looked up in the full dataset so directions survive filter changes
+  const destination = useMemo(
+    () => allRestrooms.find(restroom => restroom.id === selectedId),
+    [allRestrooms, selectedId]
+  );
+  const directions = useDirections(destination, travelMode);
+  const { locationError, noRoute, routeFailed } = directions;
+
+  const trip = useTrip(
+    tripEndpoints,
+    geoIndex,
+    travelMode,
+    corridorKm,
+    directions.position ?? (isUsingLocation ? currentLocation : undefined)
+  );
+  const isTripShown = searchMode === "trip" && !!trip.route;
+
+  useEffect(() => {
+    if (trip.noRoute) {
+      toast.error(translateRef.current("index.tripNoRoute"));
+    } else if (trip.routeFailed) {
+      toast.error(translateRef.current("index.tripFailed"));
+    }
+  }, [trip.noRoute, trip.routeFailed]);
+
+  useEffect(() => {
+    if (locationError) {
+      toast.error(translateRef.current("index.directionsNeedLocation"));
+    }
+  }, [locationError]);
+
+  useEffect(() => {
+    if (noRoute) {
+      toast.error(translateRef.current("index.noRoute"));
+    } else if (routeFailed) {
+      toast.error(translateRef.current("index.routeFailed"));
+    }
+  }, [noRoute, routeFailed]);
+
+  // Older links (and the recommendation pages before deep links) used
+  // ?restroomId=; send them to the detail route
+  const legacyRestroomId = searchParams.get("restroomId");
+  useEffect(() => {
+    if (legacyRestroomId) {
+      navigate(`/restroom/${encodeURIComponent(legacyRestroomId)}`, { replace: true });
+    }
+  }, [legacyRestroomId, navigate]);
 
   useEffect(() => {
-    // Load the total count of predefined and user-added restrooms
-    const allRestrooms = [...getAllRestrooms(), ...getUserRestrooms()];
-    setTotalRestroomCount(allRestrooms.length);
-    
     // Get user's geolocation if available
     if (navigator.geolocation) {
       navigator.geolocation.getCurrentPosition(
         (position) => {
-          const userLocation = {
+          setCurrentLocation({
             lat: position.coords.latitude,
             lng: position.coords.longitude
-          };
-          
-          setCurrentLocation(userLocation);
+          });
           setIsUsingLocation(true);
-          
-          // Load nearby restrooms based on user's location and filter radius
-          const nearbyRestrooms = [
-            ...getRestroomsByLocation(userLocation.lat, userLocation.lng, filterRadius),
-            ...getNearbyRestrooms(userLocation.lat, userLocation.lng, filterRadius)
-          ];
-          
-          setRestrooms(nearbyRestrooms);
-          
-          // Show notification about nearby restrooms
-          if (nearbyRestrooms.length === 0) {
-            toast.warning(`No restrooms found within ${filterRadius}km of your location`);
-          } else {
-            toast.success(`Found ${nearbyRestrooms.length} restrooms within ${filterRadius}km of your location`);
-          }
         },
         (error) => {
           console.error("Error getting location:", error);
-          // Fallback to default location and load all restrooms
-          loadAllRestrooms();
-          toast.error("Couldn't access your location. Showing all restrooms instead.");
+          // Fallback to default location; all restrooms stay visible
+          toast.error(translateRef.current("index.locationFailed"));
         }
       );
-    } else {
-      // Geolocation not available, load all restrooms
-      loadAllRestrooms();
     }
-    
-    // Display a welcome message specific to Coimbatore
-    console.log("Welcome to RestStop Coimbatore, Tamil Nadu!");
   }, []);
-  
-  // Update restrooms when filter radius changes
-  useEffect(() => {
-    if (isUsingLocation) {
-      const nearbyRestrooms = [
-        ...getRestroomsByLocation(currentLocation.lat, currentLocation.lng, filterRadius),
-        ...getNearbyRestrooms(currentLocation.lat, currentLocation.lng, filterRadius)
-      ];
-      
-      setRestrooms(nearbyRestrooms);
-      
-      // Show notification about filter radius change
-      if (nearbyRestrooms.length === 0) {
-        toast.warning(`No restrooms found within ${filterRadius}km of your location`);
-      } else {
-        toast.info(`Showing ${nearbyRestrooms.length} restrooms within ${filterRadius}km of your location`);
+
+  const nearbyRestrooms = useMemo(
+    () => isUsingLocation
+      ? geoIndex.withinRadius(currentLocation.lat, currentLocation.lng, filterRadius).map(result => result.item)
+      : allRestrooms,
+    [allRestrooms, geoIndex, currentLocation, filterRadius, isUsingLocation]
+  );
+  const nearbyCountRef = useRef(nearbyRestrooms.length);
+  nearbyCountRef.current = nearbyRestrooms.length;
+
+  // Looked up in the latest data, so a refetch refreshes the list without
+  // replacing search or chat results
+  const restrooms = useMemo(() => {
+    switch (listSource.type) {
+      case "nearby":
+        return nearbyRestrooms;
+      case "search": {
+        // Always search in the full dataset
+        const query = listSource.query.toLowerCase();
+        return allRestrooms.filter(restroom => matchesSearch(restroom, query));
       }
+      case "chat":
+        return listSource.ids
+          .map(id => allRestrooms.find(restroom => restroom.id === id))
+          .filter((restroom): restroom is Restroom => !!restroom);
     }
-  }, [filterRadius, currentLocation, isUsingLocation]);
-  
-  const loadAllRestrooms = () => {
-    const allRestrooms = [...getAllRestrooms(), ...getUserRestrooms()];
-    setRestrooms(allRestrooms);
-  };
+  }, [listSource, nearbyRestrooms, allRestrooms]);
 
-  const handleSearch = (query: string) => {
-    // Always search in the full dataset
-    if (!query) {
-      if (isUsingLocation) {
-        // If using location, reapply the location filter
-        const nearbyRestrooms = [
-          ...getRestroomsByLocation(currentLocation.lat, currentLocation.lng, filterRadius),
-          ...getNearbyRestrooms(currentLocation.lat, currentLocation.lng, filterRadius)
-        ];
-        setRestrooms(nearbyRestrooms);
-      } else {
-        // Otherwise load all restrooms
-        loadAllRestrooms();
-      }
-      return;
+  // A new location or radius goes back to the nearby list and says how much
+  // is in it. Not on data changes: a background refetch shouldn't toast.
+  useEffect(() => {
+    setListSource({ type: "nearby" });
+    if (isLoading || !isUsingLocation) return;
+
+    if (nearbyCountRef.current === 0) {
+      toast.warning(translateRef.current("index.noneInRadius", { radius: filterRadius }));
+    } else {
+      toast.info(translateRef.current("index.inRadius", { count: nearbyCountRef.current, radius: filterRadius }));
     }
-    
-    // Search in the complete dataset
-    const allData = [...getAllRestrooms(), ...getUserRestrooms()];
-    const filtered = allData.filter(
-      restroom => 
-        restroom.name.toLowerCase().includes(query.toLowerCase()) ||
-        (restroom.description && restroom.description.toLowerCase().includes(query.toLowerCase())) ||
-        (restroom.location.address && restroom.location.address.toLowerCase().includes(query.toLowerCase()))
-    );
-    
-    setRestrooms(filtered);
+  }, [isLoading, filterRadius, currentLocation, isUsingLocation]);
+
+  const handleSearch = (query: string) => {
+    // An empty search goes back to the nearby list
+    setListSource(query ? { type: "search", query } : { type: "nearby" });
   };
 
   const handleSelectRestroom = (id: string) => {
-    setSelectedId(id);
-    setIsDetailView(true);
+    // Directions belong to one restroom; picking another ends them
+    if (id !== selectedId) {
+      directions.stop();
+    }
+    // Carry the map state along so going back restores the same view
+    navigate({ pathname: `/restroom/${encodeURIComponent(id)}`, search: searchParams.toString() });
   };
 
   const handleBackFromDetail = () => {
-    setIsDetailView(false);
+    navigate({
+      pathname: "/",
+      search: toMapSearchParams({ ...mapState, selectedId }, searchParams).toString(),
+    });
   };
 
   const handleAddRestroom = () => {
     setIsAddingRestroom(true);
   };
 
-  const handleRestroomAdded = (newRestrooms: Restroom[]) => {
-    // Update the restrooms list to include user-added restrooms
-    if (isUsingLocation) {
-      // If using location, reapply the location filter
-      const nearbyRestrooms = [
-        ...getRestroomsByLocation(currentLocation.lat, currentLocation.lng, filterRadius),
-        ...getNearbyRestrooms(currentLocation.lat, currentLocation.lng, filterRadius)
-      ];
-      setRestrooms(nearbyRestrooms);
-    } else {
-      // Otherwise load all restrooms
-      const allRestrooms = [...getAllRestrooms(), ...newRestrooms];
-      setRestrooms(allRestrooms);
-    }
-    
-    // Update total count
-    setTotalRestroomCount(getAllRestrooms().length + newRestrooms.length);
+  const handleRestroomAdded = () => {
+    // The restroom query is invalidated by the mutation, so the list refreshes on its own
     setIsAddingRestroom(false);
   };
 
@@ -164,98 +210,212 @@ const Index = () => {
   };
   
   const handleRadiusChange = (value: string) => {
-    setFilterRadius(Number(value));
+    updateMapState({ radius: Number(value) });
   };
 
+  // Panning replaces the history entry; only deliberate changes add one
+  const handleMapViewChange = useCallback(
+    (view: MapView) => updateMapState({ view }, { replace: true }),
+    [updateMapState]
+  );
+
   // -- Add this function to focus map on selected restroom and switch to map view --
   const handleShowOnMap = (restroomId: string) => {
-    setViewMode("map");
-    setIsDetailView(false);
-    setSelectedId(restroomId);
-    toast.info("Centered map on restroom location.");
+    const restroom = allRestrooms.find(candidate => candidate.id === restroomId);
+    navigate({
+      pathname: "/",
+      search: toMapSearchParams(
+        {
+          ...mapState,
+          viewMode: "map",
+          selectedId: restroomId,
+          view: restroom ? { center: restroom.location, zoom: mapState.view?.zoom ?? 16 } : mapState.view,
+        },
+        searchParams
+      ).toString(),
+    });
+    toast.info(t("index.centeredOnMap"));
   };
 
-  const selectedRestroom = restrooms.find(r => r.id === selectedId);
+  // The chatbot's latest answer replaces the list and selects the restroom it's talking about
+  const handleShowChatResults = (restroomIds: string[], focusId?: string) => {
+    const findRestroom = (id: string) => allRestrooms.find(restroom => restroom.id === id);
+    setListSource({ type: "chat", ids: restroomIds });
+    setSearchMode("nearby");
+    if (focusId !== selectedId) {
+      directions.stop();
+    }
+
+    const focus = focusId ? findRestroom(focusId) : undefined;
+    navigate({
+      pathname: "/",
+      search: toMapSearchParams(
+        {
+          ...mapState,
+          viewMode: "map",
+          selectedId: focusId,
+          view: focus ? { center: focus.location, zoom: mapState.view?.zoom ?? 15 } : mapState.view,
+        },
+        searchParams
+      ).toString(),
+    });
+  };
+
+  // When restrooms have to be open, if the opening hours filter is on
+  const openTime = useMemo(() => {
+    if (openFilter === "any") return undefined;
+    if (openFilter === "at" && !openAt) return undefined;
+    return openFilter === "now" ? new Date() : new Date(openAt);
+  }, [openFilter, openAt]);
+
+  // Apply the opening hours filter on top of the location/search results
+  const visibleRestrooms = useMemo(
+    () => (openTime ? restrooms.filter(restroom => isOpenAt(restroom, openTime)) : restrooms),
+    [restrooms, openTime]
+  );
+
+  // Attach distance and travel time from the user, then order by the chosen mode
+  const sortedResults = useMemo(
+    () => sortRestroomResults(
+      toRestroomResults(visibleRestrooms, isUsingLocation ? currentLocation : undefined, travelMode),
+      sortMode
+    ),
+    [visibleRestrooms, isUsingLocation, currentLocation, travelMode, sortMode]
+  );
+
+  const sidebarTitle = t(sortMode === "nearest"
+    ? "index.titleNearest"
+    : sortMode === "cleanest"
+      ? "index.titleCleanest"
+      : isUsingLocation ? "index.titleBestNearby" : "index.titleTopRated");
+
+  // The map loads restrooms for its viewport and shows the ones that pass
+  // the same filters as the list. In trip mode it shows the trip route and
+  // only restrooms along it.
+  const tripStopIds = useMemo(() => new Set(trip.stops.map(stop => stop.restroom.id)), [trip.stops]);
+  const isShownOnMap = useCallback(
+    (restroom: Restroom) => {
+      if (isTripShown) return tripStopIds.has(restroom.id);
+      if (openTime && !isOpenAt(restroom, openTime)) return false;
+
+      switch (listSource.type) {
+        case "nearby":
+          return !isUsingLocation ||
+            haversineDistance(currentLocation.lat, currentLocation.lng, restroom.location.lat, restroom.location.lng) <=
+              filterRadius;
+        case "search":
+          return matchesSearch(restroom, listSource.query.toLowerCase());
+        case "chat":
+          return listSource.ids.includes(restroom.id);
+      }
+    },
+    [isTripShown, tripStopIds, openTime, listSource, isUsingLocation, currentLocation, filterRadius]
+  );
+  const listResults: RestroomResult[] = isTripShown ? trip.stops.map(({ restroom }) => ({ restroom })) : sortedResults;
+  const mapRoute = directions.route ?? (isTripShown ? trip.route : undefined);
+  const mapRouteKey = directions.route
+    ? `directions-${selectedId}`
+    : tripEndpoints && `trip-${tripEndpoints.from.label}-${tripEndpoints.to.label}-${travelMode}`;
 
   return (
-    <ThemeProvider>
-      <div className="min-h-screen flex flex-col bg-background">
-        <Header onSearch={handleSearch} />
-        
-        <main className="flex-1 container grid md:grid-cols-12 gap-4 py-4">
-          {isAddingRestroom ? (
-            <div className="col-span-12">
-              <AddRestroomForm 
-                onRestroomAdded={handleRestroomAdded}
-                onCancel={handleCancelAddRestroom}
-              />
-            </div>
-          ) : !isDetailView ? (
-            <>
-              <div className="md:col-span-8 order-2 md:order-1">
-                {viewMode === "map" ? (
-                  <Map 
-                    restrooms={restrooms} 
-                    currentLocation={currentLocation}
-                    selectedId={selectedId}
-                    onSelectRestroom={handleSelectRestroom}
-                  />
-                ) : (
-                  <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
-                    {restrooms.length === 0 ? (
-                      <div className="col-span-full flex items-center justify-center h-64 text-muted-foreground">
-                        No restrooms found matching your criteria
-                      </div>
-                    ) : (
-                      restrooms.map(restroom => (
-                        <RestroomCard 
-                          key={restroom.id} 
-                          restroom={restroom}
-                          onClick={() => handleSelectRestroom(restroom.id)}
-                          isSelected={restroom.id === selectedId}
-                        />
-                      ))
-                    )}
-                  </div>
-                )}
-              </div>
-              
-              <div className="md:col-span-4 order-1 md:order-2">
-                <div className="bg-white dark:bg-reststop-dark rounded-lg shadow-md p-4 mb-4">
-                  <div className="flex justify-between items-center mb-4">
-                    <h2 className="text-xl font-semibold">RestStop Coimbatore</h2>
-                    <div className="flex gap-2">
-                      <Button 
-                        size="sm" 
-                        variant={viewMode === "map" ? "default" : "outline"}
-                        onClick={() => setViewMode("map")}
-                      >
-                        <MapPin className="h-4 w-4 mr-1" />
-                        Map
-                      </Button>
-                      <Button 
-                        size="sm" 
-                        variant={viewMode === "list" ? "default" : "outline"}
-                        onClick={() => setViewMode("list")}
-                      >
-                        <List className="h-4 w-4 mr-1" />
-                        List
-                      </Button>
+    <div className="min-h-screen flex flex-col bg-background">
+      <Header onSearch={handleSearch} />
+      
+      <main className="flex-1 container grid md:grid-cols-12 gap-4 py-4">
+        {isAddingRestroom ? (
+          <div className="col-span-12">
+            <AddRestroomForm 
+              onRestroomAdded={handleRestroomAdded}
+              onCancel={handleCancelAddRestroom}
+            />
+          </div>
+        ) : !isDetailView ? (
+          <>
+            <div className="md:col-span-8 order-2 md:order-1">
+              {viewMode === "map" ? (
+                <Map 
+                  filter={isShownOnMap}
+                  currentLocation={currentLocation}
+                  selectedId={selectedId}
+                  travelMode={travelMode}
+                  route={mapRoute}
+                  routeKey={mapRouteKey}
+                  nextCleanStop={isTripShown && !directions.route ? trip.nextCleanStop : undefined}
+                  userPosition={directions.position}
+                  view={mapState.view}
+                  onViewChange={handleMapViewChange}
+                  onSelectRestroom={handleSelectRestroom}
+                />
+              ) : (
+                <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                  {listResults.length === 0 ? (
+                    <div className="col-span-full flex items-center justify-center h-64 text-muted-foreground">
+                      {t("index.empty")}
                     </div>
+                  ) : (
+                    listResults.map(({ restroom, distance, travelMinutes }) => (
+                      <RestroomCard 
+                        key={restroom.id} 
+                        restroom={restroom}
+                        onClick={() => handleSelectRestroom(restroom.id)}
+                        isSelected={restroom.id === selectedId}
+                        distance={distance}
+                        travelMinutes={travelMinutes}
+                        travelMode={travelMode}
+                      />
+                    ))
+                  )}
+                </div>
+              )}
+            </div>
+            
+            <div className="md:col-span-4 order-1 md:order-2">
+              {directions.isActive && destination && (
+                <div className="mb-4">
+                  <DirectionsPanel directions={directions} destinationName={destination.name} travelMode={travelMode} />
+                </div>
+              )}
+              <div className="bg-white dark:bg-reststop-dark rounded-lg shadow-md p-4 mb-4">
+                <div className="flex justify-between items-center mb-4">
+                  <h2 className="text-xl font-semibold">{t("index.title")}</h2>
+                  <div className="flex gap-2">
+                    <Button 
+                      size="sm" 
+                      variant={viewMode === "map" ? "default" : "outline"}
+                      onClick={() => updateMapState({ viewMode: "map" })}
+                    >
+                      <MapPin className="h-4 w-4 mr-1" />
+                      {t("index.map")}
+                    </Button>
+                    <Button 
+                      size="sm" 
+                      variant={viewMode === "list" ? "default" : "outline"}
+                      onClick={() => updateMapState({ viewMode: "list" })}
+                    >
+                      <List className="h-4 w-4 mr-1" />
+                      {t("index.list")}
+                    </Button>
                   </div>
-                  
-                  <div className="space-y-3">
+                </div>
+                
+                <Tabs value={searchMode} onValueChange={(value) => setSearchMode(value as "nearby" | "trip")}>
+                  <TabsList className="grid w-full grid-cols-2 mb-3">
+                    <TabsTrigger value="nearby">{t("index.nearby")}</TabsTrigger>
+                    <TabsTrigger value="trip">{t("index.roadTrip")}</TabsTrigger>
+                  </TabsList>
+
+                  <TabsContent value="nearby" className="space-y-3">
                     <div className="flex justify-between items-center">
                       <div className="text-sm">
-                        <strong>{restrooms.length}</strong> of <strong>{totalRestroomCount}</strong> restrooms shown
+                        {t("index.shownCount", { shown: visibleRestrooms.length, total: totalRestroomCount })}
                       </div>
-                      
+                    
                       {isUsingLocation && (
                         <div className="flex items-center gap-2">
                           <Filter className="h-4 w-4" />
-                          <Select defaultValue={filterRadius.toString()} onValueChange={handleRadiusChange}>
+                          <Select value={filterRadius.toString()} onValueChange={handleRadiusChange}>
                             <SelectTrigger className="w-24">
-                              <SelectValue placeholder="Radius" />
+                              <SelectValue placeholder={t("index.radius")} />
                             </SelectTrigger>
                             <SelectContent>
                               <SelectItem value="1">1 km</SelectItem>
@@ -269,54 +429,114 @@ const Index = () => {
                         </div>
                       )}
                     </div>
-                    
+
+                    <div className="flex flex-wrap items-center gap-2">
+                      <ArrowUpDown className="h-4 w-4" />
+                      <Select value={sortMode} onValueChange={(value: SortMode) => updateMapState({ sortMode: value })}>
+                        <SelectTrigger className="w-40">
+                          <SelectValue placeholder={t("index.sortBy")} />
+                        </SelectTrigger>
+                        <SelectContent>
+                          <SelectItem value="best">{t("index.sortBest")}</SelectItem>
+                          <SelectItem value="nearest" disabled={!isUsingLocation}>{t("index.sortNearest")}</SelectItem>
+                          <SelectItem value="cleanest">{t("index.sortCleanest")}</SelectItem>
+                        </SelectContent>
+                      </Select>
+                      <TravelModeToggle value={travelMode} onChange={setTravelMode} />
+                    </div>
+
+                    <div className="flex flex-wrap items-center gap-2">
+                      <Clock className="h-4 w-4" />
+                      <Select value={openFilter} onValueChange={(value: OpenFilter) => updateMapState({ openFilter: value })}>
+                        <SelectTrigger className="w-32">
+                          <SelectValue placeholder={t("index.hours")} />
+                        </SelectTrigger>
+                        <SelectContent>
+                          <SelectItem value="any">{t("index.hoursAny")}</SelectItem>
+                          <SelectItem value="now">{t("index.hoursNow")}</SelectItem>
+                          <SelectItem value="at">{t("index.hoursAt")}</SelectItem>
+                        </SelectContent>
+                      </Select>
+                      {openFilter === "at" && (
+                        <Input
+                          type="datetime-local"
+                          className="w-auto flex-1"
+                          value={openAt}
+                          onChange={(e) => updateMapState({ openAt: e.target.value }, { replace: true })}
+                          aria-label={t("index.openAtLabel")}
+                        />
+                      )}
+                    </div>
+                  
                     <div className="space-y-2">
                       <div className="flex justify-between items-center">
-                        <h3 className="font-medium">Top rated restrooms</h3>
+                        <h3 className="font-medium">{sidebarTitle}</h3>
                         <Button 
                           size="sm" 
                           variant="outline" 
                           onClick={handleAddRestroom}
                         >
                           <Plus className="h-4 w-4 mr-1" />
-                          Add New
+                          {t("index.addNew")}
                         </Button>
                       </div>
-                      {restrooms
-                        .sort((a, b) => b.cleanliness.score - a.cleanliness.score)
+                      {sortedResults
                         .slice(0, 3)
-                        .map(restroom => (
+                        .map(({ restroom, distance, travelMinutes }) => (
                           <RestroomCard
                             key={restroom.id}
                             restroom={restroom}
                             onClick={() => handleSelectRestroom(restroom.id)}
                             isSelected={restroom.id === selectedId}
+                            distance={distance}
+                            travelMinutes={travelMinutes}
+                            travelMode={travelMode}
                           />
                         ))
                       }
                     </div>
-                  </div>
-                </div>
+                  </TabsContent>
+
+                  <TabsContent value="trip">
+                    <TripPlanner
+                      trip={trip}
+                      endpoints={tripEndpoints}
+                      onPlan={setTripEndpoints}
+                      onClear={() => setTripEndpoints(undefined)}
+                      corridorKm={corridorKm}
+                      onCorridorChange={setCorridorKm}
+                      travelMode={travelMode}
+                      onTravelModeChange={setTravelMode}
+                      currentLocation={isUsingLocation ? currentLocation : undefined}
+                      selectedId={selectedId}
+                      onSelectRestroom={handleSelectRestroom}
+                      itineraryOptions={tripEndpoints === sharedTrip?.endpoints ? sharedTrip.itinerary : undefined}
+                    />
+                  </TabsContent>
+                </Tabs>
               </div>
-            </>
-          ) : selectedRestroom ? (
-            <div className="col-span-12">
-              <RestroomDetail 
-                restroom={selectedRestroom}
-                onBack={handleBackFromDetail}
-                onShowOnMap={() => handleShowOnMap(selectedRestroom.id)}
-              />
             </div>
-          ) : (
-            <div className="col-span-12 flex items-center justify-center h-64">
-              <p>Restroom not found</p>
-            </div>
-          )}
-        </main>
-        
-        <Chatbot onFindNearbyRestrooms={handleSearch} />
-      </div>
-    </ThemeProvider>
+          </>
+        ) : destination ? (
+          <div className="col-span-12">
+            <RestroomDetail 
+              restroom={destination}
+              onBack={handleBackFromDetail}
+              onShowOnMap={() => handleShowOnMap(destination.id)}
+              travelMode={travelMode}
+              onTravelModeChange={setTravelMode}
+              directions={directions}
+            />
+          </div>
+        ) : (
+          <div className="col-span-12 flex items-center justify-center h-64">
+            <p>{t(isLoading ? "index.loadingRestroom" : "index.restroomNotFound")}</p>
+          </div>
+        )}
+      </main>
+      
+      <Chatbot onShowRestrooms={handleShowChatResults} />
+    </div>
   );
 };
 
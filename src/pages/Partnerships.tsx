@@ -1,13 +1,14 @@
 
 import { Header } from "@/components/Header";
-import { getAllRestrooms } from "@/data/restrooms";
-import { getUserRestrooms } from "@/data/userRestrooms";
+import { useRestrooms } from "@/hooks/use-restrooms";
+import { useLanguage } from "@/hooks/use-language";
 import { RestroomCard } from "@/components/RestroomCard";
 import { useNavigate } from "react-router-dom";
 
 export default function Partnerships() {
   const navigate = useNavigate();
-  const allRestrooms = [...getAllRestrooms(), ...getUserRestrooms()];
+  const { t } = useLanguage();
+  const { data: allRestrooms = [] } = useRestrooms();
   
   const partnerRestrooms = allRestrooms.filter(
     restroom => restroom.businessInfo?.type && 
@@ -17,14 +18,14 @@ export default function Partnerships() {
   );
 
   const handleSelectRestroom = (id: string) => {
-    navigate(`/?restroomId=${id}`);
+    navigate(`/restroom/${encodeURIComponent(id)}`);
   };
 
   return (
     <div className="min-h-screen flex flex-col bg-background">
       <Header onSearch={() => {}} />
       <main className="container py-4">
-        <h1 className="text-2xl font-bold mb-4">Partner Locations</h1>
+        <h1 className="text-2xl font-bold mb-4">{t("partnerships.title")}</h1>
         <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4">
           {partnerRestrooms.map(restroom => (
             <RestroomCard
@@ -1,16 +1,15 @@
 
 import { RestroomRecommendations } from "@/components/RestroomRecommendations";
 import { Header } from "@/components/Header";
-import { getAllRestrooms } from "@/data/restrooms";
-import { getUserRestrooms } from "@/data/userRestrooms";
+import { useRestrooms } from "@/hooks/use-restrooms";
 import { useNavigate } from "react-router-dom";
 
 export default function Recommendations() {
   const navigate = useNavigate();
-  const allRestrooms = [...getAllRestrooms(), ...getUserRestrooms()];
+  const { data: allRestrooms = [] } = useRestrooms();
 
   const handleSelectRestroom = (id: string) => {
-    navigate(`/?restroomId=${id}`);
+    navigate(`/restroom/${encodeURIComponent(id)}`);
   };
 
   return (
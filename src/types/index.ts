@@ -1,4 +1,27 @@
 
+export type Weekday = 'mon' | 'tue' | 'wed' | 'thu' | 'fri' | 'sat' | 'sun';
+
+export interface TimeRange {
+  open: string; // "HH:mm", 24-hour clock
+  close: string; // "HH:mm"; "24:00" for midnight, earlier than open for overnight ranges
+}
+
+// Opening ranges for each day of the week; an empty list means closed
+export type WeeklyHours = Record<Weekday, TimeRange[]>;
+
+// Replaces the weekly hours on one calendar date (public holidays, festivals)
+export interface HolidayHours {
+  date: string; // "YYYY-MM-DD"
+  label?: string; // e.g. "Pongal"
+  ranges: TimeRange[]; // empty means closed all day
+}
+
+// Where a user submission stands with the moderators. Content without a
+// status predates moderation and counts as approved.
+export type ModerationStatus = 'pending' | 'approved' | 'rejected';
+
+export type BusinessType = 'gas_station' | 'cafe' | 'restaurant' | 'hotel' | 'bakery' | 'public' | 'other';
+
 export interface Restroom {
   id: string;
   name: string;
@@ -21,11 +44,14 @@ export interface Restroom {
   genderNeutral: boolean;
   reviews: Review[];
   businessInfo?: {
-    type: 'gas_station' | 'cafe' | 'restaurant' | 'hotel' | 'bakery' | 'public' | 'other';
+    type: BusinessType;
     partnerStatus?: 'premium' | 'standard' | 'none';
-    openHours?: string;
+    openHours?: string; // Human-readable summary, e.g. "6:00 AM - 10:00 PM" or "24/7"
+    hours?: WeeklyHours;
+    holidays?: HolidayHours[];
   };
   isNearby?: boolean;
+  status?: ModerationStatus; // Set on restrooms added by users
 }
 
 export interface Review {
@@ -37,6 +63,57 @@ export interface Review {
   date: string; // ISO date string
   cleanliness: number; // 1-5
   images?: string[]; // URLs to images
+  photos?: ReviewPhoto[]; // From the photo pipeline, with thumbnails
+  status?: ModerationStatus;
+  risk?: ReviewRisk; // Set by the spam and abuse check when it is submitted
+  helpfulVotes?: number; // "Helpful" votes from other users
+  reports?: ReviewReportReason[]; // Why users reported it, until a moderator decides
+}
+
+export type RiskFlag = 'profanity' | 'link' | 'phone' | 'duplicate' | 'too_fast' | 'rating_bomb' | 'spam';
+
+// How likely a review is to be spam or abuse, and why
+export interface ReviewRisk {
+  score: number; // 0-1
+  flags: RiskFlag[];
+  held: boolean; // Kept out of sight until a moderator approves it
+}
+
+// A review photo after it was resized, re-encoded without metadata and stored
+export interface ReviewPhoto {
+  url: string;
+  thumbnailUrl: string;
+  width: number;
+  height: number;
+  status?: ModerationStatus; // Photos are moderated one by one
+}
+
+export type CleanlinessStatus = 'clean' | 'needs_attention' | 'dirty';
+
+// A quick "how is it right now" report, lighter than a full review
+export interface CleanlinessReport {
+  id: string;
+  restroomId: string;
+  status: CleanlinessStatus;
+  date: string; // ISO date string
+}
+
+// Someone found a review helpful
+export interface HelpfulVote {
+  restroomId: string;
+  reviewId: string;
+  date: string; // ISO date string
+}
+
+export type ReviewReportReason = 'spam' | 'offensive' | 'irrelevant' | 'fake' | 'other';
+
+// Someone flagged a review for the moderators
+export interface ReviewReport {
+  id: string;
+  restroomId: string;
+  reviewId: string;
+  reason: ReviewReportReason;
+  date: string; // ISO date string
 }
 
 export interface ChatMessage {
@@ -44,7 +121,9 @@ export interface ChatMessage {
   content: string;
   sender: 'user' | 'bot';
   timestamp: string;
-  navigateQuery?: string; // Added for navigation feature
+  // Restrooms the message talks about, shown on the map on request
+  restroomIds?: string[];
+  focusId?: string;
 }
 
 export interface Notification {
@@ -1 +1,35 @@
 /// <reference types="vite/client" />
+
+interface ImportMetaEnv {
+  // Base URL of a restroom backend; when set, the HTTP repository is used
+  readonly VITE_RESTROOM_API_URL?: string;
+  // Where user additions are kept; defaults to IndexedDB
+  readonly VITE_RESTROOM_STORE?: "memory" | "local" | "indexeddb";
+  // Backend that restrooms queued in IndexedDB are synced to
+  readonly VITE_RESTROOM_SYNC_URL?: string;
+  // Nominatim-compatible geocoding service; the offline gazetteer is used without it
+  readonly VITE_GEOCODER_URL?: string;
+  // OSRM or Valhalla server for directions; the public OSRM demo is used without it
+  readonly VITE_ROUTING_URL?: string;
+  readonly VITE_ROUTING_PROVIDER?: "osrm" | "valhalla";
+  // Map tile URL template with {z}/{x}/{y}; defaults to openstreetmap.org.
+  // Offline regions are only offered with it set, so it must allow bulk downloads
+  readonly VITE_TILE_URL?: string;
+  // Server review photos are uploaded to; defaults to the restroom backend,
+  // and without either photos are kept inline with their review
+  readonly VITE_PHOTO_UPLOAD_URL?: string;
+  // OpenAI-compatible chat completions server and model for the Chatbot;
+  // the offline rule-based assistant answers without them
+  readonly VITE_LLM_BASE_URL?: string;
+  readonly VITE_LLM_MODEL?: string;
+  // Sent as a bearer token; anything built into the app is public, so use a
+  // proxy or a key scoped to this app
+  readonly VITE_LLM_API_KEY?: string;
+  // "true" serves the moderation page at /admin in production builds. It is
+  // open to anyone who finds it, so only for deployments behind access control
+  readonly VITE_ENABLE_ADMIN?: string;
+}
+
+interface ImportMeta {
+  readonly env: ImportMetaEnv;
+}